@@ -1,9 +1,12 @@
 namespace Glyloop.API.Contracts.Account;
 
 /// <summary>
-/// User's Time in Range (TIR) preferences.
+/// User's Time in Range (TIR) and display preferences.
 /// </summary>
 public record PreferencesResponse(
     int TirLowerBound,
-    int TirUpperBound);
+    int TirUpperBound,
+    int TirVeryLowBound,
+    int TirVeryHighBound,
+    string GlucoseUnit);
 
@@ -3,7 +3,7 @@ using System.ComponentModel.DataAnnotations;
 namespace Glyloop.API.Contracts.Account;
 
 /// <summary>
-/// Request to update user's Time in Range preferences.
+/// Request to update user's Time in Range and display preferences.
 /// </summary>
 public record UpdatePreferencesRequest
 {
@@ -21,5 +21,25 @@ public record UpdatePreferencesRequest
     [Required]
     [Range(0, 1000, ErrorMessage = "TIR upper bound must be between 0 and 1000 mg/dL")]
     public required int TirUpperBound { get; init; }
+
+    /// <summary>
+    /// Very low threshold in mg/dL (0-1000), below the lower bound.
+    /// Defaults to 54 mg/dL when omitted.
+    /// </summary>
+    [Range(0, 1000, ErrorMessage = "TIR very low bound must be between 0 and 1000 mg/dL")]
+    public int TirVeryLowBound { get; init; } = 54;
+
+    /// <summary>
+    /// Very high threshold in mg/dL (0-1000), above the upper bound.
+    /// Defaults to 250 mg/dL when omitted.
+    /// </summary>
+    [Range(0, 1000, ErrorMessage = "TIR very high bound must be between 0 and 1000 mg/dL")]
+    public int TirVeryHighBound { get; init; } = 250;
+
+    /// <summary>
+    /// Unit glucose values are displayed in ("mg/dL" or "mmol/L").
+    /// Bounds are always sent in mg/dL. Defaults to mg/dL when omitted.
+    /// </summary>
+    public string GlucoseUnit { get; init; } = "mg/dL";
 }
 
@@ -2,6 +2,7 @@ namespace Glyloop.API.Contracts.Chart;
 
 /// <summary>
 /// Response containing Time in Range statistics for a time window.
+/// ReadingsVeryLow and ReadingsVeryHigh are subsets of the below/above range counts.
 /// </summary>
 public record TimeInRangeResponse(
     decimal TimeInRangePercentage,
@@ -9,8 +10,12 @@ public record TimeInRangeResponse(
     int ReadingsInRange,
     int ReadingsBelowRange,
     int ReadingsAboveRange,
+    int ReadingsVeryLow,
+    int ReadingsVeryHigh,
     int TargetLowerBound,
     int TargetUpperBound,
+    int VeryLowBound,
+    int VeryHighBound,
     DateTimeOffset StartTime,
     DateTimeOffset EndTime);
 
@@ -26,7 +26,7 @@ public record CreateFoodEventRequest
     public int? MealTagId { get; init; }
 
     /// <summary>
-    /// Absorption hint (Fast, Medium, Slow).
+    /// Absorption hint (Rapid, Normal, Slow, Other).
     /// </summary>
     public string? AbsorptionHint { get; init; }
 
@@ -7,5 +7,7 @@ public record EventListItemResponse(
     Guid EventId,
     string EventType,
     DateTimeOffset EventTime,
-    string Summary);
+    string Summary,
+    string? Note,
+    string? NoteText);
 
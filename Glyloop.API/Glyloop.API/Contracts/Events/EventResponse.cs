@@ -1,8 +1,15 @@
+using System.Text.Json.Serialization;
+
 namespace Glyloop.API.Contracts.Events;
 
 /// <summary>
 /// Base response for event data.
+/// Derived types are registered so lists of events serialize with their type-specific fields.
 /// </summary>
+[JsonDerivedType(typeof(FoodEventResponse))]
+[JsonDerivedType(typeof(InsulinEventResponse))]
+[JsonDerivedType(typeof(ExerciseEventResponse))]
+[JsonDerivedType(typeof(NoteEventResponse))]
 public record EventResponse(
     Guid EventId,
     string EventType,
@@ -30,10 +30,10 @@ public class AccountController : ControllerBase
     }
 
     /// <summary>
-    /// Gets the current user's Time in Range (TIR) preferences.
+    /// Gets the current user's Time in Range (TIR) and display unit preferences.
     /// </summary>
     /// <param name="cancellationToken">Cancellation token</param>
-    /// <returns>User's TIR preferences</returns>
+    /// <returns>User's TIR bounds and glucose display unit</returns>
     /// <response code="200">Preferences retrieved successfully</response>
     /// <response code="401">User not authenticated</response>
     /// <response code="404">User preferences not found</response>
@@ -62,13 +62,13 @@ public class AccountController : ControllerBase
     }
 
     /// <summary>
-    /// Updates the current user's Time in Range (TIR) preferences.
+    /// Updates the current user's Time in Range (TIR) and display unit preferences.
     /// </summary>
-    /// <param name="request">Updated TIR preferences</param>
+    /// <param name="request">Updated TIR bounds and glucose display unit</param>
     /// <param name="cancellationToken">Cancellation token</param>
     /// <returns>No content on success</returns>
     /// <response code="200">Preferences updated successfully</response>
-    /// <response code="400">Invalid TIR range (lower must be less than upper)</response>
+    /// <response code="400">Invalid TIR range (lower must be less than upper) or unknown glucose unit</response>
     /// <response code="401">User not authenticated</response>
     [HttpPut("preferences")]
     [ProducesResponseType(StatusCodes.Status200OK)]
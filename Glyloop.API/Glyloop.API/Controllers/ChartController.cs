@@ -31,10 +31,12 @@ public class ChartController : ControllerBase
     /// Retrieves glucose data and event overlays for chart visualization.
     /// </summary>
     /// <param name="range">Time range (1h, 3h, 5h, 8h, 12h, 24h). Default: 3h</param>
+    /// <param name="startTime">Start of an explicit window (requires endTime; overrides range)</param>
+    /// <param name="endTime">End of an explicit window (requires startTime; overrides range)</param>
     /// <param name="cancellationToken">Cancellation token</param>
     /// <returns>Glucose data points and event overlay markers</returns>
     /// <response code="200">Chart data retrieved successfully</response>
-    /// <response code="400">Invalid time range</response>
+    /// <response code="400">Invalid time range or window</response>
     /// <response code="401">User not authenticated</response>
     /// <remarks>
     /// Supported time ranges:
@@ -45,6 +47,9 @@ public class ChartController : ControllerBase
     /// - 12: Last 12 hours
     /// - 24: Last 24 hours
     /// 
+    /// Alternatively pass startTime and endTime (ISO 8601) for an explicit window of up to
+    /// 92 days, e.g. a historical period or a multi-day report.
+    /// 
     /// Gaps in glucose data are shown as breaks in the chart.
     /// Y-axis is dynamically clamped to [50, 350] mg/dL.
     /// No smoothing is applied to glucose values.
@@ -55,9 +60,16 @@ public class ChartController : ControllerBase
     [ProducesResponseType(typeof(ProblemDetails), StatusCodes.Status401Unauthorized)]
     public async Task<ActionResult<ChartDataResponse>> GetChartData(
         [FromQuery] string range = "3",
+        [FromQuery] DateTimeOffset? startTime = null,
+        [FromQuery] DateTimeOffset? endTime = null,
         CancellationToken cancellationToken = default)
     {
-        var query = range.ToQuery();
+        if (startTime.HasValue != endTime.HasValue)
+        {
+            return IncompleteWindow();
+        }
+
+        var query = range.ToQuery(startTime, endTime);
         var result = await _mediator.Send(query, cancellationToken);
 
         if (result.IsFailure)
@@ -78,10 +90,12 @@ public class ChartController : ControllerBase
     /// Calculates Time in Range (TIR) statistics for the specified time window.
     /// </summary>
     /// <param name="range">Time range in hours (1, 3, 5, 8, 12, 24). Default: 3</param>
+    /// <param name="startTime">Start of an explicit window (requires endTime; overrides range)</param>
+    /// <param name="endTime">End of an explicit window (requires startTime; overrides range)</param>
     /// <param name="cancellationToken">Cancellation token</param>
     /// <returns>TIR percentage and detailed readings breakdown</returns>
     /// <response code="200">TIR statistics calculated successfully</response>
-    /// <response code="400">Invalid time range</response>
+    /// <response code="400">Invalid time range or window</response>
     /// <response code="401">User not authenticated</response>
     /// <remarks>
     /// TIR is calculated using the user's configured target range (default: 70-180 mg/dL).
@@ -100,9 +114,16 @@ public class ChartController : ControllerBase
     [ProducesResponseType(typeof(ProblemDetails), StatusCodes.Status401Unauthorized)]
     public async Task<ActionResult<TimeInRangeResponse>> GetTimeInRange(
         [FromQuery] string range = "3",
+        [FromQuery] DateTimeOffset? startTime = null,
+        [FromQuery] DateTimeOffset? endTime = null,
         CancellationToken cancellationToken = default)
     {
-        var query = range.ToTirQuery();
+        if (startTime.HasValue != endTime.HasValue)
+        {
+            return IncompleteWindow();
+        }
+
+        var query = range.ToTirQuery(startTime, endTime);
         var result = await _mediator.Send(query, cancellationToken);
 
         if (result.IsFailure)
@@ -118,5 +139,14 @@ public class ChartController : ControllerBase
         var response = result.Value.ToResponse();
         return Ok(response);
     }
-}
 
+    private BadRequestObjectResult IncompleteWindow()
+    {
+        return BadRequest(new ProblemDetails
+        {
+            Title = "Query Failed",
+            Detail = "Start time and end time must be provided together.",
+            Status = StatusCodes.Status400BadRequest
+        });
+    }
+}
@@ -1,6 +1,7 @@
 using Glyloop.API.Contracts.Events;
 using Glyloop.API.Mapping;
 using Glyloop.Application.Common.Interfaces;
+using Glyloop.Domain.Common;
 using Glyloop.Domain.Enums;
 using MediatR;
 using Microsoft.AspNetCore.Authorization;
@@ -164,14 +165,203 @@ public class EventsController : ControllerBase
         return CreatedAtAction(nameof(GetEventById), new { id = response!.EventId }, response);
     }
 
+    /// <summary>
+    /// Corrects the details of an existing food event.
+    /// </summary>
+    /// <param name="id">Event unique identifier</param>
+    /// <param name="request">Corrected food event details</param>
+    /// <param name="cancellationToken">Cancellation token</param>
+    /// <returns>Updated food event</returns>
+    /// <response code="200">Food event updated successfully</response>
+    /// <response code="400">Invalid input (future time, invalid carbs, etc.)</response>
+    /// <response code="401">User not authenticated</response>
+    /// <response code="404">Food event not found</response>
+    [HttpPut("food/{id:guid}")]
+    [ProducesResponseType(typeof(FoodEventResponse), StatusCodes.Status200OK)]
+    [ProducesResponseType(typeof(ProblemDetails), StatusCodes.Status400BadRequest)]
+    [ProducesResponseType(typeof(ProblemDetails), StatusCodes.Status401Unauthorized)]
+    [ProducesResponseType(typeof(ProblemDetails), StatusCodes.Status404NotFound)]
+    public async Task<ActionResult<FoodEventResponse>> UpdateFoodEvent(
+        [FromRoute] Guid id,
+        [FromBody] CreateFoodEventRequest request,
+        CancellationToken cancellationToken)
+    {
+        var command = request.ToUpdateCommand(id);
+        var result = await _mediator.Send(command, cancellationToken);
+
+        if (result.IsFailure)
+        {
+            return EventChangeFailed(result.Error, "Event Update Failed");
+        }
+
+        var response = result.Value.ToResponse() as FoodEventResponse;
+        return Ok(response);
+    }
+
+    /// <summary>
+    /// Corrects the details of an existing insulin event.
+    /// </summary>
+    /// <param name="id">Event unique identifier</param>
+    /// <param name="request">Corrected insulin event details</param>
+    /// <param name="cancellationToken">Cancellation token</param>
+    /// <returns>Updated insulin event</returns>
+    /// <response code="200">Insulin event updated successfully</response>
+    /// <response code="400">Invalid input (future time, invalid dose, etc.)</response>
+    /// <response code="401">User not authenticated</response>
+    /// <response code="404">Insulin event not found</response>
+    [HttpPut("insulin/{id:guid}")]
+    [ProducesResponseType(typeof(InsulinEventResponse), StatusCodes.Status200OK)]
+    [ProducesResponseType(typeof(ProblemDetails), StatusCodes.Status400BadRequest)]
+    [ProducesResponseType(typeof(ProblemDetails), StatusCodes.Status401Unauthorized)]
+    [ProducesResponseType(typeof(ProblemDetails), StatusCodes.Status404NotFound)]
+    public async Task<ActionResult<InsulinEventResponse>> UpdateInsulinEvent(
+        [FromRoute] Guid id,
+        [FromBody] CreateInsulinEventRequest request,
+        CancellationToken cancellationToken)
+    {
+        var command = request.ToUpdateCommand(id);
+        var result = await _mediator.Send(command, cancellationToken);
+
+        if (result.IsFailure)
+        {
+            return EventChangeFailed(result.Error, "Event Update Failed");
+        }
+
+        var response = result.Value.ToResponse() as InsulinEventResponse;
+        return Ok(response);
+    }
+
+    /// <summary>
+    /// Corrects the details of an existing exercise event.
+    /// </summary>
+    /// <param name="id">Event unique identifier</param>
+    /// <param name="request">Corrected exercise event details</param>
+    /// <param name="cancellationToken">Cancellation token</param>
+    /// <returns>Updated exercise event</returns>
+    /// <response code="200">Exercise event updated successfully</response>
+    /// <response code="400">Invalid input (future time, invalid duration, etc.)</response>
+    /// <response code="401">User not authenticated</response>
+    /// <response code="404">Exercise event not found</response>
+    [HttpPut("exercise/{id:guid}")]
+    [ProducesResponseType(typeof(ExerciseEventResponse), StatusCodes.Status200OK)]
+    [ProducesResponseType(typeof(ProblemDetails), StatusCodes.Status400BadRequest)]
+    [ProducesResponseType(typeof(ProblemDetails), StatusCodes.Status401Unauthorized)]
+    [ProducesResponseType(typeof(ProblemDetails), StatusCodes.Status404NotFound)]
+    public async Task<ActionResult<ExerciseEventResponse>> UpdateExerciseEvent(
+        [FromRoute] Guid id,
+        [FromBody] CreateExerciseEventRequest request,
+        CancellationToken cancellationToken)
+    {
+        var command = request.ToUpdateCommand(id);
+        var result = await _mediator.Send(command, cancellationToken);
+
+        if (result.IsFailure)
+        {
+            return EventChangeFailed(result.Error, "Event Update Failed");
+        }
+
+        var response = result.Value.ToResponse() as ExerciseEventResponse;
+        return Ok(response);
+    }
+
+    /// <summary>
+    /// Corrects the details of an existing note event.
+    /// </summary>
+    /// <param name="id">Event unique identifier</param>
+    /// <param name="request">Corrected note event details</param>
+    /// <param name="cancellationToken">Cancellation token</param>
+    /// <returns>Updated note event</returns>
+    /// <response code="200">Note event updated successfully</response>
+    /// <response code="400">Invalid input (future time, empty note, etc.)</response>
+    /// <response code="401">User not authenticated</response>
+    /// <response code="404">Note event not found</response>
+    [HttpPut("note/{id:guid}")]
+    [ProducesResponseType(typeof(NoteEventResponse), StatusCodes.Status200OK)]
+    [ProducesResponseType(typeof(ProblemDetails), StatusCodes.Status400BadRequest)]
+    [ProducesResponseType(typeof(ProblemDetails), StatusCodes.Status401Unauthorized)]
+    [ProducesResponseType(typeof(ProblemDetails), StatusCodes.Status404NotFound)]
+    public async Task<ActionResult<NoteEventResponse>> UpdateNoteEvent(
+        [FromRoute] Guid id,
+        [FromBody] CreateNoteEventRequest request,
+        CancellationToken cancellationToken)
+    {
+        var command = request.ToUpdateCommand(id);
+        var result = await _mediator.Send(command, cancellationToken);
+
+        if (result.IsFailure)
+        {
+            return EventChangeFailed(result.Error, "Event Update Failed");
+        }
+
+        var response = result.Value.ToResponse() as NoteEventResponse;
+        return Ok(response);
+    }
+
+    /// <summary>
+    /// Deletes an event. The deletion can be undone with the restore endpoint.
+    /// </summary>
+    /// <param name="id">Event unique identifier</param>
+    /// <param name="cancellationToken">Cancellation token</param>
+    /// <response code="204">Event deleted successfully</response>
+    /// <response code="401">User not authenticated</response>
+    /// <response code="404">Event not found</response>
+    [HttpDelete("{id:guid}")]
+    [ProducesResponseType(StatusCodes.Status204NoContent)]
+    [ProducesResponseType(typeof(ProblemDetails), StatusCodes.Status401Unauthorized)]
+    [ProducesResponseType(typeof(ProblemDetails), StatusCodes.Status404NotFound)]
+    public async Task<IActionResult> DeleteEvent(
+        [FromRoute] Guid id,
+        CancellationToken cancellationToken)
+    {
+        var command = id.ToDeleteCommand();
+        var result = await _mediator.Send(command, cancellationToken);
+
+        if (result.IsFailure)
+        {
+            return EventChangeFailed(result.Error, "Event Deletion Failed");
+        }
+
+        return NoContent();
+    }
+
+    /// <summary>
+    /// Restores a deleted event with its original ID and details.
+    /// </summary>
+    /// <param name="id">Event unique identifier</param>
+    /// <param name="cancellationToken">Cancellation token</param>
+    /// <returns>Restored event</returns>
+    /// <response code="200">Event restored successfully</response>
+    /// <response code="401">User not authenticated</response>
+    /// <response code="404">Deleted event not found</response>
+    [HttpPost("{id:guid}/restore")]
+    [ProducesResponseType(typeof(EventResponse), StatusCodes.Status200OK)]
+    [ProducesResponseType(typeof(ProblemDetails), StatusCodes.Status401Unauthorized)]
+    [ProducesResponseType(typeof(ProblemDetails), StatusCodes.Status404NotFound)]
+    public async Task<ActionResult<EventResponse>> RestoreEvent(
+        [FromRoute] Guid id,
+        CancellationToken cancellationToken)
+    {
+        var command = id.ToRestoreCommand();
+        var result = await _mediator.Send(command, cancellationToken);
+
+        if (result.IsFailure)
+        {
+            return EventChangeFailed(result.Error, "Event Restore Failed");
+        }
+
+        var response = result.Value.ToResponse();
+        return Ok(response);
+    }
+
     /// <summary>
     /// Retrieves a paginated list of events with optional filtering.
     /// </summary>
-    /// <param name="eventType">Filter by event type (Food, Insulin, Exercise, Note)</param>
+    /// <param name="eventType">Filter by event type (Food, Insulin, Exercise, Note); repeat for several types</param>
     /// <param name="fromDate">Start of date range filter</param>
     /// <param name="toDate">End of date range filter</param>
     /// <param name="page">Page number (default: 1)</param>
     /// <param name="pageSize">Items per page (default: 20, max: 100)</param>
+    /// <param name="search">Words that must all appear in the summary, note or note text (case-insensitive)</param>
     /// <param name="cancellationToken">Cancellation token</param>
     /// <returns>Paginated list of events</returns>
     /// <response code="200">Events retrieved successfully</response>
@@ -182,14 +372,15 @@ public class EventsController : ControllerBase
     [ProducesResponseType(typeof(ProblemDetails), StatusCodes.Status400BadRequest)]
     [ProducesResponseType(typeof(ProblemDetails), StatusCodes.Status401Unauthorized)]
     public async Task<ActionResult<Contracts.Common.PagedResponse<EventListItemResponse>>> ListEvents(
-        [FromQuery] EventType? eventType = null,
+        [FromQuery] EventType[]? eventType = null,
         [FromQuery] DateTimeOffset? fromDate = null,
         [FromQuery] DateTimeOffset? toDate = null,
         [FromQuery] int page = 1,
         [FromQuery] int pageSize = 20,
+        [FromQuery] string? search = null,
         CancellationToken cancellationToken = default)
     {
-        var query = eventType.ToQuery(fromDate, toDate, page, pageSize);
+        var query = eventType.ToQuery(fromDate, toDate, page, pageSize, search);
         var result = await _mediator.Send(query, cancellationToken);
 
         if (result.IsFailure)
@@ -206,6 +397,45 @@ public class EventsController : ControllerBase
         return Ok(response);
     }
 
+    /// <summary>
+    /// Retrieves every event in a window with its type-specific details.
+    /// Saves analytics views from fetching each listed event separately.
+    /// </summary>
+    /// <param name="eventType">Event types to include (repeat for several); all types when omitted</param>
+    /// <param name="fromDate">Start of the window (inclusive)</param>
+    /// <param name="toDate">End of the window (inclusive, at most 92 days after fromDate)</param>
+    /// <param name="cancellationToken">Cancellation token</param>
+    /// <returns>Events with details, most recent first</returns>
+    /// <response code="200">Events retrieved successfully</response>
+    /// <response code="400">Invalid query parameters</response>
+    /// <response code="401">User not authenticated</response>
+    [HttpGet("details")]
+    [ProducesResponseType(typeof(IReadOnlyList<EventResponse>), StatusCodes.Status200OK)]
+    [ProducesResponseType(typeof(ProblemDetails), StatusCodes.Status400BadRequest)]
+    [ProducesResponseType(typeof(ProblemDetails), StatusCodes.Status401Unauthorized)]
+    public async Task<ActionResult<IReadOnlyList<EventResponse>>> ListEventDetails(
+        [FromQuery] DateTimeOffset fromDate,
+        [FromQuery] DateTimeOffset toDate,
+        [FromQuery] EventType[]? eventType = null,
+        CancellationToken cancellationToken = default)
+    {
+        var query = eventType.ToDetailsQuery(fromDate, toDate);
+        var result = await _mediator.Send(query, cancellationToken);
+
+        if (result.IsFailure)
+        {
+            return BadRequest(new ProblemDetails
+            {
+                Title = "Query Failed",
+                Detail = result.Error.Message,
+                Status = StatusCodes.Status400BadRequest
+            });
+        }
+
+        var response = result.Value.Select(e => e.ToResponse()).ToList();
+        return Ok(response);
+    }
+
     /// <summary>
     /// Retrieves a specific event by ID.
     /// </summary>
@@ -274,5 +504,28 @@ public class EventsController : ControllerBase
         var response = result.Value.ToResponse();
         return Ok(response);
     }
-}
 
+    /// <summary>
+    /// Maps a failed change to an existing event to a 404 when the event is missing
+    /// or owned by another user, and to a 400 otherwise.
+    /// </summary>
+    private ObjectResult EventChangeFailed(Error error, string title)
+    {
+        if (error.Code is "Event.NotFound" or "Authorization.Forbidden")
+        {
+            return NotFound(new ProblemDetails
+            {
+                Title = "Event Not Found",
+                Detail = error.Message,
+                Status = StatusCodes.Status404NotFound
+            });
+        }
+
+        return BadRequest(new ProblemDetails
+        {
+            Title = title,
+            Detail = error.Message,
+            Status = StatusCodes.Status400BadRequest
+        });
+    }
+}
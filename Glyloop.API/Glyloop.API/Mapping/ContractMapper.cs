@@ -11,10 +11,17 @@ using Glyloop.Application.Commands.Events.AddExerciseEvent;
 using Glyloop.Application.Commands.Events.AddFoodEvent;
 using Glyloop.Application.Commands.Events.AddInsulinEvent;
 using Glyloop.Application.Commands.Events.AddNoteEvent;
+using Glyloop.Application.Commands.Events.DeleteEvent;
+using Glyloop.Application.Commands.Events.RestoreEvent;
+using Glyloop.Application.Commands.Events.UpdateExerciseEvent;
+using Glyloop.Application.Commands.Events.UpdateFoodEvent;
+using Glyloop.Application.Commands.Events.UpdateInsulinEvent;
+using Glyloop.Application.Commands.Events.UpdateNoteEvent;
 using Glyloop.Application.Queries.Chart.GetChartData;
 using Glyloop.Application.Queries.Chart.GetTimeInRange;
 using Glyloop.Application.Queries.Events.GetEventById;
 using Glyloop.Application.Queries.Events.GetEventOutcome;
+using Glyloop.Application.Queries.Events.ListEventDetails;
 using Glyloop.Application.Queries.Events.ListEvents;
 using Glyloop.Domain.Enums;
 using Glyloop.Domain.ValueObjects;
@@ -46,7 +53,10 @@ public static class ContractMapper
     {
         return new UpdatePreferencesCommand(
             LowerBound: request.TirLowerBound,
-            UpperBound: request.TirUpperBound);
+            UpperBound: request.TirUpperBound,
+            VeryLowBound: request.TirVeryLowBound,
+            VeryHighBound: request.TirVeryHighBound,
+            GlucoseUnit: request.GlucoseUnit);
     }
 
     #endregion
@@ -107,19 +117,85 @@ public static class ContractMapper
             Text: request.NoteText);
     }
 
+    public static UpdateFoodEventCommand ToUpdateCommand(this CreateFoodEventRequest request, Guid eventId)
+    {
+        return new UpdateFoodEventCommand(
+            EventId: eventId,
+            EventTime: request.EventTime,
+            CarbohydratesGrams: request.CarbohydratesGrams,
+            MealTagId: request.MealTagId,
+            AbsorptionHint: ParseAbsorptionHint(request.AbsorptionHint),
+            Note: request.Note);
+    }
+
+    public static UpdateInsulinEventCommand ToUpdateCommand(this CreateInsulinEventRequest request, Guid eventId)
+    {
+        return new UpdateInsulinEventCommand(
+            EventId: eventId,
+            EventTime: request.EventTime,
+            InsulinType: ParseInsulinType(request.InsulinType),
+            Units: request.InsulinUnits,
+            Preparation: request.Preparation,
+            Delivery: request.Delivery,
+            Timing: request.Timing,
+            Note: request.Note);
+    }
+
+    public static UpdateExerciseEventCommand ToUpdateCommand(this CreateExerciseEventRequest request, Guid eventId)
+    {
+        return new UpdateExerciseEventCommand(
+            EventId: eventId,
+            EventTime: request.EventTime,
+            ExerciseTypeId: request.ExerciseTypeId,
+            DurationMinutes: request.DurationMinutes,
+            Intensity: ParseIntensityType(request.Intensity),
+            Note: request.Note);
+    }
+
+    public static UpdateNoteEventCommand ToUpdateCommand(this CreateNoteEventRequest request, Guid eventId)
+    {
+        return new UpdateNoteEventCommand(
+            EventId: eventId,
+            EventTime: request.EventTime,
+            Text: request.NoteText);
+    }
+
+    public static DeleteEventCommand ToDeleteCommand(this Guid eventId)
+    {
+        return new DeleteEventCommand(EventId: eventId);
+    }
+
+    public static RestoreEventCommand ToRestoreCommand(this Guid eventId)
+    {
+        return new RestoreEventCommand(EventId: eventId);
+    }
+
     public static ListEventsQuery ToQuery(
-        this EventType? eventType,
+        this EventType[]? eventTypes,
         DateTimeOffset? fromDate,
         DateTimeOffset? toDate,
         int page,
-        int pageSize)
+        int pageSize,
+        string? search)
     {
         return new ListEventsQuery(
-            EventType: eventType,
+            EventTypes: eventTypes?.Distinct().ToList() ?? new List<EventType>(),
             FromDate: fromDate,
             ToDate: toDate,
             Page: page,
-            PageSize: pageSize);
+            PageSize: pageSize,
+            Search: string.IsNullOrWhiteSpace(search) ? null : search.Trim());
+    }
+
+    public static ListEventDetailsQuery ToDetailsQuery(
+        this EventType[]? eventTypes,
+        DateTimeOffset fromDate,
+        DateTimeOffset toDate)
+    {
+        return new ListEventDetailsQuery(
+            EventTypes: eventTypes?.Distinct().ToList() ?? new List<EventType>(),
+            FromDate: fromDate,
+            ToDate: toDate);
     }
 
     public static GetEventByIdQuery ToQuery(this Guid eventId)
@@ -136,14 +212,26 @@ public static class ContractMapper
 
     #region Chart Mappings
 
-    public static GetChartDataQuery ToQuery(this string range)
+    public static GetChartDataQuery ToQuery(
+        this string range,
+        DateTimeOffset? startTime = null,
+        DateTimeOffset? endTime = null)
     {
-        return new GetChartDataQuery(Range: range);
+        return new GetChartDataQuery(
+            Range: range,
+            StartTime: startTime,
+            EndTime: endTime);
     }
 
-    public static GetTimeInRangeQuery ToTirQuery(this string range)
+    public static GetTimeInRangeQuery ToTirQuery(
+        this string range,
+        DateTimeOffset? startTime = null,
+        DateTimeOffset? endTime = null)
     {
-        var (fromTime, toTime) = ParseTimeRange(range);
+        // An explicit window takes precedence over the range ending now
+        var (fromTime, toTime) = startTime.HasValue && endTime.HasValue
+            ? (startTime.Value, endTime.Value)
+            : ParseTimeRange(range);
         return new GetTimeInRangeQuery(
             FromTime: fromTime,
             ToTime: toTime);
@@ -51,7 +51,10 @@ public static class ResponseMapper
     {
         return new PreferencesResponse(
             TirLowerBound: dto.TirLowerBound,
-            TirUpperBound: dto.TirUpperBound);
+            TirUpperBound: dto.TirUpperBound,
+            TirVeryLowBound: dto.TirVeryLowBound,
+            TirVeryHighBound: dto.TirVeryHighBound,
+            GlucoseUnit: dto.GlucoseUnit);
     }
 
     #endregion
@@ -137,7 +140,9 @@ public static class ResponseMapper
             EventId: dto.EventId,
             EventType: dto.EventType.ToString(),
             EventTime: dto.EventTime,
-            Summary: dto.Summary);
+            Summary: dto.Summary,
+            Note: dto.Note,
+            NoteText: dto.NoteText);
     }
 
     public static PagedResponse<EventListItemResponse> ToPagedResponse(
@@ -195,19 +200,20 @@ public static class ResponseMapper
 
     public static TimeInRangeResponse ToResponse(this TimeInRangeDto dto)
     {
-        var readingsBelowRange = dto.TotalReadings > 0 ? dto.TotalReadings - dto.InRangeCount - (dto.TotalReadings - dto.InRangeCount) : 0;
-        var readingsAboveRange = dto.TotalReadings - dto.InRangeCount - readingsBelowRange;
-
         return new TimeInRangeResponse(
             TimeInRangePercentage: dto.TirPercentage ?? 0m,
             TotalReadings: dto.TotalReadings,
             ReadingsInRange: dto.InRangeCount,
-            ReadingsBelowRange: readingsBelowRange,
-            ReadingsAboveRange: readingsAboveRange,
+            ReadingsBelowRange: dto.BelowRangeCount,
+            ReadingsAboveRange: dto.AboveRangeCount,
+            ReadingsVeryLow: dto.VeryLowCount,
+            ReadingsVeryHigh: dto.VeryHighCount,
             TargetLowerBound: dto.LowerBound,
             TargetUpperBound: dto.UpperBound,
-            StartTime: DateTimeOffset.UtcNow.AddHours(-3), // Default to 3 hours ago
-            EndTime: DateTimeOffset.UtcNow);
+            VeryLowBound: dto.VeryLowBound,
+            VeryHighBound: dto.VeryHighBound,
+            StartTime: dto.StartTime,
+            EndTime: dto.EndTime);
     }
 
     #endregion
@@ -5,10 +5,14 @@ using MediatR;
 namespace Glyloop.Application.Commands.Account.UpdatePreferences;
 
 /// <summary>
-/// Command to update user's Time in Range preferences.
-/// Updates the glucose range bounds used for TIR calculations.
+/// Command to update user's Time in Range and display preferences.
+/// Updates the glucose range bounds and very low/high thresholds used for TIR calculations
+/// and the display unit.
 /// </summary>
 public record UpdatePreferencesCommand(
     int LowerBound,
-    int UpperBound) : IRequest<Result<UserPreferencesDto>>;
+    int UpperBound,
+    int VeryLowBound,
+    int VeryHighBound,
+    string GlucoseUnit) : IRequest<Result<UserPreferencesDto>>;
 
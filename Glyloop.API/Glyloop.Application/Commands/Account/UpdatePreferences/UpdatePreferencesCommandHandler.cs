@@ -8,7 +8,7 @@ namespace Glyloop.Application.Commands.Account.UpdatePreferences;
 
 /// <summary>
 /// Handler for UpdatePreferencesCommand.
-/// Updates the user's TIR range preferences.
+/// Updates the user's TIR range, very low/high thresholds and display unit preferences.
 /// </summary>
 public class UpdatePreferencesCommandHandler : IRequestHandler<UpdatePreferencesCommand, Result<UserPreferencesDto>>
 {
@@ -35,9 +35,15 @@ public class UpdatePreferencesCommandHandler : IRequestHandler<UpdatePreferences
             return Result.Failure<UserPreferencesDto>(tirRangeResult.Error);
         }
 
+        var preferences = new UserPreferences(
+            tirRangeResult.Value,
+            request.VeryLowBound,
+            request.VeryHighBound,
+            request.GlucoseUnit);
+
         var updateResult = await _identityService.UpdateUserPreferencesAsync(
             userId,
-            tirRangeResult.Value,
+            preferences,
             cancellationToken);
 
         if (updateResult.IsFailure)
@@ -47,8 +53,11 @@ public class UpdatePreferencesCommandHandler : IRequestHandler<UpdatePreferences
 
         var dto = new UserPreferencesDto(
             userId.Value,
-            tirRangeResult.Value.Lower,
-            tirRangeResult.Value.Upper);
+            preferences.TirRange.Lower,
+            preferences.TirRange.Upper,
+            preferences.VeryLowBound,
+            preferences.VeryHighBound,
+            preferences.GlucoseUnit);
 
         return Result.Success(dto);
     }
@@ -1,10 +1,11 @@
 using FluentValidation;
+using Glyloop.Application.Common.Interfaces;
 
 namespace Glyloop.Application.Commands.Account.UpdatePreferences;
 
 /// <summary>
 /// Validator for UpdatePreferencesCommand.
-/// Validates TIR range bounds and cross-field validation.
+/// Validates TIR range bounds, the very low/high thresholds around them and the display unit.
 /// </summary>
 public class UpdatePreferencesCommandValidator : AbstractValidator<UpdatePreferencesCommand>
 {
@@ -22,6 +23,22 @@ public class UpdatePreferencesCommandValidator : AbstractValidator<UpdatePrefere
             .Must(x => x.LowerBound < x.UpperBound)
             .WithMessage("Lower bound must be less than upper bound.")
             .When(x => x.LowerBound >= 0 && x.UpperBound <= 1000);
+
+        RuleFor(x => x.VeryLowBound)
+            .InclusiveBetween(0, 1000)
+            .WithMessage("Very low threshold must be between 0 and 1000 mg/dL.")
+            .LessThan(x => x.LowerBound)
+            .WithMessage("Very low threshold must be less than lower bound.");
+
+        RuleFor(x => x.VeryHighBound)
+            .InclusiveBetween(0, 1000)
+            .WithMessage("Very high threshold must be between 0 and 1000 mg/dL.")
+            .GreaterThan(x => x.UpperBound)
+            .WithMessage("Very high threshold must be greater than upper bound.");
+
+        RuleFor(x => x.GlucoseUnit)
+            .Must(unit => GlucoseUnits.All.Contains(unit))
+            .WithMessage("Glucose unit must be mg/dL or mmol/L.");
     }
 }
 
@@ -0,0 +1,11 @@
+using Glyloop.Domain.Common;
+using MediatR;
+
+namespace Glyloop.Application.Commands.Events.DeleteEvent;
+
+/// <summary>
+/// Command to delete an event of any type.
+/// The event is soft-deleted so it can be restored with RestoreEventCommand.
+/// </summary>
+public record DeleteEventCommand(
+    Guid EventId) : IRequest<Result>;
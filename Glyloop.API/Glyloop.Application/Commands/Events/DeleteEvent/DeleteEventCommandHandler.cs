@@ -0,0 +1,62 @@
+using Glyloop.Application.Common.Interfaces;
+using Glyloop.Domain.Common;
+using Glyloop.Domain.Repositories;
+using Glyloop.Domain.ValueObjects;
+using MediatR;
+
+namespace Glyloop.Application.Commands.Events.DeleteEvent;
+
+/// <summary>
+/// Handler for DeleteEventCommand.
+/// Verifies ownership and marks the event as deleted.
+/// </summary>
+public class DeleteEventCommandHandler : IRequestHandler<DeleteEventCommand, Result>
+{
+    private readonly IEventRepository _eventRepository;
+    private readonly IUnitOfWork _unitOfWork;
+    private readonly ICurrentUserService _currentUserService;
+    private readonly ITimeProvider _timeProvider;
+
+    public DeleteEventCommandHandler(
+        IEventRepository eventRepository,
+        IUnitOfWork unitOfWork,
+        ICurrentUserService currentUserService,
+        ITimeProvider timeProvider)
+    {
+        _eventRepository = eventRepository;
+        _unitOfWork = unitOfWork;
+        _currentUserService = currentUserService;
+        _timeProvider = timeProvider;
+    }
+
+    public async Task<Result> Handle(
+        DeleteEventCommand request,
+        CancellationToken cancellationToken)
+    {
+        var userId = UserId.Create(_currentUserService.UserId);
+
+        var @event = await _eventRepository.GetByIdAsync(request.EventId, cancellationToken);
+
+        if (@event == null)
+        {
+            return Result.Failure(
+                Error.Create("Event.NotFound", "Event not found."));
+        }
+
+        if (@event.UserId.Value != userId.Value)
+        {
+            return Result.Failure(
+                Error.Create("Authorization.Forbidden", "User does not own this event."));
+        }
+
+        var deleteResult = @event.Delete(_timeProvider);
+        if (deleteResult.IsFailure)
+        {
+            return deleteResult;
+        }
+
+        await _unitOfWork.SaveEntitiesAsync(cancellationToken);
+
+        return Result.Success();
+    }
+}
@@ -0,0 +1,16 @@
+using FluentValidation;
+
+namespace Glyloop.Application.Commands.Events.DeleteEvent;
+
+/// <summary>
+/// Validator for DeleteEventCommand.
+/// </summary>
+public class DeleteEventCommandValidator : AbstractValidator<DeleteEventCommand>
+{
+    public DeleteEventCommandValidator()
+    {
+        RuleFor(x => x.EventId)
+            .NotEmpty()
+            .WithMessage("Event ID is required.");
+    }
+}
@@ -0,0 +1,12 @@
+using Glyloop.Application.DTOs.Events;
+using Glyloop.Domain.Common;
+using MediatR;
+
+namespace Glyloop.Application.Commands.Events.RestoreEvent;
+
+/// <summary>
+/// Command to undo the deletion of an event.
+/// The event comes back with its original ID and details.
+/// </summary>
+public record RestoreEventCommand(
+    Guid EventId) : IRequest<Result<EventDto>>;
@@ -0,0 +1,60 @@
+using Glyloop.Application.Common.Interfaces;
+using Glyloop.Application.DTOs.Events;
+using Glyloop.Domain.Common;
+using Glyloop.Domain.Repositories;
+using Glyloop.Domain.ValueObjects;
+using MediatR;
+
+namespace Glyloop.Application.Commands.Events.RestoreEvent;
+
+/// <summary>
+/// Handler for RestoreEventCommand.
+/// Verifies ownership of the deleted event and clears its deletion.
+/// </summary>
+public class RestoreEventCommandHandler : IRequestHandler<RestoreEventCommand, Result<EventDto>>
+{
+    private readonly IEventRepository _eventRepository;
+    private readonly IUnitOfWork _unitOfWork;
+    private readonly ICurrentUserService _currentUserService;
+
+    public RestoreEventCommandHandler(
+        IEventRepository eventRepository,
+        IUnitOfWork unitOfWork,
+        ICurrentUserService currentUserService)
+    {
+        _eventRepository = eventRepository;
+        _unitOfWork = unitOfWork;
+        _currentUserService = currentUserService;
+    }
+
+    public async Task<Result<EventDto>> Handle(
+        RestoreEventCommand request,
+        CancellationToken cancellationToken)
+    {
+        var userId = UserId.Create(_currentUserService.UserId);
+
+        var @event = await _eventRepository.GetDeletedByIdAsync(request.EventId, cancellationToken);
+
+        if (@event == null)
+        {
+            return Result.Failure<EventDto>(
+                Error.Create("Event.NotFound", "Deleted event not found."));
+        }
+
+        if (@event.UserId.Value != userId.Value)
+        {
+            return Result.Failure<EventDto>(
+                Error.Create("Authorization.Forbidden", "User does not own this event."));
+        }
+
+        var restoreResult = @event.Restore();
+        if (restoreResult.IsFailure)
+        {
+            return Result.Failure<EventDto>(restoreResult.Error);
+        }
+
+        await _unitOfWork.SaveEntitiesAsync(cancellationToken);
+
+        return Result.Success(@event.ToDto());
+    }
+}
@@ -0,0 +1,16 @@
+using FluentValidation;
+
+namespace Glyloop.Application.Commands.Events.RestoreEvent;
+
+/// <summary>
+/// Validator for RestoreEventCommand.
+/// </summary>
+public class RestoreEventCommandValidator : AbstractValidator<RestoreEventCommand>
+{
+    public RestoreEventCommandValidator()
+    {
+        RuleFor(x => x.EventId)
+            .NotEmpty()
+            .WithMessage("Event ID is required.");
+    }
+}
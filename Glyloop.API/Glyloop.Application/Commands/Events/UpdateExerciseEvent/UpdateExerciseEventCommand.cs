@@ -0,0 +1,18 @@
+using Glyloop.Application.DTOs.Events;
+using Glyloop.Domain.Common;
+using Glyloop.Domain.Enums;
+using MediatR;
+
+namespace Glyloop.Application.Commands.Events.UpdateExerciseEvent;
+
+/// <summary>
+/// Command to correct an existing exercise event.
+/// Replaces the exercise type, duration, intensity, time and note.
+/// </summary>
+public record UpdateExerciseEventCommand(
+    Guid EventId,
+    DateTimeOffset EventTime,
+    int ExerciseTypeId,
+    int DurationMinutes,
+    IntensityType? Intensity,
+    string? Note) : IRequest<Result<ExerciseEventDto>>;
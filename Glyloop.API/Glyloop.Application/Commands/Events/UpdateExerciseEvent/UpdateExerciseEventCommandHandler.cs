@@ -0,0 +1,78 @@
+using Glyloop.Application.Common.Interfaces;
+using Glyloop.Application.DTOs.Events;
+using Glyloop.Domain.Aggregates.Event;
+using Glyloop.Domain.Common;
+using Glyloop.Domain.Enums;
+using Glyloop.Domain.Repositories;
+using Glyloop.Domain.ValueObjects;
+using MediatR;
+
+namespace Glyloop.Application.Commands.Events.UpdateExerciseEvent;
+
+/// <summary>
+/// Handler for UpdateExerciseEventCommand.
+/// Verifies ownership, applies the corrected details to the event and saves it.
+/// </summary>
+public class UpdateExerciseEventCommandHandler : IRequestHandler<UpdateExerciseEventCommand, Result<ExerciseEventDto>>
+{
+    private readonly IEventRepository _eventRepository;
+    private readonly IUnitOfWork _unitOfWork;
+    private readonly ICurrentUserService _currentUserService;
+    private readonly ITimeProvider _timeProvider;
+
+    public UpdateExerciseEventCommandHandler(
+        IEventRepository eventRepository,
+        IUnitOfWork unitOfWork,
+        ICurrentUserService currentUserService,
+        ITimeProvider timeProvider)
+    {
+        _eventRepository = eventRepository;
+        _unitOfWork = unitOfWork;
+        _currentUserService = currentUserService;
+        _timeProvider = timeProvider;
+    }
+
+    public async Task<Result<ExerciseEventDto>> Handle(
+        UpdateExerciseEventCommand request,
+        CancellationToken cancellationToken)
+    {
+        var userId = UserId.Create(_currentUserService.UserId);
+
+        var @event = await _eventRepository.GetByIdAsync(request.EventId, cancellationToken);
+
+        if (@event is not ExerciseEvent exerciseEvent)
+        {
+            return Result.Failure<ExerciseEventDto>(
+                Error.Create("Event.NotFound", "Event not found."));
+        }
+
+        if (exerciseEvent.UserId.Value != userId.Value)
+        {
+            return Result.Failure<ExerciseEventDto>(
+                Error.Create("Authorization.Forbidden", "User does not own this event."));
+        }
+
+        var durationResult = ExerciseDuration.Create(request.DurationMinutes);
+        if (durationResult.IsFailure)
+        {
+            return Result.Failure<ExerciseEventDto>(durationResult.Error);
+        }
+
+        var updateResult = exerciseEvent.Update(
+            request.EventTime,
+            ExerciseTypeId.Create(request.ExerciseTypeId),
+            durationResult.Value,
+            request.Intensity ?? IntensityType.Moderate,
+            NoteText.CreateOptional(request.Note),
+            _timeProvider);
+
+        if (updateResult.IsFailure)
+        {
+            return Result.Failure<ExerciseEventDto>(updateResult.Error);
+        }
+
+        await _unitOfWork.SaveEntitiesAsync(cancellationToken);
+
+        return Result.Success((ExerciseEventDto)exerciseEvent.ToDto());
+    }
+}
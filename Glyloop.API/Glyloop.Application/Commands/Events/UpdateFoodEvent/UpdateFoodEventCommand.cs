@@ -0,0 +1,18 @@
+using Glyloop.Application.DTOs.Events;
+using Glyloop.Domain.Common;
+using Glyloop.Domain.Enums;
+using MediatR;
+
+namespace Glyloop.Application.Commands.Events.UpdateFoodEvent;
+
+/// <summary>
+/// Command to correct an existing food intake event.
+/// Replaces the carbohydrate amount, meal tag, absorption hint, time and note.
+/// </summary>
+public record UpdateFoodEventCommand(
+    Guid EventId,
+    DateTimeOffset EventTime,
+    int CarbohydratesGrams,
+    int? MealTagId,
+    AbsorptionHint? AbsorptionHint,
+    string? Note) : IRequest<Result<FoodEventDto>>;
@@ -0,0 +1,77 @@
+using Glyloop.Application.Common.Interfaces;
+using Glyloop.Application.DTOs.Events;
+using Glyloop.Domain.Aggregates.Event;
+using Glyloop.Domain.Common;
+using Glyloop.Domain.Repositories;
+using Glyloop.Domain.ValueObjects;
+using MediatR;
+
+namespace Glyloop.Application.Commands.Events.UpdateFoodEvent;
+
+/// <summary>
+/// Handler for UpdateFoodEventCommand.
+/// Verifies ownership, applies the corrected details to the event and saves it.
+/// </summary>
+public class UpdateFoodEventCommandHandler : IRequestHandler<UpdateFoodEventCommand, Result<FoodEventDto>>
+{
+    private readonly IEventRepository _eventRepository;
+    private readonly IUnitOfWork _unitOfWork;
+    private readonly ICurrentUserService _currentUserService;
+    private readonly ITimeProvider _timeProvider;
+
+    public UpdateFoodEventCommandHandler(
+        IEventRepository eventRepository,
+        IUnitOfWork unitOfWork,
+        ICurrentUserService currentUserService,
+        ITimeProvider timeProvider)
+    {
+        _eventRepository = eventRepository;
+        _unitOfWork = unitOfWork;
+        _currentUserService = currentUserService;
+        _timeProvider = timeProvider;
+    }
+
+    public async Task<Result<FoodEventDto>> Handle(
+        UpdateFoodEventCommand request,
+        CancellationToken cancellationToken)
+    {
+        var userId = UserId.Create(_currentUserService.UserId);
+
+        var @event = await _eventRepository.GetByIdAsync(request.EventId, cancellationToken);
+
+        if (@event is not FoodEvent foodEvent)
+        {
+            return Result.Failure<FoodEventDto>(
+                Error.Create("Event.NotFound", "Event not found."));
+        }
+
+        if (foodEvent.UserId.Value != userId.Value)
+        {
+            return Result.Failure<FoodEventDto>(
+                Error.Create("Authorization.Forbidden", "User does not own this event."));
+        }
+
+        var carbohydratesResult = Carbohydrate.Create(request.CarbohydratesGrams);
+        if (carbohydratesResult.IsFailure)
+        {
+            return Result.Failure<FoodEventDto>(carbohydratesResult.Error);
+        }
+
+        var updateResult = foodEvent.Update(
+            request.EventTime,
+            carbohydratesResult.Value,
+            MealTagId.Create(request.MealTagId ?? 1),
+            request.AbsorptionHint ?? Domain.Enums.AbsorptionHint.Normal,
+            NoteText.CreateOptional(request.Note),
+            _timeProvider);
+
+        if (updateResult.IsFailure)
+        {
+            return Result.Failure<FoodEventDto>(updateResult.Error);
+        }
+
+        await _unitOfWork.SaveEntitiesAsync(cancellationToken);
+
+        return Result.Success((FoodEventDto)foodEvent.ToDto());
+    }
+}
@@ -0,0 +1,20 @@
+using Glyloop.Application.DTOs.Events;
+using Glyloop.Domain.Common;
+using Glyloop.Domain.Enums;
+using MediatR;
+
+namespace Glyloop.Application.Commands.Events.UpdateInsulinEvent;
+
+/// <summary>
+/// Command to correct an existing insulin administration event.
+/// Replaces the insulin type, dose, administration details, time and note.
+/// </summary>
+public record UpdateInsulinEventCommand(
+    Guid EventId,
+    DateTimeOffset EventTime,
+    InsulinType InsulinType,
+    decimal Units,
+    string? Preparation,
+    string? Delivery,
+    string? Timing,
+    string? Note) : IRequest<Result<InsulinEventDto>>;
@@ -0,0 +1,79 @@
+using Glyloop.Application.Common.Interfaces;
+using Glyloop.Application.DTOs.Events;
+using Glyloop.Domain.Aggregates.Event;
+using Glyloop.Domain.Common;
+using Glyloop.Domain.Repositories;
+using Glyloop.Domain.ValueObjects;
+using MediatR;
+
+namespace Glyloop.Application.Commands.Events.UpdateInsulinEvent;
+
+/// <summary>
+/// Handler for UpdateInsulinEventCommand.
+/// Verifies ownership, applies the corrected details to the event and saves it.
+/// </summary>
+public class UpdateInsulinEventCommandHandler : IRequestHandler<UpdateInsulinEventCommand, Result<InsulinEventDto>>
+{
+    private readonly IEventRepository _eventRepository;
+    private readonly IUnitOfWork _unitOfWork;
+    private readonly ICurrentUserService _currentUserService;
+    private readonly ITimeProvider _timeProvider;
+
+    public UpdateInsulinEventCommandHandler(
+        IEventRepository eventRepository,
+        IUnitOfWork unitOfWork,
+        ICurrentUserService currentUserService,
+        ITimeProvider timeProvider)
+    {
+        _eventRepository = eventRepository;
+        _unitOfWork = unitOfWork;
+        _currentUserService = currentUserService;
+        _timeProvider = timeProvider;
+    }
+
+    public async Task<Result<InsulinEventDto>> Handle(
+        UpdateInsulinEventCommand request,
+        CancellationToken cancellationToken)
+    {
+        var userId = UserId.Create(_currentUserService.UserId);
+
+        var @event = await _eventRepository.GetByIdAsync(request.EventId, cancellationToken);
+
+        if (@event is not InsulinEvent insulinEvent)
+        {
+            return Result.Failure<InsulinEventDto>(
+                Error.Create("Event.NotFound", "Event not found."));
+        }
+
+        if (insulinEvent.UserId.Value != userId.Value)
+        {
+            return Result.Failure<InsulinEventDto>(
+                Error.Create("Authorization.Forbidden", "User does not own this event."));
+        }
+
+        var doseResult = InsulinDose.Create(request.Units);
+        if (doseResult.IsFailure)
+        {
+            return Result.Failure<InsulinEventDto>(doseResult.Error);
+        }
+
+        var updateResult = insulinEvent.Update(
+            request.EventTime,
+            request.InsulinType,
+            doseResult.Value,
+            request.Preparation,
+            request.Delivery,
+            request.Timing,
+            NoteText.CreateOptional(request.Note),
+            _timeProvider);
+
+        if (updateResult.IsFailure)
+        {
+            return Result.Failure<InsulinEventDto>(updateResult.Error);
+        }
+
+        await _unitOfWork.SaveEntitiesAsync(cancellationToken);
+
+        return Result.Success((InsulinEventDto)insulinEvent.ToDto());
+    }
+}
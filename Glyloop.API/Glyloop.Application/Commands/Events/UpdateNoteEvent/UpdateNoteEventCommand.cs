@@ -0,0 +1,14 @@
+using Glyloop.Application.DTOs.Events;
+using Glyloop.Domain.Common;
+using MediatR;
+
+namespace Glyloop.Application.Commands.Events.UpdateNoteEvent;
+
+/// <summary>
+/// Command to correct an existing note event.
+/// Replaces the note text and time.
+/// </summary>
+public record UpdateNoteEventCommand(
+    Guid EventId,
+    DateTimeOffset EventTime,
+    string Text) : IRequest<Result<NoteEventDto>>;
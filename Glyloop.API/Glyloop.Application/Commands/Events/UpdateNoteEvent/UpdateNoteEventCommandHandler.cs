@@ -0,0 +1,74 @@
+using Glyloop.Application.Common.Interfaces;
+using Glyloop.Application.DTOs.Events;
+using Glyloop.Domain.Aggregates.Event;
+using Glyloop.Domain.Common;
+using Glyloop.Domain.Repositories;
+using Glyloop.Domain.ValueObjects;
+using MediatR;
+
+namespace Glyloop.Application.Commands.Events.UpdateNoteEvent;
+
+/// <summary>
+/// Handler for UpdateNoteEventCommand.
+/// Verifies ownership, applies the corrected details to the event and saves it.
+/// </summary>
+public class UpdateNoteEventCommandHandler : IRequestHandler<UpdateNoteEventCommand, Result<NoteEventDto>>
+{
+    private readonly IEventRepository _eventRepository;
+    private readonly IUnitOfWork _unitOfWork;
+    private readonly ICurrentUserService _currentUserService;
+    private readonly ITimeProvider _timeProvider;
+
+    public UpdateNoteEventCommandHandler(
+        IEventRepository eventRepository,
+        IUnitOfWork unitOfWork,
+        ICurrentUserService currentUserService,
+        ITimeProvider timeProvider)
+    {
+        _eventRepository = eventRepository;
+        _unitOfWork = unitOfWork;
+        _currentUserService = currentUserService;
+        _timeProvider = timeProvider;
+    }
+
+    public async Task<Result<NoteEventDto>> Handle(
+        UpdateNoteEventCommand request,
+        CancellationToken cancellationToken)
+    {
+        var userId = UserId.Create(_currentUserService.UserId);
+
+        var @event = await _eventRepository.GetByIdAsync(request.EventId, cancellationToken);
+
+        if (@event is not NoteEvent noteEvent)
+        {
+            return Result.Failure<NoteEventDto>(
+                Error.Create("Event.NotFound", "Event not found."));
+        }
+
+        if (noteEvent.UserId.Value != userId.Value)
+        {
+            return Result.Failure<NoteEventDto>(
+                Error.Create("Authorization.Forbidden", "User does not own this event."));
+        }
+
+        var textResult = NoteText.Create(request.Text);
+        if (textResult.IsFailure)
+        {
+            return Result.Failure<NoteEventDto>(textResult.Error);
+        }
+
+        var updateResult = noteEvent.Update(
+            request.EventTime,
+            textResult.Value,
+            _timeProvider);
+
+        if (updateResult.IsFailure)
+        {
+            return Result.Failure<NoteEventDto>(updateResult.Error);
+        }
+
+        await _unitOfWork.SaveEntitiesAsync(cancellationToken);
+
+        return Result.Success((NoteEventDto)noteEvent.ToDto());
+    }
+}
@@ -0,0 +1,28 @@
+using FluentValidation;
+
+namespace Glyloop.Application.Commands.Events.UpdateNoteEvent;
+
+/// <summary>
+/// Validator for UpdateNoteEventCommand.
+/// Validates note text length and event time.
+/// </summary>
+public class UpdateNoteEventCommandValidator : AbstractValidator<UpdateNoteEventCommand>
+{
+    public UpdateNoteEventCommandValidator()
+    {
+        RuleFor(x => x.EventId)
+            .NotEmpty()
+            .WithMessage("Event ID is required.");
+
+        RuleFor(x => x.Text)
+            .NotEmpty()
+            .WithMessage("Note text is required.")
+            .Length(1, 500)
+            .WithMessage("Note text must be between 1 and 500 characters.");
+
+        RuleFor(x => x.EventTime)
+            .LessThanOrEqualTo(DateTimeOffset.UtcNow)
+            .WithMessage("Event time cannot be in the future.");
+    }
+}
+
@@ -27,21 +27,21 @@ public interface IIdentityService
     Task<bool> EmailExistsAsync(string email, CancellationToken cancellationToken = default);
 
     /// <summary>
-    /// Gets user's Time in Range preferences.
+    /// Gets user's Time in Range and display preferences.
     /// </summary>
     /// <param name="userId">User's unique identifier</param>
     /// <param name="cancellationToken">Cancellation token</param>
-    /// <returns>Result containing TirRange or error if user not found</returns>
-    Task<Result<TirRange>> GetUserPreferencesAsync(UserId userId, CancellationToken cancellationToken = default);
+    /// <returns>Result containing the preferences or error if user not found</returns>
+    Task<Result<UserPreferences>> GetUserPreferencesAsync(UserId userId, CancellationToken cancellationToken = default);
 
     /// <summary>
-    /// Updates user's Time in Range preferences.
+    /// Updates user's Time in Range and display preferences.
     /// </summary>
     /// <param name="userId">User's unique identifier</param>
-    /// <param name="tirRange">New TIR range preferences</param>
+    /// <param name="preferences">New preferences</param>
     /// <param name="cancellationToken">Cancellation token</param>
     /// <returns>Result indicating success or failure</returns>
-    Task<Result> UpdateUserPreferencesAsync(UserId userId, TirRange tirRange, CancellationToken cancellationToken = default);
+    Task<Result> UpdateUserPreferencesAsync(UserId userId, UserPreferences preferences, CancellationToken cancellationToken = default);
 
     /// <summary>
     /// Validates user credentials and returns user information if valid.
@@ -53,3 +53,24 @@ public interface IIdentityService
     Task<Result<(Guid UserId, string Email)>> ValidateCredentialsAsync(string email, string password, CancellationToken cancellationToken = default);
 }
 
+/// <summary>
+/// User's stored preferences: the TIR target range, the very low/high thresholds
+/// around it (mg/dL) and the glucose display unit.
+/// </summary>
+public record UserPreferences(
+    TirRange TirRange,
+    int VeryLowBound,
+    int VeryHighBound,
+    string GlucoseUnit);
+
+/// <summary>
+/// Glucose display units accepted in user preferences.
+/// Values are always stored in mg/dL; the unit only affects display.
+/// </summary>
+public static class GlucoseUnits
+{
+    public const string MgDl = "mg/dL";
+    public const string MmolL = "mmol/L";
+
+    public static readonly IReadOnlyList<string> All = new[] { MgDl, MmolL };
+}
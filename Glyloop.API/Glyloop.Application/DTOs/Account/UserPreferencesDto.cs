@@ -6,5 +6,8 @@ namespace Glyloop.Application.DTOs.Account;
 public record UserPreferencesDto(
     Guid UserId,
     int TirLowerBound,
-    int TirUpperBound);
+    int TirUpperBound,
+    int TirVeryLowBound,
+    int TirVeryHighBound,
+    string GlucoseUnit);
 
@@ -2,11 +2,20 @@ namespace Glyloop.Application.DTOs.Chart;
 
 /// <summary>
 /// DTO containing time-in-range calculation results.
+/// Below/above counts include the very low/very high readings.
 /// </summary>
 public record TimeInRangeDto(
     decimal? TirPercentage,
     int TotalReadings,
     int InRangeCount,
+    int BelowRangeCount,
+    int AboveRangeCount,
+    int VeryLowCount,
+    int VeryHighCount,
     int LowerBound,
-    int UpperBound);
+    int UpperBound,
+    int VeryLowBound,
+    int VeryHighBound,
+    DateTimeOffset StartTime,
+    DateTimeOffset EndTime);
 
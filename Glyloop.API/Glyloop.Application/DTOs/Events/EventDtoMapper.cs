@@ -0,0 +1,61 @@
+using Glyloop.Domain.Aggregates.Event;
+
+namespace Glyloop.Application.DTOs.Events;
+
+/// <summary>
+/// Maps Event aggregates to their type-specific DTOs.
+/// </summary>
+public static class EventDtoMapper
+{
+    public static EventDto ToDto(this Event @event)
+    {
+        return @event switch
+        {
+            FoodEvent food => new FoodEventDto(
+                food.Id,
+                food.UserId.Value,
+                food.EventType,
+                food.EventTime,
+                food.CreatedAt,
+                food.Note?.Text,
+                food.Carbohydrates.Grams,
+                food.MealTag.Value,
+                food.AbsorptionHint),
+
+            InsulinEvent insulin => new InsulinEventDto(
+                insulin.Id,
+                insulin.UserId.Value,
+                insulin.EventType,
+                insulin.EventTime,
+                insulin.CreatedAt,
+                insulin.Note?.Text,
+                insulin.InsulinType,
+                insulin.Dose.Units,
+                insulin.Preparation,
+                insulin.Delivery,
+                insulin.Timing),
+
+            ExerciseEvent exercise => new ExerciseEventDto(
+                exercise.Id,
+                exercise.UserId.Value,
+                exercise.EventType,
+                exercise.EventTime,
+                exercise.CreatedAt,
+                exercise.Note?.Text,
+                exercise.ExerciseType.Value,
+                exercise.Duration.Minutes,
+                exercise.Intensity),
+
+            NoteEvent note => new NoteEventDto(
+                note.Id,
+                note.UserId.Value,
+                note.EventType,
+                note.EventTime,
+                note.CreatedAt,
+                null, // Note field is null for NoteEvent (Text is the primary content)
+                note.Text.Text),
+
+            _ => throw new InvalidOperationException($"Unknown event type: {@event.GetType().Name}")
+        };
+    }
+}
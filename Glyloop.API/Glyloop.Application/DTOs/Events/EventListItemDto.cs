@@ -5,10 +5,13 @@ namespace Glyloop.Application.DTOs.Events;
 /// <summary>
 /// Lightweight DTO for event list items.
 /// Used in paginated event history queries.
+/// Note and NoteText are included so clients can show why a search matched.
 /// </summary>
 public record EventListItemDto(
     Guid EventId,
     EventType EventType,
     DateTimeOffset EventTime,
-    string Summary);
+    string Summary,
+    string? Note = null,
+    string? NoteText = null);
 
@@ -5,7 +5,7 @@ using MediatR;
 namespace Glyloop.Application.Queries.Account.GetUserPreferences;
 
 /// <summary>
-/// Query to retrieve the current user's TIR range preferences.
+/// Query to retrieve the current user's TIR range and display unit preferences.
 /// </summary>
 public record GetUserPreferencesQuery : IRequest<Result<UserPreferencesDto>>;
 
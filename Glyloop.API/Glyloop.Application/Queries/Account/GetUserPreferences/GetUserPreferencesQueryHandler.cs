@@ -8,7 +8,7 @@ namespace Glyloop.Application.Queries.Account.GetUserPreferences;
 
 /// <summary>
 /// Handler for GetUserPreferencesQuery.
-/// Retrieves the current user's TIR range preferences.
+/// Retrieves the current user's TIR range and display unit preferences.
 /// </summary>
 public class GetUserPreferencesQueryHandler : IRequestHandler<GetUserPreferencesQuery, Result<UserPreferencesDto>>
 {
@@ -41,8 +41,11 @@ public class GetUserPreferencesQueryHandler : IRequestHandler<GetUserPreferences
         // Map to DTO
         var dto = new UserPreferencesDto(
             userId.Value,
-            preferencesResult.Value.Lower,
-            preferencesResult.Value.Upper);
+            preferencesResult.Value.TirRange.Lower,
+            preferencesResult.Value.TirRange.Upper,
+            preferencesResult.Value.VeryLowBound,
+            preferencesResult.Value.VeryHighBound,
+            preferencesResult.Value.GlucoseUnit);
 
         return Result.Success(dto);
     }
@@ -0,0 +1,12 @@
+namespace Glyloop.Application.Queries.Chart;
+
+/// <summary>
+/// Limits for explicit chart, TIR and event details time windows.
+/// </summary>
+public static class ChartWindowLimits
+{
+    /// <summary>
+    /// Longest explicit window (90-day reports plus the readings around their edges).
+    /// </summary>
+    public const int MaxWindowDays = 92;
+}
@@ -6,8 +6,10 @@ namespace Glyloop.Application.Queries.Chart.GetChartData;
 
 /// <summary>
 /// Query to retrieve glucose data and event overlays for chart display.
-/// Supports various time ranges (1, 3, 5, 8, 12, 24 hours).
+/// Supports various time ranges (1, 3, 5, 8, 12, 24 hours) ending now,
+/// or an explicit StartTime/EndTime window which takes precedence over the range.
 /// </summary>
 public record GetChartDataQuery(
-    string Range) : IRequest<Result<ChartDataDto>>;
-
+    string Range,
+    DateTimeOffset? StartTime = null,
+    DateTimeOffset? EndTime = null) : IRequest<Result<ChartDataDto>>;
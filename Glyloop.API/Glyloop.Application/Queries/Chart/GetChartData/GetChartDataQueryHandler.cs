@@ -41,15 +41,41 @@ public class GetChartDataQueryHandler : IRequestHandler<GetChartDataQuery, Resul
     {
         var userId = UserId.Create(_currentUserService.UserId);
 
-        // Parse range
-        if (!int.TryParse(request.Range, out var hours) || !AllowedRanges.Contains(hours))
+        DateTimeOffset startTime;
+        DateTimeOffset endTime;
+
+        if (request.StartTime.HasValue && request.EndTime.HasValue)
         {
-            return Result.Failure<ChartDataDto>(
-                Error.Create("Chart.InvalidRange", "Range must be one of: 1, 3, 5, 8, 12, 24 hours."));
+            // Explicit window
+            startTime = request.StartTime.Value;
+            endTime = request.EndTime.Value;
+
+            if (startTime >= endTime)
+            {
+                return Result.Failure<ChartDataDto>(
+                    Error.Create("Chart.InvalidWindow", "Start time must be before end time."));
+            }
+
+            if (endTime - startTime > TimeSpan.FromDays(ChartWindowLimits.MaxWindowDays))
+            {
+                return Result.Failure<ChartDataDto>(
+                    Error.Create(
+                        "Chart.InvalidWindow",
+                        $"Window cannot be longer than {ChartWindowLimits.MaxWindowDays} days."));
+            }
         }
+        else
+        {
+            // Parse range
+            if (!int.TryParse(request.Range, out var hours) || !AllowedRanges.Contains(hours))
+            {
+                return Result.Failure<ChartDataDto>(
+                    Error.Create("Chart.InvalidRange", "Range must be one of: 1, 3, 5, 8, 12, 24 hours."));
+            }
 
-        var endTime = _timeProvider.UtcNow;
-        var startTime = endTime.AddHours(-hours);
+            endTime = _timeProvider.UtcNow;
+            startTime = endTime.AddHours(-hours);
+        }
 
         var glucoseResult = await _glucoseReadingService.GetReadingsInRangeAsync(
             userId, startTime, endTime, cancellationToken);
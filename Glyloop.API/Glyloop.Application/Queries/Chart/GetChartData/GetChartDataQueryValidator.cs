@@ -5,7 +5,8 @@ namespace Glyloop.Application.Queries.Chart.GetChartData;
 
 /// <summary>
 /// Validator for GetChartDataQuery.
-/// Validates that range is a supported value.
+/// Validates that range is a supported value, or that an explicit window is
+/// ordered and no longer than the maximum window.
 /// </summary>
 public class GetChartDataQueryValidator : AbstractValidator<GetChartDataQuery>
 {
@@ -17,7 +18,15 @@ public class GetChartDataQueryValidator : AbstractValidator<GetChartDataQuery>
             .NotEmpty()
             .WithMessage("Range is required.")
             .Must(BeValidRange)
-            .WithMessage("Range must be one of: 1, 3, 5, 8, 12, 24 (hours).");
+            .WithMessage("Range must be one of: 1, 3, 5, 8, 12, 24 (hours).")
+            .When(x => x.StartTime is null || x.EndTime is null);
+
+        RuleFor(x => x)
+            .Must(x => x.StartTime!.Value < x.EndTime!.Value)
+            .WithMessage("Start time must be before end time.")
+            .Must(x => x.EndTime!.Value - x.StartTime!.Value <= TimeSpan.FromDays(ChartWindowLimits.MaxWindowDays))
+            .WithMessage($"Window cannot be longer than {ChartWindowLimits.MaxWindowDays} days.")
+            .When(x => x.StartTime.HasValue && x.EndTime.HasValue);
     }
 
     private bool BeValidRange(string range)
@@ -32,13 +32,14 @@ public class GetTimeInRangeQueryHandler : IRequestHandler<GetTimeInRangeQuery, R
     {
         var userId = UserId.Create(_currentUserService.UserId);
 
-        var tirRangeResult = await _identityService.GetUserPreferencesAsync(userId, cancellationToken);
-        if (tirRangeResult.IsFailure)
+        var preferencesResult = await _identityService.GetUserPreferencesAsync(userId, cancellationToken);
+        if (preferencesResult.IsFailure)
         {
-            return Result.Failure<TimeInRangeDto>(tirRangeResult.Error);
+            return Result.Failure<TimeInRangeDto>(preferencesResult.Error);
         }
 
-        var tirRange = tirRangeResult.Value;
+        var preferences = preferencesResult.Value;
+        var tirRange = preferences.TirRange;
 
         var readingsResult = await _glucoseReadingService.GetReadingsInRangeAsync(
             userId,
@@ -55,6 +56,9 @@ public class GetTimeInRangeQueryHandler : IRequestHandler<GetTimeInRangeQuery, R
         var totalReadings = readings.Count;
 
         var inRangeCount = readings.Count(r => tirRange.IsInRange(r.ValueMgDl));
+        var belowRangeCount = readings.Count(r => r.ValueMgDl < tirRange.Lower);
+        var veryLowCount = readings.Count(r => r.ValueMgDl < preferences.VeryLowBound);
+        var veryHighCount = readings.Count(r => r.ValueMgDl > preferences.VeryHighBound);
 
         decimal? tirPercentage = totalReadings > 0
             ? Math.Round((decimal)inRangeCount / totalReadings * 100, 1)
@@ -64,8 +68,16 @@ public class GetTimeInRangeQueryHandler : IRequestHandler<GetTimeInRangeQuery, R
             tirPercentage,
             totalReadings,
             inRangeCount,
+            belowRangeCount,
+            totalReadings - inRangeCount - belowRangeCount,
+            veryLowCount,
+            veryHighCount,
             tirRange.Lower,
-            tirRange.Upper);
+            tirRange.Upper,
+            preferences.VeryLowBound,
+            preferences.VeryHighBound,
+            request.FromTime,
+            request.ToTime);
 
         return Result.Success(dto);
     }
@@ -4,7 +4,7 @@ namespace Glyloop.Application.Queries.Chart.GetTimeInRange;
 
 /// <summary>
 /// Validator for GetTimeInRangeQuery.
-/// Validates time range parameters.
+/// Validates time range parameters (ordered and no longer than the maximum window).
 /// </summary>
 public class GetTimeInRangeQueryValidator : AbstractValidator<GetTimeInRangeQuery>
 {
@@ -21,6 +21,10 @@ public class GetTimeInRangeQueryValidator : AbstractValidator<GetTimeInRangeQuer
         RuleFor(x => x)
             .Must(x => x.FromTime < x.ToTime)
             .WithMessage("From time must be before To time.");
+
+        RuleFor(x => x)
+            .Must(x => x.ToTime - x.FromTime <= TimeSpan.FromDays(ChartWindowLimits.MaxWindowDays))
+            .WithMessage($"Window cannot be longer than {ChartWindowLimits.MaxWindowDays} days.");
     }
 }
 
@@ -1,6 +1,5 @@
 using Glyloop.Application.Common.Interfaces;
 using Glyloop.Application.DTOs.Events;
-using Glyloop.Domain.Aggregates.Event;
 using Glyloop.Domain.Common;
 using Glyloop.Domain.Repositories;
 using Glyloop.Domain.ValueObjects;
@@ -45,56 +44,7 @@ public class GetEventByIdQueryHandler : IRequestHandler<GetEventByIdQuery, Resul
                 Error.Create("Authorization.Forbidden", "User does not own this event."));
         }
 
-        EventDto dto = @event switch
-        {
-            FoodEvent food => new FoodEventDto(
-                food.Id,
-                userId.Value,
-                food.EventType,
-                food.EventTime,
-                food.CreatedAt,
-                food.Note?.Text,
-                food.Carbohydrates.Grams,
-                food.MealTag.Value,
-                food.AbsorptionHint),
-
-            InsulinEvent insulin => new InsulinEventDto(
-                insulin.Id,
-                userId.Value,
-                insulin.EventType,
-                insulin.EventTime,
-                insulin.CreatedAt,
-                insulin.Note?.Text,
-                insulin.InsulinType,
-                insulin.Dose.Units,
-                insulin.Preparation,
-                insulin.Delivery,
-                insulin.Timing),
-
-            ExerciseEvent exercise => new ExerciseEventDto(
-                exercise.Id,
-                userId.Value,
-                exercise.EventType,
-                exercise.EventTime,
-                exercise.CreatedAt,
-                exercise.Note?.Text,
-                exercise.ExerciseType.Value,
-                exercise.Duration.Minutes,
-                exercise.Intensity),
-
-            NoteEvent note => new NoteEventDto(
-                note.Id,
-                userId.Value,
-                note.EventType,
-                note.EventTime,
-                note.CreatedAt,
-                null,
-                note.Text.Text),
-
-            _ => throw new InvalidOperationException($"Unknown event type: {@event.GetType().Name}")
-        };
-
-        return Result.Success(dto);
+        return Result.Success(@event.ToDto());
     }
 }
 
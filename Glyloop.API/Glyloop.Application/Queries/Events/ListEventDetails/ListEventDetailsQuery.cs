@@ -0,0 +1,16 @@
+using Glyloop.Application.DTOs.Events;
+using Glyloop.Domain.Common;
+using Glyloop.Domain.Enums;
+using MediatR;
+
+namespace Glyloop.Application.Queries.Events.ListEventDetails;
+
+/// <summary>
+/// Query to retrieve every event of the current user in a window with full details.
+/// Used by analytics that need type-specific fields for all events at once.
+/// An empty EventTypes list returns events of all types.
+/// </summary>
+public record ListEventDetailsQuery(
+    IReadOnlyList<EventType> EventTypes,
+    DateTimeOffset FromDate,
+    DateTimeOffset ToDate) : IRequest<Result<IReadOnlyList<EventDto>>>;
@@ -0,0 +1,43 @@
+using Glyloop.Application.Common.Interfaces;
+using Glyloop.Application.DTOs.Events;
+using Glyloop.Domain.Common;
+using Glyloop.Domain.Repositories;
+using Glyloop.Domain.ValueObjects;
+using MediatR;
+
+namespace Glyloop.Application.Queries.Events.ListEventDetails;
+
+/// <summary>
+/// Handler for ListEventDetailsQuery.
+/// Loads the user's events in the window and maps each to its type-specific DTO.
+/// </summary>
+public class ListEventDetailsQueryHandler : IRequestHandler<ListEventDetailsQuery, Result<IReadOnlyList<EventDto>>>
+{
+    private readonly IEventRepository _eventRepository;
+    private readonly ICurrentUserService _currentUserService;
+
+    public ListEventDetailsQueryHandler(
+        IEventRepository eventRepository,
+        ICurrentUserService currentUserService)
+    {
+        _eventRepository = eventRepository;
+        _currentUserService = currentUserService;
+    }
+
+    public async Task<Result<IReadOnlyList<EventDto>>> Handle(
+        ListEventDetailsQuery request,
+        CancellationToken cancellationToken)
+    {
+        var userId = UserId.Create(_currentUserService.UserId);
+
+        var events = await _eventRepository.GetByTypesAsync(
+            userId,
+            request.EventTypes,
+            request.FromDate,
+            request.ToDate,
+            cancellationToken);
+
+        IReadOnlyList<EventDto> dtos = events.Select(e => e.ToDto()).ToList();
+        return Result.Success(dtos);
+    }
+}
@@ -0,0 +1,26 @@
+using FluentValidation;
+using Glyloop.Application.Queries.Chart;
+
+namespace Glyloop.Application.Queries.Events.ListEventDetails;
+
+/// <summary>
+/// Validator for ListEventDetailsQuery.
+/// Validates event types and that the window is ordered and no longer than the chart window limit.
+/// </summary>
+public class ListEventDetailsQueryValidator : AbstractValidator<ListEventDetailsQuery>
+{
+    public ListEventDetailsQueryValidator()
+    {
+        RuleForEach(x => x.EventTypes)
+            .IsInEnum()
+            .WithMessage("Event type must be a valid value (Food, Insulin, Exercise, Note).");
+
+        RuleFor(x => x)
+            .Must(x => x.FromDate <= x.ToDate)
+            .WithMessage("From date must be before or equal to To date.");
+
+        RuleFor(x => x)
+            .Must(x => x.ToDate - x.FromDate <= TimeSpan.FromDays(ChartWindowLimits.MaxWindowDays))
+            .WithMessage($"Window cannot be longer than {ChartWindowLimits.MaxWindowDays} days.");
+    }
+}
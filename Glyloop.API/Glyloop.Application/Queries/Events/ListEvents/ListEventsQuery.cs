@@ -8,12 +8,15 @@ namespace Glyloop.Application.Queries.Events.ListEvents;
 
 /// <summary>
 /// Query to retrieve a paginated list of events for the current user.
-/// Supports filtering by event type and date range.
+/// Supports filtering by event types, date range and free-text search.
+/// An empty EventTypes list includes every type. Search requires every word
+/// to appear (case-insensitive) in the summary, note or note text.
 /// </summary>
 public record ListEventsQuery(
-    EventType? EventType,
+    IReadOnlyList<EventType> EventTypes,
     DateTimeOffset? FromDate,
     DateTimeOffset? ToDate,
     int Page = 1,
-    int PageSize = 20) : IRequest<Result<PagedResult<EventListItemDto>>>;
+    int PageSize = 20,
+    string? Search = null) : IRequest<Result<PagedResult<EventListItemDto>>>;
 
@@ -12,6 +12,8 @@ namespace Glyloop.Application.Queries.Events.ListEvents;
 /// <summary>
 /// Handler for ListEventsQuery.
 /// Retrieves paginated event history with optional filters.
+/// Searches match against the generated summaries, so they load the filtered window
+/// and page the matches in memory.
 /// </summary>
 public class ListEventsQueryHandler : IRequestHandler<ListEventsQuery, Result<PagedResult<EventListItemDto>>>
 {
@@ -37,12 +39,39 @@ public class ListEventsQueryHandler : IRequestHandler<ListEventsQuery, Result<Pa
         var toDate = request.ToDate ?? DateTimeOffset.UtcNow;
         var fromDate = request.FromDate ?? toDate.AddDays(-30);
 
+        var terms = SearchTerms(request.Search);
+        if (terms.Length > 0)
+        {
+            var candidates = await _eventRepository.GetByTypesAsync(
+                userId,
+                request.EventTypes,
+                fromDate,
+                toDate,
+                cancellationToken);
+
+            var matches = candidates
+                .Select(ToListItem)
+                .Where(item => MatchesSearch(item, terms))
+                .ToList();
+
+            var matchedPage = matches
+                .Skip((request.Page - 1) * request.PageSize)
+                .Take(request.PageSize)
+                .ToList();
+
+            return Result.Success(new PagedResult<EventListItemDto>(
+                matchedPage,
+                matches.Count,
+                request.Page,
+                request.PageSize));
+        }
+
         // Get total count for pagination
         var totalCount = await _eventRepository.CountByUserIdAsync(
             userId,
             fromDate,
             toDate,
-            request.EventType,
+            request.EventTypes,
             cancellationToken);
 
         // Get paginated events
@@ -52,15 +81,11 @@ public class ListEventsQueryHandler : IRequestHandler<ListEventsQuery, Result<Pa
             toDate,
             request.Page,
             request.PageSize,
+            request.EventTypes,
             cancellationToken);
 
         // Map to DTOs with summaries
-        var items = events.Select(e => new EventListItemDto(
-            e.Id,
-            e.EventType,
-            e.EventTime,
-            CreateSummary(e)))
-            .ToList();
+        var items = events.Select(ToListItem).ToList();
 
         var pagedResult = new PagedResult<EventListItemDto>(
             items,
@@ -71,6 +96,39 @@ public class ListEventsQueryHandler : IRequestHandler<ListEventsQuery, Result<Pa
         return Result.Success(pagedResult);
     }
 
+    private static EventListItemDto ToListItem(Event @event)
+    {
+        return new EventListItemDto(
+            @event.Id,
+            @event.EventType,
+            @event.EventTime,
+            CreateSummary(@event),
+            @event.Note?.Text,
+            (@event as NoteEvent)?.Text.Text);
+    }
+
+    /// <summary>
+    /// Splits a search query into lower-case words; empty when there is nothing to search for.
+    /// </summary>
+    private static string[] SearchTerms(string? search)
+    {
+        return (search ?? string.Empty)
+            .ToLowerInvariant()
+            .Split((char[]?)null, StringSplitOptions.RemoveEmptyEntries);
+    }
+
+    /// <summary>
+    /// Checks whether every search word appears in the item's summary, note or note text.
+    /// </summary>
+    private static bool MatchesSearch(EventListItemDto item, string[] terms)
+    {
+        var haystack = string.Join('\n', new[] { item.Summary, item.Note, item.NoteText }
+            .Where(field => !string.IsNullOrEmpty(field)))
+            .ToLowerInvariant();
+
+        return terms.All(term => haystack.Contains(term, StringComparison.Ordinal));
+    }
+
     /// <summary>
     /// Creates a human-readable summary for an event.
     /// </summary>
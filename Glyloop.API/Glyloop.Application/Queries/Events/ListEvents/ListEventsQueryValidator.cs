@@ -4,7 +4,7 @@ namespace Glyloop.Application.Queries.Events.ListEvents;
 
 /// <summary>
 /// Validator for ListEventsQuery.
-/// Validates pagination parameters and date range.
+/// Validates pagination parameters, event types, search text and date range.
 /// </summary>
 public class ListEventsQueryValidator : AbstractValidator<ListEventsQuery>
 {
@@ -18,10 +18,13 @@ public class ListEventsQueryValidator : AbstractValidator<ListEventsQuery>
             .InclusiveBetween(1, 100)
             .WithMessage("Page size must be between 1 and 100.");
 
-        RuleFor(x => x.EventType)
+        RuleForEach(x => x.EventTypes)
             .IsInEnum()
-            .WithMessage("Event type must be a valid value (Food, Insulin, Exercise, Note).")
-            .When(x => x.EventType.HasValue);
+            .WithMessage("Event type must be a valid value (Food, Insulin, Exercise, Note).");
+
+        RuleFor(x => x.Search)
+            .MaximumLength(200)
+            .WithMessage("Search must not exceed 200 characters.");
 
         RuleFor(x => x)
             .Must(x => !x.FromDate.HasValue || !x.ToDate.HasValue || x.FromDate.Value <= x.ToDate.Value)
@@ -12,7 +12,9 @@ namespace Glyloop.Domain.Aggregates.Event;
 /// 
 /// Invariants:
 /// - EventTime must be less than or equal to current time (no future events)
-/// - Events are immutable after creation (no update methods)
+/// - Details can be corrected through subtype Update methods; source and creation time never change
+/// - Deletion is soft (DeletedAt) so it can be undone and the event keeps its ID
+/// - Deleted events cannot be updated
 /// - Each event must have a valid UserId
 /// - Subtype-specific invariants are enforced by value objects
 /// 
@@ -59,6 +61,16 @@ public abstract class Event : AggregateRoot<Guid>
     /// </summary>
     public DateTimeOffset CreatedAt { get; private set; }
 
+    /// <summary>
+    /// Gets when this event was deleted, or null while it is active.
+    /// </summary>
+    public DateTimeOffset? DeletedAt { get; private set; }
+
+    /// <summary>
+    /// Gets whether this event has been deleted.
+    /// </summary>
+    public bool IsDeleted => DeletedAt.HasValue;
+
     // EF Core constructor
     protected Event() : base(Guid.Empty)
     {
@@ -82,6 +94,48 @@ public abstract class Event : AggregateRoot<Guid>
         CreatedAt = createdAt;
     }
 
+    /// <summary>
+    /// Marks this event as deleted. It stays stored so the deletion can be undone.
+    /// </summary>
+    public Result Delete(ITimeProvider timeProvider)
+    {
+        if (IsDeleted)
+            return Result.Failure(DomainErrors.Event.EventDeleted);
+
+        DeletedAt = timeProvider.UtcNow;
+        return Result.Success();
+    }
+
+    /// <summary>
+    /// Restores a deleted event with its original ID and details.
+    /// </summary>
+    public Result Restore()
+    {
+        if (!IsDeleted)
+            return Result.Failure(DomainErrors.Event.EventNotDeleted);
+
+        DeletedAt = null;
+        return Result.Success();
+    }
+
+    /// <summary>
+    /// Updates the time and note shared by all event types.
+    /// Called by all subtype Update methods.
+    /// </summary>
+    protected Result UpdateDetails(DateTimeOffset eventTime, NoteText? note, ITimeProvider timeProvider)
+    {
+        if (IsDeleted)
+            return Result.Failure(DomainErrors.Event.EventDeleted);
+
+        var eventTimeValidation = ValidateEventTime(eventTime, timeProvider);
+        if (eventTimeValidation.IsFailure)
+            return eventTimeValidation;
+
+        EventTime = eventTime;
+        Note = note;
+        return Result.Success();
+    }
+
     /// <summary>
     /// Validates that the event time is not in the future.
     /// Called by all subtype factory methods.
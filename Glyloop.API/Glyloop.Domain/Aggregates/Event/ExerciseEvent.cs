@@ -112,5 +112,26 @@ public sealed class ExerciseEvent : Event
 
         return Result.Success(exerciseEvent);
     }
-}
 
+    /// <summary>
+    /// Corrects the details of this exercise event.
+    /// </summary>
+    /// <returns>Success, or an error when the time is in the future or the event is deleted</returns>
+    public Result Update(
+        DateTimeOffset eventTime,
+        ExerciseTypeId exerciseType,
+        ExerciseDuration duration,
+        IntensityType intensity,
+        NoteText? note,
+        ITimeProvider timeProvider)
+    {
+        var detailsResult = UpdateDetails(eventTime, note, timeProvider);
+        if (detailsResult.IsFailure)
+            return detailsResult;
+
+        ExerciseType = exerciseType;
+        Duration = duration;
+        Intensity = intensity;
+        return Result.Success();
+    }
+}
@@ -112,5 +112,26 @@ public sealed class FoodEvent : Event
 
         return Result.Success(foodEvent);
     }
-}
 
+    /// <summary>
+    /// Corrects the details of this food event.
+    /// </summary>
+    /// <returns>Success, or an error when the time is in the future or the event is deleted</returns>
+    public Result Update(
+        DateTimeOffset eventTime,
+        Carbohydrate carbohydrates,
+        MealTagId mealTag,
+        AbsorptionHint absorptionHint,
+        NoteText? note,
+        ITimeProvider timeProvider)
+    {
+        var detailsResult = UpdateDetails(eventTime, note, timeProvider);
+        if (detailsResult.IsFailure)
+            return detailsResult;
+
+        Carbohydrates = carbohydrates;
+        MealTag = mealTag;
+        AbsorptionHint = absorptionHint;
+        return Result.Success();
+    }
+}
@@ -133,5 +133,30 @@ public sealed class InsulinEvent : Event
 
         return Result.Success(insulinEvent);
     }
-}
 
+    /// <summary>
+    /// Corrects the details of this insulin event.
+    /// </summary>
+    /// <returns>Success, or an error when the time is in the future or the event is deleted</returns>
+    public Result Update(
+        DateTimeOffset eventTime,
+        InsulinType insulinType,
+        InsulinDose dose,
+        string? preparation,
+        string? delivery,
+        string? timing,
+        NoteText? note,
+        ITimeProvider timeProvider)
+    {
+        var detailsResult = UpdateDetails(eventTime, note, timeProvider);
+        if (detailsResult.IsFailure)
+            return detailsResult;
+
+        InsulinType = insulinType;
+        Dose = dose;
+        Preparation = preparation;
+        Delivery = delivery;
+        Timing = timing;
+        return Result.Success();
+    }
+}
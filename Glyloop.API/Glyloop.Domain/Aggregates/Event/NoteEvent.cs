@@ -85,5 +85,21 @@ public sealed class NoteEvent : Event
 
         return Result.Success(noteEvent);
     }
-}
 
+    /// <summary>
+    /// Corrects the time and text of this note event.
+    /// </summary>
+    /// <returns>Success, or an error when the time is in the future or the event is deleted</returns>
+    public Result Update(
+        DateTimeOffset eventTime,
+        NoteText text,
+        ITimeProvider timeProvider)
+    {
+        var detailsResult = UpdateDetails(eventTime, null, timeProvider);
+        if (detailsResult.IsFailure)
+            return detailsResult;
+
+        Text = text;
+        return Result.Success();
+    }
+}
@@ -59,6 +59,14 @@ public static class DomainErrors
         public static Error EventImmutable => Error.Create(
             "Event.EventImmutable",
             "Events are immutable and cannot be modified after creation.");
+
+        public static Error EventDeleted => Error.Create(
+            "Event.EventDeleted",
+            "The event has been deleted.");
+
+        public static Error EventNotDeleted => Error.Create(
+            "Event.EventNotDeleted",
+            "The event has not been deleted.");
     }
 }
 
@@ -6,7 +6,8 @@ namespace Glyloop.Domain.Repositories;
 
 /// <summary>
 /// Repository interface for Event aggregate.
-/// Events are immutable, so only Add operation is supported (no Update).
+/// Changes to loaded events are tracked and saved through the unit of work.
+/// Deleted events are soft-deleted and excluded from every query except GetDeletedByIdAsync.
 /// Reference: DDD Plan Section 2 - Aggregates (Event), Section 6 - Queries
 /// </summary>
 public interface IEventRepository
@@ -16,6 +17,12 @@ public interface IEventRepository
     /// </summary>
     Task<Event?> GetByIdAsync(Guid eventId, CancellationToken cancellationToken = default);
 
+    /// <summary>
+    /// Retrieves a soft-deleted event by its unique identifier.
+    /// Used to restore a deleted event.
+    /// </summary>
+    Task<Event?> GetDeletedByIdAsync(Guid eventId, CancellationToken cancellationToken = default);
+
     /// <summary>
     /// Retrieves events for a specific user with optional filtering.
     /// </summary>
@@ -32,6 +39,22 @@ public interface IEventRepository
         DateTimeOffset? to = null,
         CancellationToken cancellationToken = default);
 
+    /// <summary>
+    /// Retrieves events of any of the given types for a specific user within a date range.
+    /// </summary>
+    /// <param name="userId">User whose events to retrieve</param>
+    /// <param name="eventTypes">Types to include; empty includes every type</param>
+    /// <param name="from">Start date (inclusive)</param>
+    /// <param name="to">End date (inclusive)</param>
+    /// <param name="cancellationToken">Cancellation token</param>
+    /// <returns>Events matching the criteria, ordered by EventTime descending</returns>
+    Task<IReadOnlyList<Event>> GetByTypesAsync(
+        UserId userId,
+        IReadOnlyCollection<EventType> eventTypes,
+        DateTimeOffset from,
+        DateTimeOffset to,
+        CancellationToken cancellationToken = default);
+
     /// <summary>
     /// Retrieves events for a specific user within a date range, paginated.
     /// Used for efficient loading of large event histories.
@@ -41,6 +64,7 @@ public interface IEventRepository
     /// <param name="to">End date (inclusive)</param>
     /// <param name="pageNumber">Page number (1-based)</param>
     /// <param name="pageSize">Number of events per page</param>
+    /// <param name="eventTypes">Optional types to include; null or empty includes every type</param>
     /// <param name="cancellationToken">Cancellation token</param>
     /// <returns>Paginated list of events ordered by EventTime descending</returns>
     Task<IReadOnlyList<Event>> GetPagedAsync(
@@ -49,29 +73,28 @@ public interface IEventRepository
         DateTimeOffset to,
         int pageNumber,
         int pageSize,
+        IReadOnlyCollection<EventType>? eventTypes = null,
         CancellationToken cancellationToken = default);
 
     /// <summary>
-    /// Counts events for a user within a date range.
+    /// Counts events of the given types (all types when null or empty) for a user within a date range.
     /// Used for pagination calculations.
     /// </summary>
     Task<int> CountByUserIdAsync(
         UserId userId,
         DateTimeOffset from,
         DateTimeOffset to,
-        EventType? eventType = null,
+        IReadOnlyCollection<EventType>? eventTypes = null,
         CancellationToken cancellationToken = default);
 
     /// <summary>
     /// Adds a new event to the repository.
-    /// Note: Events are immutable - no Update method is provided.
     /// </summary>
     void Add(Event @event);
 
     /// <summary>
-    /// Removes an event from the repository.
-    /// In production, consider soft-delete or marking as deleted
-    /// while preserving audit trail.
+    /// Permanently removes an event from the repository.
+    /// User deletions use Event.Delete (soft delete) instead so they can be undone.
     /// </summary>
     void Remove(Event @event);
 }
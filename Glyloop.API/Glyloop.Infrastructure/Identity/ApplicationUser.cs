@@ -34,5 +34,23 @@ public class ApplicationUser : IdentityUser<Guid>
     /// Default: 180 mg/dL
     /// </summary>
     public int TirUpperBound { get; set; } = 180;
+
+    /// <summary>
+    /// Gets or sets the very low threshold below the TIR target in mg/dL.
+    /// Default: 54 mg/dL
+    /// </summary>
+    public int TirVeryLowBound { get; set; } = 54;
+
+    /// <summary>
+    /// Gets or sets the very high threshold above the TIR target in mg/dL.
+    /// Default: 250 mg/dL
+    /// </summary>
+    public int TirVeryHighBound { get; set; } = 250;
+
+    /// <summary>
+    /// Gets or sets the unit glucose values are displayed in ("mg/dL" or "mmol/L").
+    /// Stored values stay in mg/dL. Default: mg/dL
+    /// </summary>
+    public string GlucoseUnit { get; set; } = "mg/dL";
 }
 
@@ -37,6 +37,16 @@ public class EventConfiguration : IEntityTypeConfiguration<Event>
             .IsRequired()
             .HasColumnType("timestamptz");
 
+        // DeletedAt - timestamptz, null while the event is active (soft delete)
+        builder.Property(e => e.DeletedAt)
+            .HasColumnType("timestamptz")
+            .IsRequired(false);
+
+        builder.Ignore(e => e.IsDeleted);
+
+        // Deleted events are hidden from every query unless explicitly included
+        builder.HasQueryFilter(e => e.DeletedAt == null);
+
         // EventType - discriminator (stored as int)
         builder.Property(e => e.EventType)
             .IsRequired();
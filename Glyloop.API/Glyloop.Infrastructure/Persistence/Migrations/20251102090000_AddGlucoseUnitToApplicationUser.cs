@@ -0,0 +1,29 @@
+﻿using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace Glyloop.Infrastructure.Persistence.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddGlucoseUnitToApplicationUser : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<string>(
+                name: "GlucoseUnit",
+                table: "AspNetUsers",
+                type: "text",
+                nullable: false,
+                defaultValue: "mg/dL");
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropColumn(
+                name: "GlucoseUnit",
+                table: "AspNetUsers");
+        }
+    }
+}
@@ -0,0 +1,40 @@
+﻿using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace Glyloop.Infrastructure.Persistence.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddTirBandBoundsToApplicationUser : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<int>(
+                name: "TirVeryHighBound",
+                table: "AspNetUsers",
+                type: "integer",
+                nullable: false,
+                defaultValue: 250);
+
+            migrationBuilder.AddColumn<int>(
+                name: "TirVeryLowBound",
+                table: "AspNetUsers",
+                type: "integer",
+                nullable: false,
+                defaultValue: 54);
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropColumn(
+                name: "TirVeryHighBound",
+                table: "AspNetUsers");
+
+            migrationBuilder.DropColumn(
+                name: "TirVeryLowBound",
+                table: "AspNetUsers");
+        }
+    }
+}
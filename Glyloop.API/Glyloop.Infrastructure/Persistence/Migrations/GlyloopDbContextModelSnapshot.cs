@@ -63,6 +63,9 @@ namespace Glyloop.Infrastructure.Persistence.Migrations
                     b.Property<DateTimeOffset>("CreatedAt")
                         .HasColumnType("timestamptz");
 
+                    b.Property<DateTimeOffset?>("DeletedAt")
+                        .HasColumnType("timestamptz");
+
                     b.Property<DateTimeOffset>("EventTime")
                         .HasColumnType("timestamptz");
 
@@ -117,6 +120,10 @@ namespace Glyloop.Infrastructure.Persistence.Migrations
                     b.Property<bool>("EmailConfirmed")
                         .HasColumnType("boolean");
 
+                    b.Property<string>("GlucoseUnit")
+                        .IsRequired()
+                        .HasColumnType("text");
+
                     b.Property<DateTimeOffset?>("LastLoginAt")
                         .HasColumnType("timestamptz");
 
@@ -152,6 +159,12 @@ namespace Glyloop.Infrastructure.Persistence.Migrations
                     b.Property<int>("TirUpperBound")
                         .HasColumnType("integer");
 
+                    b.Property<int>("TirVeryHighBound")
+                        .HasColumnType("integer");
+
+                    b.Property<int>("TirVeryLowBound")
+                        .HasColumnType("integer");
+
                     b.Property<bool>("TwoFactorEnabled")
                         .HasColumnType("boolean");
 
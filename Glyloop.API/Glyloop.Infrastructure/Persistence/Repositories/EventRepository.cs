@@ -23,9 +23,18 @@ public class EventRepository : IEventRepository
     /// <inheritdoc/>
     public async Task<Event?> GetByIdAsync(Guid eventId, CancellationToken cancellationToken = default)
     {
-        // EF Core automatically loads the correct derived type with TPT
+        // EF Core automatically loads the correct derived type with TPT.
+        // FindAsync would bypass the soft-delete query filter for tracked entities.
         return await _context.Events
-            .FindAsync(new object[] { eventId }, cancellationToken);
+            .FirstOrDefaultAsync(e => e.Id == eventId, cancellationToken);
+    }
+
+    /// <inheritdoc/>
+    public async Task<Event?> GetDeletedByIdAsync(Guid eventId, CancellationToken cancellationToken = default)
+    {
+        return await _context.Events
+            .IgnoreQueryFilters()
+            .FirstOrDefaultAsync(e => e.Id == eventId && e.DeletedAt != null, cancellationToken);
     }
 
     /// <inheritdoc/>
@@ -64,6 +73,29 @@ public class EventRepository : IEventRepository
             .ToListAsync(cancellationToken);
     }
 
+    /// <inheritdoc/>
+    public async Task<IReadOnlyList<Event>> GetByTypesAsync(
+        UserId userId,
+        IReadOnlyCollection<EventType> eventTypes,
+        DateTimeOffset from,
+        DateTimeOffset to,
+        CancellationToken cancellationToken = default)
+    {
+        var query = _context.Events
+            .Where(e => e.UserId == userId
+                && e.EventTime >= from
+                && e.EventTime <= to);
+
+        if (eventTypes.Count > 0)
+        {
+            query = query.Where(e => eventTypes.Contains(e.EventType));
+        }
+
+        return await query
+            .OrderByDescending(e => e.EventTime)
+            .ToListAsync(cancellationToken);
+    }
+
     /// <inheritdoc/>
     public async Task<IReadOnlyList<Event>> GetPagedAsync(
         UserId userId,
@@ -71,16 +103,24 @@ public class EventRepository : IEventRepository
         DateTimeOffset to,
         int pageNumber,
         int pageSize,
+        IReadOnlyCollection<EventType>? eventTypes = null,
         CancellationToken cancellationToken = default)
     {
         // Ensure page number is at least 1
         pageNumber = Math.Max(1, pageNumber);
         pageSize = Math.Clamp(pageSize, 1, 100); // Limit max page size to 100
 
-        return await _context.Events
+        var query = _context.Events
             .Where(e => e.UserId == userId
                 && e.EventTime >= from
-                && e.EventTime <= to)
+                && e.EventTime <= to);
+
+        if (eventTypes is { Count: > 0 })
+        {
+            query = query.Where(e => eventTypes.Contains(e.EventType));
+        }
+
+        return await query
             .OrderByDescending(e => e.EventTime)
             .Skip((pageNumber - 1) * pageSize)
             .Take(pageSize)
@@ -92,7 +132,7 @@ public class EventRepository : IEventRepository
         UserId userId,
         DateTimeOffset from,
         DateTimeOffset to,
-        EventType? eventType = null,
+        IReadOnlyCollection<EventType>? eventTypes = null,
         CancellationToken cancellationToken = default)
     {
         var query = _context.Events
@@ -100,9 +140,9 @@ public class EventRepository : IEventRepository
                 && e.EventTime >= from
                 && e.EventTime <= to);
 
-        if (eventType.HasValue)
+        if (eventTypes is { Count: > 0 })
         {
-            query = query.Where(e => e.EventType == eventType.Value);
+            query = query.Where(e => eventTypes.Contains(e.EventType));
         }
 
         return await query.CountAsync(cancellationToken);
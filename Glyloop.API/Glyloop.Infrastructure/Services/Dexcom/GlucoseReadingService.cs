@@ -12,6 +12,9 @@ namespace Glyloop.Infrastructure.Services.Dexcom;
 /// </summary>
 public class GlucoseReadingService : IGlucoseReadingService
 {
+    // Longest window the Dexcom EGV endpoint accepts in one request
+    private static readonly TimeSpan MaxDexcomWindow = TimeSpan.FromDays(30);
+
     private readonly IDexcomApiClient _dexcomApiClient;
     private readonly IDexcomLinkRepository _dexcomLinkRepository;
     private readonly ITokenEncryptionService _tokenEncryptionService;
@@ -113,21 +116,36 @@ public class GlucoseReadingService : IGlucoseReadingService
             // Decrypt access token
             var accessToken = _tokenEncryptionService.Decrypt(dexcomLink.EncryptedAccessToken);
 
-            // Get readings from Dexcom API
-            var result = await _dexcomApiClient.GetGlucoseReadingsAsync(
-                accessToken,
-                startTime,
-                endTime,
-                cancellationToken);
-
-            if (result.IsFailure)
+            // Get readings from Dexcom API, one request per 30-day chunk
+            var readings = new List<Models.GlucoseReading>();
+            var chunkStart = startTime;
+            while (chunkStart < endTime)
             {
-                _logger.LogError("Failed to get glucose readings: {Error}", result.Error.Message);
-                return Result.Failure<IReadOnlyList<GlucoseReading>>(result.Error);
+                var chunkEnd = chunkStart + MaxDexcomWindow < endTime
+                    ? chunkStart + MaxDexcomWindow
+                    : endTime;
+
+                var result = await _dexcomApiClient.GetGlucoseReadingsAsync(
+                    accessToken,
+                    chunkStart,
+                    chunkEnd,
+                    cancellationToken);
+
+                if (result.IsFailure)
+                {
+                    _logger.LogError("Failed to get glucose readings: {Error}", result.Error.Message);
+                    return Result.Failure<IReadOnlyList<GlucoseReading>>(result.Error);
+                }
+
+                if (result.Value.Records != null)
+                {
+                    readings.AddRange(result.Value.Records);
+                }
+
+                chunkStart = chunkEnd;
             }
 
-            var readings = result.Value.Records;
-            if (readings == null || readings.Count == 0)
+            if (readings.Count == 0)
             {
                 _logger.LogInformation("No readings found between {StartTime} and {EndTime} for user {UserId}",
                     startTime, endTime, userId.Value);
@@ -136,6 +154,7 @@ public class GlucoseReadingService : IGlucoseReadingService
 
             // Map to application DTOs
             var glucoseReadings = readings
+                .OrderBy(r => r.SystemTime)
                 .Select(r => new GlucoseReading(
                     SystemTime: r.SystemTime,
                     ValueMgDl: r.Value,
@@ -66,24 +66,33 @@ public class IdentityService : IIdentityService
         return user is not null;
     }
 
-    public async Task<Result<TirRange>> GetUserPreferencesAsync(
+    public async Task<Result<UserPreferences>> GetUserPreferencesAsync(
         UserId userId,
         CancellationToken cancellationToken = default)
     {
         var user = await _userManager.FindByIdAsync(userId.Value.ToString());
         if (user is null)
         {
-            return Result.Failure<TirRange>(
+            return Result.Failure<UserPreferences>(
                 Error.Create("User.NotFound", "User not found."));
         }
 
         var tirRange = TirRange.Create(user.TirLowerBound, user.TirUpperBound);
-        return tirRange;
+        if (tirRange.IsFailure)
+        {
+            return Result.Failure<UserPreferences>(tirRange.Error);
+        }
+
+        return Result.Success(new UserPreferences(
+            tirRange.Value,
+            user.TirVeryLowBound,
+            user.TirVeryHighBound,
+            user.GlucoseUnit));
     }
 
     public async Task<Result> UpdateUserPreferencesAsync(
         UserId userId,
-        TirRange tirRange,
+        UserPreferences preferences,
         CancellationToken cancellationToken = default)
     {
         var user = await _userManager.FindByIdAsync(userId.Value.ToString());
@@ -93,8 +102,11 @@ public class IdentityService : IIdentityService
                 Error.Create("User.NotFound", "User not found."));
         }
 
-        user.TirLowerBound = tirRange.Lower;
-        user.TirUpperBound = tirRange.Upper;
+        user.TirLowerBound = preferences.TirRange.Lower;
+        user.TirUpperBound = preferences.TirRange.Upper;
+        user.TirVeryLowBound = preferences.VeryLowBound;
+        user.TirVeryHighBound = preferences.VeryHighBound;
+        user.GlucoseUnit = preferences.GlucoseUnit;
 
         var result = await _userManager.UpdateAsync(user);
 
@@ -273,6 +273,32 @@ public class ContractMapperTests
         Assert.That(command.Note, Is.EqualTo(request.Note));
     }
 
+    [Test]
+    public void ToUpdateCommand_ShouldMapFoodEventAndTargetEventId_WhenValidDataProvided()
+    {
+        // Arrange
+        var eventId = Guid.NewGuid();
+        var request = new Glyloop.API.Contracts.Events.CreateFoodEventRequest
+        {
+            EventTime = DateTimeOffset.UtcNow,
+            CarbohydratesGrams = 60,
+            MealTagId = 3,
+            AbsorptionHint = "Slow",
+            Note = "Corrected dinner"
+        };
+
+        // Act
+        var command = request.ToUpdateCommand(eventId);
+
+        // Assert
+        Assert.That(command.EventId, Is.EqualTo(eventId));
+        Assert.That(command.EventTime, Is.EqualTo(request.EventTime));
+        Assert.That(command.CarbohydratesGrams, Is.EqualTo(request.CarbohydratesGrams));
+        Assert.That(command.MealTagId, Is.EqualTo(request.MealTagId));
+        Assert.That(command.AbsorptionHint, Is.EqualTo(AbsorptionHint.Slow));
+        Assert.That(command.Note, Is.EqualTo(request.Note));
+    }
+
     [Test]
     public void ToCommand_ShouldMapFoodEventWithNullAbsorptionHint_WhenAbsorptionHintIsInvalid()
     {
@@ -394,6 +420,37 @@ public class ContractMapperTests
         Assert.That(timeSpan.TotalHours, Is.EqualTo(3));
     }
 
+    [Test]
+    public void ToTirQuery_ShouldUseExplicitWindow_WhenStartAndEndProvided()
+    {
+        // Arrange
+        var start = new DateTimeOffset(2024, 09, 01, 0, 0, 0, TimeSpan.Zero);
+        var end = start.AddDays(14);
+
+        // Act
+        var query = "3".ToTirQuery(start, end);
+
+        // Assert
+        Assert.That(query.FromTime, Is.EqualTo(start));
+        Assert.That(query.ToTime, Is.EqualTo(end));
+    }
+
+    [Test]
+    public void ToQuery_ShouldMapChartWindow_WhenStartAndEndProvided()
+    {
+        // Arrange
+        var start = new DateTimeOffset(2024, 09, 01, 0, 0, 0, TimeSpan.Zero);
+        var end = start.AddDays(1);
+
+        // Act
+        var query = "3".ToQuery(start, end);
+
+        // Assert
+        Assert.That(query.Range, Is.EqualTo("3"));
+        Assert.That(query.StartTime, Is.EqualTo(start));
+        Assert.That(query.EndTime, Is.EqualTo(end));
+    }
+
     #endregion
 }
 
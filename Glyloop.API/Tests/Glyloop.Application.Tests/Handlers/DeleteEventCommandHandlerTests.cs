@@ -0,0 +1,99 @@
+using Glyloop.Application.Commands.Events.DeleteEvent;
+using Glyloop.Application.Common.Interfaces;
+using Glyloop.Domain.Aggregates.Event;
+using Glyloop.Domain.Common;
+using Glyloop.Domain.Enums;
+using Glyloop.Domain.Repositories;
+using Glyloop.Domain.ValueObjects;
+using NSubstitute;
+using NUnit.Framework;
+
+namespace Glyloop.Application.Tests;
+
+/// <summary>
+/// Unit tests for DeleteEventCommandHandler covering not found, ownership and soft deletion.
+/// </summary>
+[TestFixture]
+[Category("Unit")]
+public class DeleteEventCommandHandlerTests
+{
+    private IEventRepository _eventRepository = null!;
+    private IUnitOfWork _unitOfWork = null!;
+    private ICurrentUserService _currentUserService = null!;
+    private FixedTimeProvider _timeProvider = null!;
+    private DeleteEventCommandHandler _sut = null!;
+
+    private readonly Guid _userId = Guid.Parse("44444444-5555-6666-7777-888888888888");
+    private readonly DateTimeOffset _now = new(2025, 11, 8, 12, 0, 0, TimeSpan.Zero);
+
+    [SetUp]
+    public void SetUp()
+    {
+        _eventRepository = Substitute.For<IEventRepository>();
+        _unitOfWork = Substitute.For<IUnitOfWork>();
+        _currentUserService = Substitute.For<ICurrentUserService>();
+        _currentUserService.UserId.Returns(_userId);
+        _timeProvider = new FixedTimeProvider(_now);
+        _sut = new DeleteEventCommandHandler(_eventRepository, _unitOfWork, _currentUserService, _timeProvider);
+    }
+
+    private InsulinEvent CreateInsulin(Guid ownerId)
+    {
+        return InsulinEvent.Create(UserId.Create(ownerId), _now.AddHours(-1), InsulinType.Fast, InsulinDose.Create(4).Value,
+            null, null, null, null, SourceType.Manual, _timeProvider, Guid.NewGuid(), Guid.NewGuid()).Value;
+    }
+
+    [Test]
+    public async Task Handle_NotFound_ShouldReturnFailure()
+    {
+        // Arrange
+        var id = Guid.NewGuid();
+        _eventRepository.GetByIdAsync(id, Arg.Any<CancellationToken>()).Returns((Event?)null);
+
+        // Act
+        var result = await _sut.Handle(new DeleteEventCommand(id), CancellationToken.None);
+
+        // Assert
+        Assert.That(result.IsFailure, Is.True);
+        Assert.That(result.Error.Code, Is.EqualTo("Event.NotFound"));
+    }
+
+    [Test]
+    public async Task Handle_NotOwnedByUser_ShouldReturnForbidden_AndKeepEvent()
+    {
+        // Arrange
+        var insulin = CreateInsulin(Guid.NewGuid());
+        _eventRepository.GetByIdAsync(insulin.Id, Arg.Any<CancellationToken>()).Returns(insulin);
+
+        // Act
+        var result = await _sut.Handle(new DeleteEventCommand(insulin.Id), CancellationToken.None);
+
+        // Assert
+        Assert.That(result.IsFailure, Is.True);
+        Assert.That(result.Error.Code, Is.EqualTo("Authorization.Forbidden"));
+        Assert.That(insulin.IsDeleted, Is.False);
+    }
+
+    [Test]
+    public async Task Handle_OwnedEvent_ShouldSoftDeleteAndSave()
+    {
+        // Arrange
+        var insulin = CreateInsulin(_userId);
+        _eventRepository.GetByIdAsync(insulin.Id, Arg.Any<CancellationToken>()).Returns(insulin);
+
+        // Act
+        var result = await _sut.Handle(new DeleteEventCommand(insulin.Id), CancellationToken.None);
+
+        // Assert
+        Assert.That(result.IsSuccess, Is.True);
+        Assert.That(insulin.DeletedAt, Is.EqualTo(_now));
+        _eventRepository.DidNotReceive().Remove(Arg.Any<Event>());
+        await _unitOfWork.Received(1).SaveEntitiesAsync(Arg.Any<CancellationToken>());
+    }
+
+    private sealed class FixedTimeProvider : ITimeProvider
+    {
+        public FixedTimeProvider(DateTimeOffset utcNow) => UtcNow = utcNow;
+        public DateTimeOffset UtcNow { get; }
+    }
+}
@@ -155,6 +155,55 @@ public class GetChartDataQueryHandlerTests
         Assert.That(result.Value.Events, Is.Empty);
     }
 
+    [Test]
+    public async Task Handle_ExplicitWindow_ShouldQueryThatWindowInsteadOfRange()
+    {
+        // Arrange
+        var start = new DateTimeOffset(2024, 09, 01, 0, 0, 0, TimeSpan.Zero);
+        var end = start.AddDays(14);
+        var userId = UserId.Create(_userId);
+
+        _glucoseReadingService
+            .GetReadingsInRangeAsync(userId, start, end, Arg.Any<CancellationToken>())
+            .Returns(Result.Success<IReadOnlyList<GlucoseReading>>(new List<GlucoseReading>
+            {
+                new(start.AddDays(1), 120, "Flat")
+            }));
+
+        _eventRepository
+            .GetByUserIdAsync(userId, null, start, end, Arg.Any<CancellationToken>())
+            .Returns(Array.Empty<Event>());
+
+        // Act
+        var result = await _sut.Handle(new GetChartDataQuery("3", start, end), CancellationToken.None);
+
+        // Assert
+        Assert.That(result.IsSuccess, Is.True);
+        Assert.That(result.Value.StartTime, Is.EqualTo(start));
+        Assert.That(result.Value.EndTime, Is.EqualTo(end));
+        Assert.That(result.Value.GlucoseData.Count, Is.EqualTo(1));
+        await _glucoseReadingService.Received(1)
+            .GetReadingsInRangeAsync(userId, start, end, Arg.Any<CancellationToken>());
+    }
+
+    [TestCase(0)] // empty window
+    [TestCase(-2)] // end before start
+    [TestCase(93 * 24)] // longer than the maximum window
+    public async Task Handle_InvalidWindow_ShouldReturnFailure(int hours)
+    {
+        // Arrange
+        var start = new DateTimeOffset(2024, 06, 01, 0, 0, 0, TimeSpan.Zero);
+
+        // Act
+        var result = await _sut.Handle(
+            new GetChartDataQuery("3", start, start.AddHours(hours)),
+            CancellationToken.None);
+
+        // Assert
+        Assert.That(result.IsFailure, Is.True);
+        Assert.That(result.Error.Code, Is.EqualTo("Chart.InvalidWindow"));
+    }
+
     private static FoodEvent CreateFoodEvent(
         UserId userId,
         DateTimeOffset when,
@@ -0,0 +1,124 @@
+using Glyloop.Application.Common.Interfaces;
+using Glyloop.Application.Queries.Chart.GetTimeInRange;
+using Glyloop.Domain.Common;
+using Glyloop.Domain.ValueObjects;
+using NSubstitute;
+using NUnit.Framework;
+
+namespace Glyloop.Application.Tests;
+
+/// <summary>
+/// Unit tests for GetTimeInRangeQueryHandler covering the requested window,
+/// in-range counting against the user's bounds, and empty data.
+/// </summary>
+[TestFixture]
+[Category("Unit")]
+public class GetTimeInRangeQueryHandlerTests
+{
+    private IGlucoseReadingService _glucoseReadingService = null!;
+    private IIdentityService _identityService = null!;
+    private ICurrentUserService _currentUserService = null!;
+    private GetTimeInRangeQueryHandler _sut = null!;
+
+    private readonly Guid _userId = Guid.Parse("99999999-8888-7777-6666-555555555555");
+    private readonly DateTimeOffset _start = new(2024, 09, 01, 0, 0, 0, TimeSpan.Zero);
+
+    [SetUp]
+    public void SetUp()
+    {
+        _glucoseReadingService = Substitute.For<IGlucoseReadingService>();
+        _identityService = Substitute.For<IIdentityService>();
+        _currentUserService = Substitute.For<ICurrentUserService>();
+
+        _currentUserService.UserId.Returns(_userId);
+        _identityService
+            .GetUserPreferencesAsync(UserId.Create(_userId), Arg.Any<CancellationToken>())
+            .Returns(Result.Success(new UserPreferences(TirRange.Standard(), 54, 250, GlucoseUnits.MgDl)));
+
+        _sut = new GetTimeInRangeQueryHandler(
+            _glucoseReadingService,
+            _identityService,
+            _currentUserService);
+    }
+
+    [Test]
+    public async Task Handle_ShouldCountReadingsOfTheRequestedWindow()
+    {
+        // Arrange
+        var end = _start.AddDays(7);
+        var readings = new List<GlucoseReading>
+        {
+            new(_start.AddHours(1), 60, "Flat"),
+            new(_start.AddHours(2), 100, "Flat"),
+            new(_start.AddHours(3), 150, "Flat"),
+            new(_start.AddHours(4), 200, "Flat"),
+        };
+
+        _glucoseReadingService
+            .GetReadingsInRangeAsync(UserId.Create(_userId), _start, end, Arg.Any<CancellationToken>())
+            .Returns(Result.Success<IReadOnlyList<GlucoseReading>>(readings));
+
+        // Act
+        var result = await _sut.Handle(new GetTimeInRangeQuery(_start, end), CancellationToken.None);
+
+        // Assert
+        Assert.That(result.IsSuccess, Is.True);
+        Assert.That(result.Value.StartTime, Is.EqualTo(_start));
+        Assert.That(result.Value.EndTime, Is.EqualTo(end));
+        Assert.That(result.Value.TotalReadings, Is.EqualTo(4));
+        Assert.That(result.Value.InRangeCount, Is.EqualTo(2));
+        Assert.That(result.Value.TirPercentage, Is.EqualTo(50.0m));
+    }
+
+    [Test]
+    public async Task Handle_ShouldCountEveryBandAgainstTheUserThresholds()
+    {
+        // Arrange
+        var end = _start.AddDays(1);
+        var readings = new List<GlucoseReading>
+        {
+            new(_start.AddHours(1), 50, "Flat"),
+            new(_start.AddHours(2), 54, "Flat"),
+            new(_start.AddHours(3), 69, "Flat"),
+            new(_start.AddHours(4), 70, "Flat"),
+            new(_start.AddHours(5), 180, "Flat"),
+            new(_start.AddHours(6), 250, "Flat"),
+            new(_start.AddHours(7), 251, "Flat"),
+        };
+
+        _glucoseReadingService
+            .GetReadingsInRangeAsync(UserId.Create(_userId), _start, end, Arg.Any<CancellationToken>())
+            .Returns(Result.Success<IReadOnlyList<GlucoseReading>>(readings));
+
+        // Act
+        var result = await _sut.Handle(new GetTimeInRangeQuery(_start, end), CancellationToken.None);
+
+        // Assert
+        Assert.That(result.IsSuccess, Is.True);
+        Assert.That(result.Value.InRangeCount, Is.EqualTo(2));
+        Assert.That(result.Value.BelowRangeCount, Is.EqualTo(3));
+        Assert.That(result.Value.VeryLowCount, Is.EqualTo(1));
+        Assert.That(result.Value.AboveRangeCount, Is.EqualTo(2));
+        Assert.That(result.Value.VeryHighCount, Is.EqualTo(1));
+        Assert.That(result.Value.VeryLowBound, Is.EqualTo(54));
+        Assert.That(result.Value.VeryHighBound, Is.EqualTo(250));
+    }
+
+    [Test]
+    public async Task Handle_NoReadings_ShouldReturnNullPercentage()
+    {
+        // Arrange
+        var end = _start.AddHours(3);
+        _glucoseReadingService
+            .GetReadingsInRangeAsync(UserId.Create(_userId), _start, end, Arg.Any<CancellationToken>())
+            .Returns(Result.Success<IReadOnlyList<GlucoseReading>>(Array.Empty<GlucoseReading>()));
+
+        // Act
+        var result = await _sut.Handle(new GetTimeInRangeQuery(_start, end), CancellationToken.None);
+
+        // Assert
+        Assert.That(result.IsSuccess, Is.True);
+        Assert.That(result.Value.TotalReadings, Is.EqualTo(0));
+        Assert.That(result.Value.TirPercentage, Is.Null);
+    }
+}
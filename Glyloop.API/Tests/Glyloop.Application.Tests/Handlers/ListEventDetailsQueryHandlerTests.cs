@@ -0,0 +1,77 @@
+using Glyloop.Application.Common.Interfaces;
+using Glyloop.Application.DTOs.Events;
+using Glyloop.Application.Queries.Events.ListEventDetails;
+using Glyloop.Domain.Aggregates.Event;
+using Glyloop.Domain.Common;
+using Glyloop.Domain.Enums;
+using Glyloop.Domain.Repositories;
+using Glyloop.Domain.ValueObjects;
+using NSubstitute;
+using NUnit.Framework;
+
+namespace Glyloop.Application.Tests;
+
+/// <summary>
+/// Unit tests for ListEventDetailsQueryHandler covering type filtering and per-type DTO mapping.
+/// </summary>
+[TestFixture]
+[Category("Unit")]
+public class ListEventDetailsQueryHandlerTests
+{
+    private IEventRepository _eventRepository = null!;
+    private ICurrentUserService _currentUserService = null!;
+    private ListEventDetailsQueryHandler _sut = null!;
+
+    private readonly Guid _userId = Guid.Parse("33333333-4444-5555-6666-777777777777");
+
+    [SetUp]
+    public void SetUp()
+    {
+        _eventRepository = Substitute.For<IEventRepository>();
+        _currentUserService = Substitute.For<ICurrentUserService>();
+        _currentUserService.UserId.Returns(_userId);
+        _sut = new ListEventDetailsQueryHandler(_eventRepository, _currentUserService);
+    }
+
+    [Test]
+    public async Task Handle_ShouldReturnDetailedDtosForEveryEventInOneCall()
+    {
+        // Arrange
+        var user = UserId.Create(_userId);
+        var to = DateTimeOffset.UtcNow;
+        var from = to.AddDays(-14);
+        var tp = new FixedTimeProvider(to);
+        var food = FoodEvent.Create(user, to.AddHours(-3), Carbohydrate.Create(45).Value, MealTagId.Create(1),
+            AbsorptionHint.Rapid, null, SourceType.Manual, tp, Guid.NewGuid(), Guid.NewGuid()).Value;
+        var exercise = ExerciseEvent.Create(user, to.AddHours(-5), ExerciseTypeId.Create(2), ExerciseDuration.Create(30).Value,
+            IntensityType.Vigorous, null, SourceType.Manual, tp, Guid.NewGuid(), Guid.NewGuid()).Value;
+        var types = new[] { EventType.Food, EventType.Exercise };
+
+        _eventRepository
+            .GetByTypesAsync(Arg.Any<UserId>(), Arg.Any<IReadOnlyCollection<EventType>>(), from, to, Arg.Any<CancellationToken>())
+            .Returns(new List<Event> { food, exercise });
+
+        // Act
+        var result = await _sut.Handle(new ListEventDetailsQuery(types, from, to), CancellationToken.None);
+
+        // Assert
+        Assert.That(result.IsSuccess, Is.True);
+        Assert.That(result.Value, Has.Count.EqualTo(2));
+        Assert.That(result.Value[0], Is.TypeOf<FoodEventDto>());
+        Assert.That(((FoodEventDto)result.Value[0]).AbsorptionHint, Is.EqualTo(AbsorptionHint.Rapid));
+        Assert.That(result.Value[1], Is.TypeOf<ExerciseEventDto>());
+        Assert.That(((ExerciseEventDto)result.Value[1]).Intensity, Is.EqualTo(IntensityType.Vigorous));
+        await _eventRepository.Received(1).GetByTypesAsync(
+            user,
+            Arg.Is<IReadOnlyCollection<EventType>>(t => t.SequenceEqual(types)),
+            from,
+            to,
+            Arg.Any<CancellationToken>());
+    }
+
+    private sealed class FixedTimeProvider : ITimeProvider
+    {
+        public FixedTimeProvider(DateTimeOffset utcNow) => UtcNow = utcNow;
+        public DateTimeOffset UtcNow { get; }
+    }
+}
@@ -13,7 +13,7 @@ using NUnit.Framework;
 namespace Glyloop.Application.Tests;
 
 /// <summary>
-/// Unit tests for ListEventsQueryHandler covering pagination wiring and summary generation.
+/// Unit tests for ListEventsQueryHandler covering pagination wiring, type filters, search and summary generation.
 /// Includes a test for default date window using approximate assertions to avoid flakiness.
 /// </summary>
 [TestFixture]
@@ -52,12 +52,12 @@ public class ListEventsQueryHandlerTests
             CreateNoteEvent(userId, from.AddDays(4), new string('a', 60)) // truncates to 47 + "..."
         };
 
-        _eventRepository.CountByUserIdAsync(userId, from, to, null, Arg.Any<CancellationToken>())
+        _eventRepository.CountByUserIdAsync(userId, from, to, Arg.Any<IReadOnlyCollection<EventType>?>(), Arg.Any<CancellationToken>())
             .Returns(events.Count);
-        _eventRepository.GetPagedAsync(userId, from, to, 2, 2, Arg.Any<CancellationToken>())
+        _eventRepository.GetPagedAsync(userId, from, to, 2, 2, Arg.Any<IReadOnlyCollection<EventType>?>(), Arg.Any<CancellationToken>())
             .Returns(events.Take(2).ToList());
 
-        var query = new ListEventsQuery(null, from, to, Page: 2, PageSize: 2);
+        var query = new ListEventsQuery(Array.Empty<EventType>(), from, to, Page: 2, PageSize: 2);
 
         // Act
         var result = await _sut.Handle(query, CancellationToken.None);
@@ -85,7 +85,7 @@ public class ListEventsQueryHandlerTests
         DateTimeOffset capturedTo = default;
 
         _eventRepository
-            .CountByUserIdAsync(userId, Arg.Any<DateTimeOffset>(), Arg.Any<DateTimeOffset>(), null, Arg.Any<CancellationToken>())
+            .CountByUserIdAsync(userId, Arg.Any<DateTimeOffset>(), Arg.Any<DateTimeOffset>(), Arg.Any<IReadOnlyCollection<EventType>?>(), Arg.Any<CancellationToken>())
             .Returns(callInfo =>
             {
                 capturedFrom = callInfo.ArgAt<DateTimeOffset>(1);
@@ -94,7 +94,7 @@ public class ListEventsQueryHandlerTests
             });
 
         _eventRepository
-            .GetPagedAsync(userId, Arg.Any<DateTimeOffset>(), Arg.Any<DateTimeOffset>(), 1, 20, Arg.Any<CancellationToken>())
+            .GetPagedAsync(userId, Arg.Any<DateTimeOffset>(), Arg.Any<DateTimeOffset>(), 1, 20, Arg.Any<IReadOnlyCollection<EventType>?>(), Arg.Any<CancellationToken>())
             .Returns(callInfo =>
             {
                 // also capture these
@@ -103,7 +103,7 @@ public class ListEventsQueryHandlerTests
                 return Array.Empty<Event>();
             });
 
-        var query = new ListEventsQuery(null, null, null);
+        var query = new ListEventsQuery(Array.Empty<EventType>(), null, null);
 
         // Act
         var result = await _sut.Handle(query, CancellationToken.None);
@@ -116,6 +116,69 @@ public class ListEventsQueryHandlerTests
         Assert.That((DateTimeOffset.UtcNow - capturedTo).TotalSeconds, Is.LessThan(5)); // within a few seconds
     }
 
+    [Test]
+    public async Task Handle_WithSeveralTypes_ShouldFilterCountAndPageByThoseTypes()
+    {
+        // Arrange
+        var userId = UserId.Create(_userId);
+        var from = new DateTimeOffset(2024, 09, 01, 0, 0, 0, TimeSpan.Zero);
+        var to = from.AddDays(7);
+        var types = new[] { EventType.Food, EventType.Insulin };
+        var events = new List<Event>
+        {
+            CreateFoodEvent(userId, from.AddDays(2), 40, 1, null),
+            CreateInsulinEvent(userId, from.AddDays(1), InsulinType.Fast, 4.0m, null)
+        };
+
+        _eventRepository.CountByUserIdAsync(userId, from, to, Arg.Any<IReadOnlyCollection<EventType>?>(), Arg.Any<CancellationToken>())
+            .Returns(events.Count);
+        _eventRepository.GetPagedAsync(userId, from, to, 1, 20, Arg.Any<IReadOnlyCollection<EventType>?>(), Arg.Any<CancellationToken>())
+            .Returns(events);
+
+        // Act
+        var result = await _sut.Handle(new ListEventsQuery(types, from, to), CancellationToken.None);
+
+        // Assert
+        Assert.That(result.IsSuccess, Is.True);
+        Assert.That(result.Value.TotalCount, Is.EqualTo(2));
+        await _eventRepository.Received(1).CountByUserIdAsync(
+            userId, from, to, Arg.Is<IReadOnlyCollection<EventType>?>(t => t!.SequenceEqual(types)), Arg.Any<CancellationToken>());
+        await _eventRepository.Received(1).GetPagedAsync(
+            userId, from, to, 1, 20, Arg.Is<IReadOnlyCollection<EventType>?>(t => t!.SequenceEqual(types)), Arg.Any<CancellationToken>());
+    }
+
+    [Test]
+    public async Task Handle_WithSearch_ShouldMatchEveryWordInSummaryNoteOrNoteText()
+    {
+        // Arrange
+        var userId = UserId.Create(_userId);
+        var from = new DateTimeOffset(2024, 09, 01, 0, 0, 0, TimeSpan.Zero);
+        var to = from.AddDays(7);
+        var pizza = CreateFoodEvent(userId, from.AddDays(3), 90, 3, "Pizza night");
+        var sickNote = CreateNoteEvent(userId, from.AddDays(2), "Sick day, skipped pizza");
+        var run = CreateExerciseEvent(userId, from.AddDays(1), 30, IntensityType.Light, "Easy run");
+
+        _eventRepository
+            .GetByTypesAsync(userId, Arg.Any<IReadOnlyCollection<EventType>>(), from, to, Arg.Any<CancellationToken>())
+            .Returns(new List<Event> { pizza, sickNote, run });
+
+        // Act
+        var carbs = await _sut.Handle(
+            new ListEventsQuery(Array.Empty<EventType>(), from, to, Search: "PIZZA carbs"), CancellationToken.None);
+        var notes = await _sut.Handle(
+            new ListEventsQuery(Array.Empty<EventType>(), from, to, Search: "pizza"), CancellationToken.None);
+
+        // Assert
+        Assert.That(carbs.Value.Items.Select(i => i.EventId), Is.EqualTo(new[] { pizza.Id }));
+        Assert.That(carbs.Value.TotalCount, Is.EqualTo(1));
+        Assert.That(carbs.Value.Items[0].Note, Is.EqualTo("Pizza night"));
+        Assert.That(notes.Value.Items.Select(i => i.EventId), Is.EqualTo(new[] { pizza.Id, sickNote.Id }));
+        Assert.That(notes.Value.Items[1].NoteText, Is.EqualTo("Sick day, skipped pizza"));
+        await _eventRepository.DidNotReceive().GetPagedAsync(
+            Arg.Any<UserId>(), Arg.Any<DateTimeOffset>(), Arg.Any<DateTimeOffset>(), Arg.Any<int>(), Arg.Any<int>(),
+            Arg.Any<IReadOnlyCollection<EventType>?>(), Arg.Any<CancellationToken>());
+    }
+
     private static FoodEvent CreateFoodEvent(UserId userId, DateTimeOffset when, int carbs, int mealTagId, string? note)
     {
         var tp = new FixedTimeProvider(when.AddHours(1));
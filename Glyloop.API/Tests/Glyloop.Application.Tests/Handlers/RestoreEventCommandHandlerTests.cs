@@ -0,0 +1,110 @@
+using Glyloop.Application.Commands.Events.RestoreEvent;
+using Glyloop.Application.Common.Interfaces;
+using Glyloop.Application.DTOs.Events;
+using Glyloop.Domain.Aggregates.Event;
+using Glyloop.Domain.Common;
+using Glyloop.Domain.Enums;
+using Glyloop.Domain.Repositories;
+using Glyloop.Domain.ValueObjects;
+using NSubstitute;
+using NUnit.Framework;
+
+namespace Glyloop.Application.Tests;
+
+/// <summary>
+/// Unit tests for RestoreEventCommandHandler covering missing deletions, ownership and restoring the same event.
+/// </summary>
+[TestFixture]
+[Category("Unit")]
+public class RestoreEventCommandHandlerTests
+{
+    private IEventRepository _eventRepository = null!;
+    private IUnitOfWork _unitOfWork = null!;
+    private ICurrentUserService _currentUserService = null!;
+    private RestoreEventCommandHandler _sut = null!;
+
+    private readonly Guid _userId = Guid.Parse("55555555-6666-7777-8888-999999999999");
+    private readonly DateTimeOffset _now = new(2025, 11, 8, 12, 0, 0, TimeSpan.Zero);
+
+    [SetUp]
+    public void SetUp()
+    {
+        _eventRepository = Substitute.For<IEventRepository>();
+        _unitOfWork = Substitute.For<IUnitOfWork>();
+        _currentUserService = Substitute.For<ICurrentUserService>();
+        _currentUserService.UserId.Returns(_userId);
+        _sut = new RestoreEventCommandHandler(_eventRepository, _unitOfWork, _currentUserService);
+    }
+
+    private ExerciseEvent CreateDeletedExercise(Guid ownerId)
+    {
+        var tp = new FixedTimeProvider(_now);
+        var exercise = ExerciseEvent.Create(UserId.Create(ownerId), _now.AddHours(-3), ExerciseTypeId.Create(1),
+            ExerciseDuration.Create(45).Value, IntensityType.Vigorous, null, SourceType.Manual, tp, Guid.NewGuid(),
+            Guid.NewGuid()).Value;
+        exercise.Delete(tp);
+        return exercise;
+    }
+
+    [Test]
+    public async Task Handle_NoDeletedEvent_ShouldReturnNotFound()
+    {
+        // Arrange
+        var id = Guid.NewGuid();
+        _eventRepository.GetDeletedByIdAsync(id, Arg.Any<CancellationToken>()).Returns((Event?)null);
+
+        // Act
+        var result = await _sut.Handle(new RestoreEventCommand(id), CancellationToken.None);
+
+        // Assert
+        Assert.That(result.IsFailure, Is.True);
+        Assert.That(result.Error.Code, Is.EqualTo("Event.NotFound"));
+    }
+
+    [Test]
+    public async Task Handle_NotOwnedByUser_ShouldReturnForbidden_AndStayDeleted()
+    {
+        // Arrange
+        var exercise = CreateDeletedExercise(Guid.NewGuid());
+        _eventRepository.GetDeletedByIdAsync(exercise.Id, Arg.Any<CancellationToken>()).Returns(exercise);
+
+        // Act
+        var result = await _sut.Handle(new RestoreEventCommand(exercise.Id), CancellationToken.None);
+
+        // Assert
+        Assert.That(result.IsFailure, Is.True);
+        Assert.That(result.Error.Code, Is.EqualTo("Authorization.Forbidden"));
+        Assert.That(exercise.IsDeleted, Is.True);
+    }
+
+    [Test]
+    public async Task Handle_OwnedDeletedEvent_ShouldRestoreWithSameId()
+    {
+        // Arrange
+        var exercise = CreateDeletedExercise(_userId);
+        _eventRepository.GetDeletedByIdAsync(exercise.Id, Arg.Any<CancellationToken>()).Returns(exercise);
+
+        // Act
+        var result = await _sut.Handle(new RestoreEventCommand(exercise.Id), CancellationToken.None);
+
+        // Assert
+        Assert.That(result.IsSuccess, Is.True);
+        Assert.That(result.Value, Is.TypeOf<ExerciseEventDto>());
+        var dto = (ExerciseEventDto)result.Value;
+        Assert.Multiple(() =>
+        {
+            Assert.That(dto.EventId, Is.EqualTo(exercise.Id));
+            Assert.That(dto.DurationMinutes, Is.EqualTo(45));
+            Assert.That(dto.Intensity, Is.EqualTo(IntensityType.Vigorous));
+            Assert.That(exercise.IsDeleted, Is.False);
+        });
+        _eventRepository.DidNotReceive().Add(Arg.Any<Event>());
+        await _unitOfWork.Received(1).SaveEntitiesAsync(Arg.Any<CancellationToken>());
+    }
+
+    private sealed class FixedTimeProvider : ITimeProvider
+    {
+        public FixedTimeProvider(DateTimeOffset utcNow) => UtcNow = utcNow;
+        public DateTimeOffset UtcNow { get; }
+    }
+}
@@ -0,0 +1,130 @@
+using Glyloop.Application.Commands.Events.UpdateFoodEvent;
+using Glyloop.Application.Common.Interfaces;
+using Glyloop.Domain.Aggregates.Event;
+using Glyloop.Domain.Common;
+using Glyloop.Domain.Enums;
+using Glyloop.Domain.Repositories;
+using Glyloop.Domain.ValueObjects;
+using NSubstitute;
+using NUnit.Framework;
+
+namespace Glyloop.Application.Tests;
+
+/// <summary>
+/// Unit tests for UpdateFoodEventCommandHandler covering not found, ownership, type mismatch and in-place updates.
+/// </summary>
+[TestFixture]
+[Category("Unit")]
+public class UpdateFoodEventCommandHandlerTests
+{
+    private IEventRepository _eventRepository = null!;
+    private IUnitOfWork _unitOfWork = null!;
+    private ICurrentUserService _currentUserService = null!;
+    private FixedTimeProvider _timeProvider = null!;
+    private UpdateFoodEventCommandHandler _sut = null!;
+
+    private readonly Guid _userId = Guid.Parse("33333333-4444-5555-6666-777777777777");
+    private readonly DateTimeOffset _now = new(2025, 11, 8, 12, 0, 0, TimeSpan.Zero);
+
+    [SetUp]
+    public void SetUp()
+    {
+        _eventRepository = Substitute.For<IEventRepository>();
+        _unitOfWork = Substitute.For<IUnitOfWork>();
+        _currentUserService = Substitute.For<ICurrentUserService>();
+        _currentUserService.UserId.Returns(_userId);
+        _timeProvider = new FixedTimeProvider(_now);
+        _sut = new UpdateFoodEventCommandHandler(_eventRepository, _unitOfWork, _currentUserService, _timeProvider);
+    }
+
+    private FoodEvent CreateFood(Guid ownerId)
+    {
+        return FoodEvent.Create(UserId.Create(ownerId), _now.AddHours(-2), Carbohydrate.Create(30).Value,
+            MealTagId.Create(1), AbsorptionHint.Normal, null, SourceType.Manual, _timeProvider, Guid.NewGuid(), Guid.NewGuid()).Value;
+    }
+
+    private UpdateFoodEventCommand Command(Guid id) =>
+        new(id, _now.AddHours(-1), 55, 2, AbsorptionHint.Rapid, "Corrected");
+
+    [Test]
+    public async Task Handle_NotFound_ShouldReturnFailure()
+    {
+        // Arrange
+        var id = Guid.NewGuid();
+        _eventRepository.GetByIdAsync(id, Arg.Any<CancellationToken>()).Returns((Event?)null);
+
+        // Act
+        var result = await _sut.Handle(Command(id), CancellationToken.None);
+
+        // Assert
+        Assert.That(result.IsFailure, Is.True);
+        Assert.That(result.Error.Code, Is.EqualTo("Event.NotFound"));
+        await _unitOfWork.DidNotReceive().SaveEntitiesAsync(Arg.Any<CancellationToken>());
+    }
+
+    [Test]
+    public async Task Handle_OtherEventType_ShouldReturnNotFound()
+    {
+        // Arrange
+        var id = Guid.NewGuid();
+        var note = NoteEvent.Create(UserId.Create(_userId), _now.AddHours(-1), NoteText.Create("note").Value,
+            SourceType.Manual, _timeProvider, Guid.NewGuid(), Guid.NewGuid()).Value;
+        _eventRepository.GetByIdAsync(id, Arg.Any<CancellationToken>()).Returns(note);
+
+        // Act
+        var result = await _sut.Handle(Command(id), CancellationToken.None);
+
+        // Assert
+        Assert.That(result.IsFailure, Is.True);
+        Assert.That(result.Error.Code, Is.EqualTo("Event.NotFound"));
+    }
+
+    [Test]
+    public async Task Handle_NotOwnedByUser_ShouldReturnForbidden()
+    {
+        // Arrange
+        var id = Guid.NewGuid();
+        var food = CreateFood(Guid.NewGuid());
+        _eventRepository.GetByIdAsync(id, Arg.Any<CancellationToken>()).Returns(food);
+
+        // Act
+        var result = await _sut.Handle(Command(id), CancellationToken.None);
+
+        // Assert
+        Assert.That(result.IsFailure, Is.True);
+        Assert.That(result.Error.Code, Is.EqualTo("Authorization.Forbidden"));
+        Assert.That(food.Carbohydrates.Grams, Is.EqualTo(30));
+    }
+
+    [Test]
+    public async Task Handle_OwnedFoodEvent_ShouldUpdateInPlaceAndSave()
+    {
+        // Arrange
+        var food = CreateFood(_userId);
+        _eventRepository.GetByIdAsync(food.Id, Arg.Any<CancellationToken>()).Returns(food);
+
+        // Act
+        var result = await _sut.Handle(Command(food.Id), CancellationToken.None);
+
+        // Assert
+        Assert.That(result.IsSuccess, Is.True);
+        var dto = result.Value;
+        Assert.Multiple(() =>
+        {
+            Assert.That(dto.EventId, Is.EqualTo(food.Id));
+            Assert.That(dto.EventTime, Is.EqualTo(_now.AddHours(-1)));
+            Assert.That(dto.CarbohydratesGrams, Is.EqualTo(55));
+            Assert.That(dto.MealTagId, Is.EqualTo(2));
+            Assert.That(dto.AbsorptionHint, Is.EqualTo(AbsorptionHint.Rapid));
+            Assert.That(dto.Note, Is.EqualTo("Corrected"));
+        });
+        _eventRepository.DidNotReceive().Add(Arg.Any<Event>());
+        await _unitOfWork.Received(1).SaveEntitiesAsync(Arg.Any<CancellationToken>());
+    }
+
+    private sealed class FixedTimeProvider : ITimeProvider
+    {
+        public FixedTimeProvider(DateTimeOffset utcNow) => UtcNow = utcNow;
+        public DateTimeOffset UtcNow { get; }
+    }
+}
@@ -0,0 +1,69 @@
+using Glyloop.Application.Commands.Account.UpdatePreferences;
+using Glyloop.Application.Common.Interfaces;
+using Glyloop.Domain.Common;
+using Glyloop.Domain.ValueObjects;
+using NSubstitute;
+using NUnit.Framework;
+
+namespace Glyloop.Application.Tests;
+
+/// <summary>
+/// Unit tests for UpdatePreferencesCommandHandler covering persistence of the TIR bounds and display unit.
+/// </summary>
+[TestFixture]
+[Category("Unit")]
+public class UpdatePreferencesCommandHandlerTests
+{
+    private IIdentityService _identityService = null!;
+    private ICurrentUserService _currentUserService = null!;
+    private UpdatePreferencesCommandHandler _sut = null!;
+
+    private readonly Guid _userId = Guid.Parse("44444444-5555-6666-7777-888888888888");
+
+    [SetUp]
+    public void SetUp()
+    {
+        _identityService = Substitute.For<IIdentityService>();
+        _currentUserService = Substitute.For<ICurrentUserService>();
+        _currentUserService.UserId.Returns(_userId);
+        _identityService
+            .UpdateUserPreferencesAsync(Arg.Any<UserId>(), Arg.Any<UserPreferences>(), Arg.Any<CancellationToken>())
+            .Returns(Result.Success());
+        _sut = new UpdatePreferencesCommandHandler(_identityService, _currentUserService);
+    }
+
+    [Test]
+    public async Task Handle_ShouldSaveBoundsAndGlucoseUnit()
+    {
+        // Arrange
+        var command = new UpdatePreferencesCommand(72, 162, 60, 220, GlucoseUnits.MmolL);
+
+        // Act
+        var result = await _sut.Handle(command, CancellationToken.None);
+
+        // Assert
+        Assert.That(result.IsSuccess, Is.True);
+        Assert.That(result.Value.GlucoseUnit, Is.EqualTo(GlucoseUnits.MmolL));
+        await _identityService.Received(1).UpdateUserPreferencesAsync(
+            UserId.Create(_userId),
+            Arg.Is<UserPreferences>(p =>
+                p.TirRange.Lower == 72 && p.TirRange.Upper == 162 && p.VeryLowBound == 60 && p.VeryHighBound == 220
+                && p.GlucoseUnit == GlucoseUnits.MmolL),
+            Arg.Any<CancellationToken>());
+    }
+
+    [Test]
+    public async Task Handle_InvalidRange_ShouldNotSave()
+    {
+        // Arrange
+        var command = new UpdatePreferencesCommand(180, 70, 54, 250, GlucoseUnits.MgDl);
+
+        // Act
+        var result = await _sut.Handle(command, CancellationToken.None);
+
+        // Assert
+        Assert.That(result.IsFailure, Is.True);
+        await _identityService.DidNotReceive().UpdateUserPreferencesAsync(
+            Arg.Any<UserId>(), Arg.Any<UserPreferences>(), Arg.Any<CancellationToken>());
+    }
+}
@@ -2,6 +2,7 @@ using Glyloop.Domain.Aggregates.Event;
 using Glyloop.Domain.Aggregates.Event.Events;
 using Glyloop.Domain.Common;
 using Glyloop.Domain.Enums;
+using Glyloop.Domain.Errors;
 using Glyloop.Domain.ValueObjects;
 using NSubstitute;
 using NUnit.Framework;
@@ -91,6 +92,105 @@ public class FoodEventTests
             Assert.That(evt!.CausationId, Is.EqualTo(caus));
         });
     }
-}
 
+    private static FoodEvent CreateFood(ITimeProvider clock, DateTimeOffset when)
+    {
+        return FoodEvent.Create(
+            UserId.Create(Guid.NewGuid()),
+            when,
+            Carbohydrate.Create(30).Value,
+            MealTagId.Create(1),
+            AbsorptionHint.Normal,
+            null,
+            SourceType.Manual,
+            clock,
+            Guid.NewGuid(),
+            Guid.NewGuid()).Value;
+    }
+
+    [Test]
+    public void Update_ShouldReplaceDetails_AndKeepIdentity()
+    {
+        var now = new DateTimeOffset(2025, 11, 8, 12, 0, 0, TimeSpan.Zero);
+        var clock = Clock(now);
+        var food = CreateFood(clock, now.AddHours(-2));
+        var id = food.Id;
+        var note = NoteText.Create("corrected").Value;
+
+        var result = food.Update(
+            now.AddHours(-1), Carbohydrate.Create(60).Value, MealTagId.Create(2), AbsorptionHint.Rapid, note, clock);
+
+        Assert.That(result.IsSuccess, Is.True);
+        Assert.Multiple(() =>
+        {
+            Assert.That(food.Id, Is.EqualTo(id));
+            Assert.That(food.EventTime, Is.EqualTo(now.AddHours(-1)));
+            Assert.That(food.Carbohydrates.Grams, Is.EqualTo(60));
+            Assert.That(food.MealTag.Value, Is.EqualTo(2));
+            Assert.That(food.AbsorptionHint, Is.EqualTo(AbsorptionHint.Rapid));
+            Assert.That(food.Note, Is.EqualTo(note));
+            Assert.That(food.CreatedAt, Is.EqualTo(now));
+        });
+    }
+
+    [Test]
+    public void Update_ShouldFail_WhenInFuture()
+    {
+        var now = new DateTimeOffset(2025, 11, 8, 12, 0, 0, TimeSpan.Zero);
+        var clock = Clock(now);
+        var food = CreateFood(clock, now.AddHours(-2));
+
+        var result = food.Update(
+            now.AddMinutes(5), Carbohydrate.Create(60).Value, MealTagId.Create(1), AbsorptionHint.Normal, null, clock);
 
+        Assert.That(result.IsFailure, Is.True);
+        Assert.That(food.EventTime, Is.EqualTo(now.AddHours(-2)));
+    }
+
+    [Test]
+    public void Update_ShouldFail_WhenDeleted()
+    {
+        var now = new DateTimeOffset(2025, 11, 8, 12, 0, 0, TimeSpan.Zero);
+        var clock = Clock(now);
+        var food = CreateFood(clock, now.AddHours(-2));
+        food.Delete(clock);
+
+        var result = food.Update(
+            now.AddHours(-1), Carbohydrate.Create(60).Value, MealTagId.Create(1), AbsorptionHint.Normal, null, clock);
+
+        Assert.That(result.IsFailure, Is.True);
+        Assert.That(result.Error, Is.EqualTo(DomainErrors.Event.EventDeleted));
+        Assert.That(food.Carbohydrates.Grams, Is.EqualTo(30));
+    }
+
+    [Test]
+    public void Delete_ThenRestore_ShouldToggleDeletedAt()
+    {
+        var now = new DateTimeOffset(2025, 11, 8, 12, 0, 0, TimeSpan.Zero);
+        var clock = Clock(now);
+        var food = CreateFood(clock, now.AddHours(-2));
+
+        var deleteResult = food.Delete(clock);
+        Assert.That(deleteResult.IsSuccess, Is.True);
+        Assert.That(food.IsDeleted, Is.True);
+        Assert.That(food.DeletedAt, Is.EqualTo(now));
+
+        var restoreResult = food.Restore();
+        Assert.That(restoreResult.IsSuccess, Is.True);
+        Assert.That(food.IsDeleted, Is.False);
+        Assert.That(food.DeletedAt, Is.Null);
+    }
+
+    [Test]
+    public void Delete_ShouldFail_WhenAlreadyDeleted_AndRestore_ShouldFail_WhenActive()
+    {
+        var now = new DateTimeOffset(2025, 11, 8, 12, 0, 0, TimeSpan.Zero);
+        var clock = Clock(now);
+        var food = CreateFood(clock, now.AddHours(-2));
+
+        Assert.That(food.Restore().Error, Is.EqualTo(DomainErrors.Event.EventNotDeleted));
+
+        food.Delete(clock);
+        Assert.That(food.Delete(clock).Error, Is.EqualTo(DomainErrors.Event.EventDeleted));
+    }
+}
@@ -79,6 +79,25 @@ public class NoteEventTests
             Assert.That(evt!.CausationId, Is.EqualTo(caus));
         });
     }
-}
 
+    [Test]
+    public void Update_ShouldReplaceTextAndTime_AndKeepNoteEmpty()
+    {
+        var now = new DateTimeOffset(2025, 11, 8, 12, 0, 0, TimeSpan.Zero);
+        var clock = Clock(now);
+        var user = UserId.Create(Guid.NewGuid());
+        var e = NoteEvent.Create(
+            user, now.AddHours(-1), NoteText.Create("before").Value, SourceType.Manual, clock, Guid.NewGuid(), Guid.NewGuid()).Value;
+        var text = NoteText.Create("after").Value;
+
+        var result = e.Update(now.AddMinutes(-30), text, clock);
 
+        Assert.That(result.IsSuccess, Is.True);
+        Assert.Multiple(() =>
+        {
+            Assert.That(e.Text, Is.EqualTo(text));
+            Assert.That(e.EventTime, Is.EqualTo(now.AddMinutes(-30)));
+            Assert.That(e.Note, Is.Null);
+        });
+    }
+}
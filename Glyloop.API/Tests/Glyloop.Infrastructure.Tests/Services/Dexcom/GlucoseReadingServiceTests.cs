@@ -123,6 +123,40 @@ public class GlucoseReadingServiceTests
             Assert.That(result.Value[1].ValueMgDl, Is.EqualTo(105));
         });
     }
-}
 
+    [Test]
+    public async Task GetReadingsInRangeAsync_ShouldSplitLongWindowsIntoThirtyDayRequests()
+    {
+        var (api, repo, enc, log) = Mocks();
+        var userId = UserId.Create(Guid.NewGuid());
+        var timeProvider = Substitute.For<Glyloop.Domain.Common.ITimeProvider>();
+        timeProvider.UtcNow.Returns(DateTimeOffset.UtcNow);
+        var link = DexcomLink.Create(userId, new byte[] { 1 }, new byte[] { 2 }, DateTimeOffset.UtcNow.AddHours(1), timeProvider, Guid.NewGuid(), Guid.NewGuid()).Value;
+        repo.GetActiveByUserIdAsync(userId, Arg.Any<CancellationToken>()).Returns(link);
+        enc.Decrypt(Arg.Any<byte[]>()).Returns("access");
+
+        var end = new DateTimeOffset(2024, 10, 01, 0, 0, 0, TimeSpan.Zero);
+        var start = end.AddDays(-45);
+        var split = start.AddDays(30);
+        api.GetGlucoseReadingsAsync("access", start, split, Arg.Any<CancellationToken>())
+            .Returns(Result.Success(new GlucoseReadingsResponse(new List<Glyloop.Infrastructure.Services.Dexcom.Models.GlucoseReading>
+            {
+                new(start.AddDays(1), start.AddDays(1), 120, "mg/dL", "flat")
+            })));
+        api.GetGlucoseReadingsAsync("access", split, end, Arg.Any<CancellationToken>())
+            .Returns(Result.Success(new GlucoseReadingsResponse(new List<Glyloop.Infrastructure.Services.Dexcom.Models.GlucoseReading>
+            {
+                new(end.AddDays(-1), end.AddDays(-1), 140, "mg/dL", "flat")
+            })));
 
+        var svc = new GlucoseReadingService(api, repo, enc, log);
+        var result = await svc.GetReadingsInRangeAsync(userId, start, end);
+
+        await api.Received(2).GetGlucoseReadingsAsync("access", Arg.Any<DateTimeOffset>(), Arg.Any<DateTimeOffset>(), Arg.Any<CancellationToken>());
+        Assert.Multiple(() =>
+        {
+            Assert.That(result.IsSuccess, Is.True);
+            Assert.That(result.Value.Select(r => r.ValueMgDl), Is.EqualTo(new[] { 120, 140 }));
+        });
+    }
+}
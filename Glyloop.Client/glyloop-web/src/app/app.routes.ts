@@ -13,6 +13,26 @@ export const routes: Routes = [
         loadComponent: () => import('./features/dashboard/dashboard-page.component').then(m => m.DashboardPageComponent),
         data: { title: 'Dashboard' }
       },
+      {
+        path: 'agp',
+        loadComponent: () => import('./features/agp/agp-page.component').then(m => m.AgpPageComponent),
+        data: { title: 'AGP Report' }
+      },
+      {
+        path: 'meals',
+        loadComponent: () => import('./features/meals/meal-insights-page.component').then(m => m.MealInsightsPageComponent),
+        data: { title: 'Meal Insights' }
+      },
+      {
+        path: 'exercise',
+        loadComponent: () => import('./features/exercise/exercise-insights-page.component').then(m => m.ExerciseInsightsPageComponent),
+        data: { title: 'Exercise Insights' }
+      },
+      {
+        path: 'compare',
+        loadComponent: () => import('./features/compare/period-comparison-page.component').then(m => m.PeriodComparisonPageComponent),
+        data: { title: 'Compare Periods' }
+      },
       {
         path: 'settings',
         redirectTo: 'settings/data-sources',
@@ -0,0 +1,67 @@
+// ============================================================================
+// Ambulatory Glucose Profile (AGP) Types
+// ============================================================================
+
+export type AgpPeriodDays = 14 | 30;
+
+/**
+ * Glucose percentiles for one time-of-day bucket, aggregated across all days
+ */
+export interface AgpPercentileBucket {
+  minuteOfDay: number; // bucket start, 0..1439 (local time)
+  p5: number | null;
+  p25: number | null;
+  p50: number | null;
+  p75: number | null;
+  p95: number | null;
+  readings: number;
+}
+
+/**
+ * Summary statistics shown alongside the AGP chart
+ */
+export interface AgpSummaryStats {
+  meanGlucose: number | null; // mg/dL
+  gmi: number | null; // %
+  coefficientOfVariation: number | null; // %
+  dataCapturePercentage: number; // 0..100
+  totalReadings: number;
+  startTime: string;
+  endTime: string;
+}
+
+export interface AgpReportVM {
+  periodDays: AgpPeriodDays;
+  buckets: AgpPercentileBucket[];
+  stats: AgpSummaryStats;
+  days: DailyOverlayDay[]; // oldest first
+}
+
+/**
+ * Glucose reading placed on the 24-hour axis of its local day
+ */
+export interface DailyOverlayPoint {
+  minuteOfDay: number; // 0..1439 (local time)
+  value: number; // mg/dL
+}
+
+/**
+ * Event marker on the day it happened, at the nearest reading's value
+ */
+export interface DailyOverlayMarker {
+  eventId: string;
+  eventType: string;
+  minuteOfDay: number;
+  value: number | null; // mg/dL, null when no reading is within 15 minutes
+  summary: string | null;
+}
+
+/**
+ * One local calendar day of readings and events for the daily overlay
+ */
+export interface DailyOverlayDay {
+  key: string; // local date, YYYY-MM-DD
+  dayStart: string; // ISO, local midnight
+  points: DailyOverlayPoint[];
+  markers: DailyOverlayMarker[];
+}
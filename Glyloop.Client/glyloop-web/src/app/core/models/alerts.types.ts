@@ -0,0 +1,76 @@
+// ============================================================================
+// Glucose Alert Types
+// ============================================================================
+
+/**
+ * Alert rules evaluated against the latest CGM readings:
+ * - urgentLow / low: latest reading at or below the threshold
+ * - high: latest reading at or above the threshold
+ * - risingFast / fallingFast: latest trend arrow is single or double up/down
+ * - noData: no reading for the threshold number of minutes
+ */
+export type AlertRuleKind = 'urgentLow' | 'low' | 'high' | 'risingFast' | 'fallingFast' | 'noData';
+
+export type AlertSeverity = 'urgent' | 'warning';
+
+/**
+ * Daily window in which a rule stays silent; may wrap past midnight (e.g. 22:00-07:00)
+ */
+export interface AlertQuietHours {
+  enabled: boolean;
+  start: string; // HH:mm, local time
+  end: string; // HH:mm, local time
+}
+
+/**
+ * User configuration of one alert rule
+ */
+export interface AlertRule {
+  kind: AlertRuleKind;
+  enabled: boolean;
+  threshold: number | null; // mg/dL for glucose rules, minutes for noData; null for trend rules
+  snoozeMinutes: number; // Snooze length offered from the banner
+  snoozedUntil: string | null; // ISO
+  quietHours: AlertQuietHours;
+}
+
+/**
+ * Alert rules and notification preference saved on this device
+ */
+export interface AlertSettings {
+  notificationsEnabled: boolean; // Also show browser notifications (when permitted)
+  rules: AlertRule[];
+}
+
+/**
+ * Rule condition met by the latest readings
+ */
+export interface AlertTrigger {
+  kind: AlertRuleKind;
+  severity: AlertSeverity;
+  value: number | null; // mg/dL of the latest reading; null for noData
+  readingTime: string | null; // ISO of the latest reading
+}
+
+/**
+ * Alert whose condition is currently met
+ */
+export interface ActiveGlucoseAlert extends AlertTrigger {
+  id: string;
+  triggeredAt: string; // ISO
+  acknowledgedAt?: string; // ISO; hidden from the banner until the condition clears
+}
+
+export type AlertAcknowledgementAction = 'acknowledged' | 'snoozed';
+
+/**
+ * Record of a user responding to an alert
+ */
+export interface AlertAcknowledgement {
+  alertId: string;
+  kind: AlertRuleKind;
+  value: number | null; // mg/dL when the alert fired
+  triggeredAt: string; // ISO
+  acknowledgedAt: string; // ISO
+  action: AlertAcknowledgementAction;
+}
@@ -0,0 +1,57 @@
+// ============================================================================
+// Period Comparison Types
+// ============================================================================
+
+import {
+  ChartWindow,
+  GlucoseVariabilityStats,
+  TimeInRangeResponseDto,
+  TirBandBreakdown
+} from './dashboard.types';
+
+/**
+ * Compared window length: day vs previous day, week vs previous week, 14 vs previous 14 days
+ */
+export type ComparisonPreset = 'day' | 'week' | 'fortnight';
+
+/**
+ * TIR and glucose statistics of one compared window
+ */
+export interface PeriodSummary {
+  window: ChartWindow;
+  tir: TimeInRangeResponseDto;
+  bands: TirBandBreakdown | null;
+  stats: GlucoseVariabilityStats;
+}
+
+export type ComparisonMetricKey =
+  | 'inRange'
+  | 'veryLow'
+  | 'low'
+  | 'high'
+  | 'veryHigh'
+  | 'mean'
+  | 'standardDeviation'
+  | 'coefficientOfVariation'
+  | 'gmi'
+  | 'mage';
+
+/**
+ * One compared metric. `outcome` says whether the change is an improvement;
+ * changes within the metric's tolerance count as unchanged.
+ */
+export interface ComparisonRow {
+  key: ComparisonMetricKey;
+  current: number | null;
+  previous: number | null;
+  delta: number | null; // current - previous
+  direction: 'up' | 'down' | 'flat' | null; // null when either side is missing
+  outcome: 'better' | 'worse' | 'neutral';
+}
+
+export interface PeriodComparisonVM {
+  preset: ComparisonPreset;
+  current: PeriodSummary;
+  previous: PeriodSummary;
+  rows: ComparisonRow[];
+}
@@ -8,6 +8,14 @@ export type ChartRange = 1 | 3 | 5 | 8 | 12 | 24;
 
 export type EventType = 'Food' | 'Insulin' | 'Exercise' | 'Note';
 
+/**
+ * Explicit chart time window (used instead of a ChartRange preset ending now)
+ */
+export interface ChartWindow {
+  startTime: string; // ISO 8601
+  endTime: string; // ISO 8601
+}
+
 export interface PagedResponseDto<T> {
   items: T[];
   page: number;
@@ -20,7 +28,31 @@ export interface PagedResponseDto<T> {
 export interface GlucosePointDto {
   timestamp: string; // ISO 8601
   value: number | null; // null to create a gap/break
-  trend?: string | null;
+  trend?: string | null; // Dexcom trend arrow, e.g. "flat", "fortyFiveUp", "singleDown"
+}
+
+/**
+ * Dexcom trend arrows with a direction (other values such as "notComputable" have none)
+ */
+export type GlucoseTrend =
+  | 'doubleUp'
+  | 'singleUp'
+  | 'fortyFiveUp'
+  | 'flat'
+  | 'fortyFiveDown'
+  | 'singleDown'
+  | 'doubleDown';
+
+/**
+ * Latest reading shown in the dashboard's current reading tile
+ */
+export interface CurrentGlucoseReading {
+  timestamp: string; // ISO
+  value: number; // mg/dL
+  trend: GlucoseTrend | null;
+  deltaMgdl: number | null; // Change since the previous reading; null without a recent one
+  minutesAgo: number;
+  stale: boolean; // Older than 15 minutes
 }
 
 export interface OverlayEventMarkerDto {
@@ -47,6 +79,51 @@ export interface TimeInRangeResponseDto {
   readingsAboveRange: number;
   targetLowerBound: number; // e.g., 70
   targetUpperBound: number; // e.g., 180
+  readingsVeryLow: number; // subset of readingsBelowRange
+  readingsVeryHigh: number; // subset of readingsAboveRange
+  veryLowBound: number; // e.g., 54
+  veryHighBound: number; // e.g., 250
+}
+
+// Five-band TIR breakdown (international consensus: <54, 54-69, 70-180, 181-250, >250 mg/dL)
+export type TirBandKey = 'veryLow' | 'low' | 'inRange' | 'high' | 'veryHigh';
+
+export interface TirBandThresholds {
+  veryLow: number; // mg/dL, e.g., 54
+  low: number; // target lower bound, e.g., 70
+  high: number; // target upper bound, e.g., 180
+  veryHigh: number; // mg/dL, e.g., 250
+}
+
+export interface TirBand {
+  key: TirBandKey;
+  readings: number;
+  percentage: number; // 0..100
+}
+
+export interface TirBandBreakdown {
+  bands: TirBand[]; // ordered very low -> very high
+  totalReadings: number;
+  thresholds: TirBandThresholds;
+}
+
+/**
+ * Glycemic variability statistics of a loaded glucose series (mg/dL unless noted)
+ */
+export interface GlucoseVariabilityStats {
+  mean: number | null;
+  median: number | null;
+  standardDeviation: number | null;
+  coefficientOfVariation: number | null; // %
+  gmi: number | null; // %
+  estimatedA1c: number | null; // %
+  mage: number | null;
+  lbgi: number | null; // unitless risk index
+  hbgi: number | null; // unitless risk index
+  dataCapturePercentage: number; // 0..100
+  windowDays: number;
+  totalReadings: number;
+  sufficientData: boolean; // at least 14 days with 70% of readings captured
 }
 
 // Events (list and details)
@@ -55,6 +132,8 @@ export interface EventListItemDto {
   eventType: EventType;
   eventTime: string;
   summary: string;
+  note?: string | null; // Searched by the API and highlighted in results
+  noteText?: string | null; // Note events only
 }
 
 export interface EventResponseDto {
@@ -118,18 +197,64 @@ export interface CreateNoteEventRequestDto {
   noteText: string;
 }
 
+/**
+ * A create request tagged with its event type (selects the create endpoint)
+ */
+export type CreateEventRequest =
+  | { eventType: 'Food'; payload: CreateFoodEventRequestDto }
+  | { eventType: 'Insulin'; payload: CreateInsulinEventRequestDto }
+  | { eventType: 'Exercise'; payload: CreateExerciseEventRequestDto }
+  | { eventType: 'Note'; payload: CreateNoteEventRequestDto };
+
+// Update Event payloads (same shape as create; event type cannot change)
+export type UpdateFoodEventRequestDto = CreateFoodEventRequestDto;
+export type UpdateInsulinEventRequestDto = CreateInsulinEventRequestDto;
+export type UpdateExerciseEventRequestDto = CreateExerciseEventRequestDto;
+export type UpdateNoteEventRequestDto = CreateNoteEventRequestDto;
+
 // View models
 export interface HistoryFilters {
   fromDateUtc?: string; // ISO, start inclusive
   toDateUtc?: string; // ISO, end inclusive
   types?: EventType[];
+  search?: string; // Free text matched against summary, note and note text
   page: number;
   pageSize: number; // ≤100
 }
 
+/**
+ * Accumulated history pages for one filter set (infinite scroll)
+ */
+export interface HistoryListState {
+  items: EventListItemDto[];
+  totalItems: number;
+  totalPages: number;
+  loadedPages: number;
+  pageSize: number;
+  removedSinceLoad: number; // Removed in place; the last loaded page is re-read before the next
+  restoredFrom?: string; // ISO save time when restored from the offline snapshot
+}
+
+/**
+ * Last live dashboard data saved on this device so the dashboard opens instantly
+ * (and stays readable offline) before fresh data arrives
+ */
+export interface DashboardSnapshot {
+  range: ChartRange;
+  chartData: ChartDataResponseDto | null;
+  tir: TimeInRangeResponseDto | null;
+  savedAt: string; // ISO, when the chart data or TIR was last saved
+  history: {
+    filters: HistoryFilters;
+    response: PagedResponseDto<EventListItemDto>;
+    savedAt: string; // ISO
+  } | null;
+}
+
 export type PollState =
   | { status: 'idle' }
   | { status: 'ok'; lastFetchedAt: Date }
   | { status: 'paused' }
   | { status: 'backoff'; nextRetryAt: Date; attempt: number }
-  | { status: 'error'; message: string };
+  | { status: 'error'; message: string }
+  | { status: 'offline'; since: Date };
@@ -0,0 +1,69 @@
+// ============================================================================
+// Event Import Types
+// ============================================================================
+
+import { CreateEventRequest, EventType } from './dashboard.types';
+
+/**
+ * Event fields a CSV column can be mapped to.
+ * `eventTime` holds the date (optionally with time); `eventTimeOfDay` is for
+ * logs that keep the time in a separate column.
+ */
+export type ImportTargetField =
+  | 'eventTime'
+  | 'eventTimeOfDay'
+  | 'carbohydratesGrams'
+  | 'mealTag'
+  | 'absorptionHint'
+  | 'foodNote'
+  | 'insulinType'
+  | 'insulinUnits'
+  | 'preparation'
+  | 'delivery'
+  | 'timing'
+  | 'insulinNote'
+  | 'exerciseType'
+  | 'durationMinutes'
+  | 'intensity'
+  | 'exerciseNote'
+  | 'noteText';
+
+/**
+ * Target field per CSV column (by index); null = column ignored
+ */
+export type ImportColumnMapping = (ImportTargetField | null)[];
+
+/**
+ * Date layouts accepted for the event time column
+ */
+export type ImportDateFormat = 'iso' | 'dmy' | 'mdy';
+
+export type ImportEventDraft = CreateEventRequest;
+
+/**
+ * One event parsed from a CSV row (a row can yield several events,
+ * e.g. carbs and insulin logged on the same line)
+ */
+export interface ImportPreviewItem {
+  rowNumber: number; // CSV row number, header = 1 (blank lines are not counted)
+  eventType: EventType | null; // null when the row has no usable event data
+  draft: ImportEventDraft | null; // null when the row has errors
+  errors: string[];
+  duplicateOf: 'existing' | 'file' | null;
+}
+
+export interface ImportFailure {
+  rowNumber: number;
+  eventType: EventType;
+  message: string;
+}
+
+/**
+ * Running totals while submitting an import
+ */
+export interface ImportProgress {
+  total: number;
+  completed: number;
+  succeeded: number;
+  failures: ImportFailure[];
+}
@@ -0,0 +1,19 @@
+// ============================================================================
+// Event Outcome Types
+// ============================================================================
+
+/**
+ * Glucose reading relative to an event (negative minutes are before it)
+ */
+export interface EventOutcomePoint {
+  minutes: number;
+  value: number; // mg/dL
+}
+
+/**
+ * Option event outcomes are grouped by (meal tag, absorption hint, exercise type...)
+ */
+export interface OutcomeGroupOption {
+  key: string;
+  label: string;
+}
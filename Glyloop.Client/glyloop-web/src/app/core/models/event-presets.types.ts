@@ -0,0 +1,39 @@
+// ============================================================================
+// Quick-log Preset Types
+// ============================================================================
+
+import {
+  CreateExerciseEventRequestDto,
+  CreateFoodEventRequestDto,
+  CreateInsulinEventRequestDto,
+  CreateNoteEventRequestDto,
+  EventType
+} from './dashboard.types';
+
+/**
+ * Event fields a preset fills in: everything in a create request but the event time
+ */
+export type EventPresetFields =
+  | { eventType: 'Food'; values: Omit<CreateFoodEventRequestDto, 'eventTime'> }
+  | { eventType: 'Insulin'; values: Omit<CreateInsulinEventRequestDto, 'eventTime'> }
+  | { eventType: 'Exercise'; values: Omit<CreateExerciseEventRequestDto, 'eventTime'> }
+  | { eventType: 'Note'; values: Omit<CreateNoteEventRequestDto, 'eventTime'> };
+
+/**
+ * Named, user-defined preset for the Add Event modal
+ */
+export type EventPreset = EventPresetFields & {
+  id: string;
+  name: string;
+  useCount: number; // events created from the preset
+  lastUsedAt: string | null;
+};
+
+/**
+ * Presets and the most recently created event per type ("repeat last"),
+ * saved on this device
+ */
+export interface EventPresetsState {
+  presets: EventPreset[];
+  lastEvents: Partial<Record<EventType, EventPresetFields>>;
+}
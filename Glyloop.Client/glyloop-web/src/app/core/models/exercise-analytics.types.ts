@@ -0,0 +1,68 @@
+// ============================================================================
+// Exercise Analytics Types
+// ============================================================================
+
+import { EventOutcomePoint } from './event-outcome.types';
+
+/**
+ * Glucose during and after one Exercise event, computed from the surrounding readings.
+ * Glucose values are mg/dL; null when the readings do not cover that metric.
+ */
+export interface ExerciseImpact {
+  eventId: string;
+  eventTime: string; // ISO
+  exerciseTypeId: number | null;
+  durationMinutes: number;
+  intensity: string | null;
+  startValue: number | null; // mean of the readings in the 15 minutes before the session
+  endValue: number | null; // reading closest to the end of the session (±10 minutes)
+  dropDuring: number | null; // startValue - lowest reading during the session
+  nadir: number | null; // lowest reading from the start through the follow-up
+  minutesToNadir: number | null; // from the start of the session
+  maxDrop: number | null; // startValue - nadir
+  lowDuring: boolean; // a reading below 70 mg/dL during the session
+  delayedHypo: boolean; // a reading below 70 mg/dL from 1 hour after the session
+  minutesToDelayedHypo: number | null; // from the end of the session
+  complete: boolean; // readings cover the session and follow-up without long gaps
+  curve: EventOutcomePoint[]; // minutes since the event
+}
+
+export type ExerciseInsightsPeriodDays = 14 | 30 | 90;
+
+/**
+ * How sessions are grouped on the exercise insights page
+ */
+export type ExerciseGrouping = 'exerciseType' | 'intensity';
+
+/**
+ * Aggregated impact for a group of sessions (mg/dL, minutes)
+ */
+export interface ExerciseImpactSummary {
+  key: string;
+  label: string;
+  sessions: number;
+  averageDuration: number | null;
+  averageDropDuring: number | null;
+  averageMaxDrop: number | null;
+  averageNadir: number | null;
+  lowsDuring: number;
+  delayedHypos: number;
+  delayedHypoRate: number | null; // percent of sessions
+}
+
+/**
+ * Sessions, average largest drop and delayed hypos for one week
+ */
+export interface ExerciseWeekTrend {
+  weekStart: string; // ISO
+  sessions: number;
+  averageMaxDrop: number | null;
+  delayedHypos: number;
+}
+
+export interface ExerciseInsightsVM {
+  periodDays: ExerciseInsightsPeriodDays;
+  startTime: string;
+  endTime: string;
+  sessions: ExerciseImpact[]; // newest first
+}
@@ -0,0 +1,26 @@
+// ============================================================================
+// Data Export Types
+// ============================================================================
+
+import { EventListItemDto, GlucosePointDto, TirBandThresholds } from './dashboard.types';
+import { GlucoseUnit } from './settings.types';
+
+export type ExportFormat = 'csv' | 'pdf';
+
+/**
+ * Glucose readings and events for one export window
+ */
+export interface ExportData {
+  startTime: string; // ISO, inclusive
+  endTime: string; // ISO, exclusive
+  glucoseData: GlucosePointDto[];
+  events: EventListItemDto[];
+}
+
+/**
+ * Display settings applied to the printable report
+ */
+export interface ExportReportOptions {
+  unit: GlucoseUnit;
+  thresholds: TirBandThresholds;
+}
@@ -0,0 +1,41 @@
+// ============================================================================
+// Hypoglycemia Episode Types
+// ============================================================================
+
+/**
+ * Consecutive readings below the lower bound, from the first low reading
+ * until glucose is back at or above the bound
+ */
+export interface HypoEpisode {
+  id: string; // start time
+  startTime: string; // first reading below the bound
+  endTime: string; // first reading back in range, or last low reading + one interval
+  durationMinutes: number;
+  nadir: number; // mg/dL
+  nadirTime: string;
+  recoveryMinutes: number | null; // nadir to back in range; null when not observed
+  ongoing: boolean; // still low at a recent latest reading
+  treatmentEventIds: string[]; // Food events logged with "Treat" for this episode
+}
+
+/**
+ * Food events logged as the treatment of an episode, with the episode's end as shown then
+ */
+export interface HypoTreatmentLink {
+  endTime: string;
+  eventIds: string[];
+}
+
+/**
+ * Treatment links by episode start time, saved on this device. An episode's start and end
+ * depend on the loaded window, so links apply to every episode overlapping their span.
+ */
+export type HypoTreatments = Record<string, HypoTreatmentLink>;
+
+/**
+ * Episode detection and display preferences saved on this device
+ */
+export interface HypoSettings {
+  minDurationMinutes: number; // shorter runs of low readings are ignored
+  showOnChart: boolean; // shade episodes on the glucose chart
+}
@@ -0,0 +1,63 @@
+// ============================================================================
+// Meal Analytics Types
+// ============================================================================
+
+import { EventOutcomePoint } from './event-outcome.types';
+
+/**
+ * Glucose response to one Food event, computed from the surrounding readings.
+ * Glucose values are mg/dL; null when the readings do not cover that metric.
+ */
+export interface MealResponse {
+  eventId: string;
+  eventTime: string; // ISO
+  carbohydratesGrams: number | null;
+  mealTagId: number | null;
+  absorptionHint: string | null;
+  baseline: number | null; // mean of the readings in the 30 minutes before the meal
+  peak: number | null; // highest reading within 3 hours
+  peakRise: number | null; // peak - baseline
+  minutesToPeak: number | null;
+  value2h: number | null; // reading closest to 2 hours (±10 minutes)
+  value3h: number | null; // reading closest to 3 hours (±10 minutes)
+  incrementalAuc: number | null; // area above baseline over 3 hours, mg/dL·h
+  complete: boolean; // readings cover the meal through 3 hours without long gaps
+  curve: EventOutcomePoint[]; // minutes since the event
+}
+
+export type MealInsightsPeriodDays = 14 | 30 | 90;
+
+/**
+ * How meals are grouped on the insights page
+ */
+export type MealGrouping = 'mealTag' | 'absorption';
+
+/**
+ * Average response for a group of meals (mg/dL, minutes, grams)
+ */
+export interface MealResponseSummary {
+  key: string;
+  label: string;
+  meals: number;
+  averageCarbs: number | null;
+  averagePeakRise: number | null;
+  averageMinutesToPeak: number | null;
+  averageValue2h: number | null;
+  averageIncrementalAuc: number | null;
+}
+
+/**
+ * Average peak rise per week for one group
+ */
+export interface MealTrendSeries {
+  key: string;
+  label: string;
+  points: { weekStart: string; averagePeakRise: number | null; meals: number }[];
+}
+
+export interface MealInsightsVM {
+  periodDays: MealInsightsPeriodDays;
+  startTime: string;
+  endTime: string;
+  meals: MealResponse[]; // newest first
+}
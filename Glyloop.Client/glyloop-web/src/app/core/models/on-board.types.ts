@@ -0,0 +1,59 @@
+// ============================================================================
+// Insulin / Carbs On Board Types
+// ============================================================================
+
+/**
+ * Insulin preparations with their own action curve (values of `preparation`)
+ */
+export type InsulinPreparation = 'Rapid' | 'Short' | 'Intermediate' | 'Long';
+
+/**
+ * Carb absorption speeds (values of `absorptionHint`)
+ */
+export type AbsorptionSpeed = 'Fast' | 'Medium' | 'Slow';
+
+/**
+ * Exponential insulin action curve: activity peaks after `peakMinutes` and
+ * ends after `durationMinutes`
+ */
+export interface InsulinActionCurve {
+  durationMinutes: number;
+  peakMinutes: number;
+}
+
+/**
+ * IOB/COB model configuration saved on this device
+ */
+export interface OnBoardSettings {
+  insulinCurves: Record<InsulinPreparation, InsulinActionCurve>;
+  absorptionMinutes: Record<AbsorptionSpeed, number>; // Linear absorption time per speed
+  includeLongActing: boolean; // Count basal (insulin type Long) doses in IOB
+  showOnChart: boolean; // Draw IOB/COB curves on the glucose chart
+}
+
+/**
+ * Insulin dose taken from an Insulin event
+ */
+export interface InsulinDose {
+  epochMs: number;
+  units: number;
+  preparation: InsulinPreparation;
+}
+
+/**
+ * Carb intake taken from a Food event
+ */
+export interface CarbIntake {
+  epochMs: number;
+  grams: number;
+  absorption: AbsorptionSpeed;
+}
+
+/**
+ * Insulin and carbs still active at a point in time
+ */
+export interface OnBoardPoint {
+  timestamp: string; // ISO
+  iob: number; // units
+  cob: number; // grams
+}
@@ -0,0 +1,38 @@
+// ============================================================================
+// Offline Outbox Types
+// ============================================================================
+
+import { CreateEventRequest, EventListItemDto } from './dashboard.types';
+
+/**
+ * Sync state of a queued create request:
+ * - pending: waiting for connectivity (or retried after a server error)
+ * - failed: rejected by the API; needs to be retried or discarded
+ * - conflict: a matching event already exists (e.g. an earlier attempt reached the server)
+ */
+export type OutboxStatus = 'pending' | 'failed' | 'conflict';
+
+/**
+ * Create request saved on this device until it reaches the API
+ */
+export interface OutboxEntry {
+  id: string; // Local ID (`local-…`), also used for pending rows and chart markers
+  userId: string; // Account that queued the entry; only that account sees and replays it
+  request: CreateEventRequest;
+  queuedAt: string; // ISO; entries are replayed in this order
+  status: OutboxStatus;
+  attempts: number;
+  lastError?: string;
+  conflictWith?: EventListItemDto; // Existing event matching a conflicting entry
+  keepDuplicate?: boolean; // User chose to send it anyway; skips the conflict check
+}
+
+/**
+ * Outcome of one replay run
+ */
+export interface OutboxSyncReport {
+  synced: number;
+  failed: number;
+  conflicts: number;
+  remaining: number; // Still pending (e.g. connectivity dropped again)
+}
@@ -0,0 +1,34 @@
+// ============================================================================
+// Glucose Pattern Types
+// ============================================================================
+
+import { ChartWindow } from './dashboard.types';
+
+export type GlucosePatternKind = 'low' | 'high';
+
+/**
+ * Days a pattern recurs on: every day, or only weekdays or weekends
+ */
+export type PatternDayScope = 'all' | 'weekdays' | 'weekends';
+
+/**
+ * One day on which a pattern occurred, with the chart window showing it
+ */
+export interface GlucosePatternOccurrence {
+  dayKey: string; // local date, YYYY-MM-DD
+  window: ChartWindow; // the pattern's time of day on that date, padded
+  extremeValue: number; // lowest (lows) or highest (highs) reading, mg/dL
+}
+
+/**
+ * Lows or highs recurring at the same time of day across several days
+ */
+export interface GlucosePattern {
+  kind: GlucosePatternKind;
+  scope: PatternDayScope;
+  threshold: number; // mg/dL
+  startMinute: number; // 0..1439 (local time)
+  endMinute: number; // exclusive, up to 1440
+  occurrences: GlucosePatternOccurrence[]; // newest first
+  daysObserved: number; // days in scope with readings at that time
+}
@@ -1,13 +1,21 @@
 // DTOs (backend contracts)
 
+export type GlucoseUnit = 'mg/dL' | 'mmol/L';
+
 export interface TirPreferencesDto {
-  tirLowerBound: number;
-  tirUpperBound: number;
+  tirLowerBound: number; // always mg/dL
+  tirUpperBound: number; // always mg/dL
+  tirVeryLowBound: number; // mg/dL
+  tirVeryHighBound: number; // mg/dL
+  glucoseUnit: GlucoseUnit; // display unit
 }
 
 export interface UpdatePreferencesRequestDto {
   tirLowerBound: number;
   tirUpperBound: number;
+  tirVeryLowBound?: number;
+  tirVeryHighBound?: number;
+  glucoseUnit?: GlucoseUnit;
 }
 
 export interface DexcomStatusDto {
@@ -30,10 +38,15 @@ export interface LinkDexcomResponseDto {
 // View models
 
 export interface AccountPreferencesVM {
-  lower: number;
-  upper: number;
+  lower: number; // mg/dL
+  upper: number; // mg/dL
+  veryLow: number; // mg/dL
+  veryHigh: number; // mg/dL
+  unit: GlucoseUnit;
   initialLower: number;
   initialUpper: number;
+  initialVeryLow: number;
+  initialVeryHigh: number;
   isDirty: boolean;
   isValid: boolean;
   errors: ValidationErrors;
@@ -41,8 +54,10 @@ export interface AccountPreferencesVM {
 }
 
 export interface ValidationErrors {
+  veryLow?: string;
   lower?: string;
   upper?: string;
+  veryHigh?: string;
   cross?: string;
 }
 
@@ -54,7 +69,13 @@ export interface DexcomLinkVM {
   error?: string;
 }
 
-export type SettingsRouteKey = 'account' | 'data-sources' | 'display' | 'system';
+export type SettingsRouteKey =
+  | 'account'
+  | 'data-sources'
+  | 'display'
+  | 'alerts'
+  | 'presets'
+  | 'system';
 
 export interface SystemInfo {
   appVersion: string;
@@ -18,7 +18,7 @@ export interface ShellUserSummary {
  * Navigation link for top-level shell tabs
  */
 export interface ShellNavLink {
-  id: 'dashboard' | 'settings';
+  id: 'dashboard' | 'agp' | 'meals' | 'exercise' | 'compare' | 'settings';
   label: string;
   path: string;
   icon: string;
@@ -54,3 +54,14 @@ export interface SessionResponse {
   userId: string;
   email: string;
 }
+
+/**
+ * Glucose alert shown in the shell banner
+ */
+export interface ShellAlertBannerItem {
+  id: string;
+  severity: 'urgent' | 'warning';
+  title: string;
+  message: string;
+  triggeredAt: string; // ISO
+}
@@ -0,0 +1,120 @@
+import { Injectable, inject } from '@angular/core';
+import { Observable, map } from 'rxjs';
+import { ChartDataService } from './chart-data.service';
+import { ChartDataResponseDto } from '../models/dashboard.types';
+import {
+  AgpPeriodDays,
+  AgpPercentileBucket,
+  AgpReportVM,
+  AgpSummaryStats
+} from '../models/agp.types';
+import {
+  coefficientOfVariation,
+  dataCapturePercentage,
+  glucoseManagementIndicator,
+  glucoseValues,
+  mean,
+  percentile
+} from '../utils/glucose-stats';
+import { buildDailyOverlay } from '../utils/daily-overlay';
+
+/**
+ * Service building the Ambulatory Glucose Profile report.
+ * Fetches the glucose series for the last 14 or 30 days and aggregates it
+ * into time-of-day percentile buckets plus the standard summary statistics,
+ * and splits it into days for the daily overlay.
+ */
+@Injectable({ providedIn: 'root' })
+export class AgpReportService {
+  private readonly chartDataService = inject(ChartDataService);
+
+  // Bucket width for the time-of-day profile
+  private readonly BUCKET_MINUTES = 15;
+
+  /**
+   * Loads and computes the AGP report for the last N days
+   */
+  load(periodDays: AgpPeriodDays): Observable<AgpReportVM> {
+    const endTime = new Date();
+    const startTime = new Date(endTime.getTime() - periodDays * 24 * 60 * 60 * 1000);
+
+    return this.chartDataService
+      .fetchChartWindow(startTime, endTime)
+      .pipe(map((data) => this.buildReport(data, periodDays, startTime, endTime)));
+  }
+
+  /**
+   * Builds the report view model from a raw chart response
+   */
+  buildReport(
+    data: ChartDataResponseDto,
+    periodDays: AgpPeriodDays,
+    requestedStart: Date,
+    requestedEnd: Date
+  ): AgpReportVM {
+    return {
+      periodDays,
+      buckets: this.buildPercentileBuckets(data),
+      stats: this.buildSummaryStats(data, requestedStart, requestedEnd),
+      days: buildDailyOverlay(data.glucoseData ?? [], data.eventOverlays ?? [])
+    };
+  }
+
+  /**
+   * Groups readings by local time of day and computes 5/25/50/75/95th percentiles
+   */
+  private buildPercentileBuckets(data: ChartDataResponseDto): AgpPercentileBucket[] {
+    const bucketCount = (24 * 60) / this.BUCKET_MINUTES;
+    const bucketValues: number[][] = Array.from({ length: bucketCount }, () => []);
+
+    for (const point of data.glucoseData ?? []) {
+      if (typeof point.value !== 'number' || !Number.isFinite(point.value)) continue;
+
+      const date = new Date(point.timestamp);
+      if (Number.isNaN(date.getTime())) continue;
+
+      const minuteOfDay = date.getHours() * 60 + date.getMinutes();
+      bucketValues[Math.floor(minuteOfDay / this.BUCKET_MINUTES)].push(point.value);
+    }
+
+    return bucketValues.map((values, index) => {
+      const sorted = [...values].sort((a, b) => a - b);
+      return {
+        minuteOfDay: index * this.BUCKET_MINUTES,
+        p5: percentile(sorted, 5),
+        p25: percentile(sorted, 25),
+        p50: percentile(sorted, 50),
+        p75: percentile(sorted, 75),
+        p95: percentile(sorted, 95),
+        readings: sorted.length
+      };
+    });
+  }
+
+  /**
+   * Computes mean glucose, GMI, CV and data capture for the whole window
+   */
+  private buildSummaryStats(
+    data: ChartDataResponseDto,
+    requestedStart: Date,
+    requestedEnd: Date
+  ): AgpSummaryStats {
+    const values = glucoseValues(data.glucoseData ?? []);
+    const meanGlucose = mean(values);
+
+    const parsedStart = Date.parse(data.startTime);
+    const parsedEnd = Date.parse(data.endTime);
+    const startMs = Number.isFinite(parsedStart) ? parsedStart : requestedStart.getTime();
+    const endMs = Number.isFinite(parsedEnd) ? parsedEnd : requestedEnd.getTime();
+
+    return {
+      meanGlucose,
+      gmi: glucoseManagementIndicator(meanGlucose),
+      coefficientOfVariation: coefficientOfVariation(values),
+      dataCapturePercentage: dataCapturePercentage(values.length, startMs, endMs),
+      totalReadings: values.length,
+      startTime: new Date(startMs).toISOString(),
+      endTime: new Date(endMs).toISOString()
+    };
+  }
+}
@@ -0,0 +1,83 @@
+/**
+ * Unit tests for ChartDataService polling of explicit windows
+ */
+
+import { TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { API_CONFIG } from '../config/api.config';
+import { ChartWindow } from '../models/dashboard.types';
+import { ChartDataService } from './chart-data.service';
+
+const NOW = Date.parse('2025-03-15T12:00:00Z');
+const MINUTE_MS = 60 * 1000;
+
+describe('ChartDataService', () => {
+  let service: ChartDataService;
+  let http: HttpTestingController;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: NOW });
+    TestBed.configureTestingModule({
+      providers: [
+        provideHttpClient(),
+        provideHttpClientTesting(),
+        { provide: API_CONFIG, useValue: { baseUrl: '' } }
+      ]
+    });
+    service = TestBed.inject(ChartDataService);
+    http = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => {
+    service.stop();
+    http.verify();
+    jest.useRealTimers();
+  });
+
+  // Answers the chart data and TIR requests of one poll
+  function flushPoll(window: ChartWindow): void {
+    const requests = http.match((req) => req.url.startsWith('/api/chart/'));
+    expect(requests.map((req) => req.request.params.get('endTime'))).toEqual([
+      window.endTime,
+      window.endTime
+    ]);
+    requests.forEach((req) => req.flush({ glucoseData: [], eventOverlays: [] }));
+  }
+
+  it('should poll a window in progress until it ends, then pause', () => {
+    const window: ChartWindow = {
+      startTime: new Date(NOW - 60 * MINUTE_MS).toISOString(),
+      endTime: new Date(NOW + 7 * MINUTE_MS).toISOString()
+    };
+    const ended: ChartWindow[] = [];
+    service.windowEnded$.subscribe((value) => ended.push(value));
+
+    service.start(24, { skipInitialFetch: true, window });
+
+    jest.advanceTimersByTime(5 * MINUTE_MS);
+    flushPoll(window);
+    expect(ended).toEqual([]);
+
+    // The window has ended: its final data is loaded and polling stops
+    jest.advanceTimersByTime(5 * MINUTE_MS);
+    flushPoll(window);
+    expect(ended).toEqual([window]);
+
+    jest.advanceTimersByTime(15 * MINUTE_MS);
+    http.expectNone((req) => req.url.startsWith('/api/chart/'));
+  });
+
+  it('should not poll a window that has already ended', () => {
+    const window: ChartWindow = {
+      startTime: new Date(NOW - 120 * MINUTE_MS).toISOString(),
+      endTime: new Date(NOW - 60 * MINUTE_MS).toISOString()
+    };
+
+    service.start(24, { window });
+    flushPoll(window);
+
+    jest.advanceTimersByTime(15 * MINUTE_MS);
+    http.expectNone((req) => req.url.startsWith('/api/chart/'));
+  });
+});
@@ -1,5 +1,5 @@
 import { Injectable, inject } from '@angular/core';
-import { HttpClient } from '@angular/common/http';
+import { HttpClient, HttpParams } from '@angular/common/http';
 import {
   Observable,
   BehaviorSubject,
@@ -13,28 +13,42 @@ import {
   share
 } from 'rxjs';
 import { API_CONFIG } from '../config/api.config';
+import { DashboardSnapshotStore } from '../stores/dashboard-snapshot.store';
 import {
   ChartRange,
+  ChartWindow,
   ChartDataResponseDto,
   TimeInRangeResponseDto
 } from '../models/dashboard.types';
+import { isHistoricalWindow, isSameWindow } from '../utils/chart-window';
 
 /**
  * Service for fetching chart data and managing polling with exponential backoff.
  * Implements 5-minute polling interval with pause on page visibility hidden.
+ * Polling is suspended while an explicit historical window is displayed, and stops once
+ * a displayed window ends (reported through `windowEnded$`).
+ * Live data is saved as a device snapshot so the next visit can show it immediately
+ * (flagged through `staleSince$`) until fresh data arrives.
  */
 @Injectable({ providedIn: 'root' })
 export class ChartDataService {
   private readonly http = inject(HttpClient);
   private readonly apiConfig = inject(API_CONFIG);
+  private readonly snapshotStore = inject(DashboardSnapshotStore);
 
   // Streams
   private readonly _chartData$ = new BehaviorSubject<ChartDataResponseDto | null>(null);
   private readonly _tir$ = new BehaviorSubject<TimeInRangeResponseDto | null>(null);
+  private readonly _staleSince$ = new BehaviorSubject<Date | null>(null);
   private readonly _stopPolling$ = new Subject<void>();
+  private readonly _windowEnded$ = new Subject<ChartWindow>();
 
   readonly chartData$ = this._chartData$.asObservable();
   readonly tir$ = this._tir$.asObservable();
+  // Save time of snapshot data currently shown; null once live data has loaded
+  readonly staleSince$ = this._staleSince$.asObservable();
+  // Polled window whose end has passed; its final data is loaded and polling stops
+  readonly windowEnded$ = this._windowEnded$.asObservable();
 
   // ETag cache for conditional requests (optional optimization)
   private chartDataETag: string | null = null;
@@ -45,6 +59,7 @@ export class ChartDataService {
   private readonly MAX_BACKOFF_MS = 30 * 60 * 1000; // 30 minutes
   private isPolling = false;
   private currentRange: ChartRange | null = null;
+  private currentWindow: ChartWindow | null = null;
   private visibilityListenerSetup = false;
 
   constructor() {
@@ -57,19 +72,32 @@ export class ChartDataService {
   }
 
   /**
-   * Fetches chart data for the specified range
+   * Builds query params for either a range preset or an explicit window
    */
-  fetchChartData(range: ChartRange): Observable<ChartDataResponseDto> {
-    const url = this.buildUrl(`/api/chart/data?range=${range}`);
+  private buildRangeParams(range: ChartRange, window?: ChartWindow | null): HttpParams {
+    if (window) {
+      return new HttpParams().set('startTime', window.startTime).set('endTime', window.endTime);
+    }
+    return new HttpParams().set('range', range.toString());
+  }
+
+  /**
+   * Fetches chart data for the specified range, or for an explicit
+   * startTime/endTime window when one is given
+   */
+  fetchChartData(range: ChartRange, window?: ChartWindow | null): Observable<ChartDataResponseDto> {
+    const url = this.buildUrl('/api/chart/data');
     const headers: Record<string, string> = {};
 
-    if (this.chartDataETag) {
+    // ETags are only tracked for the live range
+    if (this.chartDataETag && !window) {
       headers['If-None-Match'] = this.chartDataETag;
     }
 
     return this.http
       .get<ChartDataResponseDto>(url, {
         headers,
+        params: this.buildRangeParams(range, window),
         observe: 'response',
         withCredentials: true
       })
@@ -77,7 +105,7 @@ export class ChartDataService {
         tap((response) => {
           // Store ETag if provided
           const etag = response.headers.get('ETag');
-          if (etag) {
+          if (etag && !window) {
             this.chartDataETag = etag;
           }
 
@@ -90,6 +118,10 @@ export class ChartDataService {
           // Update stream with new data
           if (response.body) {
             this._chartData$.next(response.body);
+            if (!window) {
+              this._staleSince$.next(null);
+              this.snapshotStore.saveChartData(range, response.body);
+            }
           }
         }),
         mergeMap((response) => {
@@ -102,26 +134,43 @@ export class ChartDataService {
   }
 
   /**
-   * Fetches time-in-range data for the specified range
+   * Fetches chart data for an explicit time window without touching the shared
+   * dashboard stream (used by reports that need more than the live range)
    */
-  fetchTir(range: ChartRange): Observable<TimeInRangeResponseDto> {
-    const url = this.buildUrl(`/api/chart/tir?range=${range}`);
+  fetchChartWindow(startTime: Date, endTime: Date): Observable<ChartDataResponseDto> {
+    const params = new HttpParams()
+      .set('startTime', startTime.toISOString())
+      .set('endTime', endTime.toISOString());
+
+    return this.http.get<ChartDataResponseDto>(this.buildUrl('/api/chart/data'), {
+      params,
+      withCredentials: true
+    });
+  }
+
+  /**
+   * Fetches time-in-range data for the specified range, or for an explicit
+   * startTime/endTime window when one is given
+   */
+  fetchTir(range: ChartRange, window?: ChartWindow | null): Observable<TimeInRangeResponseDto> {
+    const url = this.buildUrl('/api/chart/tir');
     const headers: Record<string, string> = {};
 
-    if (this.tirETag) {
+    if (this.tirETag && !window) {
       headers['If-None-Match'] = this.tirETag;
     }
 
     return this.http
       .get<TimeInRangeResponseDto>(url, {
         headers,
+        params: this.buildRangeParams(range, window),
         observe: 'response',
         withCredentials: true
       })
       .pipe(
         tap((response) => {
           const etag = response.headers.get('ETag');
-          if (etag) {
+          if (etag && !window) {
             this.tirETag = etag;
           }
 
@@ -131,6 +180,7 @@ export class ChartDataService {
 
           if (response.body) {
             this._tir$.next(response.body);
+            if (!window) this.snapshotStore.saveTir(range, response.body);
           }
         }),
         mergeMap((response) => {
@@ -143,34 +193,87 @@ export class ChartDataService {
   }
 
   /**
-   * Starts polling for chart data and TIR at the specified range.
+   * Fetches time-in-range data for an explicit time window without touching the
+   * shared dashboard stream (used to compare periods)
+   */
+  fetchTirWindow(window: ChartWindow): Observable<TimeInRangeResponseDto> {
+    const params = new HttpParams()
+      .set('startTime', window.startTime)
+      .set('endTime', window.endTime);
+
+    return this.http.get<TimeInRangeResponseDto>(this.buildUrl('/api/chart/tir'), {
+      params,
+      withCredentials: true
+    });
+  }
+
+  /**
+   * Shows the saved snapshot for the live range while nothing is loaded yet.
+   * Returns whether snapshot data is now displayed.
+   */
+  restoreSnapshot(range: ChartRange): boolean {
+    const snapshot = this.snapshotStore.read();
+    if (!snapshot || snapshot.range !== range || this._chartData$.value) {
+      return false;
+    }
+    if (!snapshot.chartData && !snapshot.tir) {
+      return false;
+    }
+
+    if (snapshot.chartData) this._chartData$.next(snapshot.chartData);
+    if (snapshot.tir) this._tir$.next(snapshot.tir);
+    this._staleSince$.next(new Date(snapshot.savedAt));
+    return !!snapshot.chartData;
+  }
+
+  /**
+   * Starts polling for chart data and TIR at the specified range (or window).
    * Automatically pauses when page is hidden and resumes when visible.
+   * For a historical window only the initial fetch is made and polling stays suspended;
+   * a window still in progress is polled until it ends.
    */
-  start(range: ChartRange, options?: { skipInitialFetch?: boolean }): void {
-    if (this.isPolling && this.currentRange === range) {
+  start(
+    range: ChartRange,
+    options?: { skipInitialFetch?: boolean; window?: ChartWindow | null }
+  ): void {
+    const window = options?.window ?? null;
+
+    if (this.isPolling && this.currentRange === range && isSameWindow(this.currentWindow, window)) {
       return; // Already polling this range
     }
 
     this.stop(); // Stop any existing polling
-    this.isPolling = true;
-    this.currentRange = range;
 
     // Initial fetch
     if (!options?.skipInitialFetch) {
-      this.fetchBoth(range).subscribe();
+      this.fetchBoth(range, window).subscribe();
+    }
+
+    if (window && isHistoricalWindow(window)) {
+      return; // Historical data does not change; polling suspended
     }
 
+    this.isPolling = true;
+    this.currentRange = range;
+    this.currentWindow = window;
+
     // Set up polling with exponential backoff
     timer(this.POLL_INTERVAL_MS, this.POLL_INTERVAL_MS)
       .pipe(
         // Stop when requested
         takeUntil(this._stopPolling$),
-        // Skip polls when page is hidden
         mergeMap(() => {
+          if (window && isHistoricalWindow(window)) {
+            this.stop();
+            this.fetchBoth(range, window).subscribe();
+            this._windowEnded$.next(window);
+            return EMPTY;
+          }
+          // Skip polls when page is hidden
           if (document.hidden) {
             return EMPTY; // Skip this poll
           }
-          return this.fetchBoth(range);
+          return this.fetchBoth(range, window);
         }),
         // Retry with exponential backoff on errors
         retryWhen((errors) =>
@@ -201,13 +304,14 @@ export class ChartDataService {
   stop(): void {
     this.isPolling = false;
     this.currentRange = null;
+    this.currentWindow = null;
     this._stopPolling$.next();
   }
 
   /**
    * Fetches both chart data and TIR in parallel
    */
-  private fetchBoth(range: ChartRange): Observable<unknown> {
+  private fetchBoth(range: ChartRange, window: ChartWindow | null = null): Observable<unknown> {
     return new Observable((observer) => {
       let chartComplete = false;
       let tirComplete = false;
@@ -219,7 +323,7 @@ export class ChartDataService {
         }
       };
 
-      this.fetchChartData(range).subscribe({
+      this.fetchChartData(range, window).subscribe({
         next: () => {
           chartComplete = true;
           checkComplete();
@@ -232,7 +336,7 @@ export class ChartDataService {
         }
       });
 
-      this.fetchTir(range).subscribe({
+      this.fetchTir(range, window).subscribe({
         next: () => {
           tirComplete = true;
           checkComplete();
@@ -261,7 +365,7 @@ export class ChartDataService {
         console.log('Page visible, polling resumed');
         // Trigger immediate fetch when page becomes visible
         if (this.isPolling && this.currentRange) {
-          this.fetchBoth(this.currentRange).subscribe();
+          this.fetchBoth(this.currentRange, this.currentWindow).subscribe();
         }
       }
     });
@@ -273,6 +377,7 @@ export class ChartDataService {
   clearCache(): void {
     this._chartData$.next(null);
     this._tir$.next(null);
+    this._staleSince$.next(null);
     this.chartDataETag = null;
     this.tirETag = null;
   }
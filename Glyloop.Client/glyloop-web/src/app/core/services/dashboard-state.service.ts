@@ -1,19 +1,21 @@
 import { Injectable, signal, computed } from '@angular/core';
-import { ChartRange, PollState } from '../models/dashboard.types';
+import { ChartRange, ChartWindow, PollState } from '../models/dashboard.types';
 
 /**
  * Dashboard state management service using Angular signals.
- * Manages the active chart range, selected event, and polling state.
+ * Manages the active chart range (or custom window), selected event, and polling state.
  */
 @Injectable({ providedIn: 'root' })
 export class DashboardStateService {
   // State signals
   private readonly _activeRange = signal<ChartRange>(3); // Default 3 hours
+  private readonly _customWindow = signal<ChartWindow | null>(null); // null = live range ending now
   private readonly _selectedEventId = signal<string | undefined>(undefined);
   private readonly _pollState = signal<PollState>({ status: 'idle' });
 
   // Public read-only signals
   readonly activeRange = this._activeRange.asReadonly();
+  readonly customWindow = this._customWindow.asReadonly();
   readonly selectedEventId = this._selectedEventId.asReadonly();
   readonly pollState = this._pollState.asReadonly();
 
@@ -24,10 +26,18 @@ export class DashboardStateService {
   });
 
   /**
-   * Sets the active chart range
+   * Sets the active chart range (returns to the live view)
    */
   setRange(range: ChartRange): void {
     this._activeRange.set(range);
+    this._customWindow.set(null);
+  }
+
+  /**
+   * Sets an explicit chart window; null returns to the live range
+   */
+  setWindow(window: ChartWindow | null): void {
+    this._customWindow.set(window);
   }
 
   /**
@@ -49,6 +59,7 @@ export class DashboardStateService {
    */
   reset(): void {
     this._activeRange.set(3);
+    this._customWindow.set(null);
     this._selectedEventId.set(undefined);
     this._pollState.set({ status: 'idle' });
   }
@@ -0,0 +1,127 @@
+import { Injectable, inject } from '@angular/core';
+import {
+  Observable,
+  catchError,
+  concatMap,
+  finalize,
+  forkJoin,
+  from,
+  map,
+  of,
+  scan,
+  startWith,
+  timer
+} from 'rxjs';
+import { EventsService } from './events.service';
+import { EventListItemDto } from '../models/dashboard.types';
+import {
+  ImportEventDraft,
+  ImportFailure,
+  ImportPreviewItem,
+  ImportProgress
+} from '../models/event-import.types';
+
+/**
+ * Service submitting imported events.
+ * Creates events in small batches with a pause between batches so a large
+ * import does not flood the API; failed rows are collected instead of aborting.
+ */
+@Injectable({ providedIn: 'root' })
+export class EventImportService {
+  private readonly eventsService = inject(EventsService);
+
+  // Throttling: requests in flight per batch and pause between batches
+  private readonly BATCH_SIZE = 5;
+  private readonly BATCH_DELAY_MS = 500;
+
+  /**
+   * Loads existing events overlapping the imported time span (for duplicate detection)
+   */
+  loadExistingEvents(items: ImportPreviewItem[]): Observable<EventListItemDto[]> {
+    const times = items
+      .map((item) => (item.draft ? Date.parse(item.draft.payload.eventTime) : Number.NaN))
+      .filter((time) => Number.isFinite(time));
+
+    if (times.length === 0) {
+      return of([]);
+    }
+
+    // Reduced rather than spread: large files exceed the argument limit of Math.min/max
+    const earliest = times.reduce((min, time) => Math.min(min, time));
+    const latest = times.reduce((max, time) => Math.max(max, time));
+
+    return this.eventsService.listAll({
+      fromDateUtc: new Date(earliest - 60 * 1000).toISOString(),
+      toDateUtc: new Date(latest + 60 * 1000).toISOString()
+    });
+  }
+
+  /**
+   * Creates the given events in throttled batches, emitting progress after each batch
+   */
+  submit(items: ImportPreviewItem[]): Observable<ImportProgress> {
+    const drafts = items.filter(
+      (item): item is ImportPreviewItem & { draft: ImportEventDraft } => !!item.draft
+    );
+    const batches: (typeof drafts)[] = [];
+    for (let i = 0; i < drafts.length; i += this.BATCH_SIZE) {
+      batches.push(drafts.slice(i, i + this.BATCH_SIZE));
+    }
+
+    const initial: ImportProgress = {
+      total: drafts.length,
+      completed: 0,
+      succeeded: 0,
+      failures: []
+    };
+
+    return from(batches).pipe(
+      concatMap((batch, index) =>
+        (index === 0 ? of(0) : timer(this.BATCH_DELAY_MS)).pipe(
+          concatMap(() =>
+            forkJoin(
+              batch.map((item) =>
+                this.eventsService.create(item.draft).pipe(
+                  map(() => null),
+                  catchError((err) => of(this.toFailure(item.rowNumber, item.draft, err)))
+                )
+              )
+            )
+          )
+        )
+      ),
+      scan(
+        (progress, results) => {
+          const failures = results.filter((result): result is ImportFailure => !!result);
+          return {
+            total: progress.total,
+            completed: progress.completed + results.length,
+            succeeded: progress.succeeded + results.length - failures.length,
+            failures: [...progress.failures, ...failures]
+          };
+        },
+        initial
+      ),
+      startWith(initial),
+      // Imported events land anywhere in history, so cached pages are stale
+      finalize(() => this.eventsService.clearCache())
+    );
+  }
+
+  private toFailure(
+    rowNumber: number,
+    draft: ImportEventDraft,
+    err: { status?: number; error?: { detail?: string } }
+  ): ImportFailure {
+    console.error(`Failed to import row ${rowNumber}:`, err);
+    return {
+      rowNumber,
+      eventType: draft.eventType,
+      message:
+        err.error?.detail ||
+        (err.status === 400
+          ? $localize`:@@settings.import.error.rejected:Rejected by the server`
+          : $localize`:@@settings.import.error.requestFailed:Request failed`)
+    };
+  }
+}
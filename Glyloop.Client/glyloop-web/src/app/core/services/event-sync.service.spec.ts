@@ -0,0 +1,162 @@
+/**
+ * Unit tests for EventSyncService replay order, ownership, conflicts and deferral
+ */
+
+import { TestBed } from '@angular/core/testing';
+import { signal } from '@angular/core';
+import { Subject, firstValueFrom, of, throwError } from 'rxjs';
+import { CreateEventRequest, EventResponseDto } from '../models/dashboard.types';
+import { OutboxSyncReport } from '../models/outbox.types';
+import { OutboxStore } from '../stores/outbox.store';
+import { createOutboxEntry } from '../utils/outbox';
+import { EventSyncService } from './event-sync.service';
+import { EventsService } from './events.service';
+import { NetworkStatusService } from './network-status.service';
+
+function noteRequest(noteText: string, eventTime = '2025-03-01T08:00:00Z'): CreateEventRequest {
+  return { eventType: 'Note', payload: { eventTime, noteText } };
+}
+
+describe('EventSyncService', () => {
+  let service: EventSyncService;
+  let store: OutboxStore;
+  let online: ReturnType<typeof signal<boolean>>;
+  let eventsService: {
+    create: jest.Mock;
+    listAll: jest.Mock;
+    insertIntoHistory: jest.Mock;
+  };
+
+  beforeEach(async () => {
+    online = signal(false);
+    eventsService = {
+      create: jest.fn((request: CreateEventRequest) =>
+        of({
+          eventId: `server-${request.payload.eventTime}`,
+          ...request.payload
+        } as EventResponseDto)
+      ),
+      listAll: jest.fn(() => of([])),
+      insertIntoHistory: jest.fn()
+    };
+
+    TestBed.configureTestingModule({
+      providers: [
+        { provide: EventsService, useValue: eventsService },
+        { provide: NetworkStatusService, useValue: { online, changes$: new Subject<boolean>() } }
+      ]
+    });
+    service = TestBed.inject(EventSyncService);
+    store = TestBed.inject(OutboxStore);
+    await store.ready;
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  async function queue(userId: string, request: CreateEventRequest, queuedAt: string) {
+    const entry = createOutboxEntry(request, userId, new Date(queuedAt));
+    await store.put(entry);
+    return entry;
+  }
+
+  function runSync(): Promise<OutboxSyncReport> {
+    const report = firstValueFrom(service.reports$);
+    online.set(true);
+    service.sync();
+    return report;
+  }
+
+  it('should replay the signed-in user only, oldest queued first', async () => {
+    await queue('user-a', noteRequest('second', '2025-03-01T09:00:00Z'), '2025-03-01T09:01:00Z');
+    await queue('user-b', noteRequest('other user'), '2025-03-01T07:00:00Z');
+    await queue('user-a', noteRequest('first'), '2025-03-01T08:01:00Z');
+    store.setUser('user-a');
+
+    const report = await runSync();
+
+    const sent = eventsService.create.mock.calls.map(([request]) => request.payload.noteText);
+    expect(sent).toEqual(['first', 'second']);
+    expect(report).toEqual({ synced: 2, failed: 0, conflicts: 0, remaining: 0 });
+    expect(store.entries()).toEqual([]);
+
+    store.setUser('user-b');
+    expect(store.entries().map((entry) => entry.request.payload)).toEqual([
+      noteRequest('other user').payload
+    ]);
+  });
+
+  it('should not queue events without a signed-in user', async () => {
+    await expect(service.enqueue(noteRequest('orphan'))).rejects.toThrow();
+  });
+
+  it('should hold an entry matching an existing event as a conflict', async () => {
+    const entry = await queue('user-a', noteRequest('dup'), '2025-03-01T08:01:00Z');
+    const existing = {
+      eventId: 'server-1',
+      eventType: 'Note',
+      eventTime: '2025-03-01T08:00:30Z',
+      summary: 'dup'
+    };
+    eventsService.listAll.mockReturnValue(of([existing]));
+    store.setUser('user-a');
+
+    const report = await runSync();
+
+    expect(eventsService.create).not.toHaveBeenCalled();
+    expect(report.conflicts).toBe(1);
+    expect(store.entries()).toEqual([{ ...entry, status: 'conflict', conflictWith: existing }]);
+  });
+
+  it('should skip the conflict check for entries kept as duplicates', async () => {
+    await queue('user-a', noteRequest('dup'), '2025-03-01T08:01:00Z');
+    eventsService.listAll.mockReturnValue(
+      of([{ eventId: 'x', eventType: 'Note', eventTime: '2025-03-01T08:00:00Z', summary: 'dup' }])
+    );
+    store.setUser('user-a');
+    await runSync();
+
+    const [entry] = store.entries();
+    const report = firstValueFrom(service.reports$);
+    await service.retry(entry.id, true);
+
+    expect((await report).synced).toBe(1);
+    expect(eventsService.create).toHaveBeenCalledTimes(1);
+  });
+
+  it('should stop the run and keep later entries queued when the server is unreachable', async () => {
+    await queue('user-a', noteRequest('first'), '2025-03-01T08:01:00Z');
+    await queue('user-a', noteRequest('second', '2025-03-01T09:00:00Z'), '2025-03-01T09:01:00Z');
+    eventsService.create.mockReturnValueOnce(throwError(() => ({ status: 0 })));
+    store.setUser('user-a');
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    const report = await runSync();
+
+    expect(eventsService.create).toHaveBeenCalledTimes(1);
+    expect(report).toEqual({ synced: 0, failed: 0, conflicts: 0, remaining: 2 });
+    expect(store.entries().map((entry) => [entry.status, entry.attempts])).toEqual([
+      ['pending', 1],
+      ['pending', 0]
+    ]);
+  });
+
+  it('should mark rejected entries as failed and continue with the next one', async () => {
+    await queue('user-a', noteRequest('bad'), '2025-03-01T08:01:00Z');
+    await queue('user-a', noteRequest('good', '2025-03-01T09:00:00Z'), '2025-03-01T09:01:00Z');
+    eventsService.create.mockReturnValueOnce(
+      throwError(() => ({ status: 400, error: { detail: 'Event time cannot be in the future.' } }))
+    );
+    store.setUser('user-a');
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    const report = await runSync();
+
+    expect(report).toEqual({ synced: 1, failed: 1, conflicts: 0, remaining: 0 });
+    expect(store.entries()).toEqual([
+      expect.objectContaining({
+        status: 'failed',
+        lastError: 'Event time cannot be in the future.'
+      })
+    ]);
+  });
+});
@@ -0,0 +1,186 @@
+import { Injectable, inject, signal } from '@angular/core';
+import { toObservable } from '@angular/core/rxjs-interop';
+import {
+  Observable,
+  Subject,
+  catchError,
+  combineLatest,
+  concatMap,
+  filter,
+  from,
+  map,
+  of,
+  reduce,
+  switchMap,
+  takeWhile
+} from 'rxjs';
+import { EventsService } from './events.service';
+import { NetworkStatusService } from './network-status.service';
+import { OutboxStore } from '../stores/outbox.store';
+import { CreateEventRequest, EventListItemDto } from '../models/dashboard.types';
+import { OutboxEntry, OutboxSyncReport } from '../models/outbox.types';
+import { findOutboxConflict, isTransientSyncError } from '../utils/outbox';
+
+type ReplayResult = 'synced' | 'failed' | 'conflict' | 'deferred';
+
+/**
+ * Service replaying event create requests queued while offline.
+ * Pending entries are sent one at a time in the order they were queued whenever
+ * connectivity returns; a connection or server error stops the run so later
+ * entries never overtake earlier ones. Entries matching an existing event are held
+ * as conflicts and entries the API rejects as failures, both until the user acts.
+ * Only the signed-in user's entries are replayed.
+ */
+@Injectable({ providedIn: 'root' })
+export class EventSyncService {
+  private readonly eventsService = inject(EventsService);
+  private readonly outboxStore = inject(OutboxStore);
+  private readonly network = inject(NetworkStatusService);
+
+  private readonly _syncing = signal<boolean>(false);
+  readonly syncing = this._syncing.asReadonly();
+
+  // Emits after each replay run
+  private readonly _reports$ = new Subject<OutboxSyncReport>();
+  readonly reports$ = this._reports$.asObservable();
+
+  // Conflict check window around a queued event's time
+  private readonly CONFLICT_WINDOW_MS = 60 * 1000;
+
+  constructor() {
+    this.network.changes$.pipe(filter((online) => online)).subscribe(() => this.sync());
+
+    // Replays saved entries once they are loaded and whenever a user signs in
+    combineLatest([from(this.outboxStore.ready), toObservable(this.outboxStore.userId)])
+      .pipe(filter(([, userId]) => !!userId))
+      .subscribe(() => this.sync());
+  }
+
+  /**
+   * Whether the browser currently reports a network connection
+   */
+  isOnline(): boolean {
+    return this.network.online();
+  }
+
+  /**
+   * Queues a create request for the next sync
+   */
+  enqueue(request: CreateEventRequest): Promise<OutboxEntry> {
+    return this.outboxStore.add(request);
+  }
+
+  /**
+   * Queues a failed entry again; `keepDuplicate` sends a conflicting entry anyway
+   */
+  async retry(id: string, keepDuplicate = false): Promise<void> {
+    const entry = this.outboxStore.entries().find((item) => item.id === id);
+    if (!entry) return;
+
+    await this.outboxStore.put({
+      ...entry,
+      status: 'pending',
+      lastError: undefined,
+      conflictWith: undefined,
+      keepDuplicate: entry.keepDuplicate || keepDuplicate
+    });
+    this.sync();
+  }
+
+  /**
+   * Drops a queued entry without sending it
+   */
+  discard(id: string): Promise<void> {
+    return this.outboxStore.remove(id);
+  }
+
+  /**
+   * Replays pending entries in order
+   */
+  sync(): void {
+    const pending = this.outboxStore.entries().filter((entry) => entry.status === 'pending');
+    if (this._syncing() || pending.length === 0 || !this.isOnline()) return;
+
+    this._syncing.set(true);
+    from(pending)
+      .pipe(
+        concatMap((entry) => this.replay(entry)),
+        takeWhile((result) => result !== 'deferred', true),
+        reduce(
+          (report, result) => ({
+            ...report,
+            synced: report.synced + (result === 'synced' ? 1 : 0),
+            failed: report.failed + (result === 'failed' ? 1 : 0),
+            conflicts: report.conflicts + (result === 'conflict' ? 1 : 0)
+          }),
+          { synced: 0, failed: 0, conflicts: 0, remaining: 0 } as OutboxSyncReport
+        )
+      )
+      .subscribe((report) => {
+        this._syncing.set(false);
+        this._reports$.next({ ...report, remaining: this.outboxStore.pendingCount() });
+      });
+  }
+
+  /**
+   * Sends one entry after checking that it was not already created
+   */
+  private replay(entry: OutboxEntry): Observable<ReplayResult> {
+    // The user signed out during the run; their entries wait for their next session
+    if (entry.userId !== this.outboxStore.userId()) return of('deferred');
+
+    return this.findConflict(entry).pipe(
+      switchMap((conflict) => {
+        if (conflict) {
+          return from(
+            this.outboxStore.put({ ...entry, status: 'conflict', conflictWith: conflict })
+          ).pipe(map((): ReplayResult => 'conflict'));
+        }
+
+        return this.eventsService.create(entry.request).pipe(
+          switchMap((created) => {
+            this.eventsService.insertIntoHistory(created);
+            return from(this.outboxStore.remove(entry.id));
+          }),
+          map((): ReplayResult => 'synced')
+        );
+      }),
+      catchError((err) => this.handleReplayError(entry, err))
+    );
+  }
+
+  private findConflict(entry: OutboxEntry): Observable<EventListItemDto | undefined> {
+    if (entry.keepDuplicate) return of(undefined);
+
+    const time = Date.parse(entry.request.payload.eventTime);
+    return this.eventsService
+      .listAll({
+        fromDateUtc: new Date(time - this.CONFLICT_WINDOW_MS).toISOString(),
+        toDateUtc: new Date(time + this.CONFLICT_WINDOW_MS).toISOString(),
+        types: [entry.request.eventType]
+      })
+      .pipe(map((existing) => findOutboxConflict(entry, existing)));
+  }
+
+  private handleReplayError(
+    entry: OutboxEntry,
+    err: { status?: number; error?: { detail?: string } }
+  ): Observable<ReplayResult> {
+    console.error('Failed to sync queued event:', err);
+    const transient = isTransientSyncError(err);
+    const updated: OutboxEntry = {
+      ...entry,
+      attempts: entry.attempts + 1,
+      status: transient ? 'pending' : 'failed',
+      lastError:
+        err.error?.detail ||
+        (transient
+          ? $localize`:@@outbox.error.unreachable:Could not reach the server`
+          : $localize`:@@outbox.error.rejected:Rejected by the server`)
+    };
+
+    return from(this.outboxStore.put(updated)).pipe(
+      map((): ReplayResult => (transient ? 'deferred' : 'failed'))
+    );
+  }
+}
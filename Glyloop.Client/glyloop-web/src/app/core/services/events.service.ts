@@ -1,33 +1,71 @@
 import { Injectable, inject } from '@angular/core';
 import { HttpClient, HttpParams } from '@angular/common/http';
-import { Observable, BehaviorSubject, tap } from 'rxjs';
+import {
+  Observable,
+  Subject,
+  EMPTY,
+  expand,
+  forkJoin,
+  map,
+  of,
+  reduce,
+  tap
+} from 'rxjs';
 import { API_CONFIG } from '../config/api.config';
+import { DashboardSnapshotStore } from '../stores/dashboard-snapshot.store';
 import {
   EventListItemDto,
   EventResponseDto,
   EventOutcomeResponseDto,
   PagedResponseDto,
   HistoryFilters,
+  HistoryListState,
+  CreateEventRequest,
   CreateFoodEventRequestDto,
   CreateInsulinEventRequestDto,
   CreateExerciseEventRequestDto,
-  CreateNoteEventRequestDto
+  CreateNoteEventRequestDto,
+  UpdateFoodEventRequestDto,
+  UpdateInsulinEventRequestDto,
+  UpdateExerciseEventRequestDto,
+  UpdateNoteEventRequestDto,
+  EventType
 } from '../models/dashboard.types';
+import { normalizeEventTypes } from '../utils/event-paging';
+import { normalizeSearchQuery } from '../utils/event-search';
+import {
+  appendHistoryPages,
+  createHistoryList,
+  historyFilterKey,
+  insertHistoryItem,
+  matchesHistoryFilters,
+  removeHistoryItem,
+  toEventListItem
+} from '../utils/history-list';
 
 /**
  * Service for managing events (Food, Insulin, Exercise, Notes).
- * Provides CRUD operations and maintains an ephemeral cache for the current history page.
+ * Provides CRUD operations and maintains an ephemeral cache of the loaded history pages
+ * per filter set, which is updated in place when events are created, edited or deleted.
+ * The most recently loaded first page is also kept in the device snapshot for the next visit.
+ * Type filters and free-text search are applied by the API.
  */
 @Injectable({ providedIn: 'root' })
 export class EventsService {
   private readonly http = inject(HttpClient);
   private readonly apiConfig = inject(API_CONFIG);
+  private readonly snapshotStore = inject(DashboardSnapshotStore);
 
-  // Ephemeral cache for current history page
-  private readonly _historyPage$ = new BehaviorSubject<PagedResponseDto<EventListItemDto> | null>(
-    null
-  );
-  readonly historyPage$ = this._historyPage$.asObservable();
+  // Ephemeral cache of loaded history pages, keyed by filter set (oldest entry evicted first)
+  private readonly MAX_CACHED_HISTORIES = 10;
+  private readonly historyCache = new Map<
+    string,
+    { filters: HistoryFilters; state: HistoryListState }
+  >();
+
+  // Notifies history views that cached lists changed in place
+  private readonly _historyChanged$ = new Subject<void>();
+  readonly historyChanged$ = this._historyChanged$.asObservable();
 
   private buildUrl(endpoint: string): string {
     return `${this.apiConfig.baseUrl}${endpoint}`;
@@ -37,6 +75,148 @@ export class EventsService {
    * Lists events with optional filters
    */
   list(filters: HistoryFilters): Observable<PagedResponseDto<EventListItemDto>> {
+    return this.fetchPage(filters);
+  }
+
+  /**
+   * Gets the cached history list for a filter set, if any pages were loaded.
+   * Falls back to the first page saved in the device snapshot (flagged `restoredFrom`).
+   */
+  getCachedHistory(filters: HistoryFilters): HistoryListState | undefined {
+    const key = historyFilterKey(filters);
+    const cached = this.historyCache.get(key)?.state;
+    if (cached) return cached;
+
+    const saved = this.snapshotStore.read()?.history;
+    if (!saved || historyFilterKey(saved.filters) !== key) return undefined;
+
+    const restored: HistoryListState = {
+      ...createHistoryList(saved.response, Math.min(filters.pageSize, 100)),
+      restoredFrom: saved.savedAt
+    };
+    this.cacheHistory(filters, restored);
+    return restored;
+  }
+
+  /**
+   * Loads the first history page for a filter set, replacing any cached pages
+   */
+  loadHistory(filters: HistoryFilters): Observable<HistoryListState> {
+    return this.fetchPage({ ...filters, page: 1 }).pipe(
+      tap((response) => this.snapshotStore.saveHistory(filters, response)),
+      map((response) => createHistoryList(response, Math.min(filters.pageSize, 100))),
+      tap((state) => this.cacheHistory(filters, state))
+    );
+  }
+
+  /**
+   * Loads the next history page for a filter set.
+   * When loaded events were removed since the last load, the server pages have shifted
+   * back, so the affected loaded pages are read again; duplicates are skipped.
+   */
+  loadMoreHistory(filters: HistoryFilters): Observable<HistoryListState> {
+    const state = this.getCachedHistory(filters);
+    if (!state) {
+      return this.loadHistory(filters);
+    }
+    if (state.loadedPages >= state.totalPages) {
+      return of(state);
+    }
+
+    const nextPage = state.loadedPages + 1;
+    const shiftedPages = Math.ceil(state.removedSinceLoad / state.pageSize);
+    const firstPage = Math.max(1, nextPage - shiftedPages);
+    const pages = Array.from({ length: nextPage - firstPage + 1 }, (_, i) => firstPage + i);
+
+    return forkJoin(
+      pages.map((page) => this.fetchPage({ ...filters, page, pageSize: state.pageSize }))
+    ).pipe(
+      map((responses) => {
+        // Merge into the latest cached state; events may have changed while loading
+        const current = this.getCachedHistory(filters) ?? state;
+        return appendHistoryPages(current, responses, nextPage);
+      }),
+      tap((next) => this.cacheHistory(filters, next))
+    );
+  }
+
+  /**
+   * Adds a created event to every cached history list it matches
+   */
+  insertIntoHistory(event: EventResponseDto): void {
+    const item = toEventListItem(event);
+    this.updateCachedHistories((state, filters) =>
+      matchesHistoryFilters(item, filters) ? insertHistoryItem(state, item) : state
+    );
+  }
+
+  /**
+   * Replaces an edited event in the cached history lists (moving it if its time changed)
+   */
+  updateInHistory(event: EventResponseDto): void {
+    const item = toEventListItem(event);
+    this.updateCachedHistories((state, filters) =>
+      matchesHistoryFilters(item, filters)
+        ? insertHistoryItem(state, item)
+        : removeHistoryItem(state, item.eventId)
+    );
+  }
+
+  /**
+   * Removes a deleted event from the cached history lists
+   */
+  removeFromHistory(eventId: string): void {
+    this.updateCachedHistories((state) => removeHistoryItem(state, eventId));
+  }
+
+  /**
+   * Lists every event matching the filters by paging past the 100-item page cap.
+   * Used for exports; does not touch the history page cache.
+   */
+  listAll(filters: Omit<HistoryFilters, 'page' | 'pageSize'>): Observable<EventListItemDto[]> {
+    const pageSize = 100;
+
+    return this.fetchPage({ ...filters, page: 1, pageSize }).pipe(
+      expand((response, index) => {
+        const nextPage = index + 2;
+        return response.items.length > 0 && nextPage <= response.totalPages
+          ? this.fetchPage({ ...filters, page: nextPage, pageSize })
+          : EMPTY;
+      }),
+      reduce((items, response) => items.concat(response.items), [] as EventListItemDto[])
+    );
+  }
+
+  /**
+   * Lists every event in the window with its full details (list items only carry a summary).
+   * Loaded in one request; the API accepts windows of up to 92 days.
+   */
+  listAllDetails(filters: {
+    fromDateUtc: string;
+    toDateUtc: string;
+    types?: EventType[];
+  }): Observable<EventResponseDto[]> {
+    let params = new HttpParams()
+      .set('fromDate', filters.fromDateUtc)
+      .set('toDate', filters.toDateUtc);
+
+    for (const eventType of normalizeEventTypes(filters.types) ?? []) {
+      params = params.append('eventType', eventType);
+    }
+
+    return this.http.get<EventResponseDto[]>(this.buildUrl('/api/events/details'), {
+      params,
+      withCredentials: true
+    });
+  }
+
+  /**
+   * GET /api/events for a single page
+   */
+  private fetchPage(filters: HistoryFilters): Observable<PagedResponseDto<EventListItemDto>> {
+    const search = normalizeSearchQuery(filters.search);
+    const types = normalizeEventTypes(filters.types);
+
     let params = new HttpParams()
       .set('page', filters.page.toString())
       .set('pageSize', Math.min(filters.pageSize, 100).toString()); // Cap at 100
@@ -49,24 +229,19 @@ export class EventsService {
       params = params.set('toDate', filters.toDateUtc);
     }
 
-    if (filters.types && filters.types.length > 0) {
-      const eventType = filters.types[0];
-      if (eventType) {
-        params = params.set('eventType', eventType);
-      }
+    if (search) {
+      params = params.set('search', search);
+    }
+
+    // Repeated key per type: eventType=Food&eventType=Note
+    for (const eventType of types ?? []) {
+      params = params.append('eventType', eventType);
     }
 
-    return this.http
-      .get<PagedResponseDto<EventListItemDto>>(this.buildUrl('/api/events'), {
-        params,
-        withCredentials: true
-      })
-      .pipe(
-        tap((response) => {
-          // Update cache
-          this._historyPage$.next(response);
-        })
-      );
+    return this.http.get<PagedResponseDto<EventListItemDto>>(this.buildUrl('/api/events'), {
+      params,
+      withCredentials: true
+    });
   }
 
   /**
@@ -87,6 +262,22 @@ export class EventsService {
     });
   }
 
+  /**
+   * Creates an event through the endpoint matching its type
+   */
+  create(request: CreateEventRequest): Observable<EventResponseDto> {
+    switch (request.eventType) {
+      case 'Food':
+        return this.createFood(request.payload);
+      case 'Insulin':
+        return this.createInsulin(request.payload);
+      case 'Exercise':
+        return this.createExercise(request.payload);
+      case 'Note':
+        return this.createNote(request.payload);
+    }
+  }
+
   /**
    * Creates a Food event
    */
@@ -124,9 +315,86 @@ export class EventsService {
   }
 
   /**
-   * Clears the cached history page
+   * Updates a Food event
+   */
+  updateFood(id: string, body: UpdateFoodEventRequestDto): Observable<EventResponseDto> {
+    return this.http.put<EventResponseDto>(this.buildUrl(`/api/events/food/${id}`), body, {
+      withCredentials: true
+    });
+  }
+
+  /**
+   * Updates an Insulin event
+   */
+  updateInsulin(id: string, body: UpdateInsulinEventRequestDto): Observable<EventResponseDto> {
+    return this.http.put<EventResponseDto>(this.buildUrl(`/api/events/insulin/${id}`), body, {
+      withCredentials: true
+    });
+  }
+
+  /**
+   * Updates an Exercise event
+   */
+  updateExercise(id: string, body: UpdateExerciseEventRequestDto): Observable<EventResponseDto> {
+    return this.http.put<EventResponseDto>(this.buildUrl(`/api/events/exercise/${id}`), body, {
+      withCredentials: true
+    });
+  }
+
+  /**
+   * Updates a Note event
+   */
+  updateNote(id: string, body: UpdateNoteEventRequestDto): Observable<EventResponseDto> {
+    return this.http.put<EventResponseDto>(this.buildUrl(`/api/events/note/${id}`), body, {
+      withCredentials: true
+    });
+  }
+
+  /**
+   * Deletes an event by ID
+   */
+  delete(id: string): Observable<void> {
+    return this.http.delete<void>(this.buildUrl(`/api/events/${id}`), {
+      withCredentials: true
+    });
+  }
+
+  /**
+   * Restores a deleted event with its original ID and details (used for undo)
+   */
+  restore(id: string): Observable<EventResponseDto> {
+    return this.http.post<EventResponseDto>(
+      this.buildUrl(`/api/events/${id}/restore`),
+      {},
+      { withCredentials: true }
+    );
+  }
+
+  /**
+   * Clears the cached history pages
    */
   clearCache(): void {
-    this._historyPage$.next(null);
+    this.historyCache.clear();
+    this._historyChanged$.next();
+  }
+
+  private cacheHistory(filters: HistoryFilters, state: HistoryListState): void {
+    const key = historyFilterKey(filters);
+    this.historyCache.delete(key);
+    this.historyCache.set(key, { filters, state });
+
+    if (this.historyCache.size > this.MAX_CACHED_HISTORIES) {
+      const oldest = this.historyCache.keys().next().value;
+      if (oldest !== undefined) this.historyCache.delete(oldest);
+    }
+  }
+
+  private updateCachedHistories(
+    update: (state: HistoryListState, filters: HistoryFilters) => HistoryListState
+  ): void {
+    for (const [key, entry] of this.historyCache) {
+      this.historyCache.set(key, { ...entry, state: update(entry.state, entry.filters) });
+    }
+    this._historyChanged$.next();
   }
 }
@@ -0,0 +1,87 @@
+import { Injectable, inject } from '@angular/core';
+import { Observable, forkJoin, map } from 'rxjs';
+import { ChartDataService } from './chart-data.service';
+import { EventsService } from './events.service';
+import { EventResponseDto } from '../models/dashboard.types';
+import {
+  ExerciseImpact,
+  ExerciseInsightsPeriodDays,
+  ExerciseInsightsVM
+} from '../models/exercise-analytics.types';
+import {
+  EXERCISE_BASELINE_MINUTES,
+  analyzeExerciseImpact,
+  exerciseWindowMinutes
+} from '../utils/exercise-impact';
+
+/**
+ * Service computing the glucose impact of Exercise events from the surrounding readings:
+ * one session for the event details drawer, or every session of a period for
+ * exercise insights.
+ */
+@Injectable({ providedIn: 'root' })
+export class ExerciseAnalyticsService {
+  private readonly chartDataService = inject(ChartDataService);
+  private readonly eventsService = inject(EventsService);
+
+  /**
+   * Loads the readings around one Exercise event and analyzes its impact
+   * (readings below `hypoThreshold` mg/dL count as lows)
+   */
+  loadImpact(event: EventResponseDto, hypoThreshold: number): Observable<ExerciseImpact> {
+    const startMs = Date.parse(event.eventTime);
+    const startTime = new Date(startMs - EXERCISE_BASELINE_MINUTES * 60000);
+    const endTime = new Date(startMs + exerciseWindowMinutes(event.durationMinutes) * 60000);
+
+    return this.chartDataService
+      .fetchChartWindow(startTime, endTime)
+      .pipe(map((data) => analyzeExerciseImpact(event, data.glucoseData ?? [], hypoThreshold)));
+  }
+
+  /**
+   * Loads every Exercise event of the last N days with the glucose series and
+   * analyzes each session against `hypoThreshold` (mg/dL)
+   */
+  loadInsights(
+    periodDays: ExerciseInsightsPeriodDays,
+    hypoThreshold: number
+  ): Observable<ExerciseInsightsVM> {
+    const endTime = new Date();
+    const startTime = new Date(endTime.getTime() - periodDays * 24 * 60 * 60 * 1000);
+    const glucoseStart = new Date(startTime.getTime() - EXERCISE_BASELINE_MINUTES * 60000);
+
+    return forkJoin({
+      chart: this.chartDataService.fetchChartWindow(glucoseStart, endTime),
+      events: this.eventsService.listAllDetails({
+        fromDateUtc: startTime.toISOString(),
+        toDateUtc: endTime.toISOString(),
+        types: ['Exercise']
+      })
+    }).pipe(
+      map(({ chart, events }) => {
+        // Parse timestamps once; each session only looks at the readings around it
+        const points = (chart.glucoseData ?? []).map((point) => ({
+          point,
+          epochMs: Date.parse(point.timestamp)
+        }));
+
+        return {
+          periodDays,
+          startTime: startTime.toISOString(),
+          endTime: endTime.toISOString(),
+          sessions: events
+            .filter((event) => event.eventType === 'Exercise')
+            .map((event) => {
+              const startMs = Date.parse(event.eventTime);
+              const from = startMs - EXERCISE_BASELINE_MINUTES * 60000;
+              const to = startMs + exerciseWindowMinutes(event.durationMinutes) * 60000;
+              const around = points
+                .filter(({ epochMs }) => epochMs >= from && epochMs <= to)
+                .map(({ point }) => point);
+              return analyzeExerciseImpact(event, around, hypoThreshold);
+            })
+        };
+      })
+    );
+  }
+}
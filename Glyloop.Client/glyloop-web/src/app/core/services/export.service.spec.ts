@@ -0,0 +1,60 @@
+/**
+ * Unit tests for ExportService data loading
+ */
+
+import { TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { API_CONFIG } from '../config/api.config';
+import { ExportData } from '../models/export.types';
+import { ExportService } from './export.service';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('ExportService', () => {
+  let service: ExportService;
+  let http: HttpTestingController;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [
+        provideHttpClient(),
+        provideHttpClientTesting(),
+        { provide: API_CONFIG, useValue: { baseUrl: '' } }
+      ]
+    });
+    service = TestBed.inject(ExportService);
+    http = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => http.verify());
+
+  it('should load glucose rows covering the whole requested range', () => {
+    const start = new Date('2025-03-01T00:00:00Z');
+    const end = new Date('2025-03-15T00:00:00Z');
+    // Hourly readings across the 14 days, returned out of order
+    const readings = Array.from({ length: 14 * 24 + 1 }, (_, i) => ({
+      timestamp: new Date(start.getTime() + i * HOUR_MS).toISOString(),
+      value: 100 + (i % 50)
+    })).reverse();
+
+    let data: ExportData | undefined;
+    service.load(start, end).subscribe((result) => (data = result));
+
+    const chart = http.expectOne((req) => req.url === '/api/chart/data');
+    expect(chart.request.params.has('range')).toBe(false);
+    expect(chart.request.params.get('startTime')).toBe(start.toISOString());
+    expect(chart.request.params.get('endTime')).toBe(end.toISOString());
+    chart.flush({ glucoseData: readings, events: [] });
+
+    http
+      .expectOne((req) => req.url === '/api/events')
+      .flush({ items: [], page: 1, pageSize: 100, totalItems: 0, totalPages: 0 });
+
+    const rows = data!.glucoseData;
+    expect(rows).toHaveLength(readings.length);
+    expect(rows[0].timestamp).toBe(start.toISOString());
+    expect(rows[rows.length - 1].timestamp).toBe(end.toISOString());
+    expect(rows.every((row, i) => i === 0 || row.timestamp > rows[i - 1].timestamp)).toBe(true);
+  });
+});
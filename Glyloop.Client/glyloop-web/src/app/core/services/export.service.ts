@@ -0,0 +1,342 @@
+import { Injectable, inject } from '@angular/core';
+import { Observable, forkJoin, map } from 'rxjs';
+import {
+  Chart,
+  Filler,
+  LineController,
+  LineElement,
+  LinearScale,
+  PointElement,
+  TimeScale
+} from 'chart.js';
+import 'chartjs-adapter-date-fns';
+import { ChartDataService } from './chart-data.service';
+import { EventsService } from './events.service';
+import { ExportData, ExportReportOptions } from '../models/export.types';
+import { TirBandKey } from '../models/dashboard.types';
+import { GlucoseUnit } from '../models/settings.types';
+import { downloadTextFile, toCsv } from '../utils/csv';
+import {
+  coefficientOfVariation,
+  glucoseManagementIndicator,
+  glucoseValues,
+  mean,
+  tirBandBreakdown
+} from '../utils/glucose-stats';
+import {
+  formatGlucose,
+  formatGlucoseRange,
+  toDisplayGlucose,
+  toDisplayGlucoseExact
+} from '../utils/glucose-units';
+
+Chart.register(LineController, LineElement, PointElement, LinearScale, TimeScale, Filler);
+
+/**
+ * Service generating client-side exports for the dashboard:
+ * one CSV per dataset (glucose readings, events) and a printable report
+ * (chart image, TIR summary, event table) saved as PDF via the browser's print dialog.
+ */
+@Injectable({ providedIn: 'root' })
+export class ExportService {
+  private readonly chartDataService = inject(ChartDataService);
+  private readonly eventsService = inject(EventsService);
+
+  /**
+   * Loads glucose readings and all events (across every page) for a window
+   */
+  load(startTime: Date, endTime: Date): Observable<ExportData> {
+    return forkJoin({
+      chart: this.chartDataService.fetchChartWindow(startTime, endTime),
+      events: this.eventsService.listAll({
+        fromDateUtc: startTime.toISOString(),
+        toDateUtc: endTime.toISOString()
+      })
+    }).pipe(
+      map(({ chart, events }) => ({
+        startTime: startTime.toISOString(),
+        endTime: endTime.toISOString(),
+        glucoseData: [...(chart.glucoseData ?? [])].sort(
+          (a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp)
+        ),
+        events: [...events].sort((a, b) => Date.parse(a.eventTime) - Date.parse(b.eventTime))
+      }))
+    );
+  }
+
+  /**
+   * Downloads glucose readings and events as two CSV files
+   */
+  downloadCsv(data: ExportData): void {
+    const suffix = this.buildFileSuffix(data);
+
+    const glucoseRows = [
+      ['timestamp_utc', 'local_time', 'glucose_mg_dl', 'glucose_mmol_l'],
+      ...data.glucoseData.map((point) => [
+        point.timestamp,
+        this.formatLocalDateTime(point.timestamp),
+        point.value ?? null,
+        point.value == null ? null : toDisplayGlucose(point.value, 'mmol/L')
+      ])
+    ];
+
+    const eventRows = [
+      ['event_id', 'event_type', 'timestamp_utc', 'local_time', 'summary'],
+      ...data.events.map((event) => [
+        event.eventId,
+        event.eventType,
+        event.eventTime,
+        this.formatLocalDateTime(event.eventTime),
+        event.summary
+      ])
+    ];
+
+    downloadTextFile(`glyloop-glucose-${suffix}.csv`, toCsv(glucoseRows), 'text/csv;charset=utf-8');
+    downloadTextFile(`glyloop-events-${suffix}.csv`, toCsv(eventRows), 'text/csv;charset=utf-8');
+  }
+
+  /**
+   * Opens an empty window for the printable report.
+   * Must be called synchronously from a user gesture so pop-up blockers allow it;
+   * returns null when the window was blocked.
+   */
+  openReportWindow(): Window | null {
+    const reportWindow = window.open('', '_blank');
+    if (!reportWindow) return null;
+
+    reportWindow.document.write(
+      `<p style="font-family: sans-serif">${this.escapeHtml($localize`:@@export.report.preparing:Preparing report...`)}</p>`
+    );
+    return reportWindow;
+  }
+
+  /**
+   * Writes the report into a window opened by `openReportWindow` and opens the print dialog
+   */
+  writeReport(reportWindow: Window, data: ExportData, options: ExportReportOptions): void {
+    const doc = reportWindow.document;
+    doc.open();
+    doc.write(this.buildReportHtml(data, options));
+    doc.close();
+
+    reportWindow.onload = () => {
+      reportWindow.focus();
+      reportWindow.print();
+    };
+  }
+
+  /**
+   * Builds the standalone HTML for the printable report
+   */
+  private buildReportHtml(data: ExportData, options: ExportReportOptions): string {
+    const { unit, thresholds } = options;
+    const values = glucoseValues(data.glucoseData);
+    const breakdown = tirBandBreakdown(values, thresholds);
+    const meanGlucose = mean(values);
+    const gmi = glucoseManagementIndicator(meanGlucose);
+    const cv = coefficientOfVariation(values);
+    const chartImage = this.renderChartImage(data, options);
+
+    const bandLabels: Record<TirBandKey, string> = {
+      veryLow: $localize`:@@export.report.band.veryLow:Very Low`,
+      low: $localize`:@@export.report.band.low:Low`,
+      inRange: $localize`:@@export.report.band.inRange:In Range`,
+      high: $localize`:@@export.report.band.high:High`,
+      veryHigh: $localize`:@@export.report.band.veryHigh:Very High`
+    };
+    const bandRanges: Record<TirBandKey, string> = {
+      veryLow: `&lt;${formatGlucose(thresholds.veryLow, unit)}`,
+      low: formatGlucoseRange(thresholds.veryLow, thresholds.low - 1, unit),
+      inRange: formatGlucoseRange(thresholds.low, thresholds.high, unit),
+      high: formatGlucoseRange(thresholds.high + 1, thresholds.veryHigh, unit),
+      veryHigh: `&gt;${formatGlucose(thresholds.veryHigh, unit)}`
+    };
+
+    const title = $localize`:@@export.report.title:Glucose Report`;
+    const lastMoment = new Date(Date.parse(data.endTime) - 1).toISOString();
+    const period = `${this.formatLocalDate(data.startTime)} – ${this.formatLocalDate(lastMoment)}`;
+    const generated = $localize`:@@export.report.generated:Generated ${new Date().toLocaleString()}:date:`;
+
+    const bandRows = breakdown.bands
+      .slice()
+      .reverse()
+      .map(
+        (band) =>
+          `<tr><td>${this.escapeHtml(bandLabels[band.key])}</td><td>${bandRanges[band.key]}</td>` +
+          `<td class="num">${band.percentage.toFixed(1)}%</td><td class="num">${band.readings}</td></tr>`
+      )
+      .join('');
+
+    const eventRows = data.events.length
+      ? data.events
+          .map(
+            (event) =>
+              `<tr><td>${this.escapeHtml(this.formatLocalDateTime(event.eventTime))}</td>` +
+              `<td>${this.escapeHtml(event.eventType)}</td><td>${this.escapeHtml(event.summary)}</td></tr>`
+          )
+          .join('')
+      : `<tr><td colspan="3">${this.escapeHtml($localize`:@@export.report.noEvents:No events in this period`)}</td></tr>`;
+
+    return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${this.escapeHtml(title)} ${this.escapeHtml(period)}</title>
+<style>
+  body { font-family: Arial, Helvetica, sans-serif; color: #111827; margin: 24px; }
+  h1 { font-size: 22px; margin: 0 0 4px; }
+  h2 { font-size: 16px; margin: 24px 0 8px; }
+  .meta { color: #4b5563; font-size: 12px; }
+  .chart { width: 100%; border: 1px solid #e5e7eb; }
+  .stats { display: flex; gap: 24px; font-size: 13px; margin-bottom: 8px; }
+  table { width: 100%; border-collapse: collapse; font-size: 12px; }
+  th, td { border-bottom: 1px solid #e5e7eb; padding: 4px 6px; text-align: left; vertical-align: top; }
+  th { background: #f3f4f6; }
+  .num { text-align: right; }
+  tr { page-break-inside: avoid; }
+</style>
+</head>
+<body>
+  <h1>${this.escapeHtml(title)}</h1>
+  <div class="meta">${this.escapeHtml(period)} · ${this.escapeHtml(generated)}</div>
+
+  <h2>${this.escapeHtml($localize`:@@export.report.glucose:Glucose`)}</h2>
+  ${chartImage ? `<img class="chart" src="${chartImage}" alt="">` : ''}
+
+  <h2>${this.escapeHtml($localize`:@@export.report.tir:Time in Range`)}</h2>
+  <div class="stats">
+    <span>${this.escapeHtml($localize`:@@export.report.mean:Mean glucose`)}: <strong>${formatGlucose(meanGlucose, unit)}</strong></span>
+    <span>GMI: <strong>${gmi === null ? '—' : `${gmi.toFixed(1)}%`}</strong></span>
+    <span>CV: <strong>${cv === null ? '—' : `${cv.toFixed(1)}%`}</strong></span>
+    <span>${this.escapeHtml($localize`:@@export.report.readings:Readings`)}: <strong>${breakdown.totalReadings}</strong></span>
+  </div>
+  <table>
+    <thead><tr><th></th><th>${this.escapeHtml($localize`:@@export.report.range:Range`)}</th><th class="num">%</th><th class="num">${this.escapeHtml($localize`:@@export.report.readings:Readings`)}</th></tr></thead>
+    <tbody>${bandRows}</tbody>
+  </table>
+
+  <h2>${this.escapeHtml($localize`:@@export.report.events:Events`)} (${data.events.length})</h2>
+  <table>
+    <thead><tr><th>${this.escapeHtml($localize`:@@export.report.time:Time`)}</th><th>${this.escapeHtml($localize`:@@export.report.type:Type`)}</th><th>${this.escapeHtml($localize`:@@export.report.summary:Summary`)}</th></tr></thead>
+    <tbody>${eventRows}</tbody>
+  </table>
+</body>
+</html>`;
+  }
+
+  /**
+   * Renders the glucose series on an offscreen canvas and returns a PNG data URL
+   */
+  private renderChartImage(data: ExportData, options: ExportReportOptions): string | null {
+    const canvas = document.createElement('canvas');
+    canvas.width = 1200;
+    canvas.height = 420;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return null;
+
+    const { unit, thresholds } = options;
+    const startMs = Date.parse(data.startTime);
+    const endMs = Date.parse(data.endTime);
+    const toDisplay = (mgdl: number) => toDisplayGlucoseExact(mgdl, unit);
+
+    const thresholdLine = (mgdl: number, color: string) => ({
+      type: 'line',
+      data: [
+        { x: startMs, y: toDisplay(mgdl) },
+        { x: endMs, y: toDisplay(mgdl) }
+      ],
+      borderColor: color,
+      borderWidth: 1,
+      borderDash: [6, 6],
+      pointRadius: 0,
+      fill: false
+    });
+
+    const chart = new Chart(ctx, {
+      type: 'line',
+      data: {
+        datasets: [
+          {
+            type: 'line',
+            data: data.glucoseData.map((point) => ({
+              x: Date.parse(point.timestamp),
+              y: point.value == null ? null : toDisplay(point.value)
+            })),
+            borderColor: 'rgb(75, 192, 192)',
+            borderWidth: 1.5,
+            pointRadius: 0,
+            tension: 0,
+            spanGaps: false,
+            fill: false
+          },
+          thresholdLine(thresholds.veryHigh, 'rgba(234, 88, 12, 0.75)'),
+          thresholdLine(thresholds.high, 'rgba(220, 53, 69, 0.85)'),
+          thresholdLine(thresholds.low, 'rgba(220, 53, 69, 0.85)'),
+          thresholdLine(thresholds.veryLow, 'rgba(153, 27, 27, 0.9)')
+        ] as never
+      },
+      options: {
+        responsive: false,
+        animation: false,
+        devicePixelRatio: 1,
+        plugins: { legend: { display: false }, tooltip: { enabled: false } },
+        scales: {
+          x: { type: 'time', min: startMs, max: endMs },
+          y: {
+            type: 'linear',
+            suggestedMin: toDisplay(40),
+            suggestedMax: toDisplay(300),
+            title: { display: true, text: this.unitAxisLabel(unit) }
+          }
+        }
+      }
+    });
+
+    const image = canvas.toDataURL('image/png');
+    chart.destroy();
+    return image;
+  }
+
+  private unitAxisLabel(unit: GlucoseUnit): string {
+    return unit === 'mmol/L'
+      ? $localize`:@@export.report.axisMmol:Glucose (mmol/L)`
+      : $localize`:@@export.report.axis:Glucose (mg/dL)`;
+  }
+
+  /**
+   * File name suffix from the export window, e.g. "2025-01-01_2025-01-14"
+   */
+  private buildFileSuffix(data: ExportData): string {
+    const lastDay = new Date(Date.parse(data.endTime) - 1);
+    return `${this.toLocalDateKey(new Date(data.startTime))}_${this.toLocalDateKey(lastDay)}`;
+  }
+
+  private toLocalDateKey(date: Date): string {
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+  }
+
+  private formatLocalDateTime(iso: string): string {
+    const date = new Date(iso);
+    if (Number.isNaN(date.getTime())) return '';
+    return `${this.toLocalDateKey(date)} ${date.toTimeString().slice(0, 5)}`;
+  }
+
+  private formatLocalDate(iso: string): string {
+    return new Date(iso).toLocaleDateString(undefined, {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric'
+    });
+  }
+
+  private escapeHtml(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;');
+  }
+}
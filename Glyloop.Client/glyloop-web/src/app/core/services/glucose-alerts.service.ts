@@ -0,0 +1,269 @@
+import { Injectable, computed, inject, signal } from '@angular/core';
+import { toObservable } from '@angular/core/rxjs-interop';
+import {
+  Observable,
+  Subject,
+  catchError,
+  filter,
+  map,
+  merge,
+  of,
+  switchMap,
+  takeUntil,
+  timer,
+  withLatestFrom
+} from 'rxjs';
+import { ChartDataService } from './chart-data.service';
+import { NetworkStatusService } from './network-status.service';
+import { AlertSettingsStore } from '../stores/alert-settings.store';
+import { AccountPreferencesStore } from '../stores/account-preferences.store';
+import { ActiveGlucoseAlert, AlertAcknowledgementAction } from '../models/alerts.types';
+import { GlucosePointDto } from '../models/dashboard.types';
+import {
+  ALERT_RULE_LABELS,
+  evaluateAlertRules,
+  latestGlucoseReading
+} from '../utils/glucose-alerts';
+import { formatGlucose } from '../utils/glucose-units';
+
+export type AlertNotificationPermission = NotificationPermission | 'unsupported';
+
+/**
+ * Service raising glucose alerts from the configured rules.
+ * Readings come from the dashboard's chart polling while it shows live data; on other
+ * pages (or while a historical window is shown) the last hour is fetched here on the
+ * same 5-minute cadence. Rules are re-checked every minute so no-data alerts, snoozes
+ * and quiet hours take effect between readings. New alerts are also shown as browser
+ * notifications when enabled and permitted.
+ */
+@Injectable({ providedIn: 'root' })
+export class GlucoseAlertsService {
+  private readonly chartDataService = inject(ChartDataService);
+  private readonly network = inject(NetworkStatusService);
+  private readonly settingsStore = inject(AlertSettingsStore);
+  private readonly preferencesStore = inject(AccountPreferencesStore);
+
+  private readonly _alerts = signal<ActiveGlucoseAlert[]>([]);
+  private readonly _notificationPermission = signal<AlertNotificationPermission>(
+    typeof Notification === 'undefined' ? 'unsupported' : Notification.permission
+  );
+  private readonly rulesChanged$ = toObservable(this.settingsStore.rules);
+  private readonly _stop$ = new Subject<void>();
+
+  // Alerts whose condition is met and that were not acknowledged yet
+  readonly alerts = computed(() => this._alerts().filter((alert) => !alert.acknowledgedAt));
+  readonly notificationPermission = this._notificationPermission.asReadonly();
+
+  private readonly CHECK_INTERVAL_MS = 60 * 1000;
+  private readonly POLL_INTERVAL_MS = 5 * 60 * 1000;
+  private readonly FETCH_WINDOW_MS = 60 * 60 * 1000;
+
+  private running = false;
+  private latestReading: GlucosePointDto | null = null;
+  private lastReceivedAt = 0;
+
+  /**
+   * Starts watching readings (called when the authenticated shell opens)
+   */
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+
+    const liveData$ = this.chartDataService.chartData$.pipe(
+      withLatestFrom(this.chartDataService.staleSince$),
+      filter(([data, staleSince]) => !!data && !staleSince && this.isLiveData(data.endTime)),
+      map(([data]) => data!.glucoseData)
+    );
+
+    const checks$ = timer(this.CHECK_INTERVAL_MS, this.CHECK_INTERVAL_MS).pipe(
+      switchMap(() => (this.shouldFetch() ? this.fetchRecentReadings() : of(null)))
+    );
+
+    merge(liveData$, checks$, this.rulesChanged$.pipe(map(() => null)))
+      .pipe(takeUntil(this._stop$))
+      .subscribe((points) => {
+        if (points) this.receive(points);
+        this.evaluate();
+      });
+  }
+
+  /**
+   * Stops watching and forgets active alerts (called on logout)
+   */
+  stop(): void {
+    this.running = false;
+    this._stop$.next();
+    this._alerts.set([]);
+    this.latestReading = null;
+    this.lastReceivedAt = 0;
+  }
+
+  /**
+   * Hides an alert until its condition clears and logs the acknowledgement
+   */
+  acknowledge(id: string): void {
+    const alert = this._alerts().find((item) => item.id === id);
+    if (!alert || alert.acknowledgedAt) return;
+
+    const acknowledgedAt = this.record(alert, 'acknowledged');
+    this._alerts.update((alerts) =>
+      alerts.map((item) => (item.id === id ? { ...item, acknowledgedAt } : item))
+    );
+  }
+
+  /**
+   * Snoozes the alert's rule; the alert is raised again if the condition
+   * still holds once the snooze ends
+   */
+  snooze(id: string): void {
+    const alert = this._alerts().find((item) => item.id === id);
+    if (!alert) return;
+
+    this.record(alert, 'snoozed');
+    this.settingsStore.snooze(alert.kind);
+  }
+
+  /**
+   * Asks for notification permission and enables notifications when granted
+   */
+  async requestNotificationPermission(): Promise<AlertNotificationPermission> {
+    if (typeof Notification === 'undefined') return 'unsupported';
+
+    try {
+      const permission = await Notification.requestPermission();
+      this._notificationPermission.set(permission);
+      this.settingsStore.setNotificationsEnabled(permission === 'granted');
+      return permission;
+    } catch (err) {
+      console.error('Failed to request notification permission:', err);
+      return this._notificationPermission();
+    }
+  }
+
+  /**
+   * Alert text in the user's glucose unit
+   */
+  describe(alert: ActiveGlucoseAlert): string {
+    const value = formatGlucose(alert.value, this.preferencesStore.glucoseUnit());
+    switch (alert.kind) {
+      case 'urgentLow':
+      case 'low':
+        return $localize`:@@alerts.message.low:Glucose is low at ${value}:value:`;
+      case 'high':
+        return $localize`:@@alerts.message.high:Glucose is high at ${value}:value:`;
+      case 'risingFast':
+        return $localize`:@@alerts.message.risingFast:Glucose is rising fast (${value}:value:)`;
+      case 'fallingFast':
+        return $localize`:@@alerts.message.fallingFast:Glucose is falling fast (${value}:value:)`;
+      case 'noData': {
+        const time = alert.readingTime
+          ? new Date(alert.readingTime).toLocaleTimeString([], {
+              hour: '2-digit',
+              minute: '2-digit'
+            })
+          : '—';
+        return $localize`:@@alerts.message.noData:No glucose reading since ${time}:time:`;
+      }
+    }
+  }
+
+  private receive(points: GlucosePointDto[]): void {
+    this.lastReceivedAt = Date.now();
+    const latest = latestGlucoseReading(points);
+    if (
+      latest &&
+      (!this.latestReading ||
+        Date.parse(latest.timestamp) >= Date.parse(this.latestReading.timestamp))
+    ) {
+      this.latestReading = latest;
+    }
+  }
+
+  /**
+   * Updates active alerts from the rules; alerts already active keep their ID
+   */
+  private evaluate(now = new Date()): void {
+    const current = this._alerts();
+    const triggers = evaluateAlertRules(this.settingsStore.rules(), this.latestReading, now);
+
+    const next = triggers.map((trigger): ActiveGlucoseAlert => {
+      const existing = current.find((alert) => alert.kind === trigger.kind);
+      return existing
+        ? { ...existing, value: trigger.value, readingTime: trigger.readingTime }
+        : { ...trigger, id: `${trigger.kind}-${now.getTime()}`, triggeredAt: now.toISOString() };
+    });
+
+    this._alerts.set(next);
+    next
+      .filter((alert) => !current.some((existing) => existing.id === alert.id))
+      .forEach((alert) => this.notify(alert));
+  }
+
+  private record(alert: ActiveGlucoseAlert, action: AlertAcknowledgementAction): string {
+    const acknowledgedAt = new Date().toISOString();
+    this.settingsStore.recordAcknowledgement({
+      alertId: alert.id,
+      kind: alert.kind,
+      value: alert.value,
+      triggeredAt: alert.triggeredAt,
+      acknowledgedAt,
+      action
+    });
+    return acknowledgedAt;
+  }
+
+  private isLiveData(endTime: string): boolean {
+    return Date.now() - Date.parse(endTime) < this.POLL_INTERVAL_MS;
+  }
+
+  private shouldFetch(): boolean {
+    return (
+      Date.now() - this.lastReceivedAt >= this.POLL_INTERVAL_MS &&
+      !document.hidden &&
+      this.network.online()
+    );
+  }
+
+  private fetchRecentReadings(): Observable<GlucosePointDto[] | null> {
+    const end = new Date();
+    const start = new Date(end.getTime() - this.FETCH_WINDOW_MS);
+    return this.chartDataService.fetchChartWindow(start, end).pipe(
+      map((data) => data.glucoseData),
+      catchError((err) => {
+        console.error('Failed to fetch readings for alerts:', err);
+        return of(null);
+      })
+    );
+  }
+
+  private notify(alert: ActiveGlucoseAlert): void {
+    if (!this.settingsStore.notificationsEnabled() || this._notificationPermission() !== 'granted') {
+      return;
+    }
+
+    this.showNotification(ALERT_RULE_LABELS[alert.kind], {
+      body: this.describe(alert),
+      tag: `glyloop-alert-${alert.kind}`,
+      icon: 'icons/icon-192x192.png',
+      requireInteraction: alert.severity === 'urgent'
+    });
+  }
+
+  /**
+   * Shows a notification through the service worker when one is registered
+   * (required on mobile browsers), otherwise from the page
+   */
+  private async showNotification(title: string, options: NotificationOptions): Promise<void> {
+    try {
+      const registration = await navigator.serviceWorker?.getRegistration();
+      if (registration) {
+        await registration.showNotification(title, options);
+        return;
+      }
+      const notification = new Notification(title, options);
+      notification.onclick = () => window.focus();
+    } catch (err) {
+      console.error('Failed to show alert notification:', err);
+    }
+  }
+}
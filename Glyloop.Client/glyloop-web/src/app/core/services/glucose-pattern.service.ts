@@ -0,0 +1,28 @@
+import { Injectable, inject } from '@angular/core';
+import { Observable, map } from 'rxjs';
+import { ChartDataService } from './chart-data.service';
+import { DailyOverlayDay } from '../models/agp.types';
+import { buildDailyOverlay } from '../utils/daily-overlay';
+import { PATTERN_LOOKBACK_DAYS } from '../utils/glucose-patterns';
+
+/**
+ * Service loading the multi-day glucose series used for pattern detection.
+ * Splits the readings of the last days into local calendar days; detection runs
+ * client-side against the current thresholds.
+ */
+@Injectable({ providedIn: 'root' })
+export class GlucosePatternService {
+  private readonly chartDataService = inject(ChartDataService);
+
+  /**
+   * Loads the readings of the last N days, grouped by day
+   */
+  loadDays(periodDays = PATTERN_LOOKBACK_DAYS): Observable<DailyOverlayDay[]> {
+    const endTime = new Date();
+    const startTime = new Date(endTime.getTime() - periodDays * 24 * 60 * 60 * 1000);
+
+    return this.chartDataService
+      .fetchChartWindow(startTime, endTime)
+      .pipe(map((data) => buildDailyOverlay(data.glucoseData ?? [])));
+  }
+}
@@ -0,0 +1,82 @@
+import { Injectable, inject } from '@angular/core';
+import { Observable, forkJoin, map } from 'rxjs';
+import { ChartDataService } from './chart-data.service';
+import { EventsService } from './events.service';
+import { EventResponseDto } from '../models/dashboard.types';
+import {
+  MealInsightsPeriodDays,
+  MealInsightsVM,
+  MealResponse
+} from '../models/meal-analytics.types';
+import {
+  MEAL_BASELINE_MINUTES,
+  MEAL_RESPONSE_MINUTES,
+  analyzeMealResponse
+} from '../utils/meal-response';
+
+/**
+ * Service computing glucose responses to Food events from the surrounding readings:
+ * one meal for the event details drawer, or every meal of a period for meal insights.
+ */
+@Injectable({ providedIn: 'root' })
+export class MealAnalyticsService {
+  private readonly chartDataService = inject(ChartDataService);
+  private readonly eventsService = inject(EventsService);
+
+  /**
+   * Loads the readings around one Food event and analyzes the response
+   */
+  loadResponse(event: EventResponseDto): Observable<MealResponse> {
+    const mealMs = Date.parse(event.eventTime);
+    const startTime = new Date(mealMs - MEAL_BASELINE_MINUTES * 60000);
+    const endTime = new Date(mealMs + MEAL_RESPONSE_MINUTES * 60000);
+
+    return this.chartDataService
+      .fetchChartWindow(startTime, endTime)
+      .pipe(map((data) => analyzeMealResponse(event, data.glucoseData ?? [])));
+  }
+
+  /**
+   * Loads every Food event of the last N days with the glucose series and
+   * analyzes each meal
+   */
+  loadInsights(periodDays: MealInsightsPeriodDays): Observable<MealInsightsVM> {
+    const endTime = new Date();
+    const startTime = new Date(endTime.getTime() - periodDays * 24 * 60 * 60 * 1000);
+    const glucoseStart = new Date(startTime.getTime() - MEAL_BASELINE_MINUTES * 60000);
+
+    return forkJoin({
+      chart: this.chartDataService.fetchChartWindow(glucoseStart, endTime),
+      events: this.eventsService.listAllDetails({
+        fromDateUtc: startTime.toISOString(),
+        toDateUtc: endTime.toISOString(),
+        types: ['Food']
+      })
+    }).pipe(
+      map(({ chart, events }) => {
+        // Parse timestamps once; each meal only looks at the readings around it
+        const points = (chart.glucoseData ?? []).map((point) => ({
+          point,
+          epochMs: Date.parse(point.timestamp)
+        }));
+
+        return {
+          periodDays,
+          startTime: startTime.toISOString(),
+          endTime: endTime.toISOString(),
+          meals: events
+            .filter((event) => event.eventType === 'Food')
+            .map((event) => {
+              const mealMs = Date.parse(event.eventTime);
+              const from = mealMs - MEAL_BASELINE_MINUTES * 60000;
+              const to = mealMs + MEAL_RESPONSE_MINUTES * 60000;
+              const around = points
+                .filter(({ epochMs }) => epochMs >= from && epochMs <= to)
+                .map(({ point }) => point);
+              return analyzeMealResponse(event, around);
+            })
+        };
+      })
+    );
+  }
+}
@@ -0,0 +1,30 @@
+import { Injectable, signal } from '@angular/core';
+import { Observable, Subject } from 'rxjs';
+
+/**
+ * Service tracking the browser's online/offline state.
+ * `navigator.onLine` only knows whether a network is available, not whether the
+ * API is reachable; callers still treat status 0 responses as offline.
+ */
+@Injectable({ providedIn: 'root' })
+export class NetworkStatusService {
+  private readonly _online = signal<boolean>(
+    typeof navigator === 'undefined' || navigator.onLine
+  );
+  private readonly _changes$ = new Subject<boolean>();
+
+  readonly online = this._online.asReadonly();
+  readonly changes$: Observable<boolean> = this._changes$.asObservable();
+
+  constructor() {
+    if (typeof window === 'undefined') return;
+
+    window.addEventListener('online', () => this.update(true));
+    window.addEventListener('offline', () => this.update(false));
+  }
+
+  private update(online: boolean): void {
+    this._online.set(online);
+    this._changes$.next(online);
+  }
+}
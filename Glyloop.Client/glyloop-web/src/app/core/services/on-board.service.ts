@@ -0,0 +1,34 @@
+import { Injectable, inject } from '@angular/core';
+import { Observable, catchError, of } from 'rxjs';
+import { EventsService } from './events.service';
+import { EventResponseDto } from '../models/dashboard.types';
+
+/**
+ * Service loading the Insulin and Food events that can still be active in a window.
+ * Doses and carbs come from each event's details, cached by the events service.
+ */
+@Injectable({ providedIn: 'root' })
+export class OnBoardService {
+  private readonly eventsService = inject(EventsService);
+
+  /**
+   * Loads Insulin and Food events from `lookbackMinutes` before start up to end.
+   * Emits an empty list when loading fails.
+   */
+  loadEvents(start: Date, end: Date, lookbackMinutes: number): Observable<EventResponseDto[]> {
+    const since = new Date(start.getTime() - lookbackMinutes * 60000);
+
+    return this.eventsService
+      .listAllDetails({
+        fromDateUtc: since.toISOString(),
+        toDateUtc: end.toISOString(),
+        types: ['Insulin', 'Food']
+      })
+      .pipe(
+        catchError((err) => {
+          console.error('Failed to load events for insulin and carbs on board:', err);
+          return of([]);
+        })
+      );
+  }
+}
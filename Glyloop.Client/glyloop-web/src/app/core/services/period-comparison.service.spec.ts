@@ -0,0 +1,91 @@
+/**
+ * Unit tests for PeriodComparisonService requests
+ */
+
+import { TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { API_CONFIG } from '../config/api.config';
+import { PeriodComparisonService } from './period-comparison.service';
+import { comparisonWindows } from '../utils/period-comparison';
+
+describe('PeriodComparisonService', () => {
+  let service: PeriodComparisonService;
+  let http: HttpTestingController;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: Date.parse('2025-03-15T12:00:00Z') });
+    TestBed.configureTestingModule({
+      providers: [
+        provideHttpClient(),
+        provideHttpClientTesting(),
+        { provide: API_CONFIG, useValue: { baseUrl: '' } }
+      ]
+    });
+    service = TestBed.inject(PeriodComparisonService);
+    http = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => {
+    http.verify();
+    jest.useRealTimers();
+  });
+
+  it('should request each period with its own window instead of a range', () => {
+    service.load('week').subscribe();
+
+    const tir = http.match((req) => req.url === '/api/chart/tir');
+    const chart = http.match((req) => req.url === '/api/chart/data');
+    const windows = comparisonWindows('week');
+
+    expect(tir).toHaveLength(2);
+    expect(chart).toHaveLength(2);
+    for (const requests of [tir, chart]) {
+      const [current, previous] = requests.map((req) => req.request.params);
+      expect(current.has('range')).toBe(false);
+      expect(previous.has('range')).toBe(false);
+      expect(current.get('startTime')).not.toBe(previous.get('startTime'));
+      expect(current.get('endTime')).not.toBe(previous.get('endTime'));
+      expect(Date.parse(current.get('startTime')!)).toBe(Date.parse(windows.current.startTime));
+      expect(Date.parse(previous.get('endTime')!)).toBe(Date.parse(windows.previous.endTime));
+    }
+
+    tir.forEach((req) => req.flush(tirResponse()));
+    chart.forEach((req) => req.flush({ glucoseData: [], events: [] }));
+  });
+
+  it('should summarize the two periods from their own responses', () => {
+    let result: { current: number | null; previous: number | null } | undefined;
+    service.load('week').subscribe((vm) => {
+      result = {
+        current: vm.current.tir.timeInRangePercentage,
+        previous: vm.previous.tir.timeInRangePercentage
+      };
+    });
+
+    const [currentTir, previousTir] = http.match((req) => req.url === '/api/chart/tir');
+    currentTir.flush({ ...tirResponse(), timeInRangePercentage: 80 });
+    previousTir.flush({ ...tirResponse(), timeInRangePercentage: 60 });
+    http
+      .match((req) => req.url === '/api/chart/data')
+      .forEach((req) => req.flush({ glucoseData: [], events: [] }));
+
+    expect(result).toEqual({ current: 80, previous: 60 });
+  });
+});
+
+function tirResponse() {
+  return {
+    timeInRangePercentage: null,
+    totalReadings: 0,
+    readingsInRange: 0,
+    readingsBelowRange: 0,
+    readingsAboveRange: 0,
+    readingsVeryLow: 0,
+    readingsVeryHigh: 0,
+    targetLowerBound: 70,
+    targetUpperBound: 180,
+    veryLowBound: 54,
+    veryHighBound: 250
+  };
+}
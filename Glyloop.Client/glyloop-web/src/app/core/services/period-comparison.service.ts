@@ -0,0 +1,68 @@
+import { Injectable, inject } from '@angular/core';
+import { Observable, forkJoin, map } from 'rxjs';
+import { ChartDataService } from './chart-data.service';
+import { ChartWindow } from '../models/dashboard.types';
+import {
+  ComparisonPreset,
+  PeriodComparisonVM,
+  PeriodSummary
+} from '../models/comparison.types';
+import { glucoseVariabilityStats, tirResponseBreakdown } from '../utils/glucose-stats';
+import { comparePeriods, comparisonWindows } from '../utils/period-comparison';
+
+/**
+ * Service comparing a period with the one before it.
+ * Fetches TIR and the glucose series for two equal-length windows and computes
+ * the TIR bands, mean glucose and variability deltas between them.
+ */
+@Injectable({ providedIn: 'root' })
+export class PeriodComparisonService {
+  private readonly chartDataService = inject(ChartDataService);
+
+  /**
+   * Loads both windows of a preset and compares them
+   */
+  load(preset: ComparisonPreset): Observable<PeriodComparisonVM> {
+    const windows = comparisonWindows(preset);
+
+    return forkJoin({
+      current: this.loadPeriod(windows.current),
+      previous: this.loadPeriod(windows.previous)
+    }).pipe(
+      map(({ current, previous }) => ({
+        preset,
+        current,
+        previous,
+        rows: comparePeriods(current, previous)
+      }))
+    );
+  }
+
+  /**
+   * Fetches TIR and readings for one window and summarizes them
+   */
+  private loadPeriod(window: ChartWindow): Observable<PeriodSummary> {
+    return forkJoin({
+      tir: this.chartDataService.fetchTirWindow(window),
+      chart: this.chartDataService.fetchChartWindow(
+        new Date(window.startTime),
+        new Date(window.endTime)
+      )
+    }).pipe(
+      map(({ tir, chart }) => {
+        const points = chart.glucoseData ?? [];
+
+        return {
+          window,
+          tir,
+          bands: tirResponseBreakdown(tir),
+          stats: glucoseVariabilityStats(
+            points,
+            Date.parse(window.startTime),
+            Date.parse(window.endTime)
+          )
+        };
+      })
+    );
+  }
+}
@@ -21,7 +21,7 @@ export class SettingsApiService {
 
   /**
    * GET /api/account/preferences
-   * Retrieves the user's TIR preferences
+   * Retrieves the user's TIR preferences and glucose display unit
    */
   getPreferences(): Observable<TirPreferencesDto> {
     return this.http.get<TirPreferencesDto>(
@@ -32,7 +32,7 @@ export class SettingsApiService {
 
   /**
    * PUT /api/account/preferences
-   * Updates the user's TIR preferences
+   * Updates the user's TIR preferences and glucose display unit
    */
   updatePreferences(req: UpdatePreferencesRequestDto): Observable<void> {
     return this.http.put<void>(
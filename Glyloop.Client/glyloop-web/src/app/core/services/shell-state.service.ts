@@ -10,6 +10,16 @@ import {
   SessionResponse
 } from '../models/shell.types';
 import { DexcomStore } from '../stores/dexcom.store';
+import { DashboardSnapshotStore } from '../stores/dashboard-snapshot.store';
+import { OutboxStore } from '../stores/outbox.store';
+import { AlertSettingsStore } from '../stores/alert-settings.store';
+import { EventPresetsStore } from '../stores/event-presets.store';
+import { RecentSearchesStore } from '../stores/recent-searches.store';
+import { HypoSettingsStore } from '../stores/hypo-settings.store';
+import { HypoTreatmentsStore } from '../stores/hypo-treatments.store';
+import { OnBoardSettingsStore } from '../stores/on-board-settings.store';
+import { EventsService } from './events.service';
+import { ChartDataService } from './chart-data.service';
 import { API_CONFIG } from '../config/api.config';
 
 /**
@@ -23,6 +33,16 @@ export class ShellStateService {
   private readonly http = inject(HttpClient);
   private readonly apiConfig = inject(API_CONFIG);
   private readonly dexcomStore = inject(DexcomStore);
+  private readonly eventsService = inject(EventsService);
+  private readonly chartDataService = inject(ChartDataService);
+  private readonly snapshotStore = inject(DashboardSnapshotStore);
+  private readonly outboxStore = inject(OutboxStore);
+  private readonly alertSettingsStore = inject(AlertSettingsStore);
+  private readonly presetsStore = inject(EventPresetsStore);
+  private readonly recentSearchesStore = inject(RecentSearchesStore);
+  private readonly hypoSettingsStore = inject(HypoSettingsStore);
+  private readonly hypoTreatmentsStore = inject(HypoTreatmentsStore);
+  private readonly onBoardSettingsStore = inject(OnBoardSettingsStore);
 
   // Private state signals
   private readonly _user = signal<ShellUserSummary | null>(null);
@@ -48,6 +68,34 @@ export class ShellStateService {
         icon: 'dashboard',
         ariaId: 'nav-dashboard'
       },
+      {
+        id: 'agp',
+        label: 'AGP Report',
+        path: '/agp',
+        icon: 'insights',
+        ariaId: 'nav-agp'
+      },
+      {
+        id: 'meals',
+        label: 'Meal Insights',
+        path: '/meals',
+        icon: 'restaurant',
+        ariaId: 'nav-meals'
+      },
+      {
+        id: 'exercise',
+        label: 'Exercise Insights',
+        path: '/exercise',
+        icon: 'fitness_center',
+        ariaId: 'nav-exercise'
+      },
+      {
+        id: 'compare',
+        label: 'Compare Periods',
+        path: '/compare',
+        icon: 'compare_arrows',
+        ariaId: 'nav-compare'
+      },
       {
         id: 'settings',
         label: 'Settings',
@@ -144,6 +192,7 @@ export class ShellStateService {
 
           this._user.set(user);
           this._loading.set(false);
+          this.setSessionUser(response.userId);
 
           // Load Dexcom status after setting initial user
           // The status will trigger a reactive update via the effect below
@@ -159,6 +208,19 @@ export class ShellStateService {
       .subscribe();
   }
 
+  /**
+   * Scopes the data kept on this device to the signed-in user. Data still loaded for
+   * another account (e.g. after its session expired) is dropped.
+   */
+  setSessionUser(userId: string): void {
+    if (this.snapshotStore.userId() !== userId) {
+      this.eventsService.clearCache();
+      this.chartDataService.clearCache();
+    }
+    this.snapshotStore.setUser(userId);
+    this.outboxStore.setUser(userId);
+  }
+
   /**
    * Updates the Dexcom linked status
    * Called after Dexcom linking/unlinking operations
@@ -184,8 +246,7 @@ export class ShellStateService {
         .post(logoutUrl, {}, { withCredentials: true })
         .pipe(
           tap(() => {
-            // Clear user state
-            this._user.set(null);
+            this.clearUserState();
             // Navigate to login
             this.router.navigate(['/login']);
             resolve();
@@ -193,7 +254,7 @@ export class ShellStateService {
           catchError((err) => {
             console.error('Logout failed:', err);
             // Even if logout fails, clear state and redirect
-            this._user.set(null);
+            this.clearUserState();
             this.router.navigate(['/login']);
             resolve();
             return of(null);
@@ -220,4 +281,22 @@ export class ShellStateService {
       this.router.navigate([item.route]);
     }
   }
+
+  /**
+   * Clears the signed-in user and the data and preferences kept for them on this device.
+   * Queued offline events stay stored for their owner's next session.
+   */
+  private clearUserState(): void {
+    this._user.set(null);
+    this.outboxStore.setUser(null);
+    this.eventsService.clearCache();
+    this.snapshotStore.clear();
+    this.snapshotStore.setUser(null);
+    this.alertSettingsStore.clearAcknowledgements();
+    this.presetsStore.clear();
+    this.recentSearchesStore.clear();
+    this.hypoSettingsStore.clear();
+    this.hypoTreatmentsStore.clear();
+    this.onBoardSettingsStore.clear();
+  }
 }
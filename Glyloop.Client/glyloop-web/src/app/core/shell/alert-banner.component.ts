@@ -0,0 +1,24 @@
+import { Component, ChangeDetectionStrategy, input, output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { ShellAlertBannerItem } from '../models/shell.types';
+
+/**
+ * Banner listing active glucose alerts below the header, urgent alerts first.
+ * Each alert can be acknowledged or snoozed.
+ */
+@Component({
+  selector: 'app-alert-banner',
+  standalone: true,
+  imports: [CommonModule, MatButtonModule, MatIconModule],
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  templateUrl: './alert-banner.component.html',
+  styleUrl: './alert-banner.component.css'
+})
+export class AlertBannerComponent {
+  readonly alerts = input<ShellAlertBannerItem[]>([]);
+
+  readonly acknowledge = output<string>();
+  readonly snooze = output<string>();
+}
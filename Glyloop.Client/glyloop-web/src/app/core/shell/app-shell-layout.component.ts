@@ -1,9 +1,20 @@
-import { Component, OnInit, ChangeDetectionStrategy, inject } from '@angular/core';
+import {
+  Component,
+  OnInit,
+  OnDestroy,
+  ChangeDetectionStrategy,
+  computed,
+  inject
+} from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { RouterOutlet } from '@angular/router';
 import { ShellStateService } from '../services/shell-state.service';
+import { EventSyncService } from '../services/event-sync.service';
+import { GlucoseAlertsService } from '../services/glucose-alerts.service';
 import { AppHeaderComponent } from './app-header.component';
-import { ShellNavLink, UserMenuItem } from '../models/shell.types';
+import { AlertBannerComponent } from './alert-banner.component';
+import { ShellAlertBannerItem, ShellNavLink, UserMenuItem } from '../models/shell.types';
+import { ALERT_RULE_LABELS } from '../utils/glucose-alerts';
 
 /**
  * Root layout component wrapping protected routes.
@@ -13,17 +24,36 @@ import { ShellNavLink, UserMenuItem } from '../models/shell.types';
 @Component({
   selector: 'app-shell-layout',
   standalone: true,
-  imports: [CommonModule, RouterOutlet, AppHeaderComponent],
+  imports: [CommonModule, RouterOutlet, AppHeaderComponent, AlertBannerComponent],
   changeDetection: ChangeDetectionStrategy.OnPush,
   templateUrl: './app-shell-layout.component.html',
   styleUrl: './app-shell-layout.component.css'
 })
-export class AppShellLayoutComponent implements OnInit {
+export class AppShellLayoutComponent implements OnInit, OnDestroy {
   protected readonly shellState = inject(ShellStateService);
+  // Created with the shell so queued offline events sync on any page
+  private readonly eventSync = inject(EventSyncService);
+  private readonly glucoseAlerts = inject(GlucoseAlertsService);
+
+  protected readonly alertItems = computed<ShellAlertBannerItem[]>(() =>
+    this.glucoseAlerts.alerts().map((alert) => ({
+      id: alert.id,
+      severity: alert.severity,
+      title: ALERT_RULE_LABELS[alert.kind],
+      message: this.glucoseAlerts.describe(alert),
+      triggeredAt: alert.triggeredAt
+    }))
+  );
 
   ngOnInit(): void {
     // Load user session on component initialization
     this.shellState.loadSession();
+    this.glucoseAlerts.start();
+  }
+
+  ngOnDestroy(): void {
+    // Shell is left on logout; alerts belong to the signed-in user
+    this.glucoseAlerts.stop();
   }
 
   protected onNavigate(link: ShellNavLink): void {
@@ -33,4 +63,12 @@ export class AppShellLayoutComponent implements OnInit {
   protected onMenuAction(item: UserMenuItem): void {
     this.shellState.handleUserMenuAction(item);
   }
+
+  protected onAcknowledgeAlert(id: string): void {
+    this.glucoseAlerts.acknowledge(id);
+  }
+
+  protected onSnoozeAlert(id: string): void {
+    this.glucoseAlerts.snooze(id);
+  }
 }
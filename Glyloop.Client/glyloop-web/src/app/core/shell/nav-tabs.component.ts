@@ -7,7 +7,8 @@ import { ShellNavLink } from '../models/shell.types';
 
 /**
  * Navigation tabs component for top-level shell navigation.
- * Renders tabs for Dashboard and Settings with active state and attention indicators.
+ * Renders tabs for Dashboard, AGP Report, Meal Insights and Settings with active state and
+ * attention indicators.
  */
 @Component({
   selector: 'app-nav-tabs',
@@ -36,6 +37,26 @@ export class NavTabsComponent {
       return currentPath === '/dashboard';
     }
 
+    // Exact match for AGP report
+    if (link.id === 'agp') {
+      return currentPath === '/agp';
+    }
+
+    // Exact match for meal insights
+    if (link.id === 'meals') {
+      return currentPath === '/meals';
+    }
+
+    // Exact match for exercise insights
+    if (link.id === 'exercise') {
+      return currentPath === '/exercise';
+    }
+
+    // Exact match for period comparison
+    if (link.id === 'compare') {
+      return currentPath === '/compare';
+    }
+
     // Prefix match for settings (includes nested routes)
     if (link.id === 'settings') {
       return currentPath.startsWith('/settings');
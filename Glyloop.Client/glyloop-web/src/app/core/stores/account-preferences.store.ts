@@ -1,8 +1,20 @@
 import { Injectable, signal, computed, inject } from '@angular/core';
 import { SettingsApiService } from '../services/settings-api.service';
-import { AccountPreferencesVM, TirPreferencesDto, UpdatePreferencesRequestDto, ValidationErrors } from '../models/settings.types';
+import {
+  AccountPreferencesVM,
+  GlucoseUnit,
+  TirPreferencesDto,
+  UpdatePreferencesRequestDto,
+  ValidationErrors
+} from '../models/settings.types';
+import { TirBandThresholds } from '../models/dashboard.types';
+import { DEFAULT_GLUCOSE_UNIT, formatGlucose } from '../utils/glucose-units';
 import { catchError, tap, of } from 'rxjs';
 
+// Consensus defaults for the extra TIR bands until preferences load (mg/dL)
+const DEFAULT_VERY_LOW_BOUND = 54;
+const DEFAULT_VERY_HIGH_BOUND = 250;
+
 /**
  * Store for managing account preferences state
  * Uses Angular signals for reactive state management
@@ -15,8 +27,13 @@ export class AccountPreferencesStore {
   private readonly _preferences = signal<AccountPreferencesVM>({
     lower: 70,
     upper: 180,
+    veryLow: DEFAULT_VERY_LOW_BOUND,
+    veryHigh: DEFAULT_VERY_HIGH_BOUND,
+    unit: DEFAULT_GLUCOSE_UNIT,
     initialLower: 70,
     initialUpper: 180,
+    initialVeryLow: DEFAULT_VERY_LOW_BOUND,
+    initialVeryHigh: DEFAULT_VERY_HIGH_BOUND,
     isDirty: false,
     isValid: true,
     errors: {},
@@ -34,6 +51,18 @@ export class AccountPreferencesStore {
   // Computed signals
   readonly isDirty = computed(() => this._preferences().isDirty);
   readonly isValid = computed(() => this._preferences().isValid);
+  readonly glucoseUnit = computed(() => this._preferences().unit);
+
+  // Saved five-band TIR thresholds
+  readonly tirThresholds = computed<TirBandThresholds>(() => {
+    const current = this._preferences();
+    return {
+      veryLow: current.initialVeryLow,
+      low: current.initialLower,
+      high: current.initialUpper,
+      veryHigh: current.initialVeryHigh
+    };
+  });
 
   /**
    * Loads preferences from the API
@@ -47,8 +76,13 @@ export class AccountPreferencesStore {
         this._preferences.set({
           lower: data.tirLowerBound,
           upper: data.tirUpperBound,
+          veryLow: data.tirVeryLowBound,
+          veryHigh: data.tirVeryHighBound,
+          unit: data.glucoseUnit,
           initialLower: data.tirLowerBound,
           initialUpper: data.tirUpperBound,
+          initialVeryLow: data.tirVeryLowBound,
+          initialVeryHigh: data.tirVeryHighBound,
           isDirty: false,
           isValid: true,
           errors: {},
@@ -80,40 +114,69 @@ export class AccountPreferencesStore {
     const current = this._preferences();
     const errors: ValidationErrors = {};
     let isValid = true;
+    const limits = `${formatGlucose(0, current.unit, false)} and ${formatGlucose(1000, current.unit)}`;
+
+    if (current.veryLow < 0 || current.veryLow > 1000) {
+      errors.veryLow = `Very low threshold must be between ${limits}`;
+      isValid = false;
+    }
 
     if (current.lower < 0 || current.lower > 1000) {
-      errors.lower = 'Lower bound must be between 0 and 1000 mg/dL';
+      errors.lower = `Lower bound must be between ${limits}`;
       isValid = false;
     }
 
     if (current.upper < 0 || current.upper > 1000) {
-      errors.upper = 'Upper bound must be between 0 and 1000 mg/dL';
+      errors.upper = `Upper bound must be between ${limits}`;
+      isValid = false;
+    }
+
+    if (current.veryHigh < 0 || current.veryHigh > 1000) {
+      errors.veryHigh = `Very high threshold must be between ${limits}`;
       isValid = false;
     }
 
     if (current.lower >= current.upper) {
       errors.cross = 'Lower bound must be less than upper bound';
       isValid = false;
+    } else if (current.veryLow >= current.lower) {
+      errors.cross = 'Very low threshold must be less than lower bound';
+      isValid = false;
+    } else if (current.upper >= current.veryHigh) {
+      errors.cross = 'Very high threshold must be greater than upper bound';
+      isValid = false;
     }
 
     this._preferences.set({ ...current, errors, isValid });
   }
 
   /**
-   * Saves the current preferences to the API
+   * Saves the current preferences to the API.
+   * The display unit is kept unless the request changes it.
    */
   save(data: UpdatePreferencesRequestDto): Promise<{ success: boolean; error?: string }> {
     return new Promise((resolve) => {
       const current = this._preferences();
+      const request: UpdatePreferencesRequestDto = {
+        ...data,
+        tirVeryLowBound: data.tirVeryLowBound ?? current.initialVeryLow,
+        tirVeryHighBound: data.tirVeryHighBound ?? current.initialVeryHigh,
+        glucoseUnit: data.glucoseUnit ?? current.unit
+      };
       this._preferences.set({ ...current, saving: true });
 
-      this.settingsApi.updatePreferences(data).pipe(
+      this.settingsApi.updatePreferences(request).pipe(
         tap(() => {
           this._preferences.set({
             lower: data.tirLowerBound,
             upper: data.tirUpperBound,
+            veryLow: request.tirVeryLowBound ?? current.initialVeryLow,
+            veryHigh: request.tirVeryHighBound ?? current.initialVeryHigh,
+            unit: request.glucoseUnit ?? current.unit,
             initialLower: data.tirLowerBound,
             initialUpper: data.tirUpperBound,
+            initialVeryLow: request.tirVeryLowBound ?? current.initialVeryLow,
+            initialVeryHigh: request.tirVeryHighBound ?? current.initialVeryHigh,
             isDirty: false,
             isValid: true,
             errors: {},
@@ -134,6 +197,20 @@ export class AccountPreferencesStore {
     });
   }
 
+  /**
+   * Saves a new display unit, keeping the saved TIR thresholds
+   */
+  saveUnit(unit: GlucoseUnit): Promise<{ success: boolean; error?: string }> {
+    const current = this._preferences();
+    return this.save({
+      tirLowerBound: current.initialLower,
+      tirUpperBound: current.initialUpper,
+      tirVeryLowBound: current.initialVeryLow,
+      tirVeryHighBound: current.initialVeryHigh,
+      glucoseUnit: unit
+    });
+  }
+
   /**
    * Resets preferences to initial values
    */
@@ -143,6 +220,8 @@ export class AccountPreferencesStore {
       ...current,
       lower: current.initialLower,
       upper: current.initialUpper,
+      veryLow: current.initialVeryLow,
+      veryHigh: current.initialVeryHigh,
       isDirty: false,
       errors: {}
     });
@@ -0,0 +1,102 @@
+import { Injectable, computed, signal } from '@angular/core';
+import {
+  AlertAcknowledgement,
+  AlertRule,
+  AlertRuleKind,
+  AlertSettings
+} from '../models/alerts.types';
+import { DEFAULT_ALERT_SETTINGS, normalizeAlertSettings } from '../utils/glucose-alerts';
+import { readStored, removeStored, writeStored } from '../utils/local-storage';
+
+const SETTINGS_KEY = 'glyloop.alerts.settings';
+const ACKNOWLEDGEMENTS_KEY = 'glyloop.alerts.acknowledgements';
+const MAX_ACKNOWLEDGEMENTS = 50;
+
+/**
+ * Store for glucose alert rules and the log of acknowledged alerts (most recent first)
+ */
+@Injectable({ providedIn: 'root' })
+export class AlertSettingsStore {
+  private readonly _settings = signal<AlertSettings>(
+    readStored(SETTINGS_KEY, normalizeAlertSettings)
+  );
+  private readonly _acknowledgements = signal<AlertAcknowledgement[]>(
+    readStored(ACKNOWLEDGEMENTS_KEY, normalizeAcknowledgements)
+  );
+
+  readonly settings = this._settings.asReadonly();
+  readonly rules = computed(() => this._settings().rules);
+  readonly notificationsEnabled = computed(() => this._settings().notificationsEnabled);
+  readonly acknowledgements = this._acknowledgements.asReadonly();
+
+  /**
+   * Saves changes to one rule
+   */
+  updateRule(kind: AlertRuleKind, changes: Partial<Omit<AlertRule, 'kind'>>): void {
+    const current = this._settings();
+    this.writeSettings({
+      ...current,
+      rules: current.rules.map((rule) => (rule.kind === kind ? { ...rule, ...changes } : rule))
+    });
+  }
+
+  /**
+   * Silences a rule for its snooze length
+   */
+  snooze(kind: AlertRuleKind, now = new Date()): void {
+    const rule = this.rules().find((item) => item.kind === kind);
+    if (!rule) return;
+
+    const until = new Date(now.getTime() + rule.snoozeMinutes * 60000);
+    this.updateRule(kind, { snoozedUntil: until.toISOString() });
+  }
+
+  /**
+   * Turns browser notifications on or off
+   */
+  setNotificationsEnabled(enabled: boolean): void {
+    this.writeSettings({ ...this._settings(), notificationsEnabled: enabled });
+  }
+
+  /**
+   * Restores the default rules (keeps the notification preference)
+   */
+  resetRules(): void {
+    this.writeSettings({
+      ...normalizeAlertSettings(DEFAULT_ALERT_SETTINGS),
+      notificationsEnabled: this._settings().notificationsEnabled
+    });
+  }
+
+  /**
+   * Adds an acknowledgement to the top of the log
+   */
+  recordAcknowledgement(acknowledgement: AlertAcknowledgement): void {
+    const log = [acknowledgement, ...this._acknowledgements()].slice(0, MAX_ACKNOWLEDGEMENTS);
+    this._acknowledgements.set(log);
+    writeStored(ACKNOWLEDGEMENTS_KEY, log, 'alert acknowledgements');
+  }
+
+  /**
+   * Removes every logged acknowledgement
+   */
+  clearAcknowledgements(): void {
+    this._acknowledgements.set([]);
+    removeStored(ACKNOWLEDGEMENTS_KEY, 'alert acknowledgements');
+  }
+
+  private writeSettings(settings: AlertSettings): void {
+    this._settings.set(settings);
+    writeStored(SETTINGS_KEY, settings, 'alert settings');
+  }
+}
+
+function normalizeAcknowledgements(stored: unknown): AlertAcknowledgement[] {
+  if (!Array.isArray(stored)) return [];
+  return stored
+    .filter(
+      (item): item is AlertAcknowledgement =>
+        typeof item?.alertId === 'string' && typeof item?.acknowledgedAt === 'string'
+    )
+    .slice(0, MAX_ACKNOWLEDGEMENTS);
+}
@@ -0,0 +1,52 @@
+/**
+ * Unit tests for DashboardSnapshotStore per-user scoping
+ */
+
+import { TestBed } from '@angular/core/testing';
+import { ChartDataResponseDto } from '../models/dashboard.types';
+import { DashboardSnapshotStore } from './dashboard-snapshot.store';
+
+function chartData(startTime: string): ChartDataResponseDto {
+  return { glucoseData: [], eventOverlays: [], startTime, endTime: startTime };
+}
+
+describe('DashboardSnapshotStore', () => {
+  let store: DashboardSnapshotStore;
+
+  beforeEach(() => {
+    store = TestBed.inject(DashboardSnapshotStore);
+  });
+
+  afterEach(() => localStorage.clear());
+
+  it('should not show one user the snapshot saved for another', () => {
+    store.setUser('user-a');
+    store.saveChartData(24, chartData('2025-03-01T00:00:00Z'));
+
+    store.setUser('user-b');
+    expect(store.read()).toBeNull();
+
+    store.saveChartData(24, chartData('2025-03-02T00:00:00Z'));
+    store.setUser('user-a');
+    expect(store.read()?.chartData?.startTime).toBe('2025-03-01T00:00:00Z');
+  });
+
+  it('should restore the last signed-in user before the session loads', () => {
+    store.setUser('user-a');
+    store.saveChartData(24, chartData('2025-03-01T00:00:00Z'));
+
+    TestBed.resetTestingModule();
+    const reopened = TestBed.inject(DashboardSnapshotStore);
+
+    expect(reopened.userId()).toBe('user-a');
+    expect(reopened.read()?.chartData?.startTime).toBe('2025-03-01T00:00:00Z');
+  });
+
+  it('should neither read nor save a snapshot without a signed-in user', () => {
+    store.setUser(null);
+    store.saveChartData(24, chartData('2025-03-01T00:00:00Z'));
+
+    expect(store.read()).toBeNull();
+    expect(localStorage.length).toBe(0);
+  });
+});
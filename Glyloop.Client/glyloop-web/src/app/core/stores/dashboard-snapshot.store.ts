@@ -0,0 +1,116 @@
+import { Injectable, signal } from '@angular/core';
+import {
+  ChartDataResponseDto,
+  ChartRange,
+  DashboardSnapshot,
+  EventListItemDto,
+  HistoryFilters,
+  PagedResponseDto,
+  TimeInRangeResponseDto
+} from '../models/dashboard.types';
+import { readStored, removeStored, writeStored } from '../utils/local-storage';
+
+const STORAGE_KEY_PREFIX = 'glyloop.dashboard.snapshot.';
+// Last signed-in user, whose snapshot is shown before the session loads (e.g. offline)
+const USER_STORAGE_KEY = 'glyloop.dashboard.snapshotUser';
+
+/**
+ * Store for the last live dashboard data (chart, TIR and first history page)
+ * Snapshots are kept per user; only the signed-in user's snapshot is read or written.
+ */
+@Injectable({ providedIn: 'root' })
+export class DashboardSnapshotStore {
+  private readonly _userId = signal<string | null>(
+    readStored(USER_STORAGE_KEY, (stored) => (typeof stored === 'string' ? stored : null))
+  );
+
+  readonly userId = this._userId.asReadonly();
+
+  /**
+   * Sets the signed-in user whose snapshot is used; null on logout
+   */
+  setUser(userId: string | null): void {
+    this._userId.set(userId);
+    if (userId) {
+      writeStored(USER_STORAGE_KEY, userId, 'dashboard snapshot user');
+    } else {
+      removeStored(USER_STORAGE_KEY, 'dashboard snapshot user');
+    }
+  }
+
+  /**
+   * Reads the signed-in user's saved snapshot, if any
+   */
+  read(): DashboardSnapshot | null {
+    const key = this.storageKey();
+    if (!key) return null;
+
+    return readStored(key, (stored) => {
+      const snapshot = stored as DashboardSnapshot | null;
+      return snapshot && typeof snapshot.savedAt === 'string' ? snapshot : null;
+    });
+  }
+
+  /**
+   * Saves live chart data; data for another range replaces the saved chart and TIR
+   */
+  saveChartData(range: ChartRange, chartData: ChartDataResponseDto): void {
+    const current = this.read();
+    const sameRange = current?.range === range;
+    this.write({
+      range,
+      chartData,
+      tir: sameRange ? current.tir : null,
+      savedAt: new Date().toISOString(),
+      history: current?.history ?? null
+    });
+  }
+
+  /**
+   * Saves live time-in-range figures
+   */
+  saveTir(range: ChartRange, tir: TimeInRangeResponseDto): void {
+    const current = this.read();
+    const sameRange = current?.range === range;
+    this.write({
+      range,
+      chartData: sameRange ? current.chartData : null,
+      tir,
+      savedAt: new Date().toISOString(),
+      history: current?.history ?? null
+    });
+  }
+
+  /**
+   * Saves the first history page for a filter set
+   */
+  saveHistory(filters: HistoryFilters, response: PagedResponseDto<EventListItemDto>): void {
+    const savedAt = new Date().toISOString();
+    const current = this.read();
+    this.write({
+      range: current?.range ?? 24,
+      chartData: current?.chartData ?? null,
+      tir: current?.tir ?? null,
+      savedAt: current?.savedAt ?? savedAt,
+      history: { filters: { ...filters, page: 1 }, response, savedAt }
+    });
+  }
+
+  /**
+   * Removes the signed-in user's saved snapshot
+   */
+  clear(): void {
+    const key = this.storageKey();
+    if (key) removeStored(key, 'dashboard snapshot');
+  }
+
+  private write(snapshot: DashboardSnapshot): void {
+    const key = this.storageKey();
+    if (key) writeStored(key, snapshot, 'dashboard snapshot');
+  }
+
+  private storageKey(): string | null {
+    const userId = this._userId();
+    return userId ? STORAGE_KEY_PREFIX + userId : null;
+  }
+}
@@ -0,0 +1,111 @@
+import { Injectable, computed, signal } from '@angular/core';
+import { CreateEventRequest, EventType } from '../models/dashboard.types';
+import { EventPreset, EventPresetFields, EventPresetsState } from '../models/event-presets.types';
+import {
+  EVENT_PRESET_NAME_MAX_LENGTH,
+  countPresetUse,
+  createEventPreset,
+  normalizeEventPresetsState,
+  presetFieldsFromRequest,
+  presetsByUsage
+} from '../utils/event-presets';
+import { readStored, removeStored, writeStored } from '../utils/local-storage';
+
+const STORAGE_KEY = 'glyloop.eventPresets';
+
+/**
+ * Store for quick-log presets and the last created event of each type
+ */
+@Injectable({ providedIn: 'root' })
+export class EventPresetsStore {
+  private readonly _state = signal<EventPresetsState>(
+    readStored(STORAGE_KEY, normalizeEventPresetsState)
+  );
+
+  readonly presets = computed(() => this._state().presets);
+  readonly lastEvents = computed(() => this._state().lastEvents);
+
+  /**
+   * Presets of one event type, most used first
+   */
+  presetsFor(eventType: EventType): EventPreset[] {
+    return presetsByUsage(this.presets(), eventType);
+  }
+
+  /**
+   * Saves a new preset
+   */
+  add(name: string, fields: EventPresetFields): EventPreset {
+    const preset = createEventPreset(name, fields);
+    this.write({ ...this._state(), presets: [...this.presets(), preset] });
+    return preset;
+  }
+
+  /**
+   * Renames a preset
+   */
+  rename(id: string, name: string): void {
+    const trimmed = name.trim().slice(0, EVENT_PRESET_NAME_MAX_LENGTH);
+    if (!trimmed) return;
+    this.updatePreset(id, (preset) => ({ ...preset, name: trimmed }));
+  }
+
+  /**
+   * Deletes a preset
+   */
+  remove(id: string): void {
+    this.write({
+      ...this._state(),
+      presets: this.presets().filter((preset) => preset.id !== id)
+    });
+  }
+
+  /**
+   * Restarts the usage counts that order the presets
+   */
+  resetUsage(): void {
+    this.write({
+      ...this._state(),
+      presets: this.presets().map((preset) => ({ ...preset, useCount: 0, lastUsedAt: null }))
+    });
+  }
+
+  /**
+   * Records a created (or queued) event: kept for "repeat last" and counted
+   * for the preset it was filled from
+   */
+  recordCreated(request: CreateEventRequest, presetId: string | null, now = new Date()): void {
+    const state = this._state();
+    this.write({
+      presets: countPresetUse(state.presets, presetId, request.eventType, now),
+      lastEvents: { ...state.lastEvents, [request.eventType]: presetFieldsFromRequest(request) }
+    });
+  }
+
+  /**
+   * Forgets the last created event of every type
+   */
+  clearLastEvents(): void {
+    this.write({ ...this._state(), lastEvents: {} });
+  }
+
+  private updatePreset(id: string, update: (preset: EventPreset) => EventPreset): void {
+    this.write({
+      ...this._state(),
+      presets: this.presets().map((preset) => (preset.id === id ? update(preset) : preset))
+    });
+  }
+
+  /**
+   * Forgets every preset and last event (on logout)
+   */
+  clear(): void {
+    this._state.set(normalizeEventPresetsState(null));
+    removeStored(STORAGE_KEY, 'event presets');
+  }
+
+  private write(state: EventPresetsState): void {
+    this._state.set(state);
+    writeStored(STORAGE_KEY, state, 'event presets');
+  }
+}
@@ -0,0 +1,36 @@
+import { Injectable, signal } from '@angular/core';
+import { HypoSettings } from '../models/hypo.types';
+import { normalizeHypoSettings } from '../utils/hypo-episodes';
+import { readStored, removeStored, writeStored } from '../utils/local-storage';
+
+const STORAGE_KEY = 'glyloop.hypo.settings';
+
+/**
+ * Store for the minimum hypo episode duration and chart shading preference
+ */
+@Injectable({ providedIn: 'root' })
+export class HypoSettingsStore {
+  private readonly _settings = signal<HypoSettings>(readStored(STORAGE_KEY, normalizeHypoSettings));
+
+  readonly settings = this._settings.asReadonly();
+
+  /**
+   * Saves setting changes
+   */
+  update(changes: Partial<HypoSettings>): void {
+    this.write(normalizeHypoSettings({ ...this._settings(), ...changes }));
+  }
+
+  /**
+   * Restores the defaults and forgets the saved settings (on logout)
+   */
+  clear(): void {
+    this._settings.set(normalizeHypoSettings(null));
+    removeStored(STORAGE_KEY, 'hypo settings');
+  }
+
+  private write(settings: HypoSettings): void {
+    this._settings.set(settings);
+    writeStored(STORAGE_KEY, settings, 'hypo settings');
+  }
+}
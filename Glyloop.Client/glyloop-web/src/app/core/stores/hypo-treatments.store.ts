@@ -0,0 +1,69 @@
+import { Injectable, signal } from '@angular/core';
+import { HypoEpisode, HypoTreatments } from '../models/hypo.types';
+import { normalizeHypoTreatments } from '../utils/hypo-episodes';
+import { readStored, removeStored, writeStored } from '../utils/local-storage';
+
+const STORAGE_KEY = 'glyloop.hypo.treatments';
+
+/**
+ * Store linking hypo episodes to the Food events logged as their treatment
+ */
+@Injectable({ providedIn: 'root' })
+export class HypoTreatmentsStore {
+  private readonly _treatments = signal<HypoTreatments>(
+    readStored(STORAGE_KEY, normalizeHypoTreatments)
+  );
+
+  readonly treatments = this._treatments.asReadonly();
+
+  /**
+   * Records a Food event created as the treatment of an episode
+   */
+  link(episode: Pick<HypoEpisode, 'startTime' | 'endTime'>, eventId: string): void {
+    const current = this._treatments();
+    const saved = current[episode.startTime];
+    if (saved?.eventIds.includes(eventId)) return;
+
+    const endTime =
+      saved && Date.parse(saved.endTime) > Date.parse(episode.endTime)
+        ? saved.endTime
+        : episode.endTime;
+    this.write(
+      normalizeHypoTreatments({
+        ...current,
+        [episode.startTime]: { endTime, eventIds: [...(saved?.eventIds ?? []), eventId] }
+      })
+    );
+  }
+
+  /**
+   * Forgets a deleted event; returns the episodes it was linked to (to restore on undo)
+   */
+  unlinkEvent(eventId: string): Pick<HypoEpisode, 'startTime' | 'endTime'>[] {
+    const current = this._treatments();
+    const linked = Object.entries(current).filter(([, link]) => link.eventIds.includes(eventId));
+    if (linked.length === 0) return [];
+
+    const next = Object.fromEntries(
+      Object.entries(current).map(([startTime, link]) => [
+        startTime,
+        { ...link, eventIds: link.eventIds.filter((id) => id !== eventId) }
+      ])
+    );
+    this.write(normalizeHypoTreatments(next));
+    return linked.map(([startTime, link]) => ({ startTime, endTime: link.endTime }));
+  }
+
+  /**
+   * Forgets every treatment link (on logout)
+   */
+  clear(): void {
+    this._treatments.set({});
+    removeStored(STORAGE_KEY, 'hypo treatments');
+  }
+
+  private write(treatments: HypoTreatments): void {
+    this._treatments.set(treatments);
+    writeStored(STORAGE_KEY, treatments, 'hypo treatments');
+  }
+}
@@ -0,0 +1,75 @@
+import { Injectable, signal } from '@angular/core';
+import {
+  AbsorptionSpeed,
+  InsulinActionCurve,
+  InsulinPreparation,
+  OnBoardSettings
+} from '../models/on-board.types';
+import { readStored, removeStored, writeStored } from '../utils/local-storage';
+import { DEFAULT_ON_BOARD_SETTINGS, normalizeOnBoardSettings } from '../utils/on-board';
+
+const STORAGE_KEY = 'glyloop.onBoard.settings';
+
+/**
+ * Store for the insulin action curves and carb absorption times used for IOB/COB
+ */
+@Injectable({ providedIn: 'root' })
+export class OnBoardSettingsStore {
+  private readonly _settings = signal<OnBoardSettings>(
+    readStored(STORAGE_KEY, normalizeOnBoardSettings)
+  );
+
+  readonly settings = this._settings.asReadonly();
+
+  /**
+   * Saves top-level changes (long-acting insulin, chart curves)
+   */
+  update(changes: Partial<Pick<OnBoardSettings, 'includeLongActing' | 'showOnChart'>>): void {
+    this.write({ ...this._settings(), ...changes });
+  }
+
+  /**
+   * Saves the action curve of one insulin preparation
+   */
+  updateCurve(preparation: InsulinPreparation, curve: InsulinActionCurve): void {
+    const current = this._settings();
+    this.write({
+      ...current,
+      insulinCurves: { ...current.insulinCurves, [preparation]: curve }
+    });
+  }
+
+  /**
+   * Saves the absorption time of one carb absorption speed
+   */
+  updateAbsorption(speed: AbsorptionSpeed, minutes: number): void {
+    const current = this._settings();
+    this.write({
+      ...current,
+      absorptionMinutes: { ...current.absorptionMinutes, [speed]: minutes }
+    });
+  }
+
+  /**
+   * Restores the default curves and absorption times (keeps the chart preference)
+   */
+  reset(): void {
+    this.write({
+      ...normalizeOnBoardSettings(DEFAULT_ON_BOARD_SETTINGS),
+      showOnChart: this._settings().showOnChart
+    });
+  }
+
+  /**
+   * Restores the defaults and forgets the saved settings (on logout)
+   */
+  clear(): void {
+    this._settings.set(normalizeOnBoardSettings(null));
+    removeStored(STORAGE_KEY, 'on-board settings');
+  }
+
+  private write(settings: OnBoardSettings): void {
+    this._settings.set(settings);
+    writeStored(STORAGE_KEY, settings, 'on-board settings');
+  }
+}
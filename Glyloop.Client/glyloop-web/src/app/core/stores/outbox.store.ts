@@ -0,0 +1,125 @@
+import { Injectable, computed, signal } from '@angular/core';
+import { CreateEventRequest } from '../models/dashboard.types';
+import { OutboxEntry } from '../models/outbox.types';
+import { createOutboxEntry, sortOutboxEntries } from '../utils/outbox';
+
+const DB_NAME = 'glyloop-outbox';
+const DB_VERSION = 1;
+const STORE_NAME = 'entries';
+
+/**
+ * Store for event create requests waiting to reach the API
+ * Persisted in IndexedDB on this device; kept in memory only when IndexedDB is unavailable.
+ * Entries belong to the user who queued them; only the signed-in user's entries are exposed.
+ */
+@Injectable({ providedIn: 'root' })
+export class OutboxStore {
+  // Every stored entry, including other users'
+  private readonly _entries = signal<OutboxEntry[]>([]);
+  private readonly _userId = signal<string | null>(null);
+  private readonly db: Promise<IDBDatabase | null> = this.openDatabase();
+
+  readonly userId = this._userId.asReadonly();
+  readonly entries = computed(() =>
+    this._entries().filter((entry) => entry.userId === this._userId())
+  );
+  readonly pendingCount = computed(
+    () => this.entries().filter((entry) => entry.status === 'pending').length
+  );
+
+  /**
+   * Resolves once entries saved in earlier sessions are loaded
+   */
+  readonly ready: Promise<void> = this.load();
+
+  /**
+   * Sets the signed-in user whose entries are exposed; null on logout
+   */
+  setUser(userId: string | null): void {
+    this._userId.set(userId);
+  }
+
+  /**
+   * Queues a create request for the signed-in user
+   */
+  async add(request: CreateEventRequest): Promise<OutboxEntry> {
+    const userId = this._userId();
+    if (!userId) {
+      throw new Error('Cannot queue an event without a signed-in user');
+    }
+
+    const entry = createOutboxEntry(request, userId);
+    await this.put(entry);
+    return entry;
+  }
+
+  /**
+   * Saves changes to a queued entry
+   */
+  async put(entry: OutboxEntry): Promise<void> {
+    const others = this._entries().filter((existing) => existing.id !== entry.id);
+    this._entries.set(sortOutboxEntries([...others, entry]));
+    await this.write((store) => store.put(entry));
+  }
+
+  /**
+   * Removes an entry (synced or discarded)
+   */
+  async remove(id: string): Promise<void> {
+    this._entries.update((entries) => entries.filter((entry) => entry.id !== id));
+    await this.write((store) => store.delete(id));
+  }
+
+  private async load(): Promise<void> {
+    const db = await this.db;
+    if (!db) return;
+
+    try {
+      const stored = await this.request<OutboxEntry[]>(
+        db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).getAll()
+      );
+      // Keep entries queued while loading
+      const loadedIds = new Set(stored.map((entry) => entry.id));
+      const queued = this._entries().filter((entry) => !loadedIds.has(entry.id));
+      this._entries.set(sortOutboxEntries([...stored, ...queued]));
+    } catch (err) {
+      console.error('Failed to load queued events:', err);
+    }
+  }
+
+  private async write(change: (store: IDBObjectStore) => IDBRequest): Promise<void> {
+    const db = await this.db;
+    if (!db) return;
+
+    try {
+      await this.request(change(db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME)));
+    } catch (err) {
+      console.error('Failed to save queued events:', err);
+    }
+  }
+
+  private openDatabase(): Promise<IDBDatabase | null> {
+    if (typeof indexedDB === 'undefined') {
+      return Promise.resolve(null);
+    }
+
+    return new Promise((resolve) => {
+      const open = indexedDB.open(DB_NAME, DB_VERSION);
+      open.onupgradeneeded = () => {
+        open.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      };
+      open.onsuccess = () => resolve(open.result);
+      open.onerror = () => {
+        console.error('Failed to open the offline event queue:', open.error);
+        resolve(null);
+      };
+    });
+  }
+
+  private request<T>(request: IDBRequest): Promise<T> {
+    return new Promise((resolve, reject) => {
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
@@ -0,0 +1,47 @@
+import { Injectable, signal } from '@angular/core';
+import { readStored, removeStored, writeStored } from '../utils/local-storage';
+
+const STORAGE_KEY = 'glyloop.history.recentSearches';
+const MAX_RECENT_SEARCHES = 8;
+
+/**
+ * Store for recent event history searches, most recent first
+ */
+@Injectable({ providedIn: 'root' })
+export class RecentSearchesStore {
+  private readonly _searches = signal<string[]>(readStored(STORAGE_KEY, normalizeSearches));
+
+  readonly searches = this._searches.asReadonly();
+
+  /**
+   * Moves a search to the top of the list
+   */
+  add(query: string): void {
+    const normalized = query.trim();
+    if (!normalized) return;
+
+    const lower = normalized.toLowerCase();
+    const others = this._searches().filter((search) => search.toLowerCase() !== lower);
+    this.write([normalized, ...others].slice(0, MAX_RECENT_SEARCHES));
+  }
+
+  /**
+   * Removes every recent search
+   */
+  clear(): void {
+    this._searches.set([]);
+    removeStored(STORAGE_KEY, 'recent searches');
+  }
+
+  private write(searches: string[]): void {
+    this._searches.set(searches);
+    writeStored(STORAGE_KEY, searches, 'recent searches');
+  }
+}
+
+function normalizeSearches(stored: unknown): string[] {
+  if (!Array.isArray(stored)) return [];
+  return stored
+    .filter((item): item is string => typeof item === 'string')
+    .slice(0, MAX_RECENT_SEARCHES);
+}
@@ -0,0 +1,64 @@
+import { ChartRange, ChartWindow } from '../models/dashboard.types';
+
+/**
+ * Helpers for explicit chart time windows.
+ */
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Builds the window covered by a range preset ending at `now`
+ */
+export function windowFromRange(range: ChartRange, now = Date.now()): ChartWindow {
+  return {
+    startTime: new Date(now - range * HOUR_MS).toISOString(),
+    endTime: new Date(now).toISOString()
+  };
+}
+
+/**
+ * Builds a window centered on a point in time, padded by N minutes on each side
+ */
+export function windowAroundTime(time: string, paddingMinutes: number): ChartWindow {
+  const center = Date.parse(time);
+  const padding = paddingMinutes * 60 * 1000;
+  return {
+    startTime: new Date(center - padding).toISOString(),
+    endTime: new Date(center + padding).toISOString()
+  };
+}
+
+/**
+ * Window length in milliseconds
+ */
+export function windowDurationMs(window: ChartWindow): number {
+  return Date.parse(window.endTime) - Date.parse(window.startTime);
+}
+
+/**
+ * Moves a window by whole periods (negative = back in time), keeping its length
+ */
+export function shiftWindow(window: ChartWindow, periods: number): ChartWindow {
+  const offset = windowDurationMs(window) * periods;
+  return {
+    startTime: new Date(Date.parse(window.startTime) + offset).toISOString(),
+    endTime: new Date(Date.parse(window.endTime) + offset).toISOString()
+  };
+}
+
+/**
+ * A window is historical when it ends before now; its data no longer changes,
+ * so there is nothing to poll for.
+ */
+export function isHistoricalWindow(window: ChartWindow, now = Date.now()): boolean {
+  return Date.parse(window.endTime) < now;
+}
+
+/**
+ * Compares two windows by their boundaries
+ */
+export function isSameWindow(a: ChartWindow | null, b: ChartWindow | null): boolean {
+  if (a === b) return true;
+  if (!a || !b) return false;
+  return a.startTime === b.startTime && a.endTime === b.endTime;
+}
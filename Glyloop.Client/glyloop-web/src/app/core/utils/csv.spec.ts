@@ -0,0 +1,62 @@
+/**
+ * Unit tests for CSV helpers
+ */
+
+import { detectCsvDelimiter, parseCsv, toCsv } from './csv';
+
+describe('csv', () => {
+  it('should join rows with CRLF and leave plain values unquoted', () => {
+    expect(toCsv([['a', 'b'], [1, 2.5]])).toBe('a,b\r\n1,2.5\r\n');
+  });
+
+  it('should quote cells containing separators, quotes or newlines', () => {
+    expect(toCsv([['x,y', 'say "hi"', 'two\nlines']])).toBe('"x,y","say ""hi""","two\nlines"\r\n');
+  });
+
+  it('should render empty cells for missing values', () => {
+    expect(toCsv([[null, undefined, Number.NaN]])).toBe(',,\r\n');
+  });
+
+  it('should neutralize spreadsheet formulas in text cells', () => {
+    expect(toCsv([['=SUM(A1)', -5]])).toBe("'=SUM(A1),-5\r\n");
+  });
+
+  describe('parseCsv', () => {
+    it('should parse quoted cells with delimiters, quotes and newlines', () => {
+      const text = 'a,b,c\r\n"x,y","say ""hi""","two\nlines"\r\n';
+
+      expect(parseCsv(text)).toEqual([
+        ['a', 'b', 'c'],
+        ['x,y', 'say "hi"', 'two\nlines']
+      ]);
+    });
+
+    it('should skip blank lines and a leading BOM', () => {
+      expect(parseCsv('\ufeffa,b\n\n1,2')).toEqual([
+        ['a', 'b'],
+        ['1', '2']
+      ]);
+    });
+
+    it('should keep empty trailing cells', () => {
+      expect(parseCsv('a,,\n')).toEqual([['a', '', '']]);
+    });
+
+    it('should round-trip generated CSV', () => {
+      const rows = [
+        ['time', 'note'],
+        ['2025-01-01T08:00:00Z', 'lunch, "big"']
+      ];
+
+      expect(parseCsv(toCsv(rows))).toEqual(rows);
+    });
+  });
+
+  describe('detectCsvDelimiter', () => {
+    it('should prefer the most frequent delimiter on the first line', () => {
+      expect(detectCsvDelimiter('date;carbs;note\n1,5;2;x')).toBe(';');
+      expect(detectCsvDelimiter('date\tcarbs\n')).toBe('\t');
+      expect(detectCsvDelimiter('single')).toBe(',');
+    });
+  });
+});
@@ -0,0 +1,61 @@
+/**
+ * Unit tests for splitting glucose readings into days for the daily overlay
+ */
+
+import { GlucosePointDto, OverlayEventMarkerDto } from '../models/dashboard.types';
+import { buildDailyOverlay, localDayKey } from './daily-overlay';
+
+// Local time, so day boundaries do not depend on the machine's time zone
+function at(day: number, hours: number, minutes = 0): string {
+  return new Date(2025, 2, day, hours, minutes).toISOString();
+}
+
+function reading(timestamp: string, value: number | null): GlucosePointDto {
+  return { timestamp, value };
+}
+
+describe('daily-overlay', () => {
+  it('should format local date keys', () => {
+    expect(localDayKey(new Date(2025, 0, 5, 23, 59))).toBe('2025-01-05');
+  });
+
+  it('should split readings by local day with minutes since midnight, oldest first', () => {
+    const days = buildDailyOverlay([
+      reading(at(2, 6, 30), 140),
+      reading(at(1, 23, 55), 120),
+      reading(at(2, 0, 5), 118),
+      reading(at(1, 7, 0), null)
+    ]);
+
+    expect(days.map((day) => day.key)).toEqual(['2025-03-01', '2025-03-02']);
+    expect(days[0].points).toEqual([{ minuteOfDay: 23 * 60 + 55, value: 120 }]);
+    expect(days[1].points).toEqual([
+      { minuteOfDay: 5, value: 118 },
+      { minuteOfDay: 6 * 60 + 30, value: 140 }
+    ]);
+    expect(days[1].dayStart).toBe(new Date(2025, 2, 2).toISOString());
+  });
+
+  it('should place event markers at the nearest reading of their day', () => {
+    const overlays: OverlayEventMarkerDto[] = [
+      { eventId: 'food', eventType: 'Food', timestamp: at(1, 8, 2), summary: '45g carbs' },
+      { eventId: 'note', eventType: 'Note', timestamp: at(1, 12, 0) },
+      { eventId: 'other-day', eventType: 'Insulin', timestamp: at(3, 8, 0) }
+    ];
+    const [day] = buildDailyOverlay(
+      [reading(at(1, 8, 0), 110), reading(at(1, 8, 5), 115)],
+      overlays
+    );
+
+    expect(day.markers).toEqual([
+      {
+        eventId: 'food',
+        eventType: 'Food',
+        minuteOfDay: 8 * 60 + 2,
+        value: 110,
+        summary: '45g carbs'
+      },
+      { eventId: 'note', eventType: 'Note', minuteOfDay: 12 * 60, value: null, summary: null }
+    ]);
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * Splits a glucose series and its event markers into local calendar days
+ * for the daily overlay ("spaghetti") chart.
+ */
+
+import { GlucosePointDto, OverlayEventMarkerDto } from '../models/dashboard.types';
+import { DailyOverlayDay, DailyOverlayPoint } from '../models/agp.types';
+
+// Farthest reading still used to place an event marker on its day's line
+const MARKER_TOLERANCE_MINUTES = 15;
+
+/**
+ * Local date key (YYYY-MM-DD) of a timestamp
+ */
+export function localDayKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Groups readings and event markers by local day, oldest first.
+ * Days without readings are skipped; markers on those days are dropped.
+ */
+export function buildDailyOverlay(
+  points: GlucosePointDto[],
+  overlays: OverlayEventMarkerDto[] = []
+): DailyOverlayDay[] {
+  const days = new Map<string, DailyOverlayDay>();
+
+  for (const point of points) {
+    if (typeof point.value !== 'number' || !Number.isFinite(point.value)) continue;
+    const date = new Date(point.timestamp);
+    if (Number.isNaN(date.getTime())) continue;
+
+    const key = localDayKey(date);
+    let day = days.get(key);
+    if (!day) {
+      const midnight = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+      day = { key, dayStart: midnight.toISOString(), points: [], markers: [] };
+      days.set(key, day);
+    }
+    day.points.push({ minuteOfDay: minuteOfDay(date), value: point.value });
+  }
+
+  for (const day of days.values()) {
+    day.points.sort((a, b) => a.minuteOfDay - b.minuteOfDay);
+  }
+
+  for (const overlay of overlays) {
+    const date = new Date(overlay.timestamp);
+    if (Number.isNaN(date.getTime())) continue;
+    const day = days.get(localDayKey(date));
+    if (!day) continue;
+
+    const minute = minuteOfDay(date);
+    day.markers.push({
+      eventId: overlay.eventId,
+      eventType: overlay.eventType,
+      minuteOfDay: minute,
+      value: nearestValue(day.points, minute),
+      summary: overlay.summary ?? null
+    });
+  }
+
+  return [...days.values()].sort((a, b) => a.key.localeCompare(b.key));
+}
+
+/**
+ * Line color of a day in the overlay, spread around the hue wheel so each day
+ * keeps its color whichever days are shown
+ */
+export function dailyOverlayColor(index: number, count: number, alpha = 1): string {
+  const hue = Math.round((index * 360) / Math.max(count, 1)) % 360;
+  return `hsla(${hue}, 70%, 50%, ${alpha})`;
+}
+
+function minuteOfDay(date: Date): number {
+  return date.getHours() * 60 + date.getMinutes() + date.getSeconds() / 60;
+}
+
+function nearestValue(points: DailyOverlayPoint[], minute: number): number | null {
+  let closest: DailyOverlayPoint | null = null;
+  for (const point of points) {
+    const distance = Math.abs(point.minuteOfDay - minute);
+    if (distance > MARKER_TOLERANCE_MINUTES) continue;
+    if (!closest || distance < Math.abs(closest.minuteOfDay - minute)) closest = point;
+  }
+  return closest?.value ?? null;
+}
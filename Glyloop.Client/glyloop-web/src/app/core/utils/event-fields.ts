@@ -0,0 +1,40 @@
+/**
+ * Field limits and option lists shared by every event entry path
+ * (Add Event modal, CSV import).
+ */
+
+export const EVENT_LIMITS = {
+  carbohydratesGrams: { min: 0, max: 300 },
+  insulinUnits: { min: 0, max: 100 },
+  durationMinutes: { min: 1, max: 300 },
+  noteMaxLength: 500
+} as const;
+
+export interface EventOption {
+  id: number;
+  label: string;
+}
+
+export const MEAL_TAG_OPTIONS: EventOption[] = [
+  { id: 1, label: 'Breakfast' },
+  { id: 2, label: 'Lunch' },
+  { id: 3, label: 'Dinner' },
+  { id: 4, label: 'Snack' }
+];
+
+export const EXERCISE_TYPE_OPTIONS: EventOption[] = [
+  { id: 1, label: 'Walking' },
+  { id: 2, label: 'Running' },
+  { id: 3, label: 'Cycling' },
+  { id: 4, label: 'Swimming' },
+  { id: 5, label: 'Strength' },
+  { id: 6, label: 'Sports' },
+  { id: 7, label: 'Other' }
+];
+
+export const ABSORPTION_HINTS = ['Rapid', 'Normal', 'Slow', 'Other'];
+export const INSULIN_TYPES = ['Fast', 'Long'];
+export const INSULIN_PREPARATIONS = ['Rapid', 'Short', 'Intermediate', 'Long'];
+export const INSULIN_DELIVERIES = ['Injection', 'Pump'];
+export const INSULIN_TIMINGS = ['Before meal', 'With meal', 'After meal'];
+export const EXERCISE_INTENSITIES = ['Light', 'Moderate', 'Vigorous'];
@@ -0,0 +1,135 @@
+/**
+ * Unit tests for CSV event import helpers
+ */
+
+import { ImportColumnMapping } from '../models/event-import.types';
+import {
+  buildImportPreview,
+  markImportDuplicates,
+  parseImportDateTime,
+  parseImportNumber,
+  suggestColumnMapping
+} from './event-import';
+
+describe('event-import', () => {
+  describe('suggestColumnMapping', () => {
+    it('should map known headers and ignore the rest', () => {
+      const headers = ['Date', 'Time', 'Carbs (g)', 'Bolus', 'Glucose', 'Notes'];
+
+      expect(suggestColumnMapping(headers)).toEqual([
+        'eventTime',
+        'eventTimeOfDay',
+        'carbohydratesGrams',
+        'insulinUnits',
+        null,
+        'noteText'
+      ]);
+    });
+
+    it('should use each field only once', () => {
+      expect(suggestColumnMapping(['note', 'notes'])).toEqual(['noteText', null]);
+    });
+  });
+
+  describe('parseImportDateTime', () => {
+    it('should read local ISO, day-first and month-first dates', () => {
+      const expected = new Date(2025, 2, 4, 13, 30).getTime();
+
+      expect(parseImportDateTime('2025-03-04T13:30', undefined, 'iso')?.getTime()).toBe(expected);
+      expect(parseImportDateTime('04/03/2025', '1:30 PM', 'dmy')?.getTime()).toBe(expected);
+      expect(parseImportDateTime('03/04/2025 13:30', undefined, 'mdy')?.getTime()).toBe(expected);
+    });
+
+    it('should keep an explicit offset', () => {
+      expect(parseImportDateTime('2025-03-04T13:30:00Z', undefined, 'iso')?.toISOString()).toBe(
+        '2025-03-04T13:30:00.000Z'
+      );
+    });
+
+    it('should reject missing times and impossible dates', () => {
+      expect(parseImportDateTime('2025-03-04', undefined, 'iso')).toBeNull();
+      expect(parseImportDateTime('31/02/2025', '08:00', 'dmy')).toBeNull();
+      expect(parseImportDateTime('2025-03-04', '25:00', 'iso')).toBeNull();
+    });
+  });
+
+  describe('parseImportNumber', () => {
+    it('should accept a decimal comma and reject text', () => {
+      expect(parseImportNumber('1,5')).toBe(1.5);
+      expect(parseImportNumber(' 12 ')).toBe(12);
+      expect(parseImportNumber('12g')).toBeNaN();
+    });
+  });
+
+  describe('buildImportPreview', () => {
+    const mapping: ImportColumnMapping = [
+      'eventTime',
+      'carbohydratesGrams',
+      'mealTag',
+      'insulinUnits',
+      'noteText'
+    ];
+
+    it('should create one event per filled event type in a row', () => {
+      const row = ['2025-03-04 08:00', '45', 'breakfast', '4,5', ''];
+      const items = buildImportPreview([row], mapping, 'iso');
+
+      expect(items.map((item) => item.eventType)).toEqual(['Food', 'Insulin']);
+      expect(items[0].draft).toEqual({
+        eventType: 'Food',
+        payload: expect.objectContaining({ carbohydratesGrams: 45, mealTagId: 1 })
+      });
+      expect(items[1].draft).toEqual({
+        eventType: 'Insulin',
+        payload: expect.objectContaining({ insulinType: 'Fast', insulinUnits: 4.5 })
+      });
+    });
+
+    it('should apply the Add Event limits and option lists', () => {
+      const row = ['2025-03-04 08:00', '301', 'brunch', '', ''];
+      const items = buildImportPreview([row], mapping, 'iso');
+
+      expect(items).toHaveLength(1);
+      expect(items[0].draft).toBeNull();
+      expect(items[0].errors).toHaveLength(2);
+    });
+
+    it('should report rows without event data or a readable time', () => {
+      const items = buildImportPreview(
+        [
+          ['2025-03-04 08:00', '', '', '', ''],
+          ['yesterday', '', '', '', 'Sensor change']
+        ],
+        mapping,
+        'iso'
+      );
+
+      expect(items.map((item) => [item.rowNumber, item.eventType, item.errors.length])).toEqual([
+        [2, null, 1],
+        [3, 'Note', 1]
+      ]);
+    });
+  });
+
+  describe('markImportDuplicates', () => {
+    const mapping: ImportColumnMapping = ['eventTime', 'noteText'];
+
+    it('should flag existing events in the same minute and repeated rows', () => {
+      const items = buildImportPreview(
+        [
+          ['2025-03-04T08:00:00Z', 'a'],
+          ['2025-03-04T09:00:00Z', 'b'],
+          ['2025-03-04T09:00:00Z', 'b']
+        ],
+        mapping,
+        'iso'
+      );
+
+      const marked = markImportDuplicates(items, [
+        { eventId: '1', eventType: 'Note', eventTime: '2025-03-04T08:00:30Z', summary: '' }
+      ]);
+
+      expect(marked.map((item) => item.duplicateOf)).toEqual(['existing', null, 'file']);
+    });
+  });
+});
@@ -0,0 +1,448 @@
+/**
+ * CSV event import helpers: column mapping, row parsing, validation and
+ * duplicate detection. Validation uses the same limits as the Add Event modal.
+ */
+
+import { EventListItemDto, EventType } from '../models/dashboard.types';
+import {
+  ImportColumnMapping,
+  ImportDateFormat,
+  ImportEventDraft,
+  ImportPreviewItem,
+  ImportTargetField
+} from '../models/event-import.types';
+import {
+  ABSORPTION_HINTS,
+  EVENT_LIMITS,
+  EXERCISE_INTENSITIES,
+  EXERCISE_TYPE_OPTIONS,
+  EventOption,
+  INSULIN_DELIVERIES,
+  INSULIN_PREPARATIONS,
+  INSULIN_TIMINGS,
+  INSULIN_TYPES,
+  MEAL_TAG_OPTIONS
+} from './event-fields';
+
+export const IMPORT_TARGET_FIELDS: ImportTargetField[] = [
+  'eventTime',
+  'eventTimeOfDay',
+  'carbohydratesGrams',
+  'mealTag',
+  'absorptionHint',
+  'foodNote',
+  'insulinUnits',
+  'insulinType',
+  'preparation',
+  'delivery',
+  'timing',
+  'insulinNote',
+  'exerciseType',
+  'durationMinutes',
+  'intensity',
+  'exerciseNote',
+  'noteText'
+];
+
+/**
+ * A row creates an event of a type only when one of these fields has a value;
+ * the remaining fields of that type are optional details.
+ */
+const TRIGGER_FIELDS: Record<EventType, ImportTargetField[]> = {
+  Food: ['carbohydratesGrams'],
+  Insulin: ['insulinUnits'],
+  Exercise: ['exerciseType', 'durationMinutes'],
+  Note: ['noteText']
+};
+
+const EVENT_TYPE_ORDER: EventType[] = ['Food', 'Insulin', 'Exercise', 'Note'];
+
+// Normalized header names recognized when suggesting a mapping
+const HEADER_ALIASES: Record<ImportTargetField, string[]> = {
+  eventTime: ['eventtime', 'datetime', 'timestamp', 'date', 'day'],
+  eventTimeOfDay: ['time', 'timeofday', 'hour'],
+  carbohydratesGrams: ['carbs', 'carbsg', 'carbohydrates', 'carbohydratesgrams', 'cho'],
+  mealTag: ['meal', 'mealtag', 'mealtype'],
+  absorptionHint: ['absorption', 'absorptionhint'],
+  foodNote: ['foodnote', 'mealnote'],
+  insulinUnits: ['insulin', 'insulinunits', 'units', 'dose', 'bolus', 'insulinu'],
+  insulinType: ['insulintype'],
+  preparation: ['preparation', 'insulinpreparation'],
+  delivery: ['delivery', 'insulindelivery'],
+  timing: ['timing', 'insulintiming'],
+  insulinNote: ['insulinnote'],
+  exerciseType: ['exercise', 'exercisetype', 'activity', 'activitytype', 'sport'],
+  durationMinutes: ['duration', 'durationminutes', 'durationmin', 'minutes'],
+  intensity: ['intensity'],
+  exerciseNote: ['exercisenote', 'activitynote'],
+  noteText: ['note', 'notes', 'comment', 'comments', 'notetext']
+};
+
+/**
+ * Localized labels for the mapping targets
+ */
+export function importFieldLabels(): Record<ImportTargetField, string> {
+  return {
+    eventTime: $localize`:@@settings.import.field.eventTime:Date / date & time`,
+    eventTimeOfDay: $localize`:@@settings.import.field.eventTimeOfDay:Time of day`,
+    carbohydratesGrams: $localize`:@@settings.import.field.carbs:Food: carbohydrates (g)`,
+    mealTag: $localize`:@@settings.import.field.mealTag:Food: meal tag`,
+    absorptionHint: $localize`:@@settings.import.field.absorption:Food: absorption`,
+    foodNote: $localize`:@@settings.import.field.foodNote:Food: note`,
+    insulinUnits: $localize`:@@settings.import.field.insulinUnits:Insulin: units`,
+    insulinType: $localize`:@@settings.import.field.insulinType:Insulin: type`,
+    preparation: $localize`:@@settings.import.field.preparation:Insulin: preparation`,
+    delivery: $localize`:@@settings.import.field.delivery:Insulin: delivery`,
+    timing: $localize`:@@settings.import.field.timing:Insulin: timing`,
+    insulinNote: $localize`:@@settings.import.field.insulinNote:Insulin: note`,
+    exerciseType: $localize`:@@settings.import.field.exerciseType:Exercise: type`,
+    durationMinutes: $localize`:@@settings.import.field.duration:Exercise: duration (minutes)`,
+    intensity: $localize`:@@settings.import.field.intensity:Exercise: intensity`,
+    exerciseNote: $localize`:@@settings.import.field.exerciseNote:Exercise: note`,
+    noteText: $localize`:@@settings.import.field.noteText:Note: text`
+  };
+}
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z]/g, '');
+}
+
+/**
+ * Suggests a target field per column from the header names (each field used once)
+ */
+export function suggestColumnMapping(headers: string[]): ImportColumnMapping {
+  const used = new Set<ImportTargetField>();
+
+  return headers.map((header) => {
+    const normalized = normalizeHeader(header);
+    const field = IMPORT_TARGET_FIELDS.find(
+      (candidate) => !used.has(candidate) && HEADER_ALIASES[candidate].includes(normalized)
+    );
+    if (!field) return null;
+    used.add(field);
+    return field;
+  });
+}
+
+const DATE_PATTERN: Record<ImportDateFormat, RegExp> = {
+  iso: /^(\d{4})-(\d{1,2})-(\d{1,2})$/,
+  dmy: /^(\d{1,2})[./-](\d{1,2})[./-](\d{4})$/,
+  mdy: /^(\d{1,2})[./-](\d{1,2})[./-](\d{4})$/
+};
+
+const TIME_PATTERN = /^(\d{1,2}):(\d{2})(?::(\d{2}))?(?:\s*([ap])\.?m\.?)?$/i;
+
+// ISO timestamps carrying their own offset are parsed as-is
+const ZONED_ISO_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})$/i;
+
+/**
+ * Parses an event time from a date cell (optionally containing the time) and an
+ * optional separate time cell. Times without an offset are read as local time.
+ * Returns null when the value cannot be read or has no time of day.
+ */
+export function parseImportDateTime(
+  dateText: string,
+  timeText: string | undefined,
+  format: ImportDateFormat
+): Date | null {
+  const combined = [dateText.trim(), timeText?.trim() ?? ''].filter(Boolean).join(' ');
+
+  if (format === 'iso' && ZONED_ISO_PATTERN.test(combined)) {
+    const parsed = Date.parse(combined);
+    return Number.isFinite(parsed) ? new Date(parsed) : null;
+  }
+
+  const [datePart, ...timeParts] = combined.split(/[T\s]+/);
+  const dateMatch = DATE_PATTERN[format].exec(datePart ?? '');
+  const timeMatch = TIME_PATTERN.exec(timeParts.join(' '));
+  if (!dateMatch || !timeMatch) return null;
+
+  const [year, month, day] =
+    format === 'iso'
+      ? [+dateMatch[1], +dateMatch[2], +dateMatch[3]]
+      : format === 'dmy'
+        ? [+dateMatch[3], +dateMatch[2], +dateMatch[1]]
+        : [+dateMatch[3], +dateMatch[1], +dateMatch[2]];
+
+  let hours = +timeMatch[1];
+  const minutes = +timeMatch[2];
+  const seconds = timeMatch[3] ? +timeMatch[3] : 0;
+  const meridiem = timeMatch[4]?.toLowerCase();
+
+  if (meridiem) {
+    if (hours < 1 || hours > 12) return null;
+    hours = (hours % 12) + (meridiem === 'p' ? 12 : 0);
+  }
+  if (hours > 23 || minutes > 59 || seconds > 59) return null;
+
+  const date = new Date(year, month - 1, day, hours, minutes, seconds);
+
+  // Reject overflowing dates such as 31/02
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) {
+    return null;
+  }
+
+  return date;
+}
+
+/**
+ * Parses a numeric cell, accepting a decimal comma. Returns NaN when invalid.
+ */
+export function parseImportNumber(text: string): number {
+  const normalized = text.trim().replace(',', '.');
+  return /^-?\d+(\.\d+)?$/.test(normalized) ? Number(normalized) : Number.NaN;
+}
+
+/**
+ * Builds preview items (one per event) from data rows. Rows are numbered as
+ * in the parsed file, so the first data row after the header is row 2.
+ */
+export function buildImportPreview(
+  rows: string[][],
+  mapping: ImportColumnMapping,
+  dateFormat: ImportDateFormat,
+  firstRowNumber = 2
+): ImportPreviewItem[] {
+  const labels = importFieldLabels();
+  return rows.flatMap((cells, index) =>
+    buildRowItems(cells, mapping, dateFormat, firstRowNumber + index, labels)
+  );
+}
+
+function buildRowItems(
+  cells: string[],
+  mapping: ImportColumnMapping,
+  dateFormat: ImportDateFormat,
+  rowNumber: number,
+  labels: Record<ImportTargetField, string>
+): ImportPreviewItem[] {
+  const values = new Map<ImportTargetField, string>();
+  mapping.forEach((field, column) => {
+    const value = (cells[column] ?? '').trim();
+    if (field && value) values.set(field, value);
+  });
+
+  const eventTypes = EVENT_TYPE_ORDER.filter((type) =>
+    TRIGGER_FIELDS[type].some((field) => values.has(field))
+  );
+
+  if (eventTypes.length === 0) {
+    return [
+      {
+        rowNumber,
+        eventType: null,
+        draft: null,
+        errors: [$localize`:@@settings.import.error.noData:Row has no event data`],
+        duplicateOf: null
+      }
+    ];
+  }
+
+  const timeErrors: string[] = [];
+  const dateText = values.get('eventTime');
+  const eventDate = dateText
+    ? parseImportDateTime(dateText, values.get('eventTimeOfDay'), dateFormat)
+    : null;
+
+  if (!dateText) {
+    timeErrors.push($localize`:@@settings.import.error.timeMissing:Date & time are required`);
+  } else if (!eventDate) {
+    const shown = [dateText, values.get('eventTimeOfDay')].filter(Boolean).join(' ');
+    timeErrors.push(
+      $localize`:@@settings.import.error.timeInvalid:Could not read date & time "${shown}:value:"`
+    );
+  }
+
+  return eventTypes.map((eventType) => {
+    const errors = [...timeErrors];
+    const eventTime = eventDate ? eventDate.toISOString() : '';
+    const draft = buildDraft(eventType, eventTime, values, labels, errors);
+
+    return {
+      rowNumber,
+      eventType,
+      draft: errors.length === 0 ? draft : null,
+      errors,
+      duplicateOf: null
+    };
+  });
+}
+
+function buildDraft(
+  eventType: EventType,
+  eventTime: string,
+  values: Map<ImportTargetField, string>,
+  labels: Record<ImportTargetField, string>,
+  errors: string[]
+): ImportEventDraft {
+  const field = { values, labels, errors };
+
+  switch (eventType) {
+    case 'Food':
+      return {
+        eventType,
+        payload: {
+          eventTime,
+          carbohydratesGrams: readNumber(
+            field,
+            'carbohydratesGrams',
+            EVENT_LIMITS.carbohydratesGrams
+          ),
+          mealTagId: readOptionId(field, 'mealTag', MEAL_TAG_OPTIONS),
+          absorptionHint: readChoice(field, 'absorptionHint', ABSORPTION_HINTS),
+          note: readText(field, 'foodNote')
+        }
+      };
+    case 'Insulin':
+      return {
+        eventType,
+        payload: {
+          eventTime,
+          // Same default as the Add Event form
+          insulinType: readChoice(field, 'insulinType', INSULIN_TYPES) ?? 'Fast',
+          insulinUnits: readNumber(field, 'insulinUnits', EVENT_LIMITS.insulinUnits),
+          preparation: readChoice(field, 'preparation', INSULIN_PREPARATIONS),
+          delivery: readChoice(field, 'delivery', INSULIN_DELIVERIES),
+          timing: readChoice(field, 'timing', INSULIN_TIMINGS),
+          note: readText(field, 'insulinNote')
+        }
+      };
+    case 'Exercise':
+      return {
+        eventType,
+        payload: {
+          eventTime,
+          exerciseTypeId: readOptionId(field, 'exerciseType', EXERCISE_TYPE_OPTIONS, true) ?? 0,
+          durationMinutes: readNumber(field, 'durationMinutes', EVENT_LIMITS.durationMinutes),
+          intensity: readChoice(field, 'intensity', EXERCISE_INTENSITIES),
+          note: readText(field, 'exerciseNote')
+        }
+      };
+    case 'Note':
+      return {
+        eventType,
+        payload: {
+          eventTime,
+          noteText: readText(field, 'noteText') ?? ''
+        }
+      };
+  }
+}
+
+interface FieldReader {
+  values: Map<ImportTargetField, string>;
+  labels: Record<ImportTargetField, string>;
+  errors: string[];
+}
+
+function readNumber(
+  { values, labels, errors }: FieldReader,
+  key: ImportTargetField,
+  limits: { min: number; max: number }
+): number {
+  const label = labels[key];
+  const text = values.get(key);
+
+  if (!text) {
+    errors.push($localize`:@@settings.import.error.required:${label}:field: is required`);
+    return 0;
+  }
+
+  const value = parseImportNumber(text);
+  if (Number.isNaN(value)) {
+    errors.push($localize`:@@settings.import.error.notNumber:${label}:field: must be a number`);
+  } else if (value < limits.min || value > limits.max) {
+    errors.push(
+      $localize`:@@settings.import.error.outOfRange:${label}:field: must be between ${limits.min}:min: and ${limits.max}:max:`
+    );
+  }
+  return value;
+}
+
+function readOptionId(
+  { values, labels, errors }: FieldReader,
+  key: ImportTargetField,
+  options: EventOption[],
+  required = false
+): number | undefined {
+  const label = labels[key];
+  const text = values.get(key);
+
+  if (!text) {
+    if (required) {
+      errors.push($localize`:@@settings.import.error.required:${label}:field: is required`);
+    }
+    return undefined;
+  }
+
+  const option = options.find(
+    (candidate) =>
+      candidate.label.toLowerCase() === text.toLowerCase() || String(candidate.id) === text
+  );
+  if (!option) {
+    errors.push($localize`:@@settings.import.error.unknownOption:Unknown ${label}:field: "${text}:value:"`);
+  }
+  return option?.id;
+}
+
+function readChoice(
+  { values, labels, errors }: FieldReader,
+  key: ImportTargetField,
+  choices: string[]
+): string | undefined {
+  const label = labels[key];
+  const text = values.get(key);
+  if (!text) return undefined;
+
+  const choice = choices.find((candidate) => candidate.toLowerCase() === text.toLowerCase());
+  if (!choice) {
+    errors.push($localize`:@@settings.import.error.unknownOption:Unknown ${label}:field: "${text}:value:"`);
+  }
+  return choice;
+}
+
+function readText({ values, labels, errors }: FieldReader, key: ImportTargetField): string | undefined {
+  const label = labels[key];
+  const text = values.get(key);
+
+  if (text && text.length > EVENT_LIMITS.noteMaxLength) {
+    errors.push(
+      $localize`:@@settings.import.error.tooLong:${label}:field: must be at most ${EVENT_LIMITS.noteMaxLength}:max: characters`
+    );
+  }
+  return text || undefined;
+}
+
+/**
+ * Key identifying events of the same type logged in the same minute
+ */
+export function importDuplicateKey(eventType: EventType, eventTime: string): string {
+  const time = Date.parse(eventTime);
+  return `${eventType}|${Number.isFinite(time) ? Math.floor(time / 60000) : eventTime}`;
+}
+
+/**
+ * Flags items matching an existing event (same type, same minute) or an
+ * identical earlier item in the same file
+ */
+export function markImportDuplicates(
+  items: ImportPreviewItem[],
+  existing: EventListItemDto[]
+): ImportPreviewItem[] {
+  const existingKeys = new Set(
+    existing.map((event) => importDuplicateKey(event.eventType, event.eventTime))
+  );
+  const seenDrafts = new Set<string>();
+
+  return items.map((item) => {
+    if (!item.draft) return { ...item, duplicateOf: null };
+
+    const draftKey = JSON.stringify(item.draft);
+    const inFile = seenDrafts.has(draftKey);
+    seenDrafts.add(draftKey);
+
+    const key = importDuplicateKey(item.draft.eventType, item.draft.payload.eventTime);
+    const duplicateOf = existingKeys.has(key) ? 'existing' : inFile ? 'file' : null;
+    return { ...item, duplicateOf };
+  });
+}
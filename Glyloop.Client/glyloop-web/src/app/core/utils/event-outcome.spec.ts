@@ -0,0 +1,99 @@
+/**
+ * Unit tests for the shared event outcome helpers
+ */
+
+import { GlucosePointDto } from '../models/dashboard.types';
+import { EventOutcomePoint } from '../models/event-outcome.types';
+import {
+  averageOf,
+  coversWindow,
+  eventOutcomeCurve,
+  groupByOption,
+  splitByWeek,
+  valueNear
+} from './event-outcome';
+
+const EVENT_TIME = '2025-03-01T12:00:00.000Z';
+
+// Readings every 5 minutes from `from` to `to` minutes around the event
+function readings(from: number, to: number, value: number | null = 120): GlucosePointDto[] {
+  const points: GlucosePointDto[] = [];
+  for (let minutes = from; minutes <= to; minutes += 5) {
+    points.push({
+      timestamp: new Date(Date.parse(EVENT_TIME) + minutes * 60000).toISOString(),
+      value
+    });
+  }
+  return points;
+}
+
+function curve(minutes: number[]): EventOutcomePoint[] {
+  return minutes.map((offset) => ({ minutes: offset, value: 100 + offset }));
+}
+
+describe('event-outcome', () => {
+  it('should keep non-empty readings inside the window, oldest first', () => {
+    const points = [...readings(-60, 240).reverse(), ...readings(300, 310, null)];
+
+    const result = eventOutcomeCurve(points, EVENT_TIME, -15, 120);
+
+    expect(result[0]).toEqual({ minutes: -15, value: 120 });
+    expect(result[result.length - 1].minutes).toBe(120);
+    expect(result).toHaveLength(28);
+  });
+
+  it('should pick the reading closest to a mark within 10 minutes', () => {
+    expect(valueNear(curve([100, 112, 125]), 120)).toBe(225);
+    expect(valueNear(curve([100, 135]), 120)).toBeNull();
+  });
+
+  it('should require readings through the window without long gaps', () => {
+    const full = Array.from({ length: 37 }, (_, i) => i * 5);
+
+    expect(coversWindow(curve(full), 180)).toBe(true);
+    expect(coversWindow(curve(full.filter((m) => m < 60 || m > 80)), 180)).toBe(false);
+    expect(coversWindow(curve(full.filter((m) => m <= 150)), 180)).toBe(false);
+    expect(coversWindow(curve(full.filter((m) => m >= 20)), 180)).toBe(false);
+  });
+
+  it('should group in option order with unknown keys last and skip empty groups', () => {
+    const groups = groupByOption(
+      ['b', 'x', 'a', 'b', null],
+      [
+        { key: 'a', label: 'A' },
+        { key: 'b', label: 'B' },
+        { key: 'c', label: 'C' }
+      ],
+      (item) => item,
+      'Other'
+    );
+
+    expect(groups.map((group) => [group.label, group.items.length])).toEqual([
+      ['A', 1],
+      ['B', 2],
+      ['Other', 2]
+    ]);
+  });
+
+  it('should average a metric skipping missing values', () => {
+    expect(averageOf([1, null, 3], (value) => value)).toBe(2);
+    expect(averageOf([null], (value) => value)).toBeNull();
+  });
+
+  it('should split items into weeks from start to end', () => {
+    const weeks = splitByWeek(
+      [
+        { eventTime: '2025-03-02T08:00:00.000Z' },
+        { eventTime: '2025-03-09T08:00:00.000Z' },
+        { eventTime: '2025-03-20T08:00:00.000Z' }
+      ],
+      new Date('2025-03-01T00:00:00.000Z'),
+      new Date('2025-03-15T00:00:00.000Z')
+    );
+
+    expect(weeks.map((week) => [week.weekStart, week.items.length])).toEqual([
+      ['2025-03-01T00:00:00.000Z', 1],
+      ['2025-03-08T00:00:00.000Z', 1]
+    ]);
+  });
+});
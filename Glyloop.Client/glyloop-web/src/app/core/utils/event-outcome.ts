@@ -0,0 +1,116 @@
+/**
+ * Shared building blocks for event outcome analytics (meal response, exercise impact):
+ * the readings around an event, coverage checks, grouping, averages and weekly buckets.
+ */
+
+import { GlucosePointDto } from '../models/dashboard.types';
+import { EventOutcomePoint, OutcomeGroupOption } from '../models/event-outcome.types';
+import { mean } from './glucose-stats';
+
+// Window around an outcome mark and the longest gap still counted as continuous
+export const OUTCOME_TOLERANCE_MINUTES = 10;
+export const MAX_GAP_MINUTES = 15;
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+const NO_GROUP = 'none';
+
+/**
+ * Readings from `fromMinutes` to `toMinutes` around an event, oldest first
+ */
+export function eventOutcomeCurve(
+  points: GlucosePointDto[],
+  eventTime: string,
+  fromMinutes: number,
+  toMinutes: number
+): EventOutcomePoint[] {
+  const eventMs = Date.parse(eventTime);
+  if (!Number.isFinite(eventMs)) return [];
+
+  return points
+    .filter((point): point is GlucosePointDto & { value: number } => point.value !== null)
+    .map((point) => ({
+      minutes: (Date.parse(point.timestamp) - eventMs) / 60000,
+      value: point.value
+    }))
+    .filter((point) => point.minutes >= fromMinutes && point.minutes <= toMinutes)
+    .sort((a, b) => a.minutes - b.minutes);
+}
+
+/**
+ * Reading closest to a mark (±10 minutes), or null when there is none
+ */
+export function valueNear(points: EventOutcomePoint[], minutes: number): number | null {
+  let closest: EventOutcomePoint | null = null;
+  for (const point of points) {
+    const distance = Math.abs(point.minutes - minutes);
+    if (distance > OUTCOME_TOLERANCE_MINUTES) continue;
+    if (!closest || distance < Math.abs(closest.minutes - minutes)) closest = point;
+  }
+  return closest?.value ?? null;
+}
+
+/**
+ * Whether readings from the event cover `windowMinutes` without gaps over 15 minutes
+ */
+export function coversWindow(points: EventOutcomePoint[], windowMinutes: number): boolean {
+  if (points.length < 2) return false;
+  if (points[0].minutes > MAX_GAP_MINUTES) return false;
+  if (points[points.length - 1].minutes < windowMinutes - MAX_GAP_MINUTES) return false;
+  return points.every(
+    (point, i) => i === 0 || point.minutes - points[i - 1].minutes <= MAX_GAP_MINUTES
+  );
+}
+
+/**
+ * Items grouped by option, in option order; items without a known key are grouped
+ * last under `noGroupLabel`. Empty groups are left out.
+ */
+export function groupByOption<T>(
+  items: T[],
+  options: OutcomeGroupOption[],
+  keyOf: (item: T) => string | null,
+  noGroupLabel: string
+): (OutcomeGroupOption & { items: T[] })[] {
+  const groupKeyOf = (item: T): string => {
+    const key = keyOf(item);
+    return options.some((option) => option.key === key) ? (key as string) : NO_GROUP;
+  };
+
+  return [...options, { key: NO_GROUP, label: noGroupLabel }]
+    .map((option) => ({
+      ...option,
+      items: items.filter((item) => groupKeyOf(item) === option.key)
+    }))
+    .filter((group) => group.items.length > 0);
+}
+
+/**
+ * Mean of a metric, skipping items missing it
+ */
+export function averageOf<T>(items: T[], metric: (item: T) => number | null): number | null {
+  return mean(
+    items.map(metric).filter((value): value is number => value !== null && Number.isFinite(value))
+  );
+}
+
+/**
+ * Items split into consecutive weeks from start to end (at least one week)
+ */
+export function splitByWeek<T extends { eventTime: string }>(
+  items: T[],
+  start: Date,
+  end: Date
+): { weekStart: string; items: T[] }[] {
+  const weeks = Math.max(1, Math.ceil((end.getTime() - start.getTime()) / WEEK_MS));
+
+  return Array.from({ length: weeks }, (_, week) => {
+    const weekStart = start.getTime() + week * WEEK_MS;
+    return {
+      weekStart: new Date(weekStart).toISOString(),
+      items: items.filter((item) => {
+        const time = Date.parse(item.eventTime);
+        return time >= weekStart && time < weekStart + WEEK_MS;
+      })
+    };
+  });
+}
@@ -0,0 +1,41 @@
+/**
+ * Unit tests for event type filter and ordering helpers
+ */
+
+import { EventListItemDto, EventType } from '../models/dashboard.types';
+import { compareEventsNewestFirst, normalizeEventTypes } from './event-paging';
+
+function event(eventId: string, eventType: EventType, minute: number): EventListItemDto {
+  return {
+    eventId,
+    eventType,
+    eventTime: new Date(Date.UTC(2025, 0, 1, 0, minute)).toISOString(),
+    summary: ''
+  };
+}
+
+describe('event-paging', () => {
+  describe('normalizeEventTypes', () => {
+    it('should dedupe and order the selection', () => {
+      expect(normalizeEventTypes(['Note', 'Food', 'Note'])).toEqual(['Food', 'Note']);
+    });
+
+    it('should treat no selection and every type as unfiltered', () => {
+      expect(normalizeEventTypes(undefined)).toBeUndefined();
+      expect(normalizeEventTypes([])).toBeUndefined();
+      expect(normalizeEventTypes(['Food', 'Insulin', 'Exercise', 'Note'])).toBeUndefined();
+    });
+  });
+
+  describe('compareEventsNewestFirst', () => {
+    it('should order newest first with the ID as tie-breaker', () => {
+      const events = [event('b', 'Food', 10), event('c', 'Note', 30), event('a', 'Food', 10)];
+
+      expect(events.sort(compareEventsNewestFirst).map((item) => item.eventId)).toEqual([
+        'c',
+        'a',
+        'b'
+      ]);
+    });
+  });
+});
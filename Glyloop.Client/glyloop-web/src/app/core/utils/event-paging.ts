@@ -0,0 +1,27 @@
+/**
+ * Helpers for event type filters and newest-first event ordering.
+ */
+
+import { EventListItemDto, EventType } from '../models/dashboard.types';
+
+const ALL_EVENT_TYPES: EventType[] = ['Food', 'Insulin', 'Exercise', 'Note'];
+
+/**
+ * Returns the distinct selected types in canonical order, or undefined when
+ * the selection does not narrow the results (nothing or everything selected)
+ */
+export function normalizeEventTypes(types?: EventType[] | null): EventType[] | undefined {
+  const selected = ALL_EVENT_TYPES.filter((type) => types?.includes(type));
+  return selected.length === 0 || selected.length === ALL_EVENT_TYPES.length ? undefined : selected;
+}
+
+/**
+ * Newest-first ordering matching the API, with the ID as a stable tie-breaker
+ */
+export function compareEventsNewestFirst(
+  a: Pick<EventListItemDto, 'eventId' | 'eventTime'>,
+  b: Pick<EventListItemDto, 'eventId' | 'eventTime'>
+): number {
+  const byTime = Date.parse(b.eventTime) - Date.parse(a.eventTime);
+  return byTime !== 0 ? byTime : a.eventId.localeCompare(b.eventId);
+}
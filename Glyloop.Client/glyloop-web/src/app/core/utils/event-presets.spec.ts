@@ -0,0 +1,102 @@
+/**
+ * Unit tests for quick-log presets
+ */
+
+import { EventPreset } from '../models/event-presets.types';
+import {
+  countPresetUse,
+  createEventPreset,
+  normalizeEventPresetsState,
+  presetFieldsFromRequest,
+  presetSummary,
+  presetsByUsage
+} from './event-presets';
+
+function preset(name: string, useCount: number, lastUsedAt: string | null = null): EventPreset {
+  return {
+    ...createEventPreset(name, {
+      eventType: 'Food',
+      values: { carbohydratesGrams: 45 }
+    }),
+    useCount,
+    lastUsedAt
+  };
+}
+
+describe('event-presets', () => {
+  it('should keep every field of a create request except the event time', () => {
+    const fields = presetFieldsFromRequest({
+      eventType: 'Insulin',
+      payload: {
+        eventTime: '2025-03-01T08:00:00Z',
+        insulinType: 'Fast',
+        insulinUnits: 6,
+        timing: 'With meal'
+      }
+    });
+
+    expect(fields).toEqual({
+      eventType: 'Insulin',
+      values: { insulinType: 'Fast', insulinUnits: 6, timing: 'With meal' }
+    });
+    expect(presetSummary(fields)).toBe('6 U Fast · With meal');
+  });
+
+  it('should order presets of a type by usage, then recency, then name', () => {
+    const insulin = {
+      ...preset('Bolus', 9),
+      eventType: 'Insulin',
+      values: { insulinType: 'Fast', insulinUnits: 6 }
+    } as EventPreset;
+    const presets = [
+      preset('Snack', 1),
+      preset('Lunch', 3, '2025-03-01T12:00:00Z'),
+      preset('Breakfast', 3, '2025-03-02T08:00:00Z'),
+      preset('Apple', 1),
+      insulin
+    ];
+
+    expect(presetsByUsage(presets, 'Food').map((item) => item.name)).toEqual([
+      'Breakfast',
+      'Lunch',
+      'Apple',
+      'Snack'
+    ]);
+  });
+
+  it('should count a use only when the created event has the preset type', () => {
+    const breakfast = preset('Breakfast', 2);
+    const now = new Date('2025-03-01T08:00:00Z');
+
+    const counted = countPresetUse([breakfast], breakfast.id, 'Food', now);
+    const otherType = countPresetUse([breakfast], breakfast.id, 'Insulin', now);
+
+    expect(counted[0]).toEqual({ ...breakfast, useCount: 3, lastUsedAt: now.toISOString() });
+    expect(otherType[0]).toBe(breakfast);
+  });
+
+  it('should summarize food presets with meal tag and absorption', () => {
+    expect(
+      presetSummary({
+        eventType: 'Food',
+        values: { carbohydratesGrams: 45, mealTagId: 1, absorptionHint: 'Normal' }
+      })
+    ).toBe('45 g · Breakfast · Normal');
+  });
+
+  it('should drop invalid saved presets and last events', () => {
+    const valid = preset('Breakfast', 2);
+    const state = normalizeEventPresetsState({
+      presets: [valid, { id: 'x', name: 'Broken', eventType: 'Food' }, null],
+      lastEvents: {
+        Note: { eventType: 'Note', values: { noteText: 'Slept badly' } },
+        Food: { eventType: 'Insulin', values: {} }
+      }
+    });
+
+    expect(state.presets).toEqual([valid]);
+    expect(state.lastEvents).toEqual({
+      Note: { eventType: 'Note', values: { noteText: 'Slept badly' } }
+    });
+  });
+});
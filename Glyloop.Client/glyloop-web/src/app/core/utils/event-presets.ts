@@ -0,0 +1,142 @@
+/**
+ * Quick-log presets: creating them from event requests, usage ordering,
+ * summaries and validation of saved state.
+ */
+
+import { CreateEventRequest, EventType } from '../models/dashboard.types';
+import { EventPreset, EventPresetFields, EventPresetsState } from '../models/event-presets.types';
+import { EXERCISE_TYPE_OPTIONS, MEAL_TAG_OPTIONS } from './event-fields';
+
+export const EVENT_PRESET_TYPES: EventType[] = ['Food', 'Insulin', 'Exercise', 'Note'];
+
+export const EVENT_PRESET_NAME_MAX_LENGTH = 40;
+
+// Note text shown in summaries before truncation
+const SUMMARY_NOTE_LENGTH = 30;
+
+/**
+ * Preset fields of a create request (drops the event time)
+ */
+export function presetFieldsFromRequest(request: CreateEventRequest): EventPresetFields {
+  const values: Record<string, unknown> = { ...request.payload };
+  delete values['eventTime'];
+  return { eventType: request.eventType, values } as EventPresetFields;
+}
+
+/**
+ * Creates a preset that has not been used yet
+ */
+export function createEventPreset(
+  name: string,
+  fields: EventPresetFields,
+  now = new Date()
+): EventPreset {
+  const random = Math.random().toString(36).slice(2, 10);
+  return {
+    ...fields,
+    id: `preset-${now.getTime().toString(36)}-${random}`,
+    name: name.trim().slice(0, EVENT_PRESET_NAME_MAX_LENGTH),
+    useCount: 0,
+    lastUsedAt: null
+  };
+}
+
+/**
+ * Presets of one event type, most used first (then most recently used, then by name)
+ */
+export function presetsByUsage(presets: EventPreset[], eventType: EventType): EventPreset[] {
+  return presets
+    .filter((preset) => preset.eventType === eventType)
+    .sort(
+      (a, b) =>
+        b.useCount - a.useCount ||
+        (b.lastUsedAt ?? '').localeCompare(a.lastUsedAt ?? '') ||
+        a.name.localeCompare(b.name)
+    );
+}
+
+/**
+ * Presets with one more use for `presetId`, counted only when the created event has
+ * the preset's type (a preset applied on another tab is not counted)
+ */
+export function countPresetUse(
+  presets: EventPreset[],
+  presetId: string | null,
+  eventType: EventType,
+  now: Date
+): EventPreset[] {
+  return presets.map((preset) =>
+    preset.id === presetId && preset.eventType === eventType
+      ? { ...preset, useCount: preset.useCount + 1, lastUsedAt: now.toISOString() }
+      : preset
+  );
+}
+
+/**
+ * Short description of the fields, e.g. "45 g · Breakfast · Normal" or "6 U Fast · With meal"
+ */
+export function presetSummary(fields: EventPresetFields): string {
+  let parts: (string | undefined)[];
+
+  switch (fields.eventType) {
+    case 'Food': {
+      const { carbohydratesGrams, mealTagId, absorptionHint } = fields.values;
+      const mealTag = MEAL_TAG_OPTIONS.find((option) => option.id === mealTagId)?.label;
+      parts = [`${carbohydratesGrams} g`, mealTag, absorptionHint];
+      break;
+    }
+    case 'Insulin': {
+      const { insulinUnits, insulinType, preparation, timing } = fields.values;
+      parts = [`${insulinUnits} U ${insulinType}`, preparation, timing];
+      break;
+    }
+    case 'Exercise': {
+      const { exerciseTypeId, durationMinutes, intensity } = fields.values;
+      const exerciseType = EXERCISE_TYPE_OPTIONS.find((option) => option.id === exerciseTypeId);
+      parts = [exerciseType?.label, `${durationMinutes} min`, intensity];
+      break;
+    }
+    case 'Note': {
+      const text = fields.values.noteText;
+      parts = [
+        text.length > SUMMARY_NOTE_LENGTH ? `${text.slice(0, SUMMARY_NOTE_LENGTH)}…` : text
+      ];
+      break;
+    }
+  }
+
+  return parts.filter((part) => !!part).join(' · ');
+}
+
+/**
+ * Restores saved state, dropping presets and last events that are not valid
+ */
+export function normalizeEventPresetsState(stored: unknown): EventPresetsState {
+  const value = (stored ?? {}) as Partial<EventPresetsState>;
+
+  const presets = (Array.isArray(value.presets) ? value.presets : []).filter(
+    (preset): preset is EventPreset =>
+      isPresetFields(preset) &&
+      typeof preset.id === 'string' &&
+      typeof preset.name === 'string' &&
+      typeof preset.useCount === 'number'
+  );
+
+  const lastEvents: EventPresetsState['lastEvents'] = {};
+  for (const type of EVENT_PRESET_TYPES) {
+    const fields = value.lastEvents?.[type];
+    if (isPresetFields(fields) && fields.eventType === type) lastEvents[type] = fields;
+  }
+
+  return { presets, lastEvents };
+}
+
+function isPresetFields(value: unknown): value is EventPresetFields {
+  const fields = value as Partial<EventPresetFields> | null;
+  return (
+    !!fields &&
+    EVENT_PRESET_TYPES.includes(fields.eventType as EventType) &&
+    typeof fields.values === 'object' &&
+    fields.values !== null
+  );
+}
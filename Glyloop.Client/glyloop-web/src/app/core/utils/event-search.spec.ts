@@ -0,0 +1,70 @@
+/**
+ * Unit tests for free-text event search helpers
+ */
+
+import { EventListItemDto } from '../models/dashboard.types';
+import {
+  findSearchSnippet,
+  highlightSearchMatches,
+  matchesEventSearch,
+  normalizeSearchQuery
+} from './event-search';
+
+const pizzaNight: EventListItemDto = {
+  eventId: '1',
+  eventType: 'Food',
+  eventTime: '2025-01-01T19:00:00Z',
+  summary: '90g carbs',
+  note: 'Pizza night with friends, extra bolus later'
+};
+
+describe('event-search', () => {
+  it('should normalize whitespace and empty queries', () => {
+    expect(normalizeSearchQuery('  pizza   night ')).toBe('pizza night');
+    expect(normalizeSearchQuery('   ')).toBeUndefined();
+    expect(normalizeSearchQuery(null)).toBeUndefined();
+  });
+
+  describe('matchesEventSearch', () => {
+    it('should require every word across summary and note', () => {
+      expect(matchesEventSearch(pizzaNight, 'PIZZA carbs')).toBe(true);
+      expect(matchesEventSearch(pizzaNight, 'pizza sick')).toBe(false);
+    });
+
+    it('should search note text of note events', () => {
+      const sickDay: EventListItemDto = {
+        eventId: '2',
+        eventType: 'Note',
+        eventTime: '2025-01-02T08:00:00Z',
+        summary: 'Feeling off',
+        noteText: 'Feeling off, sick day rules'
+      };
+
+      expect(matchesEventSearch(sickDay, 'sick day')).toBe(true);
+    });
+  });
+
+  describe('highlightSearchMatches', () => {
+    it('should split text into matching and plain segments', () => {
+      expect(highlightSearchMatches('Pizza night pizza', 'pizza')).toEqual([
+        { text: 'Pizza', match: true },
+        { text: ' night ', match: false },
+        { text: 'pizza', match: true }
+      ]);
+    });
+
+    it('should return the whole text without a query', () => {
+      expect(highlightSearchMatches('90g carbs', '')).toEqual([{ text: '90g carbs', match: false }]);
+    });
+  });
+
+  describe('findSearchSnippet', () => {
+    it('should excerpt the note when the summary does not match', () => {
+      expect(findSearchSnippet(pizzaNight, 'friends', 20)).toBe('… with friends, extra…');
+    });
+
+    it('should skip the snippet when the summary matches', () => {
+      expect(findSearchSnippet(pizzaNight, 'carbs')).toBeNull();
+    });
+  });
+});
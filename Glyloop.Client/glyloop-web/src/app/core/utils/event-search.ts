@@ -0,0 +1,101 @@
+/**
+ * Free-text event search: query normalization, matching and highlighting.
+ * Matching is case-insensitive and requires every word of the query.
+ */
+
+import { EventListItemDto } from '../models/dashboard.types';
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+/**
+ * Trims and collapses whitespace; returns undefined for an empty query
+ */
+export function normalizeSearchQuery(query?: string | null): string | undefined {
+  const normalized = (query ?? '').trim().replace(/\s+/g, ' ');
+  return normalized || undefined;
+}
+
+function searchTerms(query: string): string[] {
+  return query.toLowerCase().split(' ').filter(Boolean);
+}
+
+/**
+ * Searchable text of an event: summary, note and note text (matching the API search)
+ */
+function searchableFields(item: EventListItemDto): string[] {
+  return [item.summary, item.note, item.noteText].filter((field): field is string => !!field);
+}
+
+/**
+ * Checks whether every query word appears in the event's searchable text
+ */
+export function matchesEventSearch(item: EventListItemDto, query: string): boolean {
+  const haystack = searchableFields(item).join('\n').toLowerCase();
+  return searchTerms(query).every((term) => haystack.includes(term));
+}
+
+/**
+ * Splits text into plain and matching segments for highlighting
+ */
+export function highlightSearchMatches(text: string, query?: string | null): HighlightSegment[] {
+  const normalized = normalizeSearchQuery(query);
+  if (!normalized || !text) return [{ text, match: false }];
+
+  // Mark every character covered by any term, then group runs
+  const lower = text.toLowerCase();
+  const covered = new Array<boolean>(text.length).fill(false);
+  for (const term of searchTerms(normalized)) {
+    let index = lower.indexOf(term);
+    while (index !== -1) {
+      covered.fill(true, index, index + term.length);
+      index = lower.indexOf(term, index + term.length);
+    }
+  }
+
+  const segments: HighlightSegment[] = [];
+  for (let i = 0; i < text.length; i++) {
+    const last = segments[segments.length - 1];
+    if (last && last.match === covered[i]) {
+      last.text += text[i];
+    } else {
+      segments.push({ text: text[i], match: covered[i] });
+    }
+  }
+  return segments;
+}
+
+/**
+ * Returns a short excerpt of the note around the first match when the summary
+ * itself does not contain the query words (so rows can show why they matched)
+ */
+export function findSearchSnippet(
+  item: EventListItemDto,
+  query?: string | null,
+  maxLength = 60
+): string | null {
+  const normalized = normalizeSearchQuery(query);
+  if (!normalized) return null;
+
+  const terms = searchTerms(normalized);
+  const summary = item.summary.toLowerCase();
+  if (terms.every((term) => summary.includes(term))) return null;
+
+  for (const field of [item.note, item.noteText]) {
+    if (!field) continue;
+    const lower = field.toLowerCase();
+    const index = terms
+      .map((term) => lower.indexOf(term))
+      .filter((position) => position !== -1)
+      .sort((a, b) => a - b)[0];
+    if (index === undefined) continue;
+
+    const start = Math.max(0, index - Math.floor(maxLength / 3));
+    const end = Math.min(field.length, start + maxLength);
+    return `${start > 0 ? '…' : ''}${field.slice(start, end)}${end < field.length ? '…' : ''}`;
+  }
+
+  return null;
+}
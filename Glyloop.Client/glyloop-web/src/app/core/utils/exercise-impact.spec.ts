@@ -0,0 +1,175 @@
+/**
+ * Unit tests for per-session exercise impact analysis and aggregation
+ */
+
+import { EventResponseDto, GlucosePointDto } from '../models/dashboard.types';
+import { ExerciseImpact } from '../models/exercise-analytics.types';
+import {
+  analyzeExerciseImpact,
+  summarizeExerciseImpacts,
+  weeklyExerciseTrend
+} from './exercise-impact';
+
+const START_TIME = '2025-03-01T17:00:00.000Z';
+const HYPO_THRESHOLD = 70;
+
+function session(changes: Partial<EventResponseDto> = {}): EventResponseDto {
+  return {
+    eventId: 'exercise-1',
+    eventType: 'Exercise',
+    eventTime: START_TIME,
+    createdAt: START_TIME,
+    exerciseTypeId: 2,
+    durationMinutes: 60,
+    intensity: 'Moderate',
+    ...changes
+  };
+}
+
+// Readings every 5 minutes from `from` to `to` minutes around the start of the session
+function readings(
+  from: number,
+  to: number,
+  value: (minutes: number) => number | null
+): GlucosePointDto[] {
+  const points: GlucosePointDto[] = [];
+  for (let minutes = from; minutes <= to; minutes += 5) {
+    points.push({
+      timestamp: new Date(Date.parse(START_TIME) + minutes * 60000).toISOString(),
+      value: value(minutes)
+    });
+  }
+  return points;
+}
+
+// 150 before, falling 1 mg/dL per minute to 90 at the end of a 60-minute run, then recovering
+const TYPICAL = (minutes: number): number =>
+  minutes <= 0 ? 150 : minutes <= 60 ? 150 - minutes : Math.min(130, 90 + (minutes - 60) / 2);
+
+function impact(changes: Partial<ExerciseImpact>): ExerciseImpact {
+  return {
+    ...analyzeExerciseImpact(session(), [], HYPO_THRESHOLD),
+    ...changes
+  };
+}
+
+describe('exercise-impact', () => {
+  it('should compute the drop during the session and the nadir', () => {
+    const result = analyzeExerciseImpact(session(), readings(-15, 420, TYPICAL), HYPO_THRESHOLD);
+
+    expect(result.startValue).toBe(150);
+    expect(result.endValue).toBe(90);
+    expect(result.dropDuring).toBe(60);
+    expect(result.nadir).toBe(90);
+    expect(result.minutesToNadir).toBe(60);
+    expect(result.maxDrop).toBe(60);
+    expect(result.lowDuring).toBe(false);
+    expect(result.delayedHypo).toBe(false);
+    expect(result.complete).toBe(true);
+  });
+
+  it('should keep the drop during the session apart from a later nadir', () => {
+    const result = analyzeExerciseImpact(
+      session(),
+      readings(-15, 420, (minutes) => (minutes > 60 && minutes <= 180 ? 80 : TYPICAL(minutes))),
+      HYPO_THRESHOLD
+    );
+
+    expect(result.dropDuring).toBe(60);
+    expect(result.nadir).toBe(80);
+    expect(result.minutesToNadir).toBe(65);
+    expect(result.maxDrop).toBe(70);
+  });
+
+  it('should flag a delayed hypo only from 1 hour after the session', () => {
+    const earlyLow = analyzeExerciseImpact(
+      session(),
+      readings(-15, 420, (minutes) => (minutes >= 70 && minutes <= 90 ? 65 : 120)),
+      HYPO_THRESHOLD
+    );
+    const lateLow = analyzeExerciseImpact(
+      session(),
+      readings(-15, 420, (minutes) => (minutes >= 300 && minutes <= 320 ? 62 : 120)),
+      HYPO_THRESHOLD
+    );
+
+    expect(earlyLow.delayedHypo).toBe(false);
+    expect(earlyLow.nadir).toBe(65);
+    expect(lateLow.delayedHypo).toBe(true);
+    expect(lateLow.minutesToDelayedHypo).toBe(240);
+  });
+
+  it('should count lows against the given threshold', () => {
+    const points = readings(-15, 420, (minutes) =>
+      (minutes >= 30 && minutes <= 40) || (minutes >= 200 && minutes <= 210) ? 75 : 120
+    );
+
+    const defaultBound = analyzeExerciseImpact(session(), points, HYPO_THRESHOLD);
+    const higherBound = analyzeExerciseImpact(session(), points, 80);
+
+    expect(defaultBound.lowDuring).toBe(false);
+    expect(defaultBound.delayedHypo).toBe(false);
+    expect(higherBound.lowDuring).toBe(true);
+    expect(higherBound.delayedHypo).toBe(true);
+    expect(higherBound.minutesToDelayedHypo).toBe(140);
+  });
+
+  it('should leave the drop empty without readings before the start', () => {
+    const result = analyzeExerciseImpact(session(), readings(5, 420, TYPICAL), HYPO_THRESHOLD);
+
+    expect(result.startValue).toBeNull();
+    expect(result.dropDuring).toBeNull();
+    expect(result.maxDrop).toBeNull();
+    expect(result.nadir).toBe(90);
+    expect(result.complete).toBe(false);
+  });
+
+  it('should aggregate sessions per intensity with unknown intensities last', () => {
+    const summaries = summarizeExerciseImpacts(
+      [
+        impact({ intensity: 'Vigorous', dropDuring: 70, delayedHypo: true }),
+        impact({ intensity: 'Light', dropDuring: 20 }),
+        impact({ intensity: 'Vigorous', dropDuring: 50 }),
+        impact({ intensity: 'High', dropDuring: null })
+      ],
+      'intensity'
+    );
+
+    expect(summaries.map((summary) => [summary.label, summary.sessions])).toEqual([
+      ['Light', 1],
+      ['Vigorous', 2],
+      ['No intensity', 1]
+    ]);
+    expect(summaries[1].averageDropDuring).toBe(60);
+    expect(summaries[1].delayedHypos).toBe(1);
+    expect(summaries[1].delayedHypoRate).toBe(50);
+    expect(summaries[2].averageDropDuring).toBeNull();
+  });
+
+  it('should count sessions and delayed hypos per week', () => {
+    const trend = weeklyExerciseTrend(
+      [
+        impact({ eventTime: '2025-03-02T17:00:00.000Z', maxDrop: 40, delayedHypo: true }),
+        impact({ eventTime: '2025-03-04T17:00:00.000Z', maxDrop: 20 }),
+        impact({ eventTime: '2025-03-10T17:00:00.000Z', maxDrop: 30 })
+      ],
+      new Date('2025-03-01T00:00:00.000Z'),
+      new Date('2025-03-15T00:00:00.000Z')
+    );
+
+    expect(trend).toEqual([
+      {
+        weekStart: '2025-03-01T00:00:00.000Z',
+        sessions: 2,
+        averageMaxDrop: 30,
+        delayedHypos: 1
+      },
+      {
+        weekStart: '2025-03-08T00:00:00.000Z',
+        sessions: 1,
+        averageMaxDrop: 30,
+        delayedHypos: 0
+      }
+    ]);
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * Per-session exercise impact (drop during the session, nadir and delayed hypos in the
+ * hours after) and its aggregation by exercise type or intensity.
+ */
+
+import { EventResponseDto, GlucosePointDto } from '../models/dashboard.types';
+import { EventOutcomePoint } from '../models/event-outcome.types';
+import {
+  ExerciseGrouping,
+  ExerciseImpact,
+  ExerciseImpactSummary,
+  ExerciseWeekTrend
+} from '../models/exercise-analytics.types';
+import { EXERCISE_INTENSITIES, EXERCISE_TYPE_OPTIONS } from './event-fields';
+import {
+  averageOf,
+  coversWindow,
+  eventOutcomeCurve,
+  groupByOption,
+  splitByWeek,
+  valueNear
+} from './event-outcome';
+import { mean } from './glucose-stats';
+
+export const EXERCISE_BASELINE_MINUTES = 15;
+export const EXERCISE_FOLLOW_UP_MINUTES = 360;
+export const DELAYED_HYPO_AFTER_MINUTES = 60;
+
+/**
+ * Minutes covered after the start of a session: its duration plus the follow-up
+ */
+export function exerciseWindowMinutes(durationMinutes: number | null | undefined): number {
+  return Math.max(0, durationMinutes ?? 0) + EXERCISE_FOLLOW_UP_MINUTES;
+}
+
+/**
+ * Readings from 15 minutes before a session to 6 hours after it ends, oldest first
+ */
+export function exerciseImpactCurve(
+  points: GlucosePointDto[],
+  eventTime: string,
+  durationMinutes: number | null | undefined
+): EventOutcomePoint[] {
+  return eventOutcomeCurve(
+    points,
+    eventTime,
+    -EXERCISE_BASELINE_MINUTES,
+    exerciseWindowMinutes(durationMinutes)
+  );
+}
+
+/**
+ * Computes the glucose impact of an Exercise event from the readings around it;
+ * readings below `hypoThreshold` (mg/dL) count as lows
+ */
+export function analyzeExerciseImpact(
+  event: EventResponseDto,
+  points: GlucosePointDto[],
+  hypoThreshold: number
+): ExerciseImpact {
+  const duration = Math.max(0, event.durationMinutes ?? 0);
+  const curve = exerciseImpactCurve(points, event.eventTime, duration);
+  const before = curve.filter((point) => point.minutes <= 0);
+  const during = curve.filter((point) => point.minutes >= 0 && point.minutes <= duration);
+  const after = curve.filter((point) => point.minutes >= 0);
+  const delayed = after.filter((point) => point.minutes >= duration + DELAYED_HYPO_AFTER_MINUTES);
+
+  const startValue = mean(before.map((point) => point.value));
+  const lowestDuring = lowestOf(during);
+  const nadirPoint = lowestOf(after);
+  const firstDelayedHypo = delayed.find((point) => point.value < hypoThreshold);
+
+  return {
+    eventId: event.eventId,
+    eventTime: event.eventTime,
+    exerciseTypeId: event.exerciseTypeId ?? null,
+    durationMinutes: duration,
+    intensity: event.intensity || null,
+    startValue,
+    endValue: valueNear(after, duration),
+    dropDuring: startValue !== null && lowestDuring ? startValue - lowestDuring.value : null,
+    nadir: nadirPoint?.value ?? null,
+    minutesToNadir: nadirPoint ? Math.round(nadirPoint.minutes) : null,
+    maxDrop: startValue !== null && nadirPoint ? startValue - nadirPoint.value : null,
+    lowDuring: during.some((point) => point.value < hypoThreshold),
+    delayedHypo: firstDelayedHypo !== undefined,
+    minutesToDelayedHypo: firstDelayedHypo ? Math.round(firstDelayedHypo.minutes - duration) : null,
+    complete: startValue !== null && coversWindow(after, exerciseWindowMinutes(duration)),
+    curve
+  };
+}
+
+/**
+ * Aggregated impact per exercise type or intensity, in option order; sessions without
+ * a type or intensity are grouped last. Averages skip sessions missing that metric.
+ */
+export function summarizeExerciseImpacts(
+  sessions: ExerciseImpact[],
+  grouping: ExerciseGrouping
+): ExerciseImpactSummary[] {
+  return groupSessions(sessions, grouping).map(({ key, label, items }) => {
+    const delayedHypos = items.filter((session) => session.delayedHypo).length;
+    return {
+      key,
+      label,
+      sessions: items.length,
+      averageDuration: averageOf(items, (session) => session.durationMinutes),
+      averageDropDuring: averageOf(items, (session) => session.dropDuring),
+      averageMaxDrop: averageOf(items, (session) => session.maxDrop),
+      averageNadir: averageOf(items, (session) => session.nadir),
+      lowsDuring: items.filter((session) => session.lowDuring).length,
+      delayedHypos,
+      delayedHypoRate: items.length > 0 ? (delayedHypos / items.length) * 100 : null
+    };
+  });
+}
+
+/**
+ * Sessions, average largest drop and delayed hypos for each week from start to end
+ */
+export function weeklyExerciseTrend(
+  sessions: ExerciseImpact[],
+  start: Date,
+  end: Date
+): ExerciseWeekTrend[] {
+  return splitByWeek(sessions, start, end).map(({ weekStart, items: inWeek }) => ({
+    weekStart,
+    sessions: inWeek.length,
+    averageMaxDrop: averageOf(inWeek, (session) => session.maxDrop),
+    delayedHypos: inWeek.filter((session) => session.delayedHypo).length
+  }));
+}
+
+/**
+ * Label of an exercise type ID, or null when it is unknown
+ */
+export function exerciseTypeLabel(id: number | null | undefined): string | null {
+  return EXERCISE_TYPE_OPTIONS.find((option) => option.id === id)?.label ?? null;
+}
+
+function lowestOf(points: EventOutcomePoint[]): EventOutcomePoint | null {
+  return points.reduce<EventOutcomePoint | null>(
+    (lowest, point) => (!lowest || point.value < lowest.value ? point : lowest),
+    null
+  );
+}
+
+function groupSessions(
+  sessions: ExerciseImpact[],
+  grouping: ExerciseGrouping
+): { key: string; label: string; items: ExerciseImpact[] }[] {
+  if (grouping === 'exerciseType') {
+    return groupByOption(
+      sessions,
+      EXERCISE_TYPE_OPTIONS.map((option) => ({ key: String(option.id), label: option.label })),
+      (session) => String(session.exerciseTypeId),
+      $localize`:@@exerciseInsights.group.noType:No type`
+    );
+  }
+  return groupByOption(
+    sessions,
+    EXERCISE_INTENSITIES.map((intensity) => ({ key: intensity, label: intensity })),
+    (session) => session.intensity,
+    $localize`:@@exerciseInsights.group.noIntensity:No intensity`
+  );
+}
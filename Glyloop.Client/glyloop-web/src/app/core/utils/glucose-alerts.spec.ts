@@ -0,0 +1,108 @@
+/**
+ * Unit tests for glucose alert rule evaluation
+ */
+
+import { AlertRule } from '../models/alerts.types';
+import { GlucosePointDto } from '../models/dashboard.types';
+import {
+  DEFAULT_ALERT_SETTINGS,
+  evaluateAlertRules,
+  isAlertRuleSilenced,
+  isWithinQuietHours,
+  latestGlucoseReading,
+  normalizeAlertSettings
+} from './glucose-alerts';
+
+const NOW = new Date('2025-03-01T12:00:00Z');
+
+function reading(minutesAgo: number, value: number | null, trend?: string): GlucosePointDto {
+  return {
+    timestamp: new Date(NOW.getTime() - minutesAgo * 60000).toISOString(),
+    value,
+    trend
+  };
+}
+
+function rules(changes: Partial<AlertRule> = {}): AlertRule[] {
+  return DEFAULT_ALERT_SETTINGS.rules.map((rule) => ({ ...rule, ...changes }));
+}
+
+describe('glucose-alerts', () => {
+  it('should pick the latest reading with a value', () => {
+    const points = [reading(10, 100), reading(0, null), reading(5, 110), reading(15, 90)];
+
+    expect(latestGlucoseReading(points)?.value).toBe(110);
+    expect(latestGlucoseReading([reading(0, null)])).toBeNull();
+  });
+
+  it('should raise urgent low instead of low for a very low reading', () => {
+    const triggers = evaluateAlertRules(rules(), reading(2, 50, 'singleDown'), NOW);
+
+    expect(triggers.map((trigger) => trigger.kind)).toEqual(['urgentLow', 'fallingFast']);
+    expect(triggers[0]).toEqual({
+      kind: 'urgentLow',
+      severity: 'urgent',
+      value: 50,
+      readingTime: reading(2, 50).timestamp
+    });
+  });
+
+  it('should keep the low alert silent while urgent low is snoozed', () => {
+    const snoozed = rules().map((rule) =>
+      rule.kind === 'urgentLow' ? { ...rule, snoozedUntil: '2025-03-01T12:10:00Z' } : rule
+    );
+
+    expect(evaluateAlertRules(snoozed, reading(2, 50), NOW)).toEqual([]);
+    expect(evaluateAlertRules(snoozed, reading(2, 65), NOW).map((t) => t.kind)).toEqual(['low']);
+  });
+
+  it('should raise no data instead of level alerts once readings stop', () => {
+    expect(evaluateAlertRules(rules(), reading(25, 300, 'doubleUp'), NOW)).toEqual([
+      { kind: 'noData', severity: 'warning', value: null, readingTime: reading(25, 0).timestamp }
+    ]);
+    expect(evaluateAlertRules(rules(), reading(5, 150, 'flat'), NOW)).toEqual([]);
+    expect(evaluateAlertRules(rules(), null, NOW)).toEqual([]);
+  });
+
+  it('should treat quiet hours that wrap past midnight', () => {
+    const quietHours = { enabled: true, start: '22:00', end: '07:00' };
+
+    expect(isWithinQuietHours(quietHours, new Date(2025, 2, 1, 23, 30))).toBe(true);
+    expect(isWithinQuietHours(quietHours, new Date(2025, 2, 1, 6, 59))).toBe(true);
+    expect(isWithinQuietHours(quietHours, new Date(2025, 2, 1, 7, 0))).toBe(false);
+    expect(isWithinQuietHours({ ...quietHours, enabled: false }, new Date(2025, 2, 1, 23))).toBe(
+      false
+    );
+  });
+
+  it('should silence disabled and snoozed rules until the snooze ends', () => {
+    const [rule] = rules({ snoozedUntil: '2025-03-01T12:30:00Z' });
+
+    expect(isAlertRuleSilenced(rule, NOW)).toBe(true);
+    expect(isAlertRuleSilenced(rule, new Date('2025-03-01T12:30:00Z'))).toBe(false);
+    expect(isAlertRuleSilenced({ ...rule, snoozedUntil: null, enabled: false }, NOW)).toBe(true);
+  });
+
+  it('should fill missing or invalid stored settings from the defaults', () => {
+    const settings = normalizeAlertSettings({
+      notificationsEnabled: true,
+      rules: [
+        { kind: 'low', enabled: false, threshold: 75, quietHours: { enabled: true, start: 'x' } }
+      ]
+    });
+
+    expect(settings.notificationsEnabled).toBe(true);
+    expect(settings.rules.map((rule) => rule.kind)).toEqual(
+      DEFAULT_ALERT_SETTINGS.rules.map((rule) => rule.kind)
+    );
+    expect(settings.rules[1]).toEqual({
+      kind: 'low',
+      enabled: false,
+      threshold: 75,
+      snoozeMinutes: 30,
+      snoozedUntil: null,
+      quietHours: { enabled: true, start: '22:00', end: '07:00' }
+    });
+    expect(normalizeAlertSettings(null)).toEqual(DEFAULT_ALERT_SETTINGS);
+  });
+});
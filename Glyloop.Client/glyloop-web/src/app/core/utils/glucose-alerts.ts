@@ -0,0 +1,194 @@
+/**
+ * Glucose alert rules: defaults, quiet hours/snooze checks and evaluation
+ * of the rules against the latest CGM reading.
+ */
+
+import {
+  AlertQuietHours,
+  AlertRule,
+  AlertRuleKind,
+  AlertSettings,
+  AlertSeverity,
+  AlertTrigger
+} from '../models/alerts.types';
+import { GlucosePointDto, GlucoseTrend } from '../models/dashboard.types';
+import { STALE_READING_MINUTES, normalizeTrend } from './glucose-trend';
+
+export const ALERT_SEVERITY: Record<AlertRuleKind, AlertSeverity> = {
+  urgentLow: 'urgent',
+  low: 'warning',
+  high: 'warning',
+  risingFast: 'warning',
+  fallingFast: 'warning',
+  noData: 'warning'
+};
+
+export const ALERT_RULE_LABELS: Record<AlertRuleKind, string> = {
+  urgentLow: $localize`:@@alerts.rule.urgentLow:Urgent low`,
+  low: $localize`:@@alerts.rule.low:Low`,
+  high: $localize`:@@alerts.rule.high:High`,
+  risingFast: $localize`:@@alerts.rule.risingFast:Rising fast`,
+  fallingFast: $localize`:@@alerts.rule.fallingFast:Falling fast`,
+  noData: $localize`:@@alerts.rule.noData:No data`
+};
+
+const RISING_FAST_TRENDS: GlucoseTrend[] = ['singleUp', 'doubleUp'];
+const FALLING_FAST_TRENDS: GlucoseTrend[] = ['singleDown', 'doubleDown'];
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const DEFAULT_QUIET_HOURS: AlertQuietHours = { enabled: false, start: '22:00', end: '07:00' };
+
+function defaultRule(kind: AlertRuleKind, threshold: number | null, snoozeMinutes = 30): AlertRule {
+  return {
+    kind,
+    enabled: true,
+    threshold,
+    snoozeMinutes,
+    snoozedUntil: null,
+    quietHours: { ...DEFAULT_QUIET_HOURS }
+  };
+}
+
+export const DEFAULT_ALERT_SETTINGS: AlertSettings = {
+  notificationsEnabled: false,
+  rules: [
+    defaultRule('urgentLow', 54, 15),
+    defaultRule('low', 70),
+    defaultRule('high', 250, 60),
+    defaultRule('risingFast', null),
+    defaultRule('fallingFast', null),
+    defaultRule('noData', 20, 60)
+  ]
+};
+
+/**
+ * Settings read from storage merged onto the defaults, one rule per kind in display order
+ */
+export function normalizeAlertSettings(stored: unknown): AlertSettings {
+  const value = (stored ?? {}) as Partial<AlertSettings>;
+  const storedRules = Array.isArray(value.rules) ? value.rules : [];
+
+  return {
+    notificationsEnabled: value.notificationsEnabled === true,
+    rules: DEFAULT_ALERT_SETTINGS.rules.map((rule) => {
+      const saved = storedRules.find((item) => item?.kind === rule.kind);
+      if (!saved) return { ...rule, quietHours: { ...rule.quietHours } };
+
+      const quiet = saved.quietHours ?? rule.quietHours;
+      return {
+        kind: rule.kind,
+        enabled: saved.enabled !== false,
+        threshold:
+          rule.threshold === null || typeof saved.threshold !== 'number'
+            ? rule.threshold
+            : saved.threshold,
+        snoozeMinutes:
+          typeof saved.snoozeMinutes === 'number' && saved.snoozeMinutes > 0
+            ? saved.snoozeMinutes
+            : rule.snoozeMinutes,
+        snoozedUntil: typeof saved.snoozedUntil === 'string' ? saved.snoozedUntil : null,
+        quietHours: {
+          enabled: quiet.enabled === true,
+          start: TIME_PATTERN.test(quiet.start) ? quiet.start : rule.quietHours.start,
+          end: TIME_PATTERN.test(quiet.end) ? quiet.end : rule.quietHours.end
+        }
+      };
+    })
+  };
+}
+
+function minutesOfDay(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Whether the local time falls inside the quiet hours (start inclusive, end exclusive)
+ */
+export function isWithinQuietHours(quietHours: AlertQuietHours, now = new Date()): boolean {
+  if (!quietHours.enabled) return false;
+
+  const start = minutesOfDay(quietHours.start);
+  const end = minutesOfDay(quietHours.end);
+  const current = now.getHours() * 60 + now.getMinutes();
+
+  if (start === end) return false;
+  return start < end ? current >= start && current < end : current >= start || current < end;
+}
+
+/**
+ * Whether a rule should not raise alerts right now (disabled, snoozed or in quiet hours)
+ */
+export function isAlertRuleSilenced(rule: AlertRule, now = new Date()): boolean {
+  if (!rule.enabled) return true;
+  if (rule.snoozedUntil && Date.parse(rule.snoozedUntil) > now.getTime()) return true;
+  return isWithinQuietHours(rule.quietHours, now);
+}
+
+/**
+ * Latest reading with a glucose value
+ */
+export function latestGlucoseReading(points: GlucosePointDto[]): GlucosePointDto | null {
+  let latest: GlucosePointDto | null = null;
+  for (const point of points) {
+    if (point.value === null) continue;
+    if (!latest || Date.parse(point.timestamp) > Date.parse(latest.timestamp)) {
+      latest = point;
+    }
+  }
+  return latest;
+}
+
+function isRuleConditionMet(
+  rule: AlertRule,
+  latest: GlucosePointDto,
+  minutesSinceReading: number
+): boolean {
+  // Level and trend rules only use a reading that is not stale
+  const current = minutesSinceReading <= STALE_READING_MINUTES && latest.value !== null;
+  const value = latest.value ?? 0;
+  const trend = normalizeTrend(latest.trend);
+
+  switch (rule.kind) {
+    case 'noData':
+      return rule.threshold !== null && minutesSinceReading >= rule.threshold;
+    case 'urgentLow':
+    case 'low':
+      return current && rule.threshold !== null && value <= rule.threshold;
+    case 'high':
+      return current && rule.threshold !== null && value >= rule.threshold;
+    case 'risingFast':
+      return current && !!trend && RISING_FAST_TRENDS.includes(trend);
+    case 'fallingFast':
+      return current && !!trend && FALLING_FAST_TRENDS.includes(trend);
+  }
+}
+
+/**
+ * Evaluates the rules against the latest reading. A low alert is left out while the
+ * urgent low condition covers it, then silenced rules are skipped. Urgent alerts come
+ * first. Nothing is raised before the first reading is known.
+ */
+export function evaluateAlertRules(
+  rules: AlertRule[],
+  latest: GlucosePointDto | null,
+  now = new Date()
+): AlertTrigger[] {
+  if (!latest) return [];
+
+  const minutesSinceReading = (now.getTime() - Date.parse(latest.timestamp)) / 60000;
+  const met = rules.filter((rule) => isRuleConditionMet(rule, latest, minutesSinceReading));
+  const urgentLow = met.some((rule) => rule.kind === 'urgentLow');
+
+  return met
+    .filter((rule) => !(rule.kind === 'low' && urgentLow) && !isAlertRuleSilenced(rule, now))
+    .map(
+      (rule): AlertTrigger => ({
+        kind: rule.kind,
+        severity: ALERT_SEVERITY[rule.kind],
+        value: rule.kind === 'noData' ? null : latest.value,
+        readingTime: latest.timestamp
+      })
+    )
+    .sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'urgent' ? -1 : 1));
+}
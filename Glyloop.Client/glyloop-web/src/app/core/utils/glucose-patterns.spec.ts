@@ -0,0 +1,108 @@
+/**
+ * Unit tests for detecting recurring lows and highs by time of day
+ */
+
+import { DailyOverlayDay } from '../models/agp.types';
+import { GlucosePointDto } from '../models/dashboard.types';
+import { buildDailyOverlay } from './daily-overlay';
+import { detectGlucosePatterns, isDayInScope } from './glucose-patterns';
+
+const THRESHOLDS = { veryLow: 54, low: 70, high: 180, veryHigh: 250 };
+
+// March 2025 starts on a Saturday; 3..7 are weekdays. Local time, so day
+// boundaries do not depend on the machine's time zone.
+function readings(
+  day: number,
+  fromHour: number,
+  toHour: number,
+  value: (minute: number) => number
+): GlucosePointDto[] {
+  const points: GlucosePointDto[] = [];
+  for (let minute = fromHour * 60; minute < toHour * 60; minute += 5) {
+    const timestamp = new Date(2025, 2, day, 0, minute).toISOString();
+    points.push({ timestamp, value: value(minute) });
+  }
+  return points;
+}
+
+function days(count: number, build: (day: number) => GlucosePointDto[]): DailyOverlayDay[] {
+  return buildDailyOverlay(Array.from({ length: count }, (_, i) => build(i + 1)).flat());
+}
+
+describe('glucose-patterns', () => {
+  it('should report lows recurring on most nights', () => {
+    // Lows 02:30-03:00 on 4 of 7 nights, otherwise in range
+    const overlay = days(7, (day) =>
+      readings(day, 0, 24, (minute) => (day <= 4 && minute >= 150 && minute < 180 ? 62 - day : 120))
+    );
+    const patterns = detectGlucosePatterns(overlay, THRESHOLDS);
+
+    expect(patterns).toHaveLength(1);
+    expect(patterns[0]).toMatchObject({
+      kind: 'low',
+      scope: 'all',
+      threshold: 70,
+      startMinute: 120,
+      endMinute: 240,
+      daysObserved: 7
+    });
+    expect(patterns[0].occurrences.map((item) => item.dayKey)).toEqual([
+      '2025-03-04',
+      '2025-03-03',
+      '2025-03-02',
+      '2025-03-01'
+    ]);
+    expect(patterns[0].occurrences[0]).toMatchObject({
+      extremeValue: 58,
+      window: {
+        startTime: new Date(2025, 2, 4, 1, 30).toISOString(),
+        endTime: new Date(2025, 2, 4, 4, 30).toISOString()
+      }
+    });
+  });
+
+  it('should merge adjacent slots and limit highs to weekdays when weekends differ', () => {
+    // Highs 08:00-11:00 on weekdays only
+    const overlay = days(14, (day) => {
+      const weekend = new Date(2025, 2, day).getDay() % 6 === 0;
+      return readings(day, 6, 12, (minute) =>
+        !weekend && minute >= 480 && minute < 660 ? 270 : 140
+      );
+    });
+    const patterns = detectGlucosePatterns(overlay, THRESHOLDS);
+
+    expect(patterns).toHaveLength(1);
+    expect(patterns[0]).toMatchObject({
+      kind: 'high',
+      scope: 'weekdays',
+      startMinute: 480,
+      endMinute: 720,
+      daysObserved: 10
+    });
+    expect(patterns[0].occurrences).toHaveLength(10);
+  });
+
+  it('should ignore brief or rare excursions', () => {
+    const overlay = days(7, (day) =>
+      readings(day, 0, 6, (minute) => {
+        if (day <= 2 && minute >= 120 && minute < 180) return 60; // long, but only 2 nights
+        if (minute === 60) return 55; // every night, but one reading
+        return 110;
+      })
+    );
+
+    expect(detectGlucosePatterns(overlay, THRESHOLDS)).toEqual([]);
+  });
+
+  it('should split days into weekdays and weekends', () => {
+    const [saturday, monday] = buildDailyOverlay([
+      ...readings(1, 8, 9, () => 100),
+      ...readings(3, 8, 9, () => 100)
+    ]);
+
+    expect(isDayInScope(saturday, 'weekends')).toBe(true);
+    expect(isDayInScope(saturday, 'weekdays')).toBe(false);
+    expect(isDayInScope(monday, 'weekdays')).toBe(true);
+    expect(isDayInScope(monday, 'all')).toBe(true);
+  });
+});
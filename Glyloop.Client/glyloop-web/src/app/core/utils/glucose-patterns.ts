@@ -0,0 +1,202 @@
+/**
+ * Detection of lows and highs recurring at the same time of day across several days.
+ */
+
+import { DailyOverlayDay } from '../models/agp.types';
+import { ChartWindow, TirBandThresholds } from '../models/dashboard.types';
+import {
+  GlucosePattern,
+  GlucosePatternKind,
+  GlucosePatternOccurrence,
+  PatternDayScope
+} from '../models/pattern.types';
+import { CGM_READING_INTERVAL_MINUTES } from './glucose-stats';
+
+export const PATTERN_LOOKBACK_DAYS = 14;
+
+// Time-of-day slots compared across days
+export const PATTERN_BIN_MINUTES = 120;
+
+// A slot counts on a day with at least 15 minutes of readings past the threshold
+const MIN_EXCURSION_READINGS = 15 / CGM_READING_INTERVAL_MINUTES;
+
+// A pattern needs at least 3 days and 40% of the days with readings in that slot
+export const PATTERN_MIN_DAYS = 3;
+export const PATTERN_MIN_SHARE = 0.4;
+
+// Context shown around the pattern when opening an occurrence on the chart
+const WINDOW_PADDING_MINUTES = 30;
+
+const MINUTES_PER_DAY = 24 * 60;
+const BIN_COUNT = MINUTES_PER_DAY / PATTERN_BIN_MINUTES;
+
+interface BinDay {
+  day: DailyOverlayDay;
+  extremeValue: number | null; // null when the slot had readings but no excursion
+}
+
+/**
+ * Finds recurring lows (below the low bound) and highs (above the very high bound).
+ * Slots recurring on only weekdays or only weekends are reported for those days,
+ * the others for every day. Adjacent slots merge into one pattern.
+ * Lows come first, then the most frequent patterns.
+ */
+export function detectGlucosePatterns(
+  days: DailyOverlayDay[],
+  thresholds: TirBandThresholds
+): GlucosePattern[] {
+  const patterns = [
+    ...detectKind(days, 'low', thresholds.low),
+    ...detectKind(days, 'high', thresholds.veryHigh)
+  ];
+
+  return patterns.sort(
+    (a, b) =>
+      (a.kind === b.kind ? 0 : a.kind === 'low' ? -1 : 1) ||
+      b.occurrences.length - a.occurrences.length ||
+      a.startMinute - b.startMinute
+  );
+}
+
+/**
+ * Whether a day is on the given scope (weekends are Saturday and Sunday)
+ */
+export function isDayInScope(day: DailyOverlayDay, scope: PatternDayScope): boolean {
+  if (scope === 'all') return true;
+  const weekday = new Date(day.dayStart).getDay();
+  const weekend = weekday === 0 || weekday === 6;
+  return scope === 'weekends' ? weekend : !weekend;
+}
+
+function detectKind(
+  days: DailyOverlayDay[],
+  kind: GlucosePatternKind,
+  threshold: number
+): GlucosePattern[] {
+  const bins = Array.from({ length: BIN_COUNT }, (_, bin) => binDays(days, bin, kind, threshold));
+  const scopes = bins.map((bin) => binScope(bin));
+
+  const patterns: GlucosePattern[] = [];
+  let index = 0;
+  while (index < BIN_COUNT) {
+    const scope = scopes[index];
+    if (scope === null) {
+      index++;
+      continue;
+    }
+
+    let end = index + 1;
+    while (end < BIN_COUNT && scopes[end] === scope) end++;
+
+    patterns.push(buildPattern(bins.slice(index, end), kind, threshold, scope, index, end));
+    index = end;
+  }
+
+  return patterns;
+}
+
+// Days with readings in a slot, with the slot's extreme value when it had an excursion
+function binDays(
+  days: DailyOverlayDay[],
+  bin: number,
+  kind: GlucosePatternKind,
+  threshold: number
+): BinDay[] {
+  const start = bin * PATTERN_BIN_MINUTES;
+  const end = start + PATTERN_BIN_MINUTES;
+  const result: BinDay[] = [];
+
+  for (const day of days) {
+    const values = day.points
+      .filter((point) => point.minuteOfDay >= start && point.minuteOfDay < end)
+      .map((point) => point.value);
+    if (values.length === 0) continue;
+
+    const excursion = values.filter((value) =>
+      kind === 'low' ? value < threshold : value > threshold
+    );
+    const extremeValue =
+      excursion.length >= MIN_EXCURSION_READINGS
+        ? kind === 'low'
+          ? Math.min(...excursion)
+          : Math.max(...excursion)
+        : null;
+    result.push({ day, extremeValue });
+  }
+
+  return result;
+}
+
+// Weekdays or weekends when the slot recurs on only one of them, otherwise every day
+function binScope(bin: BinDay[]): PatternDayScope | null {
+  const weekdays = qualifies(bin, 'weekdays');
+  const weekends = qualifies(bin, 'weekends');
+  if (weekdays !== weekends) return weekdays ? 'weekdays' : 'weekends';
+  return weekdays || qualifies(bin, 'all') ? 'all' : null;
+}
+
+function qualifies(bin: BinDay[], scope: PatternDayScope): boolean {
+  const observed = bin.filter((entry) => isDayInScope(entry.day, scope));
+  const hits = observed.filter((entry) => entry.extremeValue !== null).length;
+  return hits >= PATTERN_MIN_DAYS && hits / observed.length >= PATTERN_MIN_SHARE;
+}
+
+function buildPattern(
+  bins: BinDay[][],
+  kind: GlucosePatternKind,
+  threshold: number,
+  scope: PatternDayScope,
+  startBin: number,
+  endBin: number
+): GlucosePattern {
+  const startMinute = startBin * PATTERN_BIN_MINUTES;
+  const endMinute = endBin * PATTERN_BIN_MINUTES;
+  const observed = new Set<string>();
+  const hits = new Map<string, GlucosePatternOccurrence>();
+
+  for (const entry of bins.flat()) {
+    if (!isDayInScope(entry.day, scope)) continue;
+    observed.add(entry.day.key);
+    if (entry.extremeValue === null) continue;
+
+    const existing = hits.get(entry.day.key);
+    const extremeValue = existing
+      ? kind === 'low'
+        ? Math.min(existing.extremeValue, entry.extremeValue)
+        : Math.max(existing.extremeValue, entry.extremeValue)
+      : entry.extremeValue;
+    hits.set(entry.day.key, {
+      dayKey: entry.day.key,
+      window: occurrenceWindow(entry.day, startMinute, endMinute),
+      extremeValue
+    });
+  }
+
+  return {
+    kind,
+    scope,
+    threshold,
+    startMinute,
+    endMinute,
+    occurrences: [...hits.values()].sort((a, b) => b.dayKey.localeCompare(a.dayKey)),
+    daysObserved: observed.size
+  };
+}
+
+// Local clock times on the day, so the window follows daylight saving changes
+function occurrenceWindow(
+  day: DailyOverlayDay,
+  startMinute: number,
+  endMinute: number
+): ChartWindow {
+  const at = (minute: number) => {
+    const date = new Date(day.dayStart);
+    date.setHours(0, minute, 0, 0);
+    return date.toISOString();
+  };
+
+  return {
+    startTime: at(startMinute - WINDOW_PADDING_MINUTES),
+    endTime: at(endMinute + WINDOW_PADDING_MINUTES)
+  };
+}
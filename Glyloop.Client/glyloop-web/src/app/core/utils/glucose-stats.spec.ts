@@ -0,0 +1,219 @@
+/**
+ * Unit tests for glucose statistics helpers
+ */
+
+import {
+  bloodGlucoseRiskIndices,
+  coefficientOfVariation,
+  dataCapturePercentage,
+  estimatedA1c,
+  glucoseManagementIndicator,
+  glucoseValues,
+  glucoseVariabilityStats,
+  mean,
+  meanAmplitudeOfGlycemicExcursions,
+  percentile,
+  standardDeviation,
+  tirBandBreakdown,
+  tirResponseBreakdown
+} from './glucose-stats';
+
+describe('glucose-stats', () => {
+  describe('glucoseValues', () => {
+    it('should skip gaps and non-finite values', () => {
+      const values = glucoseValues([
+        { timestamp: '2025-01-01T00:00:00Z', value: 100 },
+        { timestamp: '2025-01-01T00:05:00Z', value: null },
+        { timestamp: '2025-01-01T00:10:00Z', value: Number.NaN },
+        { timestamp: '2025-01-01T00:15:00Z', value: 120 }
+      ]);
+
+      expect(values).toEqual([100, 120]);
+    });
+  });
+
+  describe('mean and standardDeviation', () => {
+    it('should return null for an empty set', () => {
+      expect(mean([])).toBeNull();
+      expect(standardDeviation([])).toBeNull();
+    });
+
+    it('should compute population statistics', () => {
+      const values = [2, 4, 4, 4, 5, 5, 7, 9];
+
+      expect(mean(values)).toBe(5);
+      expect(standardDeviation(values)).toBe(2);
+    });
+  });
+
+  describe('percentile', () => {
+    it('should interpolate between closest ranks', () => {
+      const sorted = [10, 20, 30, 40, 50];
+
+      expect(percentile(sorted, 0)).toBe(10);
+      expect(percentile(sorted, 50)).toBe(30);
+      expect(percentile(sorted, 100)).toBe(50);
+      expect(percentile(sorted, 25)).toBe(20);
+      expect(percentile(sorted, 5)).toBeCloseTo(12);
+    });
+
+    it('should handle empty and single-value sets', () => {
+      expect(percentile([], 50)).toBeNull();
+      expect(percentile([42], 95)).toBe(42);
+    });
+  });
+
+  describe('coefficientOfVariation', () => {
+    it('should return SD as a percentage of the mean', () => {
+      expect(coefficientOfVariation([2, 4, 4, 4, 5, 5, 7, 9])).toBeCloseTo(40);
+    });
+
+    it('should return null when the mean is zero', () => {
+      expect(coefficientOfVariation([0, 0])).toBeNull();
+    });
+  });
+
+  describe('glucoseManagementIndicator', () => {
+    it('should follow the published GMI formula', () => {
+      expect(glucoseManagementIndicator(154)).toBeCloseTo(6.99, 2);
+      expect(glucoseManagementIndicator(null)).toBeNull();
+    });
+  });
+
+  describe('estimatedA1c', () => {
+    it('should follow the ADAG formula', () => {
+      expect(estimatedA1c(154)).toBeCloseTo(6.99, 2);
+      expect(estimatedA1c(null)).toBeNull();
+    });
+  });
+
+  describe('meanAmplitudeOfGlycemicExcursions', () => {
+    it('should average excursions larger than 1 SD and ignore smaller swings', () => {
+      expect(meanAmplitudeOfGlycemicExcursions([100, 105, 100, 200, 195, 200, 100])).toBe(100);
+    });
+
+    it('should only count excursions in the direction of the first one', () => {
+      // Rises of 100 and 60 average 80; the falls are skipped
+      expect(meanAmplitudeOfGlycemicExcursions([100, 200, 100, 160, 100])).toBe(80);
+      expect(meanAmplitudeOfGlycemicExcursions([200, 100, 180, 100])).toBe(90);
+    });
+
+    it('should return null for flat or empty series', () => {
+      expect(meanAmplitudeOfGlycemicExcursions([120, 120, 120])).toBeNull();
+      expect(meanAmplitudeOfGlycemicExcursions([])).toBeNull();
+    });
+  });
+
+  describe('bloodGlucoseRiskIndices', () => {
+    it('should split the symmetrized risk around 112.5 mg/dL', () => {
+      expect(bloodGlucoseRiskIndices([112.5]).lbgi).toBeCloseTo(0, 2);
+      expect(bloodGlucoseRiskIndices([54]).lbgi).toBeCloseTo(18.5, 0);
+      expect(bloodGlucoseRiskIndices([300]).hbgi).toBeCloseTo(34, 0);
+      expect(bloodGlucoseRiskIndices([54, 300])).toEqual({
+        lbgi: expect.closeTo(9.25, 0),
+        hbgi: expect.closeTo(17, 0)
+      });
+    });
+
+    it('should return nulls without readings', () => {
+      expect(bloodGlucoseRiskIndices([])).toEqual({ lbgi: null, hbgi: null });
+    });
+  });
+
+  describe('glucoseVariabilityStats', () => {
+    const start = Date.parse('2025-01-01T00:00:00Z');
+
+    it('should compute statistics over readings sorted by time', () => {
+      const stats = glucoseVariabilityStats(
+        [
+          { timestamp: '2025-01-01T00:10:00Z', value: 100 },
+          { timestamp: '2025-01-01T00:00:00Z', value: 200 },
+          { timestamp: '2025-01-01T00:05:00Z', value: null },
+          { timestamp: '2025-01-01T00:15:00Z', value: 120 }
+        ],
+        start,
+        start + 60 * 60 * 1000
+      );
+
+      expect(stats.mean).toBeCloseTo(140);
+      expect(stats.median).toBe(120);
+      expect(stats.totalReadings).toBe(3);
+      expect(stats.dataCapturePercentage).toBe(25);
+      expect(stats.mage).toBe(100);
+      expect(stats.sufficientData).toBe(false);
+    });
+
+    it('should require 14 days with 70% capture for sufficient data', () => {
+      const days = 14;
+      const readings = Array.from({ length: (days * 24 * 60) / 5 }, (_, i) => ({
+        timestamp: new Date(start + i * 5 * 60000).toISOString(),
+        value: 120
+      }));
+
+      const stats = glucoseVariabilityStats(readings, start, start + days * 24 * 60 * 60000);
+
+      expect(stats.windowDays).toBe(14);
+      expect(stats.sufficientData).toBe(true);
+    });
+  });
+
+  describe('dataCapturePercentage', () => {
+    const start = Date.parse('2025-01-01T00:00:00Z');
+
+    it('should compare readings with the expected 5-minute cadence', () => {
+      const end = start + 60 * 60 * 1000; // 1 hour = 12 expected readings
+
+      expect(dataCapturePercentage(6, start, end)).toBe(50);
+    });
+
+    it('should cap at 100% and handle empty windows', () => {
+      const end = start + 60 * 60 * 1000;
+
+      expect(dataCapturePercentage(20, start, end)).toBe(100);
+      expect(dataCapturePercentage(5, start, start)).toBe(0);
+    });
+  });
+
+  describe('tirBandBreakdown', () => {
+    const thresholds = { veryLow: 54, low: 70, high: 180, veryHigh: 250 };
+
+    it('should place boundary values in the consensus bands', () => {
+      const breakdown = tirBandBreakdown([53, 54, 69, 70, 180, 181, 250, 251], thresholds);
+
+      expect(breakdown.bands.map((band) => band.readings)).toEqual([1, 2, 2, 2, 1]);
+      expect(breakdown.totalReadings).toBe(8);
+      expect(breakdown.bands[2].percentage).toBe(25);
+    });
+
+    it('should report zero percentages without readings', () => {
+      const breakdown = tirBandBreakdown([], thresholds);
+
+      expect(breakdown.bands.every((band) => band.percentage === 0)).toBe(true);
+    });
+  });
+
+  describe('tirResponseBreakdown', () => {
+    it('should split the three-band counts with the very low and very high subsets', () => {
+      const breakdown = tirResponseBreakdown({
+        timeInRangePercentage: 25,
+        totalReadings: 8,
+        readingsInRange: 2,
+        readingsBelowRange: 3,
+        readingsAboveRange: 3,
+        readingsVeryLow: 1,
+        readingsVeryHigh: 1,
+        targetLowerBound: 70,
+        targetUpperBound: 180,
+        veryLowBound: 54,
+        veryHighBound: 250
+      });
+
+      expect(breakdown!.bands.map((band) => band.readings)).toEqual([1, 2, 2, 2, 1]);
+      expect(breakdown!.thresholds).toEqual({ veryLow: 54, low: 70, high: 180, veryHigh: 250 });
+    });
+
+    it('should return null without readings', () => {
+      expect(tirResponseBreakdown(null)).toBeNull();
+    });
+  });
+});
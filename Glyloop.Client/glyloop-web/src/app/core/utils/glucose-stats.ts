@@ -0,0 +1,299 @@
+import {
+  GlucosePointDto,
+  GlucoseVariabilityStats,
+  TimeInRangeResponseDto,
+  TirBandBreakdown,
+  TirBandKey,
+  TirBandThresholds
+} from '../models/dashboard.types';
+
+/**
+ * Pure glucose statistics helpers shared by reports and summary panels.
+ * All inputs and outputs are in mg/dL unless stated otherwise.
+ */
+
+/** Expected CGM sampling interval (Dexcom reports every 5 minutes) */
+export const CGM_READING_INTERVAL_MINUTES = 5;
+
+/** Consensus minimum for GMI and variability reports: 14 days with 70% of readings */
+export const SUFFICIENT_DATA_DAYS = 14;
+export const SUFFICIENT_DATA_CAPTURE_PERCENTAGE = 70;
+
+/**
+ * Extracts finite glucose values from a series, skipping gaps (null values)
+ */
+export function glucoseValues(points: GlucosePointDto[]): number[] {
+  return points
+    .map((point) => point.value)
+    .filter((value): value is number => typeof value === 'number' && Number.isFinite(value));
+}
+
+/**
+ * Arithmetic mean; null for an empty set
+ */
+export function mean(values: number[]): number | null {
+  if (values.length === 0) return null;
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+/**
+ * Population standard deviation; null for an empty set
+ */
+export function standardDeviation(values: number[]): number | null {
+  const avg = mean(values);
+  if (avg === null) return null;
+
+  const variance = values.reduce((sum, value) => sum + (value - avg) ** 2, 0) / values.length;
+  return Math.sqrt(variance);
+}
+
+/**
+ * Percentile (0-100) using linear interpolation between closest ranks.
+ * Expects values sorted ascending.
+ */
+export function percentile(sortedValues: number[], p: number): number | null {
+  if (sortedValues.length === 0) return null;
+  if (sortedValues.length === 1) return sortedValues[0];
+
+  const rank = (Math.min(Math.max(p, 0), 100) / 100) * (sortedValues.length - 1);
+  const lowerIndex = Math.floor(rank);
+  const upperIndex = Math.ceil(rank);
+  const weight = rank - lowerIndex;
+
+  return sortedValues[lowerIndex] + (sortedValues[upperIndex] - sortedValues[lowerIndex]) * weight;
+}
+
+/**
+ * Coefficient of variation in percent (SD / mean × 100)
+ */
+export function coefficientOfVariation(values: number[]): number | null {
+  const avg = mean(values);
+  const sd = standardDeviation(values);
+  if (avg === null || sd === null || avg === 0) return null;
+  return (sd / avg) * 100;
+}
+
+/**
+ * Glucose Management Indicator in percent, from mean glucose in mg/dL
+ * (Bergenstal et al., 2018: GMI = 3.31 + 0.02392 × mean)
+ */
+export function glucoseManagementIndicator(meanGlucose: number | null): number | null {
+  if (meanGlucose === null) return null;
+  return 3.31 + 0.02392 * meanGlucose;
+}
+
+/**
+ * Estimated A1c in percent from mean glucose in mg/dL
+ * (Nathan et al., 2008 ADAG: eA1c = (mean + 46.7) / 28.7)
+ */
+export function estimatedA1c(meanGlucose: number | null): number | null {
+  if (meanGlucose === null) return null;
+  return (meanGlucose + 46.7) / 28.7;
+}
+
+/**
+ * Mean Amplitude of Glycemic Excursions (Service et al., 1970).
+ * Peaks and nadirs are confirmed once glucose moves back by more than 1 SD; the
+ * amplitudes of excursions above 1 SD in the direction of the first one are averaged.
+ * Expects values in time order; null when there is no such excursion.
+ */
+export function meanAmplitudeOfGlycemicExcursions(values: number[]): number | null {
+  const sd = standardDeviation(values);
+  if (sd === null || sd === 0) return null;
+
+  const rises: number[] = [];
+  const falls: number[] = [];
+  let firstDirection = 0;
+  let direction = 0;
+  let lastExtreme = values[0];
+  let candidate = values[0];
+  let runMin = values[0];
+  let runMax = values[0];
+
+  const record = (amplitude: number, rising: boolean): void => {
+    if (amplitude <= sd) return;
+    if (firstDirection === 0) firstDirection = rising ? 1 : -1;
+    (rising ? rises : falls).push(amplitude);
+  };
+
+  for (const value of values) {
+    if (direction === 0) {
+      runMin = Math.min(runMin, value);
+      runMax = Math.max(runMax, value);
+      if (value - runMin > sd) {
+        direction = 1;
+        lastExtreme = runMin;
+        candidate = value;
+      } else if (runMax - value > sd) {
+        direction = -1;
+        lastExtreme = runMax;
+        candidate = value;
+      }
+    } else if (direction === 1) {
+      if (value > candidate) {
+        candidate = value;
+      } else if (candidate - value > sd) {
+        record(candidate - lastExtreme, true);
+        lastExtreme = candidate;
+        candidate = value;
+        direction = -1;
+      }
+    } else if (value < candidate) {
+      candidate = value;
+    } else if (value - candidate > sd) {
+      record(lastExtreme - candidate, false);
+      lastExtreme = candidate;
+      candidate = value;
+      direction = 1;
+    }
+  }
+
+  // The last excursion counts once it has moved by more than 1 SD
+  if (direction !== 0) record(Math.abs(candidate - lastExtreme), direction === 1);
+
+  return mean(firstDirection >= 0 ? rises : falls);
+}
+
+/**
+ * Low and High Blood Glucose Indices (Kovatchev et al.): means of the
+ * symmetrized risk of each reading below and above 112.5 mg/dL
+ */
+export function bloodGlucoseRiskIndices(values: number[]): {
+  lbgi: number | null;
+  hbgi: number | null;
+} {
+  const readings = values.filter((value) => value > 0);
+  if (readings.length === 0) return { lbgi: null, hbgi: null };
+
+  let low = 0;
+  let high = 0;
+  for (const value of readings) {
+    const f = 1.509 * (Math.log(value) ** 1.084 - 5.381);
+    const risk = 10 * f * f;
+    if (f < 0) low += risk;
+    else high += risk;
+  }
+
+  return { lbgi: low / readings.length, hbgi: high / readings.length };
+}
+
+/**
+ * Percentage of expected CGM readings actually received within a window
+ */
+export function dataCapturePercentage(
+  readingsCount: number,
+  windowStartMs: number,
+  windowEndMs: number
+): number {
+  const windowMinutes = (windowEndMs - windowStartMs) / 60000;
+  if (windowMinutes <= 0) return 0;
+
+  const expectedReadings = Math.floor(windowMinutes / CGM_READING_INTERVAL_MINUTES);
+  if (expectedReadings === 0) return 0;
+
+  return Math.min(100, (readingsCount / expectedReadings) * 100);
+}
+
+/**
+ * Five-band TIR bucket of a reading: below veryLow, veryLow..<low,
+ * low..high (inclusive), >high..veryHigh, above veryHigh
+ */
+export function tirBandFor(value: number, thresholds: TirBandThresholds): TirBandKey {
+  if (value < thresholds.veryLow) return 'veryLow';
+  if (value < thresholds.low) return 'low';
+  if (value <= thresholds.high) return 'inRange';
+  if (value <= thresholds.veryHigh) return 'high';
+  return 'veryHigh';
+}
+
+/**
+ * Counts readings per five-band TIR bucket
+ */
+export function tirBandBreakdown(values: number[], thresholds: TirBandThresholds): TirBandBreakdown {
+  const counts: Record<TirBandKey, number> = { veryLow: 0, low: 0, inRange: 0, high: 0, veryHigh: 0 };
+
+  for (const value of values) {
+    counts[tirBandFor(value, thresholds)]++;
+  }
+
+  return buildTirBandBreakdown(counts, thresholds);
+}
+
+/**
+ * Builds a breakdown with percentages from per-band reading counts
+ */
+export function buildTirBandBreakdown(
+  counts: Record<TirBandKey, number>,
+  thresholds: TirBandThresholds
+): TirBandBreakdown {
+  const keys: TirBandKey[] = ['veryLow', 'low', 'inRange', 'high', 'veryHigh'];
+  const totalReadings = keys.reduce((sum, key) => sum + counts[key], 0);
+
+  return {
+    bands: keys.map((key) => ({
+      key,
+      readings: counts[key],
+      percentage: totalReadings > 0 ? (counts[key] / totalReadings) * 100 : 0
+    })),
+    totalReadings,
+    thresholds
+  };
+}
+
+/**
+ * Five-band breakdown from the counts of a TIR response (null when it has no readings)
+ */
+export function tirResponseBreakdown(tir: TimeInRangeResponseDto | null): TirBandBreakdown | null {
+  if (!tir || tir.totalReadings === 0) return null;
+
+  return buildTirBandBreakdown(
+    {
+      veryLow: tir.readingsVeryLow,
+      low: tir.readingsBelowRange - tir.readingsVeryLow,
+      inRange: tir.readingsInRange,
+      high: tir.readingsAboveRange - tir.readingsVeryHigh,
+      veryHigh: tir.readingsVeryHigh
+    },
+    {
+      veryLow: tir.veryLowBound,
+      low: tir.targetLowerBound,
+      high: tir.targetUpperBound,
+      veryHigh: tir.veryHighBound
+    }
+  );
+}
+
+/**
+ * Variability statistics of a series within a window: central tendency, spread,
+ * GMI/eA1c, MAGE, LBGI/HBGI and whether the window has enough data for them
+ */
+export function glucoseVariabilityStats(
+  points: GlucosePointDto[],
+  windowStartMs: number,
+  windowEndMs: number
+): GlucoseVariabilityStats {
+  const ordered = [...points].sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp));
+  const values = glucoseValues(ordered);
+  const sorted = [...values].sort((a, b) => a - b);
+  const meanGlucose = mean(values);
+  const { lbgi, hbgi } = bloodGlucoseRiskIndices(values);
+  const capture = dataCapturePercentage(values.length, windowStartMs, windowEndMs);
+  const windowDays = Math.max(0, windowEndMs - windowStartMs) / (24 * 60 * 60 * 1000);
+
+  return {
+    mean: meanGlucose,
+    median: percentile(sorted, 50),
+    standardDeviation: standardDeviation(values),
+    coefficientOfVariation: coefficientOfVariation(values),
+    gmi: glucoseManagementIndicator(meanGlucose),
+    estimatedA1c: estimatedA1c(meanGlucose),
+    mage: meanAmplitudeOfGlycemicExcursions(values),
+    lbgi,
+    hbgi,
+    dataCapturePercentage: capture,
+    windowDays,
+    totalReadings: values.length,
+    sufficientData:
+      windowDays >= SUFFICIENT_DATA_DAYS && capture >= SUFFICIENT_DATA_CAPTURE_PERCENTAGE
+  };
+}
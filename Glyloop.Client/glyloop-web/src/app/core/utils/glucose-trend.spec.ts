@@ -0,0 +1,52 @@
+/**
+ * Unit tests for trend arrows and the current reading summary
+ */
+
+import { GlucosePointDto } from '../models/dashboard.types';
+import { currentGlucoseReading, normalizeTrend, trendArrow } from './glucose-trend';
+
+const NOW = new Date('2025-03-01T12:00:00Z');
+
+function reading(minutesAgo: number, value: number | null, trend?: string): GlucosePointDto {
+  return {
+    timestamp: new Date(NOW.getTime() - minutesAgo * 60000).toISOString(),
+    value,
+    trend
+  };
+}
+
+describe('glucose-trend', () => {
+  it('should map API trends in any casing to arrows', () => {
+    expect(normalizeTrend('FortyFiveUp')).toBe('fortyFiveUp');
+    expect(trendArrow('doubleDown')).toBe('⇊');
+    expect(trendArrow('flat')).toBe('→');
+    expect(trendArrow('notComputable')).toBe('');
+    expect(trendArrow(null)).toBe('');
+  });
+
+  it('should summarize the latest reading with the change since the previous one', () => {
+    const points = [reading(10, 120), reading(5, 126, 'fortyFiveUp'), reading(0, null)];
+
+    expect(currentGlucoseReading(points, NOW)).toEqual({
+      timestamp: points[1].timestamp,
+      value: 126,
+      trend: 'fortyFiveUp',
+      deltaMgdl: 6,
+      minutesAgo: 5,
+      stale: false
+    });
+  });
+
+  it('should skip the delta across a gap and flag old readings as stale', () => {
+    const current = currentGlucoseReading([reading(60, 150), reading(20, 140, 'flat')], NOW);
+
+    expect(current?.deltaMgdl).toBeNull();
+    expect(current?.minutesAgo).toBe(20);
+    expect(current?.stale).toBe(true);
+  });
+
+  it('should return null without readings', () => {
+    expect(currentGlucoseReading([reading(0, null)], NOW)).toBeNull();
+    expect(currentGlucoseReading([], NOW)).toBeNull();
+  });
+});
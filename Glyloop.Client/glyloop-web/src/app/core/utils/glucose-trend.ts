@@ -0,0 +1,85 @@
+/**
+ * Glucose trend arrows and the current reading summary
+ * (latest value, change since the previous reading and its age).
+ */
+
+import {
+  CurrentGlucoseReading,
+  GlucosePointDto,
+  GlucoseTrend
+} from '../models/dashboard.types';
+
+/**
+ * Readings older than this are flagged as stale
+ */
+export const STALE_READING_MINUTES = 15;
+
+export const TREND_ARROWS: Record<GlucoseTrend, string> = {
+  doubleUp: '⇈',
+  singleUp: '↑',
+  fortyFiveUp: '↗',
+  flat: '→',
+  fortyFiveDown: '↘',
+  singleDown: '↓',
+  doubleDown: '⇊'
+};
+
+export const TREND_LABELS: Record<GlucoseTrend, string> = {
+  doubleUp: $localize`:@@glucose.trend.doubleUp:Rising quickly`,
+  singleUp: $localize`:@@glucose.trend.singleUp:Rising`,
+  fortyFiveUp: $localize`:@@glucose.trend.fortyFiveUp:Rising slowly`,
+  flat: $localize`:@@glucose.trend.flat:Steady`,
+  fortyFiveDown: $localize`:@@glucose.trend.fortyFiveDown:Falling slowly`,
+  singleDown: $localize`:@@glucose.trend.singleDown:Falling`,
+  doubleDown: $localize`:@@glucose.trend.doubleDown:Falling quickly`
+};
+
+const TRENDS = Object.keys(TREND_ARROWS) as GlucoseTrend[];
+
+/**
+ * Maps a trend from the API (any casing) to a known trend; null when it has no direction
+ */
+export function normalizeTrend(trend: string | null | undefined): GlucoseTrend | null {
+  const lower = trend?.toLowerCase();
+  return TRENDS.find((known) => known.toLowerCase() === lower) ?? null;
+}
+
+/**
+ * Arrow glyph for a trend, or an empty string when there is none
+ */
+export function trendArrow(trend: string | null | undefined): string {
+  const normalized = normalizeTrend(trend);
+  return normalized ? TREND_ARROWS[normalized] : '';
+}
+
+/**
+ * Summarizes the latest reading with a value. The delta is taken against the previous
+ * reading only when that one is at most 15 minutes older, so gaps do not produce jumps.
+ */
+export function currentGlucoseReading(
+  points: GlucosePointDto[],
+  now = new Date()
+): CurrentGlucoseReading | null {
+  const readings = points
+    .filter((point): point is GlucosePointDto & { value: number } => point.value !== null)
+    .map((point) => ({ ...point, epochMs: Date.parse(point.timestamp) }))
+    .filter((point) => Number.isFinite(point.epochMs))
+    .sort((a, b) => a.epochMs - b.epochMs);
+
+  const latest = readings[readings.length - 1];
+  if (!latest) return null;
+
+  const previous = readings[readings.length - 2];
+  const recentPrevious =
+    previous && latest.epochMs - previous.epochMs <= STALE_READING_MINUTES * 60000;
+  const minutesAgo = Math.max(0, Math.floor((now.getTime() - latest.epochMs) / 60000));
+
+  return {
+    timestamp: latest.timestamp,
+    value: latest.value,
+    trend: normalizeTrend(latest.trend),
+    deltaMgdl: recentPrevious ? latest.value - previous.value : null,
+    minutesAgo,
+    stale: minutesAgo > STALE_READING_MINUTES
+  };
+}
@@ -0,0 +1,59 @@
+/**
+ * Unit tests for glucose unit conversion helpers
+ */
+
+import {
+  formatGlucose,
+  formatGlucoseDelta,
+  formatGlucoseRange,
+  fromDisplayGlucose,
+  toDisplayGlucose
+} from './glucose-units';
+
+describe('glucose-units', () => {
+  describe('toDisplayGlucose', () => {
+    it('should round mg/dL to whole numbers', () => {
+      expect(toDisplayGlucose(123.6, 'mg/dL')).toBe(124);
+    });
+
+    it('should convert to mmol/L with one decimal', () => {
+      expect(toDisplayGlucose(70, 'mmol/L')).toBe(3.9);
+      expect(toDisplayGlucose(180, 'mmol/L')).toBe(10);
+      expect(toDisplayGlucose(54, 'mmol/L')).toBe(3);
+    });
+  });
+
+  describe('fromDisplayGlucose', () => {
+    it('should convert mmol/L input back to whole mg/dL', () => {
+      expect(fromDisplayGlucose(3.9, 'mmol/L')).toBe(70);
+      expect(fromDisplayGlucose(10, 'mmol/L')).toBe(180);
+    });
+
+    it('should round-trip the default target range', () => {
+      expect(fromDisplayGlucose(toDisplayGlucose(70, 'mmol/L'), 'mmol/L')).toBe(70);
+      expect(fromDisplayGlucose(toDisplayGlucose(180, 'mmol/L'), 'mmol/L')).toBe(180);
+    });
+  });
+
+  describe('formatGlucose', () => {
+    it('should keep the trailing decimal for mmol/L', () => {
+      expect(formatGlucose(180, 'mmol/L')).toBe('10.0 mmol/L');
+      expect(formatGlucose(180, 'mg/dL', false)).toBe('180');
+    });
+
+    it('should render a dash for missing values', () => {
+      expect(formatGlucose(null, 'mg/dL')).toBe('—');
+    });
+
+    it('should format ranges with a single unit suffix', () => {
+      expect(formatGlucoseRange(70, 180, 'mmol/L')).toBe('3.9-10.0 mmol/L');
+      expect(formatGlucoseRange(70, 180, 'mg/dL')).toBe('70-180 mg/dL');
+    });
+
+    it('should sign glucose changes in the display unit', () => {
+      expect(formatGlucoseDelta(6, 'mg/dL')).toBe('+6 mg/dL');
+      expect(formatGlucoseDelta(-5, 'mmol/L')).toBe('-0.3 mmol/L');
+      expect(formatGlucoseDelta(0.4, 'mg/dL')).toBe('±0 mg/dL');
+    });
+  });
+});
@@ -0,0 +1,79 @@
+import { GlucoseUnit } from '../models/settings.types';
+
+/**
+ * Glucose unit conversion and formatting.
+ * Values are stored and exchanged with the API in mg/dL; conversion to the
+ * user's display unit happens only at the presentation edge.
+ */
+
+/** mg/dL per mmol/L (molar mass of glucose / 10) */
+export const MGDL_PER_MMOLL = 18.0182;
+
+export const DEFAULT_GLUCOSE_UNIT: GlucoseUnit = 'mg/dL';
+
+/**
+ * Display precision: whole numbers for mg/dL, one decimal for mmol/L
+ */
+export function glucoseDecimals(unit: GlucoseUnit): number {
+  return unit === 'mmol/L' ? 1 : 0;
+}
+
+/**
+ * Rounds a value to the display precision of the unit
+ */
+export function roundGlucose(value: number, unit: GlucoseUnit): number {
+  const factor = 10 ** glucoseDecimals(unit);
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Converts an mg/dL value to the display unit, rounded for display
+ */
+export function toDisplayGlucose(mgdl: number, unit: GlucoseUnit): number {
+  return unit === 'mmol/L' ? roundGlucose(mgdl / MGDL_PER_MMOLL, unit) : Math.round(mgdl);
+}
+
+/**
+ * Converts an mg/dL value to the display unit without rounding (for plotting)
+ */
+export function toDisplayGlucoseExact(mgdl: number, unit: GlucoseUnit): number {
+  return unit === 'mmol/L' ? mgdl / MGDL_PER_MMOLL : mgdl;
+}
+
+/**
+ * Converts a value entered in the display unit back to whole mg/dL
+ */
+export function fromDisplayGlucose(value: number, unit: GlucoseUnit): number {
+  return unit === 'mmol/L' ? Math.round(value * MGDL_PER_MMOLL) : Math.round(value);
+}
+
+/**
+ * Formats an mg/dL value in the display unit, optionally with the unit suffix
+ */
+export function formatGlucose(
+  mgdl: number | null | undefined,
+  unit: GlucoseUnit,
+  withUnit = true
+): string {
+  if (typeof mgdl !== 'number' || !Number.isFinite(mgdl)) return '—';
+
+  const text = toDisplayGlucose(mgdl, unit).toFixed(glucoseDecimals(unit));
+  return withUnit ? `${text} ${unit}` : text;
+}
+
+/**
+ * Formats a target range such as "70-180 mg/dL" or "3.9-10.0 mmol/L"
+ */
+export function formatGlucoseRange(lowerMgdl: number, upperMgdl: number, unit: GlucoseUnit): string {
+  return `${formatGlucose(lowerMgdl, unit, false)}-${formatGlucose(upperMgdl, unit, false)} ${unit}`;
+}
+
+/**
+ * Formats a change in glucose with its sign, e.g. "+6 mg/dL" or "-0.3 mmol/L"
+ */
+export function formatGlucoseDelta(deltaMgdl: number, unit: GlucoseUnit): string {
+  const value = roundGlucose(toDisplayGlucoseExact(deltaMgdl, unit), unit);
+  const text = Math.abs(value).toFixed(glucoseDecimals(unit));
+  const sign = value > 0 ? '+' : value < 0 ? '-' : '±';
+  return `${sign}${text} ${unit}`;
+}
@@ -0,0 +1,124 @@
+/**
+ * Unit tests for accumulated history list helpers
+ */
+
+import { EventListItemDto, HistoryListState } from '../models/dashboard.types';
+import {
+  appendHistoryPages,
+  historyFilterKey,
+  insertHistoryItem,
+  matchesHistoryFilters,
+  removeHistoryItem,
+  toEventListItem
+} from './history-list';
+
+function item(eventId: string, minute: number): EventListItemDto {
+  return {
+    eventId,
+    eventType: 'Food',
+    eventTime: new Date(Date.UTC(2025, 0, 1, 12, minute)).toISOString(),
+    summary: '10g carbs'
+  };
+}
+
+function state(items: EventListItemDto[], totalItems: number): HistoryListState {
+  return {
+    items,
+    totalItems,
+    totalPages: Math.ceil(totalItems / 2),
+    loadedPages: Math.ceil(items.length / 2),
+    pageSize: 2,
+    removedSinceLoad: 0
+  };
+}
+
+describe('history-list', () => {
+  it('should key filter sets independently of page and type order', () => {
+    const a = historyFilterKey({ page: 1, pageSize: 50, types: ['Note', 'Food'] });
+    const b = historyFilterKey({ page: 3, pageSize: 50, types: ['Food', 'Note'] });
+
+    expect(a).toBe(b);
+    expect(a).not.toBe(historyFilterKey({ page: 1, pageSize: 50, search: 'pizza' }));
+  });
+
+  it('should match type, date range and search filters', () => {
+    const food = item('a', 0);
+
+    expect(matchesHistoryFilters(food, { page: 1, pageSize: 50, types: ['Food'] })).toBe(true);
+    expect(matchesHistoryFilters(food, { page: 1, pageSize: 50, types: ['Note'] })).toBe(false);
+    expect(
+      matchesHistoryFilters(food, { page: 1, pageSize: 50, fromDateUtc: '2025-01-02T00:00:00Z' })
+    ).toBe(false);
+    expect(matchesHistoryFilters(food, { page: 1, pageSize: 50, search: 'carbs' })).toBe(true);
+  });
+
+  it('should build summaries like the API', () => {
+    const row = toEventListItem({
+      eventId: 'x',
+      eventType: 'Insulin',
+      eventTime: '2025-01-01T12:00:00Z',
+      createdAt: '2025-01-01T12:00:00Z',
+      insulinUnits: 4.5,
+      insulinType: 'Fast'
+    });
+
+    expect(row.summary).toBe('4.5U Fast');
+  });
+
+  describe('appendHistoryPages', () => {
+    it('should skip rows already loaded after a page shift', () => {
+      const current = state([item('a', 50), item('b', 40)], 4);
+      const next = appendHistoryPages(
+        current,
+        [
+          {
+            items: [item('b', 40), item('c', 30)],
+            page: 2,
+            pageSize: 2,
+            totalItems: 4,
+            totalPages: 2
+          }
+        ],
+        2
+      );
+
+      expect(next.items.map((row) => row.eventId)).toEqual(['a', 'b', 'c']);
+      expect(next.loadedPages).toBe(2);
+    });
+  });
+
+  describe('insertHistoryItem', () => {
+    it('should insert newer events in order and count them', () => {
+      const next = insertHistoryItem(state([item('a', 50), item('b', 40)], 4), item('n', 45));
+
+      expect(next.items.map((row) => row.eventId)).toEqual(['a', 'n', 'b']);
+      expect(next.totalItems).toBe(5);
+      expect(next.totalPages).toBe(3);
+    });
+
+    it('should only count events older than the loaded rows while more pages exist', () => {
+      const next = insertHistoryItem(state([item('a', 50), item('b', 40)], 4), item('old', 1));
+
+      expect(next.items).toHaveLength(2);
+      expect(next.totalItems).toBe(5);
+    });
+
+    it('should move an updated event without changing the total', () => {
+      const current = state([item('a', 50), item('b', 40)], 2);
+      const next = insertHistoryItem(current, item('b', 55));
+
+      expect(next.items.map((row) => row.eventId)).toEqual(['b', 'a']);
+      expect(next.totalItems).toBe(2);
+    });
+  });
+
+  describe('removeHistoryItem', () => {
+    it('should drop the row and remember the shift for the next page', () => {
+      const next = removeHistoryItem(state([item('a', 50), item('b', 40)], 4), 'a');
+
+      expect(next.items.map((row) => row.eventId)).toEqual(['b']);
+      expect(next.totalItems).toBe(3);
+      expect(next.removedSinceLoad).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * Helpers for the accumulated (infinite scroll) event history: cache keys,
+ * filter matching and in-place page, insert and removal updates.
+ */
+
+import {
+  EventListItemDto,
+  EventResponseDto,
+  HistoryFilters,
+  HistoryListState,
+  PagedResponseDto
+} from '../models/dashboard.types';
+import { compareEventsNewestFirst, normalizeEventTypes } from './event-paging';
+import { matchesEventSearch, normalizeSearchQuery } from './event-search';
+
+/**
+ * Cache key for a filter set (the page number is not part of it)
+ */
+export function historyFilterKey(filters: HistoryFilters): string {
+  return JSON.stringify([
+    filters.fromDateUtc ?? null,
+    filters.toDateUtc ?? null,
+    normalizeEventTypes(filters.types) ?? null,
+    normalizeSearchQuery(filters.search)?.toLowerCase() ?? null,
+    filters.pageSize
+  ]);
+}
+
+/**
+ * Checks whether an event belongs in the history for the given filters
+ */
+export function matchesHistoryFilters(item: EventListItemDto, filters: HistoryFilters): boolean {
+  const time = Date.parse(item.eventTime);
+  const types = normalizeEventTypes(filters.types);
+  const search = normalizeSearchQuery(filters.search);
+
+  if (types && !types.includes(item.eventType)) return false;
+  if (filters.fromDateUtc && time < Date.parse(filters.fromDateUtc)) return false;
+  if (filters.toDateUtc && time > Date.parse(filters.toDateUtc)) return false;
+  return !search || matchesEventSearch(item, search);
+}
+
+/**
+ * Builds the list row for an event, mirroring the API's summary format
+ */
+export function toEventListItem(event: EventResponseDto): EventListItemDto {
+  return {
+    eventId: event.eventId,
+    eventType: event.eventType,
+    eventTime: event.eventTime,
+    summary: eventSummary(event),
+    note: event.note,
+    noteText: event.noteText
+  };
+}
+
+function eventSummary(event: EventResponseDto): string {
+  switch (event.eventType) {
+    case 'Food':
+      return `${event.carbohydratesGrams ?? 0}g carbs`;
+    case 'Insulin':
+      return `${event.insulinUnits ?? 0}U ${event.insulinType ?? ''}`.trim();
+    case 'Exercise':
+      return `${event.durationMinutes ?? 0}min`;
+    case 'Note': {
+      const text = event.noteText ?? event.note ?? '';
+      return text.length > 50 ? `${text.slice(0, 47)}...` : text;
+    }
+  }
+}
+
+/**
+ * Starts a history list from its first page
+ */
+export function createHistoryList(
+  response: PagedResponseDto<EventListItemDto>,
+  pageSize: number
+): HistoryListState {
+  return {
+    items: response.items,
+    totalItems: response.totalItems,
+    totalPages: response.totalPages,
+    loadedPages: 1,
+    pageSize,
+    removedSinceLoad: 0
+  };
+}
+
+/**
+ * Appends fetched pages, skipping events already in the list (pages shift
+ * by one whenever an event is inserted in place)
+ */
+export function appendHistoryPages(
+  state: HistoryListState,
+  responses: PagedResponseDto<EventListItemDto>[],
+  loadedPages: number
+): HistoryListState {
+  const known = new Set(state.items.map((item) => item.eventId));
+  const additions: EventListItemDto[] = [];
+  for (const item of responses.flatMap((response) => response.items)) {
+    if (known.has(item.eventId)) continue;
+    known.add(item.eventId);
+    additions.push(item);
+  }
+  const last = responses[responses.length - 1];
+
+  return {
+    ...state,
+    items: [...state.items, ...additions],
+    totalItems: last?.totalItems ?? state.totalItems,
+    totalPages: last?.totalPages ?? state.totalPages,
+    loadedPages,
+    removedSinceLoad: 0
+  };
+}
+
+/**
+ * Inserts an event at its newest-first position. Events older than the last
+ * loaded row are only counted; they arrive when the user scrolls that far.
+ */
+export function insertHistoryItem(
+  state: HistoryListState,
+  item: EventListItemDto
+): HistoryListState {
+  const items = state.items.filter((existing) => existing.eventId !== item.eventId);
+  const replaced = items.length !== state.items.length;
+  const index = items.findIndex((existing) => compareEventsNewestFirst(item, existing) < 0);
+  const hasMore = state.loadedPages < state.totalPages;
+  const totalItems = state.totalItems + (replaced ? 0 : 1);
+  const totalPages = Math.ceil(totalItems / state.pageSize);
+
+  if (index === -1 && hasMore) {
+    // A loaded row moving past the loaded range counts as a removal for paging
+    const removedSinceLoad = state.removedSinceLoad + (replaced ? 1 : 0);
+    return { ...state, items, totalItems, totalPages, removedSinceLoad };
+  }
+
+  items.splice(index === -1 ? items.length : index, 0, item);
+  return { ...state, items, totalItems, totalPages };
+}
+
+/**
+ * Removes an event from the loaded rows
+ */
+export function removeHistoryItem(state: HistoryListState, eventId: string): HistoryListState {
+  const items = state.items.filter((item) => item.eventId !== eventId);
+  if (items.length === state.items.length) return state;
+
+  const totalItems = Math.max(0, state.totalItems - 1);
+  return {
+    ...state,
+    items,
+    totalItems,
+    totalPages: Math.ceil(totalItems / state.pageSize),
+    removedSinceLoad: state.removedSinceLoad + 1
+  };
+}
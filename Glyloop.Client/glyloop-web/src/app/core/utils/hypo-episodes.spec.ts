@@ -0,0 +1,134 @@
+/**
+ * Unit tests for grouping low readings into hypoglycemia episodes
+ */
+
+import { GlucosePointDto } from '../models/dashboard.types';
+import {
+  detectHypoEpisodes,
+  normalizeHypoSettings,
+  normalizeHypoTreatments
+} from './hypo-episodes';
+
+const START = Date.parse('2025-03-01T02:00:00Z');
+
+// One reading every 5 minutes from 02:00 UTC
+function series(values: (number | null)[]): GlucosePointDto[] {
+  return values.map((value, i) => ({
+    timestamp: new Date(START + i * 5 * 60000).toISOString(),
+    value
+  }));
+}
+
+function at(minutes: number): string {
+  return new Date(START + minutes * 60000).toISOString();
+}
+
+describe('hypo-episodes', () => {
+  it('should group consecutive low readings into an episode ending at recovery', () => {
+    const [episode] = detectHypoEpisodes(series([90, 68, 60, 55, 62, 75, 90]), 70, 15);
+
+    expect(episode).toEqual({
+      id: at(5),
+      startTime: at(5),
+      endTime: at(25),
+      durationMinutes: 20,
+      nadir: 55,
+      nadirTime: at(15),
+      recoveryMinutes: 10,
+      ongoing: false,
+      treatmentEventIds: []
+    });
+  });
+
+  it('should skip episodes shorter than the minimum duration and return newest first', () => {
+    const points = series([65, 90, 60, 60, 60, 90, 50, 50, 50, 50]);
+
+    expect(detectHypoEpisodes(points, 70, 10).map((item) => item.startTime)).toEqual([
+      at(30),
+      at(10)
+    ]);
+    expect(detectHypoEpisodes(points, 70, 20).map((item) => item.startTime)).toEqual([at(30)]);
+  });
+
+  it('should end an episode at a data gap without a recovery and flag ongoing lows', () => {
+    const points = [
+      ...series([65, 62, 60]),
+      { timestamp: at(60), value: 64 },
+      { timestamp: at(65), value: 61 }
+    ];
+    const [ongoing, interrupted] = detectHypoEpisodes(points, 70, 5, {}, new Date(at(70)));
+
+    expect(interrupted).toMatchObject({
+      endTime: at(15),
+      durationMinutes: 15,
+      recoveryMinutes: null,
+      ongoing: false
+    });
+    expect(ongoing).toMatchObject({ startTime: at(60), durationMinutes: 10, ongoing: true });
+  });
+
+  it('should not flag a trailing low run as ongoing once its last reading is stale', () => {
+    const points = series([90, 65, 62, 60]);
+
+    expect(detectHypoEpisodes(points, 70, 5, {}, new Date(at(30)))[0].ongoing).toBe(true);
+    expect(detectHypoEpisodes(points, 70, 5, {}, new Date(at(35)))[0].ongoing).toBe(false);
+    expect(detectHypoEpisodes(points, 70, 5)[0].ongoing).toBe(false);
+  });
+
+  it('should list only the Food events linked to the episode as treatment', () => {
+    const [later, earlier] = detectHypoEpisodes(
+      series([90, 65, 60, 66, 80, 90, 64, 62, 80]),
+      70,
+      5,
+      {
+        [at(5)]: { endTime: at(20), eventIds: ['treat-1'] },
+        [at(-60)]: { endTime: at(-30), eventIds: ['other'] }
+      }
+    );
+
+    expect(earlier.treatmentEventIds).toEqual(['treat-1']);
+    expect(later.treatmentEventIds).toEqual([]);
+  });
+
+  it('should keep treatment links when the loaded window moves the detected start', () => {
+    // Linked while the window started mid-episode, at 02:10 (still low at 02:15)
+    const treatments = { [at(10)]: { endTime: at(20), eventIds: ['treat-1'] } };
+    const points = series([90, 65, 60, 55, 62, 80, 90]);
+
+    const [wider] = detectHypoEpisodes(points, 70, 5, treatments);
+    const [later] = detectHypoEpisodes(points.slice(3), 70, 5, treatments);
+
+    expect(wider).toMatchObject({ startTime: at(5), treatmentEventIds: ['treat-1'] });
+    expect(later).toMatchObject({ startTime: at(15), treatmentEventIds: ['treat-1'] });
+  });
+
+  it('should drop invalid and expired treatment links', () => {
+    const now = new Date('2025-06-01T00:00:00Z');
+
+    expect(
+      normalizeHypoTreatments(
+        {
+          '2025-05-30T08:00:00.000Z': {
+            endTime: '2025-05-30T08:30:00.000Z',
+            eventIds: ['a', '', 3]
+          },
+          '2025-01-01T08:00:00.000Z': { endTime: '2025-01-01T08:30:00.000Z', eventIds: ['old'] },
+          'not-a-date': { endTime: '2025-05-30T08:30:00.000Z', eventIds: ['b'] },
+          '2025-05-31T08:00:00.000Z': ['c'],
+          '2025-05-31T09:00:00.000Z': { eventIds: ['d'] }
+        },
+        now
+      )
+    ).toEqual({
+      '2025-05-30T08:00:00.000Z': { endTime: '2025-05-30T08:30:00.000Z', eventIds: ['a'] }
+    });
+    expect(normalizeHypoTreatments(['a'], now)).toEqual({});
+  });
+
+  it('should fall back to defaults for invalid saved settings', () => {
+    expect(normalizeHypoSettings({ minDurationMinutes: 7, showOnChart: false })).toEqual({
+      minDurationMinutes: 15,
+      showOnChart: false
+    });
+  });
+});
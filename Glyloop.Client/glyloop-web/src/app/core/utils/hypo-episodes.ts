@@ -0,0 +1,160 @@
+/**
+ * Groups low glucose readings into hypoglycemia episodes.
+ */
+
+import { GlucosePointDto } from '../models/dashboard.types';
+import {
+  HypoEpisode,
+  HypoSettings,
+  HypoTreatmentLink,
+  HypoTreatments
+} from '../models/hypo.types';
+import { CGM_READING_INTERVAL_MINUTES } from './glucose-stats';
+import { STALE_READING_MINUTES } from './glucose-trend';
+
+export const HYPO_MIN_DURATION_OPTIONS = [5, 10, 15, 20, 30] as const;
+
+export const DEFAULT_HYPO_SETTINGS: HypoSettings = {
+  minDurationMinutes: 15,
+  showOnChart: true
+};
+
+// Readings further apart than this end an episode without an observed recovery
+const MAX_GAP_MINUTES = 15;
+
+// Treatment links of older episodes are dropped
+export const HYPO_TREATMENT_RETENTION_DAYS = 90;
+
+const MINUTE_MS = 60 * 1000;
+
+interface TimedReading {
+  epochMs: number;
+  iso: string;
+  value: number;
+}
+
+/**
+ * Restores saved settings, falling back to the defaults for missing or invalid values
+ */
+export function normalizeHypoSettings(stored: unknown): HypoSettings {
+  const value = (stored ?? {}) as Partial<HypoSettings>;
+  return {
+    minDurationMinutes: (HYPO_MIN_DURATION_OPTIONS as readonly unknown[]).includes(
+      value.minDurationMinutes
+    )
+      ? (value.minDurationMinutes as number)
+      : DEFAULT_HYPO_SETTINGS.minDurationMinutes,
+    showOnChart:
+      typeof value.showOnChart === 'boolean' ? value.showOnChart : DEFAULT_HYPO_SETTINGS.showOnChart
+  };
+}
+
+/**
+ * Restores saved treatment links, dropping invalid entries and episodes older than
+ * the retention period
+ */
+export function normalizeHypoTreatments(stored: unknown, now = new Date()): HypoTreatments {
+  if (!stored || typeof stored !== 'object' || Array.isArray(stored)) return {};
+
+  const since = now.getTime() - HYPO_TREATMENT_RETENTION_DAYS * 24 * 60 * MINUTE_MS;
+  const treatments: HypoTreatments = {};
+  for (const [startTime, link] of Object.entries(stored)) {
+    const { endTime, eventIds } = (link ?? {}) as Partial<HypoTreatmentLink>;
+    if (!(Date.parse(startTime) >= since) || !Array.isArray(eventIds)) continue;
+    if (typeof endTime !== 'string' || !(Date.parse(endTime) >= Date.parse(startTime))) continue;
+    const ids = eventIds.filter((id): id is string => typeof id === 'string' && id !== '');
+    if (ids.length > 0) treatments[startTime] = { endTime, eventIds: ids };
+  }
+  return treatments;
+}
+
+/**
+ * Finds episodes of readings below the lower bound lasting at least the minimum duration.
+ * An episode ends at the first reading back at or above the bound; a data gap ends it
+ * without a recovery. A trailing episode is ongoing only while its last low reading is
+ * recent. Food events logged as an episode's treatment are listed with it.
+ * Episodes are returned newest first.
+ */
+export function detectHypoEpisodes(
+  points: GlucosePointDto[],
+  lowerBound: number,
+  minDurationMinutes: number,
+  treatments: HypoTreatments = {},
+  now = new Date()
+): HypoEpisode[] {
+  const readings = points
+    .filter((point) => typeof point.value === 'number' && Number.isFinite(point.value))
+    .map((point) => ({
+      epochMs: Date.parse(point.timestamp),
+      iso: point.timestamp,
+      value: point.value as number
+    }))
+    .filter((reading) => Number.isFinite(reading.epochMs))
+    .sort((a, b) => a.epochMs - b.epochMs);
+
+  const episodes: HypoEpisode[] = [];
+  let low: TimedReading[] = [];
+
+  const close = (recovery: TimedReading | null, ongoing: boolean) => {
+    if (low.length > 0) {
+      const episode = buildEpisode(low, recovery, ongoing, treatments);
+      if (episode.durationMinutes >= minDurationMinutes) episodes.push(episode);
+    }
+    low = [];
+  };
+
+  for (const reading of readings) {
+    const previous = low.at(-1);
+    if (previous && reading.epochMs - previous.epochMs > MAX_GAP_MINUTES * MINUTE_MS) {
+      close(null, false);
+    }
+
+    if (reading.value < lowerBound) {
+      low.push(reading);
+    } else {
+      close(reading, false);
+    }
+  }
+  const lastLow = low.at(-1);
+  close(null, !!lastLow && now.getTime() - lastLow.epochMs <= STALE_READING_MINUTES * MINUTE_MS);
+
+  return episodes.reverse();
+}
+
+function buildEpisode(
+  low: TimedReading[],
+  recovery: TimedReading | null,
+  ongoing: boolean,
+  treatments: HypoTreatments
+): HypoEpisode {
+  const start = low[0];
+  const nadir = low.reduce((lowest, reading) => (reading.value < lowest.value ? reading : lowest));
+  const endMs = recovery
+    ? recovery.epochMs
+    : (low.at(-1) as TimedReading).epochMs + CGM_READING_INTERVAL_MINUTES * MINUTE_MS;
+
+  return {
+    id: start.iso,
+    startTime: start.iso,
+    endTime: recovery ? recovery.iso : new Date(endMs).toISOString(),
+    durationMinutes: Math.round((endMs - start.epochMs) / MINUTE_MS),
+    nadir: nadir.value,
+    nadirTime: nadir.iso,
+    recoveryMinutes: recovery ? Math.round((recovery.epochMs - nadir.epochMs) / MINUTE_MS) : null,
+    ongoing,
+    treatmentEventIds: linkedTreatments(treatments, start.epochMs, endMs)
+  };
+}
+
+/**
+ * Food events of every saved link overlapping the episode
+ */
+function linkedTreatments(treatments: HypoTreatments, startMs: number, endMs: number): string[] {
+  const eventIds = new Set<string>();
+  for (const [startTime, link] of Object.entries(treatments)) {
+    if (Date.parse(startTime) < endMs && Date.parse(link.endTime) > startMs) {
+      link.eventIds.forEach((id) => eventIds.add(id));
+    }
+  }
+  return [...eventIds];
+}
@@ -0,0 +1,46 @@
+/**
+ * Unit tests for the localStorage helpers
+ */
+
+import { readStored, removeStored, writeStored } from './local-storage';
+
+const KEY = 'glyloop.test';
+
+describe('local-storage', () => {
+  afterEach(() => {
+    localStorage.clear();
+    jest.restoreAllMocks();
+  });
+
+  it('should read back a saved value through the normalizer', () => {
+    writeStored(KEY, { count: 2 }, 'test value');
+
+    expect(readStored(KEY, (stored) => stored)).toEqual({ count: 2 });
+  });
+
+  it('should normalize null when nothing valid is saved', () => {
+    const normalize = jest.fn(() => 'default');
+    localStorage.setItem(KEY, '{not json');
+
+    expect(readStored(KEY, normalize)).toBe('default');
+    expect(readStored('glyloop.missing', normalize)).toBe('default');
+    expect(normalize).toHaveBeenLastCalledWith(null);
+  });
+
+  it('should log storage errors instead of throwing', () => {
+    const error = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    jest.spyOn(Storage.prototype, 'setItem').mockImplementation(() => {
+      throw new Error('QuotaExceededError');
+    });
+
+    expect(() => writeStored(KEY, [1], 'test value')).not.toThrow();
+    expect(error).toHaveBeenCalledWith('Failed to save test value:', expect.any(Error));
+  });
+
+  it('should remove a saved value', () => {
+    writeStored(KEY, [1], 'test value');
+    removeStored(KEY, 'test value');
+
+    expect(localStorage.getItem(KEY)).toBeNull();
+  });
+});
@@ -0,0 +1,38 @@
+/**
+ * JSON values kept in localStorage (on this device only). Storage errors (quota,
+ * disabled storage, corrupt JSON) are logged or fall back to the normalized default.
+ */
+
+/**
+ * Reads a saved value through `normalize`, which also receives null when nothing
+ * valid is saved
+ */
+export function readStored<T>(key: string, normalize: (stored: unknown) => T): T {
+  try {
+    return normalize(JSON.parse(localStorage.getItem(key) ?? 'null'));
+  } catch {
+    return normalize(null);
+  }
+}
+
+/**
+ * Saves a value; `description` names it in the error log
+ */
+export function writeStored(key: string, value: unknown, description: string): void {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch (err) {
+    console.error(`Failed to save ${description}:`, err);
+  }
+}
+
+/**
+ * Removes a saved value; `description` names it in the error log
+ */
+export function removeStored(key: string, description: string): void {
+  try {
+    localStorage.removeItem(key);
+  } catch (err) {
+    console.error(`Failed to clear ${description}:`, err);
+  }
+}
@@ -0,0 +1,140 @@
+/**
+ * Unit tests for per-meal glucose response analysis and aggregation
+ */
+
+import { EventResponseDto, GlucosePointDto } from '../models/dashboard.types';
+import { MealResponse } from '../models/meal-analytics.types';
+import {
+  analyzeMealResponse,
+  mealResponseCurve,
+  summarizeMealResponses,
+  weeklyPeakRiseTrend
+} from './meal-response';
+
+const MEAL_TIME = '2025-03-01T12:00:00.000Z';
+
+function meal(changes: Partial<EventResponseDto> = {}): EventResponseDto {
+  return {
+    eventId: 'meal-1',
+    eventType: 'Food',
+    eventTime: MEAL_TIME,
+    createdAt: MEAL_TIME,
+    carbohydratesGrams: 45,
+    mealTagId: 2,
+    absorptionHint: 'Normal',
+    ...changes
+  };
+}
+
+// Readings every 5 minutes from `from` to `to` minutes around the meal
+function readings(
+  from: number,
+  to: number,
+  value: (minutes: number) => number | null
+): GlucosePointDto[] {
+  const points: GlucosePointDto[] = [];
+  for (let minutes = from; minutes <= to; minutes += 5) {
+    points.push({
+      timestamp: new Date(Date.parse(MEAL_TIME) + minutes * 60000).toISOString(),
+      value: value(minutes)
+    });
+  }
+  return points;
+}
+
+// Flat at 100 before eating, rising 1 mg/dL per minute to 160 at 60 minutes, then falling back
+const TYPICAL = (minutes: number): number =>
+  minutes <= 0 ? 100 : minutes <= 60 ? 100 + minutes : Math.max(100, 160 - (minutes - 60) / 2);
+
+function response(changes: Partial<MealResponse>): MealResponse {
+  return {
+    ...analyzeMealResponse(meal(), []),
+    ...changes
+  };
+}
+
+describe('meal-response', () => {
+  it('should keep readings from 30 minutes before to 3 hours after the meal', () => {
+    const curve = mealResponseCurve(readings(-60, 240, () => 120), MEAL_TIME);
+
+    expect(curve[0].minutes).toBe(-30);
+    expect(curve[curve.length - 1].minutes).toBe(180);
+  });
+
+  it('should compute baseline, peak rise, time to peak and 2h/3h values', () => {
+    const result = analyzeMealResponse(meal(), readings(-30, 180, TYPICAL));
+
+    expect(result.baseline).toBe(100);
+    expect(result.peak).toBe(160);
+    expect(result.peakRise).toBe(60);
+    expect(result.minutesToPeak).toBe(60);
+    expect(result.value2h).toBe(130);
+    expect(result.value3h).toBe(100);
+    expect(result.complete).toBe(true);
+  });
+
+  it('should integrate the area above baseline in mg/dL·h', () => {
+    const flatRise = analyzeMealResponse(
+      meal(),
+      readings(-30, 180, (minutes) => (minutes <= 0 ? 100 : 130))
+    );
+
+    // 30 mg/dL above baseline for 3 hours, minus the first 5-minute ramp
+    expect(flatRise.incrementalAuc).toBeCloseTo(30 * 3 - 15 / 12, 5);
+  });
+
+  it('should flag responses with gaps or without a baseline', () => {
+    const gap = analyzeMealResponse(
+      meal(),
+      readings(-30, 180, (minutes) => (minutes > 60 && minutes < 100 ? null : TYPICAL(minutes)))
+    );
+    const noBaseline = analyzeMealResponse(meal(), readings(5, 180, TYPICAL));
+
+    expect(gap.complete).toBe(false);
+    expect(noBaseline.baseline).toBeNull();
+    expect(noBaseline.peakRise).toBeNull();
+    expect(noBaseline.peak).toBe(160);
+  });
+
+  it('should average responses per meal tag with untagged meals last', () => {
+    const summaries = summarizeMealResponses(
+      [
+        response({ mealTagId: 3, peakRise: 80, carbohydratesGrams: 60 }),
+        response({ mealTagId: 1, peakRise: 40 }),
+        response({ mealTagId: 1, peakRise: 60 }),
+        response({ mealTagId: null, peakRise: null })
+      ],
+      'mealTag'
+    );
+
+    expect(summaries.map((summary) => [summary.label, summary.meals])).toEqual([
+      ['Breakfast', 2],
+      ['Dinner', 1],
+      ['Untagged', 1]
+    ]);
+    expect(summaries[0].averagePeakRise).toBe(50);
+    expect(summaries[1].averageCarbs).toBe(60);
+    expect(summaries[2].averagePeakRise).toBeNull();
+  });
+
+  it('should average peak rise per week for each absorption hint', () => {
+    const start = new Date('2025-03-01T00:00:00.000Z');
+    const end = new Date('2025-03-15T00:00:00.000Z');
+    const trend = weeklyPeakRiseTrend(
+      [
+        response({ absorptionHint: 'Rapid', eventTime: '2025-03-02T12:00:00.000Z', peakRise: 70 }),
+        response({ absorptionHint: 'Rapid', eventTime: '2025-03-03T12:00:00.000Z', peakRise: 50 }),
+        response({ absorptionHint: 'Rapid', eventTime: '2025-03-10T12:00:00.000Z', peakRise: 30 })
+      ],
+      'absorption',
+      start,
+      end
+    );
+
+    expect(trend).toHaveLength(1);
+    expect(trend[0].points).toEqual([
+      { weekStart: '2025-03-01T00:00:00.000Z', averagePeakRise: 60, meals: 2 },
+      { weekStart: '2025-03-08T00:00:00.000Z', averagePeakRise: 30, meals: 1 }
+    ]);
+  });
+});
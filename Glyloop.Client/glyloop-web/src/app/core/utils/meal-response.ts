@@ -0,0 +1,154 @@
+/**
+ * Per-meal glucose response (baseline, peak rise, time to peak, 2h/3h values and
+ * incremental area under the curve) and its aggregation by meal tag or absorption hint.
+ */
+
+import { EventResponseDto, GlucosePointDto } from '../models/dashboard.types';
+import { EventOutcomePoint } from '../models/event-outcome.types';
+import {
+  MealGrouping,
+  MealResponse,
+  MealResponseSummary,
+  MealTrendSeries
+} from '../models/meal-analytics.types';
+import { ABSORPTION_HINTS, MEAL_TAG_OPTIONS } from './event-fields';
+import {
+  MAX_GAP_MINUTES,
+  averageOf,
+  coversWindow,
+  eventOutcomeCurve,
+  groupByOption,
+  splitByWeek,
+  valueNear
+} from './event-outcome';
+import { mean } from './glucose-stats';
+
+export const MEAL_BASELINE_MINUTES = 30;
+export const MEAL_RESPONSE_MINUTES = 180;
+
+/**
+ * Readings from 30 minutes before to 3 hours after a meal, oldest first
+ */
+export function mealResponseCurve(
+  points: GlucosePointDto[],
+  eventTime: string
+): EventOutcomePoint[] {
+  return eventOutcomeCurve(points, eventTime, -MEAL_BASELINE_MINUTES, MEAL_RESPONSE_MINUTES);
+}
+
+/**
+ * Computes the glucose response to a Food event from the readings around it
+ */
+export function analyzeMealResponse(
+  event: EventResponseDto,
+  points: GlucosePointDto[]
+): MealResponse {
+  const curve = mealResponseCurve(points, event.eventTime);
+  const before = curve.filter((point) => point.minutes <= 0);
+  const after = curve.filter((point) => point.minutes >= 0);
+
+  const baseline = mean(before.map((point) => point.value));
+  const peakPoint = after.reduce<EventOutcomePoint | null>(
+    (highest, point) => (!highest || point.value > highest.value ? point : highest),
+    null
+  );
+
+  return {
+    eventId: event.eventId,
+    eventTime: event.eventTime,
+    carbohydratesGrams: event.carbohydratesGrams ?? null,
+    mealTagId: event.mealTagId ?? null,
+    absorptionHint: event.absorptionHint || null,
+    baseline,
+    peak: peakPoint?.value ?? null,
+    peakRise: baseline !== null && peakPoint ? peakPoint.value - baseline : null,
+    minutesToPeak: peakPoint ? Math.round(peakPoint.minutes) : null,
+    value2h: valueNear(after, 120),
+    value3h: valueNear(after, MEAL_RESPONSE_MINUTES),
+    incrementalAuc: baseline !== null ? incrementalAuc(after, baseline) : null,
+    complete: baseline !== null && coversWindow(after, MEAL_RESPONSE_MINUTES),
+    curve
+  };
+}
+
+/**
+ * Average response per meal tag or absorption hint, in option order; meals without
+ * a tag or hint are grouped last. Averages skip meals missing that metric.
+ */
+export function summarizeMealResponses(
+  meals: MealResponse[],
+  grouping: MealGrouping
+): MealResponseSummary[] {
+  return groupMeals(meals, grouping).map(({ key, label, items }) => ({
+    key,
+    label,
+    meals: items.length,
+    averageCarbs: averageOf(items, (meal) => meal.carbohydratesGrams),
+    averagePeakRise: averageOf(items, (meal) => meal.peakRise),
+    averageMinutesToPeak: averageOf(items, (meal) => meal.minutesToPeak),
+    averageValue2h: averageOf(items, (meal) => meal.value2h),
+    averageIncrementalAuc: averageOf(items, (meal) => meal.incrementalAuc)
+  }));
+}
+
+/**
+ * Average peak rise per group for each week from start to end
+ */
+export function weeklyPeakRiseTrend(
+  meals: MealResponse[],
+  grouping: MealGrouping,
+  start: Date,
+  end: Date
+): MealTrendSeries[] {
+  return groupMeals(meals, grouping).map(({ key, label, items }) => ({
+    key,
+    label,
+    points: splitByWeek(items, start, end).map(({ weekStart, items: inWeek }) => ({
+      weekStart,
+      averagePeakRise: averageOf(inWeek, (meal) => meal.peakRise),
+      meals: inWeek.length
+    }))
+  }));
+}
+
+/**
+ * Label of a meal tag ID, or null when it is unknown
+ */
+export function mealTagLabel(id: number | null | undefined): string | null {
+  return MEAL_TAG_OPTIONS.find((option) => option.id === id)?.label ?? null;
+}
+
+// Trapezoidal area above the baseline in mg/dL·h; gaps longer than 15 minutes add nothing
+function incrementalAuc(points: EventOutcomePoint[], baseline: number): number | null {
+  if (points.length < 2) return null;
+
+  let area = 0;
+  for (let i = 1; i < points.length; i++) {
+    const minutes = points[i].minutes - points[i - 1].minutes;
+    if (minutes > MAX_GAP_MINUTES) continue;
+    const previous = Math.max(0, points[i - 1].value - baseline);
+    const current = Math.max(0, points[i].value - baseline);
+    area += ((previous + current) / 2) * (minutes / 60);
+  }
+  return area;
+}
+
+function groupMeals(
+  meals: MealResponse[],
+  grouping: MealGrouping
+): { key: string; label: string; items: MealResponse[] }[] {
+  if (grouping === 'mealTag') {
+    return groupByOption(
+      meals,
+      MEAL_TAG_OPTIONS.map((option) => ({ key: String(option.id), label: option.label })),
+      (meal) => String(meal.mealTagId),
+      $localize`:@@mealInsights.group.untagged:Untagged`
+    );
+  }
+  return groupByOption(
+    meals,
+    ABSORPTION_HINTS.map((hint) => ({ key: hint, label: hint })),
+    (meal) => meal.absorptionHint,
+    $localize`:@@mealInsights.group.noHint:No hint`
+  );
+}
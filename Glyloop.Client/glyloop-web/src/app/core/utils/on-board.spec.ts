@@ -0,0 +1,136 @@
+/**
+ * Unit tests for insulin and carbs on board estimation
+ */
+
+import { EventResponseDto } from '../models/dashboard.types';
+import {
+  DEFAULT_ON_BOARD_SETTINGS,
+  carbIntakeFromEvent,
+  carbsRemainingFraction,
+  insulinDoseFromEvent,
+  insulinRemainingFraction,
+  normalizeOnBoardSettings,
+  onBoardAt,
+  onBoardLookbackMinutes,
+  onBoardSeries
+} from './on-board';
+
+const RAPID = DEFAULT_ON_BOARD_SETTINGS.insulinCurves.Rapid;
+
+function insulin(eventTime: string, units: number, changes = {}): EventResponseDto {
+  return {
+    eventId: `i-${eventTime}`,
+    eventType: 'Insulin',
+    eventTime,
+    createdAt: eventTime,
+    insulinType: 'Fast',
+    insulinUnits: units,
+    ...changes
+  };
+}
+
+function food(eventTime: string, grams: number, absorptionHint?: string): EventResponseDto {
+  return {
+    eventId: `f-${eventTime}`,
+    eventType: 'Food',
+    eventTime,
+    createdAt: eventTime,
+    carbohydratesGrams: grams,
+    absorptionHint
+  };
+}
+
+describe('on-board', () => {
+  it('should decay insulin activity from full to none over the curve duration', () => {
+    expect(insulinRemainingFraction(0, RAPID)).toBe(1);
+    expect(insulinRemainingFraction(300, RAPID)).toBe(0);
+
+    const samples = [30, 75, 150, 240].map((minutes) => insulinRemainingFraction(minutes, RAPID));
+    expect(samples).toEqual([...samples].sort((a, b) => b - a));
+    expect(samples[2]).toBeGreaterThan(0.2);
+    expect(samples[2]).toBeLessThan(0.5);
+  });
+
+  it('should absorb carbs linearly', () => {
+    expect(carbsRemainingFraction(0, 180)).toBe(1);
+    expect(carbsRemainingFraction(90, 180)).toBe(0.5);
+    expect(carbsRemainingFraction(240, 180)).toBe(0);
+  });
+
+  it('should pick the curve from the preparation, then the insulin type', () => {
+    const settings = DEFAULT_ON_BOARD_SETTINGS;
+
+    expect(insulinDoseFromEvent(insulin('2025-03-01T08:00:00Z', 4), settings)?.preparation).toBe(
+      'Rapid'
+    );
+    expect(
+      insulinDoseFromEvent(insulin('2025-03-01T08:00:00Z', 4, { preparation: 'Short' }), settings)
+        ?.preparation
+    ).toBe('Short');
+    expect(
+      insulinDoseFromEvent(insulin('2025-03-01T08:00:00Z', 20, { insulinType: 'Long' }), settings)
+    ).toBeNull();
+    expect(
+      insulinDoseFromEvent(insulin('2025-03-01T08:00:00Z', 20, { insulinType: 'Long' }), {
+        ...settings,
+        includeLongActing: true
+      })?.preparation
+    ).toBe('Long');
+  });
+
+  it('should sum what is still active and ignore later events', () => {
+    const events = [
+      insulin('2025-03-01T08:00:00Z', 6),
+      food('2025-03-01T08:00:00Z', 60, 'Rapid'),
+      food('2025-03-01T08:30:00Z', 30),
+      insulin('2025-03-01T10:00:00Z', 2)
+    ];
+
+    const point = onBoardAt(events, new Date('2025-03-01T09:00:00Z'), DEFAULT_ON_BOARD_SETTINGS);
+
+    expect(point.iob).toBeCloseTo(6 * insulinRemainingFraction(60, RAPID), 5);
+    expect(point.cob).toBeCloseTo(60 * 0.5 + 30 * (150 / 180), 5);
+  });
+
+  it('should map API absorption hints to carb speeds', () => {
+    const speeds = ['Rapid', 'Normal', 'Slow', 'Other', undefined].map(
+      (hint) => carbIntakeFromEvent(food('2025-03-01T08:00:00Z', 30, hint))?.absorption
+    );
+
+    expect(speeds).toEqual(['Fast', 'Medium', 'Slow', 'Medium', 'Medium']);
+  });
+
+  it('should sample a series every 5 minutes including both ends', () => {
+    const series = onBoardSeries(
+      [food('2025-03-01T08:00:00Z', 30)],
+      new Date('2025-03-01T08:00:00Z'),
+      new Date('2025-03-01T09:00:00Z'),
+      DEFAULT_ON_BOARD_SETTINGS
+    );
+
+    expect(series).toHaveLength(13);
+    expect(series[0]).toEqual({ timestamp: '2025-03-01T08:00:00.000Z', iob: 0, cob: 30 });
+    expect(series[12].cob).toBeCloseTo(20, 5);
+  });
+
+  it('should look back as far as the longest counted curve', () => {
+    expect(onBoardLookbackMinutes(DEFAULT_ON_BOARD_SETTINGS)).toBe(960);
+    expect(onBoardLookbackMinutes({ ...DEFAULT_ON_BOARD_SETTINGS, includeLongActing: true })).toBe(
+      1440
+    );
+  });
+
+  it('should keep valid stored values and fall back to defaults', () => {
+    const settings = normalizeOnBoardSettings({
+      insulinCurves: { Rapid: { durationMinutes: 360, peakMinutes: 65 }, Short: { peakMinutes: -1 } },
+      absorptionMinutes: { Slow: 300 },
+      showOnChart: false
+    });
+
+    expect(settings.insulinCurves.Rapid).toEqual({ durationMinutes: 360, peakMinutes: 65 });
+    expect(settings.insulinCurves.Short).toEqual(DEFAULT_ON_BOARD_SETTINGS.insulinCurves.Short);
+    expect(settings.absorptionMinutes).toEqual({ Fast: 120, Medium: 180, Slow: 300 });
+    expect(settings.showOnChart).toBe(false);
+    expect(normalizeOnBoardSettings(null)).toEqual(DEFAULT_ON_BOARD_SETTINGS);
+  });
+});
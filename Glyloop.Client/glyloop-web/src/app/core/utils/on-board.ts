@@ -0,0 +1,204 @@
+/**
+ * Insulin-on-board (IOB) and carbs-on-board (COB) estimation from logged events.
+ * Insulin follows an exponential action curve per preparation; carbs are absorbed
+ * linearly over a time set by the absorption hint. Estimates only, not dosing advice.
+ */
+
+import { EventResponseDto } from '../models/dashboard.types';
+import {
+  AbsorptionSpeed,
+  CarbIntake,
+  InsulinActionCurve,
+  InsulinDose,
+  InsulinPreparation,
+  OnBoardPoint,
+  OnBoardSettings
+} from '../models/on-board.types';
+
+export const INSULIN_PREPARATION_KEYS: InsulinPreparation[] = [
+  'Rapid',
+  'Short',
+  'Intermediate',
+  'Long'
+];
+export const ABSORPTION_SPEED_KEYS: AbsorptionSpeed[] = ['Fast', 'Medium', 'Slow'];
+
+export const DEFAULT_ON_BOARD_SETTINGS: OnBoardSettings = {
+  insulinCurves: {
+    Rapid: { durationMinutes: 300, peakMinutes: 75 },
+    Short: { durationMinutes: 480, peakMinutes: 150 },
+    Intermediate: { durationMinutes: 960, peakMinutes: 360 },
+    Long: { durationMinutes: 1440, peakMinutes: 600 }
+  },
+  absorptionMinutes: { Fast: 120, Medium: 180, Slow: 240 },
+  includeLongActing: false,
+  showOnChart: true
+};
+
+// Preparation assumed when an Insulin event has none
+const PREPARATION_BY_TYPE: Record<string, InsulinPreparation> = {
+  Fast: 'Rapid',
+  Long: 'Long'
+};
+// Absorption speed for each API absorption hint ("Other" uses the default)
+const ABSORPTION_BY_HINT: Record<string, AbsorptionSpeed> = {
+  Rapid: 'Fast',
+  Normal: 'Medium',
+  Slow: 'Slow'
+};
+const DEFAULT_ABSORPTION: AbsorptionSpeed = 'Medium';
+
+function isPositiveNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0;
+}
+
+/**
+ * Settings read from storage merged onto the defaults
+ */
+export function normalizeOnBoardSettings(stored: unknown): OnBoardSettings {
+  const value = (stored ?? {}) as Partial<OnBoardSettings>;
+  const defaults = DEFAULT_ON_BOARD_SETTINGS;
+
+  const insulinCurves = { ...defaults.insulinCurves };
+  for (const key of INSULIN_PREPARATION_KEYS) {
+    const curve = value.insulinCurves?.[key];
+    if (curve && isPositiveNumber(curve.durationMinutes) && isPositiveNumber(curve.peakMinutes)) {
+      insulinCurves[key] = {
+        durationMinutes: curve.durationMinutes,
+        peakMinutes: curve.peakMinutes
+      };
+    }
+  }
+
+  const absorptionMinutes = { ...defaults.absorptionMinutes };
+  for (const key of ABSORPTION_SPEED_KEYS) {
+    const minutes = value.absorptionMinutes?.[key];
+    if (isPositiveNumber(minutes)) absorptionMinutes[key] = minutes;
+  }
+
+  return {
+    insulinCurves,
+    absorptionMinutes,
+    includeLongActing: value.includeLongActing === true,
+    showOnChart: value.showOnChart !== false
+  };
+}
+
+/**
+ * Fraction of a dose still active `minutes` after it was taken (1 before, 0 after the
+ * curve's duration). Exponential model; the peak is kept below half the duration.
+ */
+export function insulinRemainingFraction(minutes: number, curve: InsulinActionCurve): number {
+  const duration = curve.durationMinutes;
+  if (minutes <= 0) return 1;
+  if (minutes >= duration) return 0;
+
+  const peak = Math.min(Math.max(curve.peakMinutes, 1), duration * 0.49);
+  const tau = (peak * (1 - peak / duration)) / (1 - (2 * peak) / duration);
+  const a = (2 * tau) / duration;
+  const s = 1 / (1 - a + (1 + a) * Math.exp(-duration / tau));
+
+  const shape = minutes ** 2 / (tau * duration * (1 - a)) - minutes / tau - 1;
+  const remaining = 1 - s * (1 - a) * (shape * Math.exp(-minutes / tau) + 1);
+  return Math.min(1, Math.max(0, remaining));
+}
+
+/**
+ * Fraction of carbs not yet absorbed `minutes` after eating (linear absorption)
+ */
+export function carbsRemainingFraction(minutes: number, absorptionMinutes: number): number {
+  if (minutes <= 0) return 1;
+  return Math.max(0, 1 - minutes / absorptionMinutes);
+}
+
+/**
+ * Dose from an Insulin event; basal doses are skipped unless long-acting insulin is counted
+ */
+export function insulinDoseFromEvent(
+  event: EventResponseDto,
+  settings: OnBoardSettings
+): InsulinDose | null {
+  const epochMs = Date.parse(event.eventTime);
+  if (event.eventType !== 'Insulin' || !isPositiveNumber(event.insulinUnits)) return null;
+  if (!Number.isFinite(epochMs)) return null;
+  if (event.insulinType === 'Long' && !settings.includeLongActing) return null;
+
+  const preparation = INSULIN_PREPARATION_KEYS.includes(event.preparation as InsulinPreparation)
+    ? (event.preparation as InsulinPreparation)
+    : PREPARATION_BY_TYPE[event.insulinType ?? ''] ?? 'Rapid';
+
+  return { epochMs, units: event.insulinUnits, preparation };
+}
+
+/**
+ * Carb intake from a Food event (medium absorption without a known hint)
+ */
+export function carbIntakeFromEvent(event: EventResponseDto): CarbIntake | null {
+  const epochMs = Date.parse(event.eventTime);
+  if (event.eventType !== 'Food' || !isPositiveNumber(event.carbohydratesGrams)) return null;
+  if (!Number.isFinite(epochMs)) return null;
+
+  const absorption = ABSORPTION_BY_HINT[event.absorptionHint ?? ''] ?? DEFAULT_ABSORPTION;
+
+  return { epochMs, grams: event.carbohydratesGrams, absorption };
+}
+
+/**
+ * How far back events can still be active with these settings
+ */
+export function onBoardLookbackMinutes(settings: OnBoardSettings): number {
+  const curves = INSULIN_PREPARATION_KEYS.filter(
+    (key) => key !== 'Long' || settings.includeLongActing
+  ).map((key) => settings.insulinCurves[key].durationMinutes);
+  return Math.max(...curves, ...Object.values(settings.absorptionMinutes));
+}
+
+/**
+ * IOB and COB at a point in time; doses and intakes logged later are ignored
+ */
+export function onBoardAt(
+  events: EventResponseDto[],
+  at: Date,
+  settings: OnBoardSettings
+): OnBoardPoint {
+  return onBoardSeries(events, at, at, settings)[0];
+}
+
+/**
+ * IOB and COB sampled every `stepMinutes` from start to end (inclusive)
+ */
+export function onBoardSeries(
+  events: EventResponseDto[],
+  start: Date,
+  end: Date,
+  settings: OnBoardSettings,
+  stepMinutes = 5
+): OnBoardPoint[] {
+  const doses = events
+    .map((event) => insulinDoseFromEvent(event, settings))
+    .filter((dose): dose is InsulinDose => dose !== null);
+  const intakes = events
+    .map(carbIntakeFromEvent)
+    .filter((intake): intake is CarbIntake => intake !== null);
+
+  const points: OnBoardPoint[] = [];
+  const stepMs = stepMinutes * 60000;
+  for (let time = start.getTime(); time <= end.getTime(); time += stepMs) {
+    let iob = 0;
+    for (const dose of doses) {
+      if (dose.epochMs > time) continue;
+      const curve = settings.insulinCurves[dose.preparation];
+      iob += dose.units * insulinRemainingFraction((time - dose.epochMs) / 60000, curve);
+    }
+
+    let cob = 0;
+    for (const intake of intakes) {
+      if (intake.epochMs > time) continue;
+      const minutes = settings.absorptionMinutes[intake.absorption];
+      cob += intake.grams * carbsRemainingFraction((time - intake.epochMs) / 60000, minutes);
+    }
+
+    points.push({ timestamp: new Date(time).toISOString(), iob, cob });
+  }
+  return points;
+}
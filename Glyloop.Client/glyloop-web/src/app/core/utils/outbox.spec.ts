@@ -0,0 +1,73 @@
+/**
+ * Unit tests for offline outbox helpers
+ */
+
+import { EventListItemDto } from '../models/dashboard.types';
+import { OutboxEntry } from '../models/outbox.types';
+import {
+  createOutboxEntry,
+  findOutboxConflict,
+  isLocalEventId,
+  isTransientSyncError,
+  outboxEntryToListItem,
+  sortOutboxEntries
+} from './outbox';
+
+function insulinEntry(queuedAt: string, eventTime = '2025-03-01T08:00:20Z'): OutboxEntry {
+  return createOutboxEntry(
+    { eventType: 'Insulin', payload: { eventTime, insulinType: 'Fast', insulinUnits: 6 } },
+    'user-1',
+    new Date(queuedAt)
+  );
+}
+
+describe('outbox', () => {
+  it('should create pending entries with local IDs', () => {
+    const entry = insulinEntry('2025-03-01T08:01:00Z');
+
+    expect(entry.status).toBe('pending');
+    expect(entry.attempts).toBe(0);
+    expect(isLocalEventId(entry.id)).toBe(true);
+    expect(isLocalEventId('3fa85f64-5717-4562-b3fc-2c963f66afa6')).toBe(false);
+  });
+
+  it('should replay entries oldest queued first', () => {
+    const later = insulinEntry('2025-03-01T09:00:00Z');
+    const earlier = insulinEntry('2025-03-01T08:00:00Z');
+
+    expect(sortOutboxEntries([later, earlier]).map((entry) => entry.id)).toEqual([
+      earlier.id,
+      later.id
+    ]);
+  });
+
+  it('should keep entries queued for connectivity and server errors only', () => {
+    expect(isTransientSyncError({ status: 0 })).toBe(true);
+    expect(isTransientSyncError({ status: 503 })).toBe(true);
+    expect(isTransientSyncError({ status: 400 })).toBe(false);
+  });
+
+  it('should detect an existing event of the same type and minute', () => {
+    const entry = insulinEntry('2025-03-01T08:01:00Z');
+    const existing: EventListItemDto[] = [
+      { eventId: 'a', eventType: 'Food', eventTime: '2025-03-01T08:00:00Z', summary: '30g carbs' },
+      { eventId: 'b', eventType: 'Insulin', eventTime: '2025-03-01T08:00:45Z', summary: '6U Fast' }
+    ];
+
+    expect(findOutboxConflict(entry, existing)?.eventId).toBe('b');
+    expect(findOutboxConflict(entry, existing.slice(0, 1))).toBeUndefined();
+  });
+
+  it('should build the pending history row like the API summary', () => {
+    const entry = insulinEntry('2025-03-01T08:01:00Z');
+
+    expect(outboxEntryToListItem(entry)).toEqual({
+      eventId: entry.id,
+      eventType: 'Insulin',
+      eventTime: '2025-03-01T08:00:20Z',
+      summary: '6U Fast',
+      note: undefined,
+      noteText: undefined
+    });
+  });
+});
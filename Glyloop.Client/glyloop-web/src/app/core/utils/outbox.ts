@@ -0,0 +1,104 @@
+/**
+ * Helpers for the offline event outbox: entry creation, replay order,
+ * conflict detection and the pending rows/markers shown before sync.
+ */
+
+import {
+  CreateEventRequest,
+  EventListItemDto,
+  EventResponseDto,
+  OverlayEventMarkerDto
+} from '../models/dashboard.types';
+import { OutboxEntry } from '../models/outbox.types';
+import { importDuplicateKey } from './event-import';
+import { toEventListItem } from './history-list';
+
+const LOCAL_ID_PREFIX = 'local-';
+
+/**
+ * Wraps a create request in a new pending outbox entry owned by a user
+ */
+export function createOutboxEntry(
+  request: CreateEventRequest,
+  userId: string,
+  now = new Date()
+): OutboxEntry {
+  const random = Math.random().toString(36).slice(2, 10);
+  return {
+    id: `${LOCAL_ID_PREFIX}${now.getTime().toString(36)}-${random}`,
+    userId,
+    request,
+    queuedAt: now.toISOString(),
+    status: 'pending',
+    attempts: 0
+  };
+}
+
+/**
+ * Checks whether an event ID belongs to a queued (not yet synced) event
+ */
+export function isLocalEventId(eventId: string | undefined): boolean {
+  return !!eventId?.startsWith(LOCAL_ID_PREFIX);
+}
+
+/**
+ * Entries in replay order (oldest queued first)
+ */
+export function sortOutboxEntries(entries: OutboxEntry[]): OutboxEntry[] {
+  return [...entries].sort(
+    (a, b) => Date.parse(a.queuedAt) - Date.parse(b.queuedAt) || a.id.localeCompare(b.id)
+  );
+}
+
+/**
+ * Whether a failed request should stay queued for a later attempt: no connection,
+ * a server-side error or an expired session. Other errors are reported as failures.
+ */
+export function isTransientSyncError(err: { status?: number }): boolean {
+  const status = err.status ?? 0;
+  return status === 0 || status === 401 || status === 408 || status === 429 || status >= 500;
+}
+
+/**
+ * Finds an existing event of the same type in the same minute as the queued one
+ */
+export function findOutboxConflict(
+  entry: OutboxEntry,
+  existing: EventListItemDto[]
+): EventListItemDto | undefined {
+  const key = importDuplicateKey(entry.request.eventType, entry.request.payload.eventTime);
+  return existing.find((event) => importDuplicateKey(event.eventType, event.eventTime) === key);
+}
+
+/**
+ * Builds the event a queued entry will become, keyed by its local ID
+ */
+export function outboxEntryToEvent(entry: OutboxEntry): EventResponseDto {
+  return {
+    ...entry.request.payload,
+    eventId: entry.id,
+    eventType: entry.request.eventType,
+    eventTime: entry.request.payload.eventTime,
+    createdAt: entry.queuedAt
+  };
+}
+
+/**
+ * History row for a queued entry
+ */
+export function outboxEntryToListItem(entry: OutboxEntry): EventListItemDto {
+  return toEventListItem(outboxEntryToEvent(entry));
+}
+
+/**
+ * Chart marker for a queued entry
+ */
+export function outboxEntryToOverlay(entry: OutboxEntry): OverlayEventMarkerDto {
+  const item = outboxEntryToListItem(entry);
+  return {
+    eventId: item.eventId,
+    eventType: item.eventType,
+    timestamp: item.eventTime,
+    summary: item.summary
+  };
+}
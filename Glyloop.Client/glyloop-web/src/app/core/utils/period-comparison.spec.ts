@@ -0,0 +1,102 @@
+/**
+ * Unit tests for period-over-period comparison windows and deltas
+ */
+
+import { PeriodSummary } from '../models/comparison.types';
+import { comparePeriods, comparisonWindows, compareValues } from './period-comparison';
+import { glucoseVariabilityStats, tirBandBreakdown } from './glucose-stats';
+
+const THRESHOLDS = { veryLow: 54, low: 70, high: 180, veryHigh: 250 };
+
+function period(values: number[]): PeriodSummary {
+  const start = Date.parse('2025-03-01T00:00:00Z');
+  const points = values.map((value, i) => ({
+    timestamp: new Date(start + i * 5 * 60000).toISOString(),
+    value
+  }));
+  const bands = tirBandBreakdown(values, THRESHOLDS);
+
+  return {
+    window: { startTime: new Date(start).toISOString(), endTime: new Date(start).toISOString() },
+    tir: {
+      timeInRangePercentage: bands.bands[2].percentage,
+      totalReadings: values.length,
+      readingsInRange: bands.bands[2].readings,
+      readingsBelowRange: bands.bands[0].readings + bands.bands[1].readings,
+      readingsAboveRange: bands.bands[3].readings + bands.bands[4].readings,
+      readingsVeryLow: bands.bands[0].readings,
+      readingsVeryHigh: bands.bands[4].readings,
+      targetLowerBound: 70,
+      targetUpperBound: 180,
+      veryLowBound: 54,
+      veryHighBound: 250
+    },
+    bands,
+    stats: glucoseVariabilityStats(points, start, start + values.length * 5 * 60000)
+  };
+}
+
+describe('period-comparison', () => {
+  it('should build equal back-to-back windows ending now', () => {
+    const now = Date.parse('2025-03-15T12:00:00Z');
+    const { current, previous } = comparisonWindows('week', now);
+
+    expect(current).toEqual({
+      startTime: '2025-03-08T12:00:00.000Z',
+      endTime: '2025-03-15T12:00:00.000Z'
+    });
+    expect(previous).toEqual({
+      startTime: '2025-03-01T12:00:00.000Z',
+      endTime: '2025-03-08T12:00:00.000Z'
+    });
+  });
+
+  it('should judge changes by the direction that is an improvement', () => {
+    expect(compareValues('inRange', 80, 70, true)).toMatchObject({
+      delta: 10,
+      direction: 'up',
+      outcome: 'better'
+    });
+    expect(compareValues('low', 6, 3, false)).toMatchObject({ direction: 'up', outcome: 'worse' });
+    expect(compareValues('mean', 140, 150, null)).toMatchObject({
+      direction: 'down',
+      outcome: 'neutral'
+    });
+  });
+
+  it('should treat changes within the tolerance as flat and missing values as unknown', () => {
+    expect(compareValues('gmi', 6.52, 6.5, false, 0.05)).toMatchObject({
+      direction: 'flat',
+      outcome: 'neutral'
+    });
+    expect(compareValues('mage', null, 50, false)).toMatchObject({
+      delta: null,
+      direction: null
+    });
+  });
+
+  it('should compare TIR bands, mean glucose and variability', () => {
+    const rows = comparePeriods(
+      period([100, 120, 140, 160, 100, 120, 140, 160]),
+      period([60, 120, 200, 260, 60, 120, 200, 260])
+    );
+    const row = (key: string) => rows.find((item) => item.key === key);
+
+    expect(rows.map((item) => item.key)).toEqual([
+      'inRange',
+      'veryLow',
+      'low',
+      'high',
+      'veryHigh',
+      'mean',
+      'standardDeviation',
+      'coefficientOfVariation',
+      'gmi',
+      'mage'
+    ]);
+    expect(row('inRange')).toMatchObject({ current: 100, previous: 25, outcome: 'better' });
+    expect(row('low')).toMatchObject({ delta: -25, outcome: 'better' });
+    expect(row('mean')).toMatchObject({ delta: -30, outcome: 'neutral' });
+    expect(row('standardDeviation')?.outcome).toBe('better');
+  });
+});
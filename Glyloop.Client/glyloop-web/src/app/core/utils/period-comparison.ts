@@ -0,0 +1,100 @@
+/**
+ * Windows and metric deltas for comparing a period with the one before it.
+ */
+
+import { ChartWindow, TirBandKey } from '../models/dashboard.types';
+import {
+  ComparisonMetricKey,
+  ComparisonPreset,
+  ComparisonRow,
+  PeriodSummary
+} from '../models/comparison.types';
+import { shiftWindow } from './chart-window';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const COMPARISON_PRESET_DAYS: Record<ComparisonPreset, number> = {
+  day: 1,
+  week: 7,
+  fortnight: 14
+};
+
+const BAND_KEYS: readonly ComparisonMetricKey[] = ['veryLow', 'low', 'inRange', 'high', 'veryHigh'];
+
+// Whether a higher value is an improvement (null = neither) and the smallest
+// change that counts (percentage points, mg/dL or %)
+const METRICS: { key: ComparisonMetricKey; higherIsBetter: boolean | null; tolerance: number }[] = [
+  { key: 'inRange', higherIsBetter: true, tolerance: 0.5 },
+  { key: 'veryLow', higherIsBetter: false, tolerance: 0.5 },
+  { key: 'low', higherIsBetter: false, tolerance: 0.5 },
+  { key: 'high', higherIsBetter: false, tolerance: 0.5 },
+  { key: 'veryHigh', higherIsBetter: false, tolerance: 0.5 },
+  { key: 'mean', higherIsBetter: null, tolerance: 1 },
+  { key: 'standardDeviation', higherIsBetter: false, tolerance: 1 },
+  { key: 'coefficientOfVariation', higherIsBetter: false, tolerance: 0.5 },
+  { key: 'gmi', higherIsBetter: false, tolerance: 0.05 },
+  { key: 'mage', higherIsBetter: false, tolerance: 1 }
+];
+
+/**
+ * The last N days ending now and the N days before them
+ */
+export function comparisonWindows(
+  preset: ComparisonPreset,
+  now = Date.now()
+): { current: ChartWindow; previous: ChartWindow } {
+  const current: ChartWindow = {
+    startTime: new Date(now - COMPARISON_PRESET_DAYS[preset] * DAY_MS).toISOString(),
+    endTime: new Date(now).toISOString()
+  };
+  return { current, previous: shiftWindow(current, -1) };
+}
+
+/**
+ * Deltas of TIR bands, mean glucose and variability between two periods
+ */
+export function comparePeriods(current: PeriodSummary, previous: PeriodSummary): ComparisonRow[] {
+  return METRICS.map(({ key, higherIsBetter, tolerance }) =>
+    compareValues(
+      key,
+      metricValue(current, key),
+      metricValue(previous, key),
+      higherIsBetter,
+      tolerance
+    )
+  );
+}
+
+/**
+ * Compares one metric; changes within the tolerance are flat
+ */
+export function compareValues(
+  key: ComparisonMetricKey,
+  current: number | null,
+  previous: number | null,
+  higherIsBetter: boolean | null,
+  tolerance = 0
+): ComparisonRow {
+  if (current === null || previous === null) {
+    return { key, current, previous, delta: null, direction: null, outcome: 'neutral' };
+  }
+
+  const delta = current - previous;
+  const direction = Math.abs(delta) <= tolerance ? 'flat' : delta > 0 ? 'up' : 'down';
+  const outcome =
+    direction === 'flat' || higherIsBetter === null
+      ? 'neutral'
+      : (direction === 'up') === higherIsBetter
+        ? 'better'
+        : 'worse';
+
+  return { key, current, previous, delta, direction, outcome };
+}
+
+// TIR band keys read the band percentage; the others read the glucose statistics
+function metricValue(period: PeriodSummary, key: ComparisonMetricKey): number | null {
+  if (BAND_KEYS.includes(key)) {
+    return period.bands?.bands.find((band) => band.key === key)?.percentage ?? null;
+  }
+  return period.stats[key as Exclude<ComparisonMetricKey, TirBandKey>];
+}
@@ -0,0 +1,339 @@
+import {
+  Component,
+  ChangeDetectionStrategy,
+  input,
+  viewChild,
+  effect,
+  ElementRef,
+  OnDestroy,
+  computed
+} from '@angular/core';
+import { CommonModule } from '@angular/common';
+import {
+  Chart,
+  ChartConfiguration,
+  ChartData,
+  LinearScale,
+  LineController,
+  LineElement,
+  PointElement,
+  Tooltip,
+  Legend,
+  Filler
+} from 'chart.js';
+import { AgpPercentileBucket } from '../../../core/models/agp.types';
+import { GlucoseUnit } from '../../../core/models/settings.types';
+import { glucoseDecimals, roundGlucose, toDisplayGlucoseExact } from '../../../core/utils/glucose-units';
+
+// Register Chart.js components
+Chart.register(LinearScale, LineController, LineElement, PointElement, Tooltip, Legend, Filler);
+
+const MINUTES_PER_DAY = 24 * 60;
+
+/**
+ * AGP percentile band chart using Chart.js v4.
+ * Renders 5–95th and 25–75th percentile bands and the median over a 24-hour
+ * time-of-day axis, with the target range drawn as threshold lines.
+ */
+@Component({
+  selector: 'app-agp-chart',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './agp-chart.component.html',
+  styleUrl: './agp-chart.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class AgpChartComponent implements OnDestroy {
+  // Inputs
+  readonly buckets = input.required<AgpPercentileBucket[]>();
+  readonly upperBoundary = input<number>(180);
+  readonly lowerBoundary = input<number>(70);
+  readonly unit = input<GlucoseUnit>('mg/dL'); // display unit; buckets and bounds are mg/dL
+
+  // Template refs
+  private readonly canvasRef = viewChild<ElementRef<HTMLCanvasElement>>('agpCanvas');
+
+  // Chart instance
+  private chart: Chart | null = null;
+  private renderedUnit: GlucoseUnit | null = null;
+
+  // Localized strings
+  readonly chartLabel = $localize`:@@agp.chart.label:Ambulatory glucose profile by time of day`;
+  readonly glucoseAxisLabel = computed(() =>
+    this.unit() === 'mmol/L'
+      ? $localize`:@@agp.chart.glucoseAxisMmol:Glucose (mmol/L)`
+      : $localize`:@@agp.chart.glucoseAxis:Glucose (mg/dL)`
+  );
+  readonly timeAxisLabel = $localize`:@@agp.chart.timeAxis:Time of day`;
+  readonly outerBandLabel = $localize`:@@agp.chart.outerBand:5th–95th percentile`;
+  readonly innerBandLabel = $localize`:@@agp.chart.innerBand:25th–75th percentile`;
+  readonly medianLabel = $localize`:@@agp.chart.median:Median`;
+  readonly noDataMessage = $localize`:@@agp.chart.noData:Not enough glucose data to build a profile`;
+
+  constructor() {
+    effect(() => {
+      const buckets = this.buckets();
+      // Read bounds so threshold lines follow preference changes
+      this.upperBoundary();
+      this.lowerBoundary();
+      // Axis settings depend on the unit, so a unit change rebuilds the chart
+      const unit = this.unit();
+      if (unit !== this.renderedUnit) {
+        this.destroyChart();
+        this.renderedUnit = unit;
+      }
+      this.updateChart(buckets);
+    });
+  }
+
+  ngOnDestroy(): void {
+    this.destroyChart();
+  }
+
+  /**
+   * Checks if any bucket has readings
+   */
+  hasData(): boolean {
+    return this.buckets().some((bucket) => bucket.readings > 0);
+  }
+
+  /**
+   * Initializes or updates the Chart.js instance
+   */
+  private updateChart(buckets: AgpPercentileBucket[]): void {
+    const canvas = this.canvasRef()?.nativeElement;
+    if (!canvas) {
+      this.destroyChart();
+      return;
+    }
+
+    if (!this.chart || this.chart.canvas !== canvas) {
+      this.destroyChart();
+      this.createChart(canvas, buckets);
+    } else {
+      this.chart.data = this.prepareChartData(buckets);
+      this.chart.update('none');
+    }
+  }
+
+  /**
+   * Creates a new Chart.js instance
+   */
+  private createChart(canvas: HTMLCanvasElement, buckets: AgpPercentileBucket[]): void {
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    const config: ChartConfiguration = {
+      type: 'line',
+      data: this.prepareChartData(buckets),
+      options: {
+        responsive: true,
+        maintainAspectRatio: true,
+        interaction: {
+          mode: 'index',
+          intersect: false
+        },
+        plugins: {
+          legend: {
+            display: true,
+            position: 'top',
+            labels: {
+              // Only the upper edge of each band and the median get legend entries
+              filter: (item) => !!item.text
+            }
+          },
+          tooltip: {
+            enabled: true,
+            // Skip threshold lines
+            filter: (item) => item.datasetIndex < 5,
+            callbacks: {
+              title: (context) => this.formatMinuteOfDay(context[0]?.parsed?.x ?? 0),
+              label: (context) => {
+                const name = this.getPercentileName(context.datasetIndex);
+                if (!name || context.parsed.y === null) return '';
+                const unit = this.unit();
+                return `${name}: ${roundGlucose(context.parsed.y, unit).toFixed(glucoseDecimals(unit))} ${unit}`;
+              }
+            }
+          }
+        },
+        scales: {
+          x: {
+            type: 'linear',
+            min: 0,
+            max: MINUTES_PER_DAY,
+            ticks: {
+              stepSize: 180,
+              callback: (value) => this.formatMinuteOfDay(Number(value))
+            },
+            title: {
+              display: true,
+              text: this.timeAxisLabel
+            }
+          },
+          y: {
+            type: 'linear',
+            suggestedMin: this.toDisplay(40),
+            suggestedMax: this.toDisplay(350),
+            title: {
+              display: true,
+              text: this.glucoseAxisLabel()
+            }
+          }
+        }
+      }
+    };
+
+    this.chart = new Chart(ctx, config);
+  }
+
+  /**
+   * Prepares percentile band datasets.
+   * Dataset order matters for Chart.js fill targets:
+   * 0 = p5, 1 = p95 (fills to 0), 2 = p25, 3 = p75 (fills to 2), 4 = median.
+   */
+  private prepareChartData(buckets: AgpPercentileBucket[]): ChartData {
+    const series = (key: 'p5' | 'p25' | 'p50' | 'p75' | 'p95') =>
+      buckets.map((bucket) => {
+        const value = bucket[key];
+        return { x: bucket.minuteOfDay, y: value === null ? null : this.toDisplay(value) };
+      });
+
+    return {
+      datasets: [
+        this.createBandEdgeDataset(series('p5'), '', 'rgba(91, 141, 239, 0.5)', false),
+        this.createBandEdgeDataset(
+          series('p95'),
+          this.outerBandLabel,
+          'rgba(91, 141, 239, 0.5)',
+          0,
+          'rgba(91, 141, 239, 0.15)'
+        ),
+        this.createBandEdgeDataset(series('p25'), '', 'rgba(91, 141, 239, 0.8)', false),
+        this.createBandEdgeDataset(
+          series('p75'),
+          this.innerBandLabel,
+          'rgba(91, 141, 239, 0.8)',
+          2,
+          'rgba(91, 141, 239, 0.4)'
+        ),
+        {
+          type: 'line',
+          label: this.medianLabel,
+          data: series('p50'),
+          borderColor: '#06b6d4',
+          borderWidth: 3,
+          pointRadius: 0,
+          pointHoverRadius: 3,
+          tension: 0.3,
+          spanGaps: true,
+          fill: false
+        } as never,
+        ...this.buildThresholdDatasets()
+      ]
+    };
+  }
+
+  private createBandEdgeDataset(
+    data: { x: number; y: number | null }[],
+    label: string,
+    borderColor: string,
+    fill: number | false,
+    backgroundColor = 'transparent'
+  ): ChartData['datasets'][number] {
+    return {
+      type: 'line',
+      label,
+      data,
+      borderColor,
+      backgroundColor,
+      borderWidth: 1,
+      pointRadius: 0,
+      pointHoverRadius: 0,
+      tension: 0.3,
+      spanGaps: true,
+      fill
+    } as never;
+  }
+
+  private buildThresholdDatasets(): ChartData['datasets'] {
+    const datasets: ChartData['datasets'] = [];
+    const upper = this.upperBoundary();
+    const lower = this.lowerBoundary();
+
+    if (Number.isFinite(upper)) {
+      datasets.push(this.createThresholdDataset(this.toDisplay(upper)));
+    }
+
+    if (Number.isFinite(lower)) {
+      datasets.push(this.createThresholdDataset(this.toDisplay(lower)));
+    }
+
+    return datasets;
+  }
+
+  /**
+   * Converts an mg/dL value to the display unit for plotting
+   */
+  private toDisplay(mgdl: number): number {
+    return toDisplayGlucoseExact(mgdl, this.unit());
+  }
+
+  private createThresholdDataset(value: number): ChartData['datasets'][number] {
+    return {
+      type: 'line',
+      label: '',
+      data: [
+        { x: 0, y: value },
+        { x: MINUTES_PER_DAY, y: value }
+      ],
+      borderColor: 'rgba(16, 185, 129, 0.85)',
+      borderWidth: 1,
+      borderDash: [6, 6],
+      pointRadius: 0,
+      pointHoverRadius: 0,
+      fill: false,
+      tension: 0
+    } as never;
+  }
+
+  /**
+   * Maps a dataset index to its percentile name for tooltips
+   */
+  private getPercentileName(datasetIndex: number): string | null {
+    switch (datasetIndex) {
+      case 0:
+        return '5th';
+      case 1:
+        return '95th';
+      case 2:
+        return '25th';
+      case 3:
+        return '75th';
+      case 4:
+        return this.medianLabel;
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Formats minutes since midnight as HH:mm
+   */
+  private formatMinuteOfDay(minuteOfDay: number): string {
+    const clamped = Math.min(Math.max(Math.round(minuteOfDay), 0), MINUTES_PER_DAY);
+    const hours = Math.floor(clamped / 60) % 24;
+    const minutes = clamped % 60;
+    return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+  }
+
+  /**
+   * Destroys the chart instance
+   */
+  private destroyChart(): void {
+    if (this.chart) {
+      this.chart.destroy();
+      this.chart = null;
+    }
+  }
+}
@@ -0,0 +1,257 @@
+import { Component, ChangeDetectionStrategy, signal, inject, OnInit, computed } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { MatTooltipModule } from '@angular/material/tooltip';
+import { MatCheckboxModule } from '@angular/material/checkbox';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatSelectModule } from '@angular/material/select';
+import { AgpChartComponent } from './agp-chart/agp-chart.component';
+import { DailyOverlayChartComponent } from './daily-overlay-chart/daily-overlay-chart.component';
+import { AgpReportService } from '../../core/services/agp-report.service';
+import { AccountPreferencesStore } from '../../core/stores/account-preferences.store';
+import { AgpPeriodDays, AgpReportVM, DailyOverlayDay } from '../../core/models/agp.types';
+import { formatGlucose } from '../../core/utils/glucose-units';
+import { dailyOverlayColor } from '../../core/utils/daily-overlay';
+import { catchError, of } from 'rxjs';
+
+/**
+ * Ambulatory Glucose Profile (AGP) report page.
+ * Shows percentile bands of glucose by time of day over 14 or 30 days,
+ * with mean glucose, GMI, coefficient of variation and data capture, and a daily
+ * overlay of individual days to spot recurring patterns.
+ */
+@Component({
+  selector: 'app-agp-page',
+  standalone: true,
+  imports: [
+    CommonModule,
+    MatTooltipModule,
+    MatCheckboxModule,
+    MatFormFieldModule,
+    MatSelectModule,
+    AgpChartComponent,
+    DailyOverlayChartComponent
+  ],
+  templateUrl: './agp-page.component.html',
+  styleUrl: './agp-page.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class AgpPageComponent implements OnInit {
+  private readonly agpReportService = inject(AgpReportService);
+  private readonly preferencesStore = inject(AccountPreferencesStore);
+
+  // Available report periods
+  readonly periods: AgpPeriodDays[] = [14, 30];
+
+  // Days overlaid when a report loads
+  private readonly DEFAULT_OVERLAY_DAYS = 7;
+
+  // State
+  readonly periodDays = signal<AgpPeriodDays>(14);
+  readonly report = signal<AgpReportVM | null>(null);
+  readonly loading = signal<boolean>(false);
+  readonly error = signal<string | undefined>(undefined);
+
+  // Daily overlay state
+  readonly visibleDays = signal<string[]>([]);
+  readonly selectedDay = signal<string | null>(null);
+  readonly showEvents = signal<boolean>(false);
+
+  readonly overlayDays = computed(() => this.report()?.days ?? []);
+  readonly visibleOverlayDays = computed(() => {
+    const visible = new Set(this.visibleDays());
+    return this.overlayDays().filter((day) => visible.has(day.key));
+  });
+
+  // Target range from account preferences
+  readonly lowerBound = computed(() => this.preferencesStore.preferences().lower);
+  readonly upperBound = computed(() => this.preferencesStore.preferences().upper);
+  readonly glucoseUnit = this.preferencesStore.glucoseUnit;
+
+  // Localized strings
+  readonly pageTitle = $localize`:@@agp.title:Ambulatory Glucose Profile`;
+  readonly description = $localize`:@@agp.description:Glucose percentiles by time of day, aggregated across the selected period.`;
+  readonly loadingMessage = $localize`:@@agp.loading:Building report...`;
+  readonly errorMessage = $localize`:@@agp.error:Failed to load glucose data for the report`;
+  readonly retryLabel = $localize`:@@agp.retry:Retry`;
+  readonly meanGlucoseLabel = $localize`:@@agp.stats.meanGlucose:Mean glucose`;
+  readonly gmiLabel = $localize`:@@agp.stats.gmi:GMI`;
+  readonly cvLabel = $localize`:@@agp.stats.cv:Coefficient of variation`;
+  readonly dataCaptureLabel = $localize`:@@agp.stats.dataCapture:Data captured`;
+  readonly gmiTooltip = $localize`:@@agp.stats.gmiTooltip:Glucose Management Indicator: estimated A1c from mean CGM glucose`;
+  readonly cvTooltip = $localize`:@@agp.stats.cvTooltip:Glycemic variability; 36% or lower is considered stable`;
+  readonly dataCaptureTooltip = $localize`:@@agp.stats.dataCaptureTooltip:Share of expected 5-minute CGM readings received; 70% or more is recommended`;
+  readonly overlayTitle = $localize`:@@agp.overlay.title:Daily overlay`;
+  readonly overlayDescription = $localize`:@@agp.overlay.description:Each day drawn on the same 24-hour axis. Toggle days below; click a line to highlight its day.`;
+  readonly showEventsLabel = $localize`:@@agp.overlay.showEvents:Show events`;
+  readonly highlightLabel = $localize`:@@agp.overlay.highlight:Highlight`;
+  readonly noHighlightLabel = $localize`:@@agp.overlay.noHighlight:None`;
+  readonly lastWeekLabel = $localize`:@@agp.overlay.lastWeek:Last 7 days`;
+  readonly allDaysLabel = $localize`:@@agp.overlay.all:All`;
+  readonly noDaysLabel = $localize`:@@agp.overlay.none:None`;
+
+  ngOnInit(): void {
+    this.preferencesStore.load();
+    this.loadReport();
+  }
+
+  /**
+   * Handles period selection
+   */
+  onPeriodChange(periodDays: AgpPeriodDays): void {
+    if (periodDays === this.periodDays()) return;
+    this.periodDays.set(periodDays);
+    this.loadReport();
+  }
+
+  /**
+   * Loads the report for the selected period
+   */
+  loadReport(): void {
+    this.loading.set(true);
+    this.error.set(undefined);
+
+    this.agpReportService
+      .load(this.periodDays())
+      .pipe(
+        catchError((err) => {
+          console.error('Failed to load AGP report:', err);
+          this.error.set(this.errorMessage);
+          return of(null);
+        })
+      )
+      .subscribe((report) => {
+        this.loading.set(false);
+        if (report) {
+          this.report.set(report);
+          this.selectedDay.set(null);
+          this.onShowLastDays();
+        }
+      });
+  }
+
+  /**
+   * Shows or hides one day in the overlay; hiding the highlighted day clears the highlight
+   */
+  onToggleDay(key: string): void {
+    if (this.visibleDays().includes(key)) {
+      this.visibleDays.update((keys) => keys.filter((visible) => visible !== key));
+      if (this.selectedDay() === key) this.selectedDay.set(null);
+    } else {
+      this.visibleDays.update((keys) => [...keys, key]);
+    }
+  }
+
+  /**
+   * Shows only the most recent days
+   */
+  onShowLastDays(): void {
+    const keys = this.overlayDays().map((day) => day.key);
+    this.visibleDays.set(keys.slice(-this.DEFAULT_OVERLAY_DAYS));
+    this.clearHiddenSelection();
+  }
+
+  /**
+   * Shows every day of the report
+   */
+  onShowAllDays(): void {
+    this.visibleDays.set(this.overlayDays().map((day) => day.key));
+  }
+
+  /**
+   * Hides every day
+   */
+  onHideAllDays(): void {
+    this.visibleDays.set([]);
+    this.selectedDay.set(null);
+  }
+
+  /**
+   * Highlights a day (from the chart or the highlight select); null clears it
+   */
+  onSelectDay(key: string | null): void {
+    if (key !== null && !this.visibleDays().includes(key)) {
+      this.visibleDays.update((keys) => [...keys, key]);
+    }
+    this.selectedDay.set(key);
+  }
+
+  /**
+   * Handles the show events checkbox
+   */
+  onShowEventsChange(checked: boolean): void {
+    this.showEvents.set(checked);
+  }
+
+  /**
+   * Line color of a day, matching the overlay chart
+   */
+  getDayColor(index: number): string {
+    return dailyOverlayColor(index, this.overlayDays().length);
+  }
+
+  /**
+   * Formats a day for the day toggles, e.g. "Mon, Mar 3"
+   */
+  formatDay(day: DailyOverlayDay): string {
+    return new Date(day.dayStart).toLocaleDateString(undefined, {
+      weekday: 'short',
+      month: 'short',
+      day: 'numeric'
+    });
+  }
+
+  /**
+   * Gets the CSS class for a day toggle
+   */
+  getDayButtonClass(key: string): string {
+    const visible = this.visibleDays().includes(key);
+    const baseClasses = 'flex items-center gap-2 px-3 py-1 rounded-full text-xs font-medium border transition-all';
+    const activeClasses = 'bg-surface-variant text-text-primary border-card-border';
+    const inactiveClasses = 'bg-card-bg text-text-muted border-card-border opacity-60';
+    const selectedClasses = key === this.selectedDay() ? ' ring-2 ring-primary' : '';
+
+    return `${baseClasses} ${visible ? activeClasses : inactiveClasses}${selectedClasses}`;
+  }
+
+  private clearHiddenSelection(): void {
+    const selected = this.selectedDay();
+    if (selected && !this.visibleDays().includes(selected)) this.selectedDay.set(null);
+  }
+
+  /**
+   * Formats a nullable number with a fixed number of decimals
+   */
+  formatValue(value: number | null, decimals = 0): string {
+    return value === null ? '—' : value.toFixed(decimals);
+  }
+
+  /**
+   * Formats an mg/dL value in the display unit (number only)
+   */
+  formatGlucoseValue(mgdl: number | null): string {
+    return formatGlucose(mgdl, this.glucoseUnit(), false);
+  }
+
+  /**
+   * Formats the report window for display
+   */
+  formatDate(iso: string): string {
+    return new Date(iso).toLocaleDateString(undefined, {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric'
+    });
+  }
+
+  /**
+   * Gets the CSS class for period buttons
+   */
+  getPeriodButtonClass(periodDays: AgpPeriodDays): string {
+    const isActive = periodDays === this.periodDays();
+    const baseClasses = 'px-4 py-2 rounded-lg text-sm font-medium transition-all';
+    const activeClasses = 'bg-gradient-to-r from-primary-from to-primary-to text-white shadow-md';
+    const inactiveClasses = 'bg-card-bg text-text-secondary hover:bg-surface-variant border border-card-border';
+
+    return `${baseClasses} ${isActive ? activeClasses : inactiveClasses}`;
+  }
+}
@@ -0,0 +1,334 @@
+import {
+  Component,
+  ChangeDetectionStrategy,
+  input,
+  output,
+  viewChild,
+  effect,
+  ElementRef,
+  OnDestroy,
+  computed
+} from '@angular/core';
+import { CommonModule } from '@angular/common';
+import {
+  Chart,
+  ChartConfiguration,
+  ChartData,
+  LinearScale,
+  LineController,
+  LineElement,
+  PointElement,
+  ScatterController,
+  Tooltip
+} from 'chart.js';
+import { DailyOverlayDay } from '../../../core/models/agp.types';
+import { GlucoseUnit } from '../../../core/models/settings.types';
+import {
+  glucoseDecimals,
+  roundGlucose,
+  toDisplayGlucoseExact
+} from '../../../core/utils/glucose-units';
+import { dailyOverlayColor } from '../../../core/utils/daily-overlay';
+
+// Register Chart.js components
+Chart.register(LinearScale, LineController, LineElement, PointElement, ScatterController, Tooltip);
+
+const MINUTES_PER_DAY = 24 * 60;
+
+// Readings further apart than this are not joined
+const MAX_GAP_MINUTES = 15;
+
+const EVENT_TYPE_COLORS: Record<string, string> = {
+  Food: '#fb923c',
+  Insulin: '#5B8DEF',
+  Exercise: '#10b981',
+  Note: '#a855f7'
+};
+
+interface RenderedDataset {
+  kind: 'line' | 'markers';
+  day: DailyOverlayDay;
+}
+
+/**
+ * Daily overlay ("spaghetti") chart using Chart.js v4.
+ * Draws each visible day as its own line on a 24-hour time-of-day axis, optionally
+ * with that day's event markers. The selected day is drawn bold and the others
+ * fade; clicking a line selects its day.
+ */
+@Component({
+  selector: 'app-daily-overlay-chart',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './daily-overlay-chart.component.html',
+  styleUrl: './daily-overlay-chart.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class DailyOverlayChartComponent implements OnDestroy {
+  // Inputs
+  readonly days = input.required<DailyOverlayDay[]>(); // all days, oldest first
+  readonly visibleDays = input<string[]>([]); // day keys
+  readonly selectedDay = input<string | null>(null);
+  readonly showEvents = input<boolean>(false);
+  readonly upperBoundary = input<number>(180);
+  readonly lowerBoundary = input<number>(70);
+  readonly unit = input<GlucoseUnit>('mg/dL'); // display unit; readings and bounds are mg/dL
+
+  // Outputs
+  readonly daySelect = output<string | null>();
+
+  // Template refs
+  private readonly canvasRef = viewChild<ElementRef<HTMLCanvasElement>>('overlayCanvas');
+
+  // Chart instance
+  private chart: Chart | null = null;
+  private renderedUnit: GlucoseUnit | null = null;
+  private renderedDatasets: RenderedDataset[] = [];
+
+  readonly hasData = computed(() => {
+    const visible = new Set(this.visibleDays());
+    return this.days().some((day) => visible.has(day.key) && day.points.length > 0);
+  });
+
+  // Localized strings
+  readonly chartLabel = $localize`:@@agp.overlay.label:Glucose of each selected day by time of day`;
+  readonly glucoseAxisLabel = computed(() =>
+    this.unit() === 'mmol/L'
+      ? $localize`:@@agp.chart.glucoseAxisMmol:Glucose (mmol/L)`
+      : $localize`:@@agp.chart.glucoseAxis:Glucose (mg/dL)`
+  );
+  readonly timeAxisLabel = $localize`:@@agp.chart.timeAxis:Time of day`;
+  readonly noDataMessage = $localize`:@@agp.overlay.noData:Select one or more days with readings`;
+
+  constructor() {
+    effect(() => {
+      const data = this.prepareChartData();
+      // Axis settings depend on the unit, so a unit change rebuilds the chart
+      const unit = this.unit();
+      if (unit !== this.renderedUnit) {
+        this.destroyChart();
+        this.renderedUnit = unit;
+      }
+
+      const canvas = this.hasData() ? this.canvasRef()?.nativeElement : undefined;
+      if (!canvas) {
+        this.destroyChart();
+        return;
+      }
+
+      if (!this.chart || this.chart.canvas !== canvas) {
+        this.destroyChart();
+        this.createChart(canvas, data);
+      } else {
+        this.chart.data = data;
+        this.chart.update('none');
+      }
+    });
+  }
+
+  ngOnDestroy(): void {
+    this.destroyChart();
+  }
+
+  /**
+   * Creates a new Chart.js instance
+   */
+  private createChart(canvas: HTMLCanvasElement, data: ChartData): void {
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    const config: ChartConfiguration = {
+      type: 'line',
+      data,
+      options: {
+        responsive: true,
+        maintainAspectRatio: false,
+        interaction: { mode: 'nearest', intersect: false },
+        onClick: (_event, elements) => this.handleChartClick(elements),
+        plugins: {
+          legend: { display: false },
+          tooltip: {
+            // Skip threshold lines
+            filter: (item) => item.datasetIndex < this.renderedDatasets.length,
+            callbacks: {
+              title: (context) => this.formatMinuteOfDay(context[0]?.parsed?.x ?? 0),
+              label: (context) => {
+                const rendered = this.renderedDatasets[context.datasetIndex];
+                if (!rendered) return '';
+                const day = this.formatDay(rendered.day);
+
+                if (rendered.kind === 'markers') {
+                  const marker = rendered.day.markers.filter((item) => item.value !== null)[
+                    context.dataIndex
+                  ];
+                  if (!marker) return '';
+                  const summary = marker.summary ? `: ${marker.summary}` : '';
+                  return `${day} · ${marker.eventType}${summary}`;
+                }
+
+                const unit = this.unit();
+                const value = roundGlucose(context.parsed.y ?? 0, unit);
+                return `${day}: ${value.toFixed(glucoseDecimals(unit))} ${unit}`;
+              }
+            }
+          }
+        },
+        scales: {
+          x: {
+            type: 'linear',
+            min: 0,
+            max: MINUTES_PER_DAY,
+            ticks: {
+              stepSize: 180,
+              callback: (value) => this.formatMinuteOfDay(Number(value))
+            },
+            title: { display: true, text: this.timeAxisLabel }
+          },
+          y: {
+            type: 'linear',
+            suggestedMin: this.toDisplay(40),
+            suggestedMax: this.toDisplay(350),
+            title: { display: true, text: this.glucoseAxisLabel() }
+          }
+        }
+      }
+    };
+
+    this.chart = new Chart(ctx, config);
+  }
+
+  /**
+   * Builds one line per visible day, its event markers and the target range lines.
+   * Keeps the day behind each dataset for tooltips and clicks.
+   */
+  private prepareChartData(): ChartData {
+    const days = this.days();
+    const visible = new Set(this.visibleDays());
+    const selected = this.selectedDay();
+    const showEvents = this.showEvents();
+
+    const lines: ChartData['datasets'] = [];
+    const markers: ChartData['datasets'] = [];
+    const lineDays: RenderedDataset[] = [];
+    const markerDays: RenderedDataset[] = [];
+
+    days.forEach((day, index) => {
+      if (!visible.has(day.key)) return;
+
+      const isSelected = day.key === selected;
+      const faded = selected !== null && !isSelected;
+      const color = dailyOverlayColor(index, days.length, faded ? 0.25 : 0.9);
+
+      lineDays.push({ kind: 'line', day });
+      lines.push({
+        type: 'line',
+        label: this.formatDay(day),
+        data: day.points.map((point) => ({ x: point.minuteOfDay, y: this.toDisplay(point.value) })),
+        borderColor: color,
+        backgroundColor: color,
+        borderWidth: isSelected ? 3 : 1.5,
+        pointRadius: 0,
+        pointHoverRadius: 3,
+        tension: 0.2,
+        spanGaps: MAX_GAP_MINUTES,
+        fill: false,
+        order: isSelected ? 0 : 1
+      } as never);
+
+      if (!showEvents) return;
+      const placed = day.markers.filter((marker) => marker.value !== null);
+      if (placed.length === 0) return;
+
+      markerDays.push({ kind: 'markers', day });
+      markers.push({
+        type: 'scatter',
+        label: this.formatDay(day),
+        data: placed.map((marker) => ({
+          x: marker.minuteOfDay,
+          y: this.toDisplay(marker.value as number)
+        })),
+        backgroundColor: placed.map((marker) => {
+          const base = EVENT_TYPE_COLORS[marker.eventType] ?? '#94a3b8';
+          return faded ? `${base}40` : base;
+        }),
+        borderWidth: 0,
+        pointRadius: isSelected ? 6 : 4,
+        pointHoverRadius: 7,
+        order: -1
+      } as never);
+    });
+
+    this.renderedDatasets = [...lineDays, ...markerDays];
+    return { datasets: [...lines, ...markers, ...this.buildThresholdDatasets()] };
+  }
+
+  private buildThresholdDatasets(): ChartData['datasets'] {
+    return [this.upperBoundary(), this.lowerBoundary()]
+      .filter((bound) => Number.isFinite(bound))
+      .map(
+        (bound) =>
+          ({
+            type: 'line',
+            label: '',
+            data: [
+              { x: 0, y: this.toDisplay(bound) },
+              { x: MINUTES_PER_DAY, y: this.toDisplay(bound) }
+            ],
+            borderColor: 'rgba(16, 185, 129, 0.85)',
+            borderWidth: 1,
+            borderDash: [6, 6],
+            pointRadius: 0,
+            pointHoverRadius: 0,
+            fill: false,
+            tension: 0
+          }) as never
+      );
+  }
+
+  /**
+   * Selects the clicked day, or clears the selection when it is already selected
+   */
+  private handleChartClick(elements: { datasetIndex: number }[]): void {
+    const rendered = this.renderedDatasets[elements[0]?.datasetIndex ?? -1];
+    if (!rendered) return;
+    this.daySelect.emit(rendered.day.key === this.selectedDay() ? null : rendered.day.key);
+  }
+
+  /**
+   * Converts an mg/dL value to the display unit for plotting
+   */
+  private toDisplay(mgdl: number): number {
+    return toDisplayGlucoseExact(mgdl, this.unit());
+  }
+
+  /**
+   * Formats a day as e.g. "Mon, Mar 3"
+   */
+  private formatDay(day: DailyOverlayDay): string {
+    return new Date(day.dayStart).toLocaleDateString(undefined, {
+      weekday: 'short',
+      month: 'short',
+      day: 'numeric'
+    });
+  }
+
+  /**
+   * Formats minutes since midnight as HH:mm
+   */
+  private formatMinuteOfDay(minuteOfDay: number): string {
+    const clamped = Math.min(Math.max(Math.round(minuteOfDay), 0), MINUTES_PER_DAY);
+    const hours = Math.floor(clamped / 60) % 24;
+    const minutes = clamped % 60;
+    return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+  }
+
+  /**
+   * Destroys the chart instance
+   */
+  private destroyChart(): void {
+    if (this.chart) {
+      this.chart.destroy();
+      this.chart = null;
+    }
+  }
+}
@@ -8,6 +8,7 @@ import { LoginFormComponent } from './login-form.component';
 import { AuthFooterLinksComponent } from './auth-footer-links.component';
 import { AppHeaderComponent } from '../../../core/shell/app-header.component';
 import { AuthApiService } from '../../../core/services/auth-api.service';
+import { ShellStateService } from '../../../core/services/shell-state.service';
 import { LoginFormModel } from '../../../core/models/auth.types';
 import { ProblemDetails } from '../../../core/models/common.types';
 
@@ -26,6 +27,7 @@ import { ProblemDetails } from '../../../core/models/common.types';
 })
 export class LoginPageComponent implements OnInit {
   private readonly authApi = inject(AuthApiService);
+  private readonly shellState = inject(ShellStateService);
   private readonly router = inject(Router);
   private readonly route = inject(ActivatedRoute);
 
@@ -68,7 +70,9 @@ export class LoginPageComponent implements OnInit {
     this.authApi.login(model)
       .pipe(finalize(() => this.isSubmitting.set(false)))
       .subscribe({
-        next: () => {
+        next: (response) => {
+          // Scope device-kept data to this account before the dashboard restores it
+          this.shellState.setSessionUser(response.userId);
           // Login successful - navigate to redirect target
           console.log('Login successful - navigating to redirect target:', this.redirectTo);
           this.router.navigate([this.redirectTo]);
@@ -0,0 +1,187 @@
+import { Component, ChangeDetectionStrategy, signal, inject, OnInit } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { MatIconModule } from '@angular/material/icon';
+import { TirSummaryComponent } from '../dashboard/tir-summary/tir-summary.component';
+import { PeriodComparisonService } from '../../core/services/period-comparison.service';
+import { AccountPreferencesStore } from '../../core/stores/account-preferences.store';
+import {
+  ComparisonMetricKey,
+  ComparisonPreset,
+  ComparisonRow,
+  PeriodComparisonVM
+} from '../../core/models/comparison.types';
+import { ChartWindow } from '../../core/models/dashboard.types';
+import { formatGlucose, formatGlucoseDelta } from '../../core/utils/glucose-units';
+import { catchError, of } from 'rxjs';
+
+// Glucose metrics are mg/dL and shown in the display unit; the rest are percentages
+const GLUCOSE_METRICS: readonly ComparisonMetricKey[] = ['mean', 'standardDeviation', 'mage'];
+
+/**
+ * Period comparison page.
+ * Compares the last day, week or 14 days with the period right before it:
+ * TIR of both periods side by side and the change in each TIR band, mean glucose
+ * and variability, marked as better or worse.
+ */
+@Component({
+  selector: 'app-period-comparison-page',
+  standalone: true,
+  imports: [CommonModule, MatIconModule, TirSummaryComponent],
+  templateUrl: './period-comparison-page.component.html',
+  styleUrl: './period-comparison-page.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class PeriodComparisonPageComponent implements OnInit {
+  private readonly periodComparison = inject(PeriodComparisonService);
+  private readonly preferencesStore = inject(AccountPreferencesStore);
+
+  // Available options
+  readonly presets: { value: ComparisonPreset; label: string }[] = [
+    { value: 'day', label: $localize`:@@compare.preset.day:Day` },
+    { value: 'week', label: $localize`:@@compare.preset.week:Week` },
+    { value: 'fortnight', label: $localize`:@@compare.preset.fortnight:14 days` }
+  ];
+
+  readonly metricLabels: Record<ComparisonMetricKey, string> = {
+    inRange: $localize`:@@compare.metric.inRange:Time in range`,
+    veryLow: $localize`:@@compare.metric.veryLow:Very low`,
+    low: $localize`:@@compare.metric.low:Low`,
+    high: $localize`:@@compare.metric.high:High`,
+    veryHigh: $localize`:@@compare.metric.veryHigh:Very high`,
+    mean: $localize`:@@compare.metric.mean:Mean glucose`,
+    standardDeviation: $localize`:@@compare.metric.standardDeviation:Standard deviation`,
+    coefficientOfVariation: $localize`:@@compare.metric.coefficientOfVariation:Coefficient of variation`,
+    gmi: $localize`:@@compare.metric.gmi:GMI`,
+    mage: $localize`:@@compare.metric.mage:MAGE`
+  };
+
+  // State
+  readonly preset = signal<ComparisonPreset>('week');
+  readonly comparison = signal<PeriodComparisonVM | null>(null);
+  readonly loading = signal<boolean>(false);
+  readonly error = signal<string | undefined>(undefined);
+
+  readonly glucoseUnit = this.preferencesStore.glucoseUnit;
+
+  // Localized strings
+  readonly pageTitle = $localize`:@@compare.title:Compare Periods`;
+  readonly description = $localize`:@@compare.description:Time in range, mean glucose and variability compared with the period right before.`;
+  readonly loadingMessage = $localize`:@@compare.loading:Loading both periods...`;
+  readonly errorMessage = $localize`:@@compare.error:Failed to load glucose data for comparison`;
+  readonly retryLabel = $localize`:@@compare.retry:Retry`;
+  readonly currentLabel = $localize`:@@compare.current:Current`;
+  readonly previousLabel = $localize`:@@compare.previous:Previous`;
+  readonly betterLabel = $localize`:@@compare.better:Improved`;
+  readonly worseLabel = $localize`:@@compare.worse:Worsened`;
+  readonly unchangedLabel = $localize`:@@compare.unchanged:Unchanged`;
+
+  ngOnInit(): void {
+    this.preferencesStore.load();
+    this.loadComparison();
+  }
+
+  /**
+   * Handles preset selection
+   */
+  onPresetChange(preset: ComparisonPreset): void {
+    if (preset === this.preset()) return;
+    this.preset.set(preset);
+    this.loadComparison();
+  }
+
+  /**
+   * Loads and compares both periods of the selected preset
+   */
+  loadComparison(): void {
+    this.loading.set(true);
+    this.error.set(undefined);
+
+    this.periodComparison
+      .load(this.preset())
+      .pipe(
+        catchError((err) => {
+          console.error('Failed to load period comparison:', err);
+          this.error.set(this.errorMessage);
+          return of(null);
+        })
+      )
+      .subscribe((comparison) => {
+        this.loading.set(false);
+        if (comparison) {
+          this.comparison.set(comparison);
+        }
+      });
+  }
+
+  /**
+   * Formats a metric value: glucose in the display unit, everything else as a percentage
+   */
+  formatMetric(key: ComparisonMetricKey, value: number | null): string {
+    if (GLUCOSE_METRICS.includes(key)) {
+      return formatGlucose(value, this.glucoseUnit());
+    }
+    return value === null ? '—' : `${value.toFixed(1)}%`;
+  }
+
+  /**
+   * Formats a metric change with its sign; percentages change by percentage points
+   */
+  formatDelta(row: ComparisonRow): string {
+    if (row.delta === null) return '—';
+    if (GLUCOSE_METRICS.includes(row.key)) {
+      return formatGlucoseDelta(row.delta, this.glucoseUnit());
+    }
+    const sign = row.delta > 0 ? '+' : row.delta < 0 ? '-' : '±';
+    return `${sign}${Math.abs(row.delta).toFixed(1)} pp`;
+  }
+
+  /**
+   * Material icon of a change direction
+   */
+  getDirectionIcon(row: ComparisonRow): string {
+    switch (row.direction) {
+      case 'up':
+        return 'arrow_upward';
+      case 'down':
+        return 'arrow_downward';
+      case 'flat':
+        return 'remove';
+      default:
+        return '';
+    }
+  }
+
+  /**
+   * Screen-reader text of a change outcome
+   */
+  getOutcomeLabel(row: ComparisonRow): string {
+    if (row.outcome === 'better') return this.betterLabel;
+    if (row.outcome === 'worse') return this.worseLabel;
+    return this.unchangedLabel;
+  }
+
+  /**
+   * Formats a compared window as e.g. "Mar 8, 12:00 – Mar 15, 12:00"
+   */
+  formatWindow(window: ChartWindow): string {
+    const format = (iso: string) =>
+      new Date(iso).toLocaleString(undefined, {
+        month: 'short',
+        day: 'numeric',
+        hour: '2-digit',
+        minute: '2-digit'
+      });
+    return `${format(window.startTime)} – ${format(window.endTime)}`;
+  }
+
+  /**
+   * Gets the CSS class for preset buttons
+   */
+  getToggleButtonClass(active: boolean): string {
+    const baseClasses = 'px-4 py-2 rounded-lg text-sm font-medium transition-all';
+    const activeClasses = 'bg-gradient-to-r from-primary-from to-primary-to text-white shadow-md';
+    const inactiveClasses = 'bg-card-bg text-text-secondary hover:bg-surface-variant border border-card-border';
+
+    return `${baseClasses} ${active ? activeClasses : inactiveClasses}`;
+  }
+}
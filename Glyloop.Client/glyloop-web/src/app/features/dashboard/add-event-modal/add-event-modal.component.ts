@@ -1,4 +1,13 @@
-import { Component, ChangeDetectionStrategy, input, output, signal, inject } from '@angular/core';
+import {
+  Component,
+  ChangeDetectionStrategy,
+  input,
+  output,
+  signal,
+  computed,
+  inject,
+  OnInit
+} from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { FormBuilder, ReactiveFormsModule, Validators } from '@angular/forms';
 import { MatDialogModule } from '@angular/material/dialog';
@@ -10,11 +19,47 @@ import { MatButtonModule } from '@angular/material/button';
 import { MatIconModule } from '@angular/material/icon';
 import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
 import { EventsService } from '../../../core/services/events.service';
-import { EventResponseDto } from '../../../core/models/dashboard.types';
-import { catchError, finalize, of } from 'rxjs';
+import { EventSyncService } from '../../../core/services/event-sync.service';
+import { EventPresetsStore } from '../../../core/stores/event-presets.store';
+import {
+  CreateEventRequest,
+  CreateExerciseEventRequestDto,
+  CreateFoodEventRequestDto,
+  CreateInsulinEventRequestDto,
+  CreateNoteEventRequestDto,
+  EventResponseDto,
+  EventType
+} from '../../../core/models/dashboard.types';
+import { OutboxEntry } from '../../../core/models/outbox.types';
+import { EventPreset, EventPresetFields } from '../../../core/models/event-presets.types';
+import {
+  ABSORPTION_HINTS,
+  EVENT_LIMITS,
+  EXERCISE_INTENSITIES,
+  EXERCISE_TYPE_OPTIONS,
+  INSULIN_DELIVERIES,
+  INSULIN_PREPARATIONS,
+  INSULIN_TIMINGS,
+  INSULIN_TYPES,
+  MEAL_TAG_OPTIONS
+} from '../../../core/utils/event-fields';
+import {
+  EVENT_PRESET_NAME_MAX_LENGTH,
+  presetFieldsFromRequest,
+  presetSummary
+} from '../../../core/utils/event-presets';
+import { Observable, catchError, finalize, of } from 'rxjs';
+
+const EVENT_TYPE_TABS: EventType[] = ['Food', 'Insulin', 'Exercise', 'Note'];
 
 /**
  * Add Event modal component with tabbed forms for Food, Insulin, Exercise, and Note events.
+ * When `editEvent` is provided, the modal switches to edit mode: only the matching tab is
+ * enabled, the form is prefilled and submit updates the existing event.
+ * When `foodDraft` is provided, a new Food event is prefilled with its values.
+ * New events can be filled from the quick-log presets of the active type (most used
+ * first) or repeat the last event of that type; the current form can be saved as a preset.
+ * New events created without a connection are queued in the offline outbox.
  */
 @Component({
   selector: 'app-add-event-modal',
@@ -35,27 +80,50 @@ import { catchError, finalize, of } from 'rxjs';
   styleUrl: './add-event-modal.component.scss',
   changeDetection: ChangeDetectionStrategy.OnPush
 })
-export class AddEventModalComponent {
+export class AddEventModalComponent implements OnInit {
   private readonly fb = new FormBuilder();
   private readonly eventsService = inject(EventsService);
+  private readonly eventSync = inject(EventSyncService);
+  private readonly presetsStore = inject(EventPresetsStore);
 
-  // Input
+  // Inputs
   readonly open = input.required<boolean>();
+  readonly editEvent = input<EventResponseDto | undefined>(undefined);
+  readonly foodDraft = input<Partial<CreateFoodEventRequestDto> | undefined>(undefined);
 
   // Outputs
   readonly closeModal = output<void>();
   readonly created = output<EventResponseDto>();
+  readonly updated = output<EventResponseDto>();
+  readonly queued = output<OutboxEntry>(); // Saved offline, sent on the next sync
 
   // State
   readonly activeTabIndex = signal<number>(0);
   readonly isSubmitting = signal<boolean>(false);
   readonly error = signal<string | undefined>(undefined);
+  readonly isEditMode = computed(() => !!this.editEvent());
+
+  // Quick-log presets of the active tab
+  readonly activeEventType = computed(() => EVENT_TYPE_TABS[this.activeTabIndex()] ?? 'Food');
+  readonly presets = computed(() => this.presetsStore.presetsFor(this.activeEventType()));
+  readonly lastEvent = computed(
+    () => this.presetsStore.lastEvents()[this.activeEventType()] ?? null
+  );
+  readonly appliedPresetId = signal<string | null>(null); // counted when the event is created
+  readonly presetName = signal<string | null>(null); // set while naming a new preset
+  readonly presetNameMaxLength = EVENT_PRESET_NAME_MAX_LENGTH;
 
   /**
    * Returns a datetime-local formatted string for "now" (YYYY-MM-DDTHH:mm)
    */
   private getNowLocalDateTime(): string {
-    const d = new Date();
+    return this.toLocalDateTime(new Date());
+  }
+
+  /**
+   * Formats a date as a datetime-local string (YYYY-MM-DDTHH:mm)
+   */
+  private toLocalDateTime(d: Date): string {
     const pad = (n: number) => String(n).padStart(2, '0');
     return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(d.getMinutes())}`;
   }
@@ -65,11 +133,15 @@ export class AddEventModalComponent {
     eventTime: [this.getNowLocalDateTime(), [Validators.required]],
     carbohydratesGrams: [
       null as number | null,
-      [Validators.required, Validators.min(0), Validators.max(300)]
+      [
+        Validators.required,
+        Validators.min(EVENT_LIMITS.carbohydratesGrams.min),
+        Validators.max(EVENT_LIMITS.carbohydratesGrams.max)
+      ]
     ],
     mealTagId: [null as number | null],
     absorptionHint: [''],
-    note: ['', Validators.maxLength(500)]
+    note: ['', Validators.maxLength(EVENT_LIMITS.noteMaxLength)]
   });
 
   readonly insulinForm = this.fb.group({
@@ -77,12 +149,16 @@ export class AddEventModalComponent {
     insulinType: ['Fast', Validators.required],
     insulinUnits: [
       null as number | null,
-      [Validators.required, Validators.min(0), Validators.max(100)]
+      [
+        Validators.required,
+        Validators.min(EVENT_LIMITS.insulinUnits.min),
+        Validators.max(EVENT_LIMITS.insulinUnits.max)
+      ]
     ],
     preparation: [''],
     delivery: [''],
     timing: [''],
-    note: ['', Validators.maxLength(500)]
+    note: ['', Validators.maxLength(EVENT_LIMITS.noteMaxLength)]
   });
 
   readonly exerciseForm = this.fb.group({
@@ -90,39 +166,30 @@ export class AddEventModalComponent {
     exerciseTypeId: [null as number | null, Validators.required],
     durationMinutes: [
       null as number | null,
-      [Validators.required, Validators.min(1), Validators.max(300)]
+      [
+        Validators.required,
+        Validators.min(EVENT_LIMITS.durationMinutes.min),
+        Validators.max(EVENT_LIMITS.durationMinutes.max)
+      ]
     ],
     intensity: [''],
-    note: ['', Validators.maxLength(500)]
+    note: ['', Validators.maxLength(EVENT_LIMITS.noteMaxLength)]
   });
 
   readonly noteForm = this.fb.group({
     eventTime: [this.getNowLocalDateTime(), [Validators.required]],
-    noteText: ['', [Validators.required, Validators.maxLength(500)]]
+    noteText: ['', [Validators.required, Validators.maxLength(EVENT_LIMITS.noteMaxLength)]]
   });
 
   // Options for selects
-  readonly mealTags = [
-    { id: 1, label: 'Breakfast' },
-    { id: 2, label: 'Lunch' },
-    { id: 3, label: 'Dinner' },
-    { id: 4, label: 'Snack' }
-  ];
-  readonly absorptionHints = ['Fast', 'Medium', 'Slow'];
-  readonly insulinTypes = ['Fast', 'Long'];
-  readonly insulinPreparations = ['Rapid', 'Short', 'Intermediate', 'Long'];
-  readonly insulinDeliveries = ['Injection', 'Pump'];
-  readonly insulinTimings = ['Before meal', 'With meal', 'After meal'];
-  readonly exerciseTypes = [
-    { id: 1, label: 'Walking' },
-    { id: 2, label: 'Running' },
-    { id: 3, label: 'Cycling' },
-    { id: 4, label: 'Swimming' },
-    { id: 5, label: 'Strength' },
-    { id: 6, label: 'Sports' },
-    { id: 7, label: 'Other' }
-  ];
-  readonly intensities = ['Low', 'Moderate', 'High'];
+  readonly mealTags = MEAL_TAG_OPTIONS;
+  readonly absorptionHints = ABSORPTION_HINTS;
+  readonly insulinTypes = INSULIN_TYPES;
+  readonly insulinPreparations = INSULIN_PREPARATIONS;
+  readonly insulinDeliveries = INSULIN_DELIVERIES;
+  readonly insulinTimings = INSULIN_TIMINGS;
+  readonly exerciseTypes = EXERCISE_TYPE_OPTIONS;
+  readonly intensities = EXERCISE_INTENSITIES;
 
   // Localized strings
   readonly title = $localize`:@@dashboard.addEvent.title:Add Event`;
@@ -132,6 +199,14 @@ export class AddEventModalComponent {
   readonly noteTab = $localize`:@@dashboard.addEvent.tabs.note:Note`;
   readonly submitLabel = $localize`:@@dashboard.addEvent.submit:Create Event`;
   readonly cancelLabel = $localize`:@@dashboard.addEvent.cancel:Cancel`;
+  readonly editTitle = $localize`:@@dashboard.addEvent.editTitle:Edit Event`;
+  readonly saveChangesLabel = $localize`:@@dashboard.addEvent.saveChanges:Save Changes`;
+
+  // Preset labels
+  readonly presetsLabel = $localize`:@@dashboard.addEvent.presets:Quick log`;
+  readonly repeatLastLabel = $localize`:@@dashboard.addEvent.presets.repeatLast:Repeat last`;
+  readonly savePresetLabel = $localize`:@@dashboard.addEvent.presets.save:Save as preset`;
+  readonly presetNameLabel = $localize`:@@dashboard.addEvent.presets.name:Preset name`;
 
   // Food labels
   readonly carbsLabel = $localize`:@@dashboard.addEvent.food.carbs:Carbohydrates (g)`;
@@ -156,10 +231,150 @@ export class AddEventModalComponent {
   readonly eventTimeLabel = $localize`:@@dashboard.addEvent.eventTime:Date & Time`;
   readonly eventTimeRequiredLabel = $localize`:@@dashboard.addEvent.eventTime.required:Date & time are required`;
 
+  ngOnInit(): void {
+    const event = this.editEvent();
+    if (event) {
+      this.activeTabIndex.set(Math.max(0, EVENT_TYPE_TABS.indexOf(event.eventType)));
+      this.patchForm(event.eventType, this.toLocalDateTime(new Date(event.eventTime)), event);
+      return;
+    }
+
+    const draft = this.foodDraft();
+    if (draft) {
+      this.activeTabIndex.set(EVENT_TYPE_TABS.indexOf('Food'));
+      const eventTime = draft.eventTime
+        ? this.toLocalDateTime(new Date(draft.eventTime))
+        : this.getNowLocalDateTime();
+      this.patchForm('Food', eventTime, draft);
+    }
+  }
+
+  /**
+   * Fills the form of an event type with an event's, draft's or preset's values
+   */
+  private patchForm(
+    eventType: EventType,
+    eventTime: string,
+    values: Partial<EventResponseDto>
+  ): void {
+    switch (eventType) {
+      case 'Food':
+        this.foodForm.reset({
+          eventTime,
+          carbohydratesGrams: values.carbohydratesGrams ?? null,
+          mealTagId: values.mealTagId ?? null,
+          absorptionHint: values.absorptionHint ?? '',
+          note: values.note ?? ''
+        });
+        break;
+      case 'Insulin':
+        this.insulinForm.reset({
+          eventTime,
+          insulinType: values.insulinType ?? 'Fast',
+          insulinUnits: values.insulinUnits ?? null,
+          preparation: values.preparation ?? '',
+          delivery: values.delivery ?? '',
+          timing: values.timing ?? '',
+          note: values.note ?? ''
+        });
+        break;
+      case 'Exercise':
+        this.exerciseForm.reset({
+          eventTime,
+          exerciseTypeId: values.exerciseTypeId ?? null,
+          durationMinutes: values.durationMinutes ?? null,
+          intensity: values.intensity ?? '',
+          note: values.note ?? ''
+        });
+        break;
+      case 'Note':
+        this.noteForm.reset({
+          eventTime,
+          noteText: values.noteText ?? values.note ?? ''
+        });
+        break;
+    }
+  }
+
+  /**
+   * Fills the active form from a preset, keeping the chosen date & time
+   */
+  applyPreset(preset: EventPreset): void {
+    this.applyFields(preset);
+    this.appliedPresetId.set(preset.id);
+  }
+
+  /**
+   * Fills the active form with the last created event of its type
+   */
+  repeatLast(): void {
+    const fields = this.lastEvent();
+    if (!fields) return;
+    this.applyFields(fields);
+    this.appliedPresetId.set(null);
+  }
+
+  private applyFields(fields: EventPresetFields): void {
+    const eventTime = this.getCurrentForm().controls.eventTime.value || this.getNowLocalDateTime();
+    this.patchForm(fields.eventType, eventTime, fields.values);
+    this.error.set(undefined);
+  }
+
+  /**
+   * Short description of a preset's or last event's values
+   */
+  getPresetSummary(fields: EventPresetFields): string {
+    return presetSummary(fields);
+  }
+
+  /**
+   * Starts naming a preset from the active form (its values must be valid)
+   */
+  startSavePreset(): void {
+    const form = this.getCurrentForm();
+    if (form.invalid) {
+      form.markAllAsTouched();
+      return;
+    }
+    this.presetName.set('');
+  }
+
+  /**
+   * Saves the active form's values as a preset under the entered name
+   */
+  savePreset(): void {
+    const name = this.presetName()?.trim();
+    if (!name || this.getCurrentForm().invalid) return;
+
+    const preset = this.presetsStore.add(name, presetFieldsFromRequest(this.buildCreateRequest()));
+    this.appliedPresetId.set(preset.id);
+    this.presetName.set(null);
+  }
+
   /**
-   * Handles tab change and resets forms
+   * Stops naming a preset without saving it
+   */
+  cancelSavePreset(): void {
+    this.presetName.set(null);
+  }
+
+  /**
+   * Checks if a tab is disabled (in edit mode only the event's own type is editable)
+   */
+  isTabDisabled(index: number): boolean {
+    const event = this.editEvent();
+    return !!event && EVENT_TYPE_TABS[index] !== event.eventType;
+  }
+
+  /**
+   * Handles tab change and resets forms (a preset applied on the previous tab no longer counts)
    */
   onTabChange(index: number): void {
+    if (this.isEditMode()) {
+      return; // Event type is fixed while editing
+    }
+
+    this.appliedPresetId.set(null);
     this.activeTabIndex.set(index);
     this.error.set(undefined);
     this.resetAllForms();
@@ -169,6 +384,8 @@ export class AddEventModalComponent {
    * Resets all forms
    */
   private resetAllForms(): void {
+    this.appliedPresetId.set(null);
+    this.presetName.set(null);
     this.foodForm.reset({
       eventTime: this.getNowLocalDateTime(),
       carbohydratesGrams: null,
@@ -232,29 +449,14 @@ export class AddEventModalComponent {
     this.isSubmitting.set(true);
     this.error.set(undefined);
 
-    const value = this.foodForm.value;
-    const payload = {
-      eventTime: new Date(value.eventTime!).toISOString(),
-      carbohydratesGrams: value.carbohydratesGrams!,
-      mealTagId: value.mealTagId ?? undefined,
-      absorptionHint: value.absorptionHint || undefined,
-      note: value.note || undefined
-    };
+    const payload = this.foodPayload();
 
-    this.eventsService
-      .createFood(payload)
-      .pipe(
-        finalize(() => this.isSubmitting.set(false)),
-        catchError((err) => {
-          this.handleError(err);
-          return of(null);
-        })
-      )
-      .subscribe((result) => {
-        if (result) {
-          this.onSuccess(result);
-        }
-      });
+    const editing = this.editEvent();
+    if (editing) {
+      this.submitRequest(this.eventsService.updateFood(editing.eventId, payload));
+    } else {
+      this.submitCreate({ eventType: 'Food', payload });
+    }
   }
 
   /**
@@ -269,31 +471,14 @@ export class AddEventModalComponent {
     this.isSubmitting.set(true);
     this.error.set(undefined);
 
-    const value = this.insulinForm.value;
-    const payload = {
-      eventTime: new Date(value.eventTime!).toISOString(),
-      insulinType: value.insulinType!,
-      insulinUnits: value.insulinUnits!,
-      preparation: value.preparation || undefined,
-      delivery: value.delivery || undefined,
-      timing: value.timing || undefined,
-      note: value.note || undefined
-    };
+    const payload = this.insulinPayload();
 
-    this.eventsService
-      .createInsulin(payload)
-      .pipe(
-        finalize(() => this.isSubmitting.set(false)),
-        catchError((err) => {
-          this.handleError(err);
-          return of(null);
-        })
-      )
-      .subscribe((result) => {
-        if (result) {
-          this.onSuccess(result);
-        }
-      });
+    const editing = this.editEvent();
+    if (editing) {
+      this.submitRequest(this.eventsService.updateInsulin(editing.eventId, payload));
+    } else {
+      this.submitCreate({ eventType: 'Insulin', payload });
+    }
   }
 
   /**
@@ -308,29 +493,14 @@ export class AddEventModalComponent {
     this.isSubmitting.set(true);
     this.error.set(undefined);
 
-    const value = this.exerciseForm.value;
-    const payload = {
-      eventTime: new Date(value.eventTime!).toISOString(),
-      exerciseTypeId: value.exerciseTypeId!,
-      durationMinutes: value.durationMinutes!,
-      intensity: value.intensity || undefined,
-      note: value.note || undefined
-    };
+    const payload = this.exercisePayload();
 
-    this.eventsService
-      .createExercise(payload)
-      .pipe(
-        finalize(() => this.isSubmitting.set(false)),
-        catchError((err) => {
-          this.handleError(err);
-          return of(null);
-        })
-      )
-      .subscribe((result) => {
-        if (result) {
-          this.onSuccess(result);
-        }
-      });
+    const editing = this.editEvent();
+    if (editing) {
+      this.submitRequest(this.eventsService.updateExercise(editing.eventId, payload));
+    } else {
+      this.submitCreate({ eventType: 'Exercise', payload });
+    }
   }
 
   /**
@@ -345,34 +515,153 @@ export class AddEventModalComponent {
     this.isSubmitting.set(true);
     this.error.set(undefined);
 
+    const payload = this.notePayload();
+
+    const editing = this.editEvent();
+    if (editing) {
+      this.submitRequest(this.eventsService.updateNote(editing.eventId, payload));
+    } else {
+      this.submitCreate({ eventType: 'Note', payload });
+    }
+  }
+
+  /**
+   * Create request from the active form
+   */
+  private buildCreateRequest(): CreateEventRequest {
+    switch (this.activeEventType()) {
+      case 'Insulin':
+        return { eventType: 'Insulin', payload: this.insulinPayload() };
+      case 'Exercise':
+        return { eventType: 'Exercise', payload: this.exercisePayload() };
+      case 'Note':
+        return { eventType: 'Note', payload: this.notePayload() };
+      default:
+        return { eventType: 'Food', payload: this.foodPayload() };
+    }
+  }
+
+  private foodPayload(): CreateFoodEventRequestDto {
+    const value = this.foodForm.value;
+    return {
+      eventTime: new Date(value.eventTime!).toISOString(),
+      carbohydratesGrams: value.carbohydratesGrams!,
+      mealTagId: value.mealTagId ?? undefined,
+      absorptionHint: value.absorptionHint || undefined,
+      note: value.note || undefined
+    };
+  }
+
+  private insulinPayload(): CreateInsulinEventRequestDto {
+    const value = this.insulinForm.value;
+    return {
+      eventTime: new Date(value.eventTime!).toISOString(),
+      insulinType: value.insulinType!,
+      insulinUnits: value.insulinUnits!,
+      preparation: value.preparation || undefined,
+      delivery: value.delivery || undefined,
+      timing: value.timing || undefined,
+      note: value.note || undefined
+    };
+  }
+
+  private exercisePayload(): CreateExerciseEventRequestDto {
+    const value = this.exerciseForm.value;
+    return {
+      eventTime: new Date(value.eventTime!).toISOString(),
+      exerciseTypeId: value.exerciseTypeId!,
+      durationMinutes: value.durationMinutes!,
+      intensity: value.intensity || undefined,
+      note: value.note || undefined
+    };
+  }
+
+  private notePayload(): CreateNoteEventRequestDto {
     const value = this.noteForm.value;
-    const payload = {
+    return {
       eventTime: new Date(value.eventTime!).toISOString(),
       noteText: value.noteText!
     };
+  }
 
-    this.eventsService
-      .createNote(payload)
+  /**
+   * Sends a create request, or queues it for later sync when offline
+   */
+  private submitCreate(request: CreateEventRequest): void {
+    if (!this.eventSync.isOnline()) {
+      this.queueRequest(request);
+      return;
+    }
+
+    this.submitRequest(this.eventsService.create(request), request);
+  }
+
+  /**
+   * Sends a create or update request and handles its result.
+   * A create request that cannot reach the server is queued instead of failing.
+   */
+  private submitRequest(
+    request$: Observable<EventResponseDto>,
+    queueable?: CreateEventRequest
+  ): void {
+    request$
       .pipe(
         finalize(() => this.isSubmitting.set(false)),
         catchError((err) => {
-          this.handleError(err);
+          if (queueable && err.status === 0) {
+            this.queueRequest(queueable);
+          } else {
+            this.handleError(err);
+          }
           return of(null);
         })
       )
       .subscribe((result) => {
         if (result) {
+          if (queueable) this.rememberCreated(queueable);
           this.onSuccess(result);
         }
       });
   }
 
   /**
-   * Handles successful event creation
+   * Saves a create request in the offline outbox
+   */
+  private queueRequest(request: CreateEventRequest): void {
+    this.eventSync
+      .enqueue(request)
+      .then((entry) => {
+        this.isSubmitting.set(false);
+        this.rememberCreated(request);
+        this.resetAllForms();
+        this.queued.emit(entry);
+        this.onClose();
+      })
+      .catch((err) => {
+        console.error('Failed to queue event:', err);
+        this.isSubmitting.set(false);
+        this.handleError(err);
+      });
+  }
+
+  /**
+   * Keeps a created event for "repeat last" and counts the preset it came from
+   */
+  private rememberCreated(request: CreateEventRequest): void {
+    this.presetsStore.recordCreated(request, this.appliedPresetId());
+  }
+
+  /**
+   * Handles successful event creation or update
    */
   private onSuccess(event: EventResponseDto): void {
+    const wasEditing = this.isEditMode();
     this.resetAllForms();
-    this.created.emit(event);
+    if (wasEditing) {
+      this.updated.emit(event);
+    } else {
+      this.created.emit(event);
+    }
     this.onClose();
   }
 
@@ -385,6 +674,10 @@ export class AddEventModalComponent {
         err.error?.detail ||
           $localize`:@@dashboard.addEvent.error.validation:Invalid input. Please check your entries.`
       );
+    } else if (this.isEditMode()) {
+      this.error.set(
+        $localize`:@@dashboard.addEvent.error.updateGeneric:Failed to update event. Please try again.`
+      );
     } else {
       this.error.set(
         $localize`:@@dashboard.addEvent.error.generic:Failed to create event. Please try again.`
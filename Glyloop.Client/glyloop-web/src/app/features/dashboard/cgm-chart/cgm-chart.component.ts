@@ -7,7 +7,9 @@ import {
   effect,
   ElementRef,
   OnDestroy,
-  signal
+  signal,
+  computed,
+  untracked
 } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import {
@@ -23,15 +25,32 @@ import {
   Tooltip,
   Legend,
   Filler,
+  Plugin,
   ScatterController
 } from 'chart.js';
 import 'chartjs-adapter-date-fns';
-import { ChartDataResponseDto, ChartRange } from '../../../core/models/dashboard.types';
+import {
+  ChartDataResponseDto,
+  ChartRange,
+  ChartWindow,
+  OverlayEventMarkerDto
+} from '../../../core/models/dashboard.types';
+import { GlucoseUnit } from '../../../core/models/settings.types';
+import { OnBoardPoint } from '../../../core/models/on-board.types';
+import { HypoEpisode } from '../../../core/models/hypo.types';
+import {
+  glucoseDecimals,
+  roundGlucose,
+  toDisplayGlucoseExact
+} from '../../../core/utils/glucose-units';
+import { isLocalEventId } from '../../../core/utils/outbox';
+import { trendArrow } from '../../../core/utils/glucose-trend';
 
 interface NormalizedGlucosePoint {
   iso: string;
   epochMs: number;
   value: number | null;
+  trend: string | null;
 }
 
 interface NormalizedOverlayPoint {
@@ -44,6 +63,26 @@ interface NormalizedOverlayPoint {
   summary?: string | null;
 }
 
+// Visible x-axis span in epoch milliseconds
+interface ChartViewport {
+  min: number;
+  max: number;
+}
+
+interface DragState {
+  mode: 'pan' | 'select';
+  pointerId: number;
+  startX: number;
+  startViewport: ChartViewport;
+  moved: boolean;
+}
+
+interface PinchState {
+  startDistance: number;
+  startViewport: ChartViewport;
+  anchorMs: number;
+}
+
 // Register Chart.js components
 Chart.register(
   TimeSeriesScale,
@@ -60,6 +99,11 @@ Chart.register(
 /**
  * CGM Chart component using Chart.js v4.
  * Renders glucose timeseries with gaps, event overlays, and interactive crosshair.
+ * Events waiting in the offline outbox are drawn as hollow ghost markers.
+ * Optional insulin and carbs on board curves use their own right-hand axes.
+ * Hypo episodes can be shaded behind the glucose line.
+ * Supports wheel/pinch zoom, drag-to-pan and Shift+drag range selection;
+ * viewports reaching past the loaded data are requested via `viewportChange`.
  */
 @Component({
   selector: 'app-cgm-chart',
@@ -72,14 +116,21 @@ Chart.register(
 export class CgmChartComponent implements OnDestroy {
   // Inputs
   readonly chartData = input.required<ChartDataResponseDto | null>();
+  readonly pendingOverlays = input<OverlayEventMarkerDto[]>([]); // queued, not yet synced
   readonly highlightEventId = input<string | undefined>(undefined);
   readonly range = input.required<ChartRange>();
   readonly upperBoundary = input<number>(180);
   readonly lowerBoundary = input<number>(70);
+  readonly veryHighBoundary = input<number>(250);
+  readonly veryLowBoundary = input<number>(54);
+  readonly unit = input<GlucoseUnit>('mg/dL'); // display unit; data and bounds are mg/dL
+  readonly onBoard = input<OnBoardPoint[]>([]); // IOB/COB curves; empty hides them
+  readonly hypoEpisodes = input<HypoEpisode[]>([]); // shaded time ranges
 
   // Outputs
   readonly eventSelect = output<string>();
   readonly crosshairMove = output<string>(); // timestampUtc
+  readonly viewportChange = output<ChartWindow>(); // window that needs loading
 
   // Template refs
   private readonly canvasRef = viewChild<ElementRef<HTMLCanvasElement>>('chartCanvas');
@@ -91,19 +142,75 @@ export class CgmChartComponent implements OnDestroy {
   // Crosshair state
   private crosshairPosition: { x: number; y: number } | null = null;
 
+  // Zoom/pan state (null viewport = whole loaded window)
+  readonly isZoomed = signal<boolean>(false);
+  readonly selectionBox = signal<{ left: number; top: number; width: number; height: number } | null>(null);
+  private viewport: ChartViewport | null = null;
+  private loadedWindow: ChartViewport | null = null;
+  private awaitingViewportData = false;
+  private viewportFetchTimer: ReturnType<typeof setTimeout> | null = null;
+  private dragState: DragState | null = null;
+  private pinchState: PinchState | null = null;
+  private suppressNextClick = false;
+  private readonly activePointers = new Map<number, number>(); // pointerId -> offsetX
+
+  private readonly ZOOM_STEP = 1.25;
+  private readonly MIN_VIEW_SPAN_MS = 15 * 60 * 1000; // 15 minutes
+  private readonly MAX_VIEW_SPAN_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+  private readonly FETCH_TOLERANCE_MS = 5 * 60 * 1000; // one CGM interval
+  private readonly FETCH_DEBOUNCE_MS = 400;
+  private readonly DRAG_THRESHOLD_PX = 4;
+
+  // Shades hypo episodes across the plot area, behind the datasets
+  private readonly hypoShadingPlugin: Plugin = {
+    id: 'hypoEpisodeShading',
+    beforeDatasetsDraw: (chart) => {
+      const episodes = untracked(() => this.hypoEpisodes());
+      const xScale = chart.scales['x'];
+      if (!xScale || episodes.length === 0) return;
+
+      const { ctx, chartArea } = chart;
+      ctx.save();
+      ctx.fillStyle = 'rgba(245, 158, 11, 0.15)';
+      for (const episode of episodes) {
+        const start = xScale.getPixelForValue(Date.parse(episode.startTime));
+        const end = xScale.getPixelForValue(Date.parse(episode.endTime));
+        const left = Math.max(start, chartArea.left);
+        const right = Math.min(end, chartArea.right);
+        if (right > left) {
+          ctx.fillRect(left, chartArea.top, right - left, chartArea.bottom - chartArea.top);
+        }
+      }
+      ctx.restore();
+    }
+  };
+
   // Overlay points (kept in component state to avoid typing issues with Chart.js datasets)
   private overlayPointsState: NormalizedOverlayPoint[] = [];
+  // Glucose points in line dataset order (for tooltip trend arrows)
+  private glucosePointsState: NormalizedGlucosePoint[] = [];
   // Overlay points grouped per dataset (aligned with scatter datasets order)
   private overlayDatasetMeta: NormalizedOverlayPoint[][] = [];
 
   // Localized strings
-  readonly glucoseLabel = $localize`:@@dashboard.chart.glucoseLabel:Glucose (mg/dL)`;
+  readonly glucoseLabel = computed(() =>
+    this.unit() === 'mmol/L'
+      ? $localize`:@@dashboard.chart.glucoseLabelMmol:Glucose (mmol/L)`
+      : $localize`:@@dashboard.chart.glucoseLabel:Glucose (mg/dL)`
+  );
   readonly noDataMessage = $localize`:@@dashboard.chart.noData:No glucose data available for this time range`;
+  readonly resetZoomLabel = $localize`:@@dashboard.chart.resetZoom:Reset zoom`;
+  readonly pendingSyncLabel = $localize`:@@dashboard.chart.pendingSync:Pending sync`;
+  readonly iobLabel = $localize`:@@dashboard.chart.iob:Insulin on board`;
+  readonly cobLabel = $localize`:@@dashboard.chart.cob:Carbs on board`;
 
   constructor() {
     // React to chart data changes
     effect(() => {
       const data = this.chartData();
+      this.pendingOverlays();
+      this.onBoard();
+      this.hypoEpisodes();
       if (data) {
         this.updateChart(data);
       }
@@ -117,6 +224,9 @@ export class CgmChartComponent implements OnDestroy {
   }
 
   ngOnDestroy(): void {
+    if (this.viewportFetchTimer) {
+      clearTimeout(this.viewportFetchTimer);
+    }
     this.destroyChart();
   }
 
@@ -126,11 +236,18 @@ export class CgmChartComponent implements OnDestroy {
   private updateChart(data: ChartDataResponseDto): void {
     const canvas = this.canvasRef()?.nativeElement;
     if (!canvas) return;
+
+    this.trackLoadedWindow(data);
+
     if (!this.chart) {
       this.createChart(canvas, data);
     } else {
       this.updateChartData(data);
     }
+
+    // New data resets marker radii; re-apply the current selection
+    const eventId = untracked(() => this.highlightEventId());
+    if (eventId) this.updateHighlight(eventId);
   }
 
   /**
@@ -144,6 +261,7 @@ export class CgmChartComponent implements OnDestroy {
     const config: ChartConfiguration = {
       type: 'line',
       data: chartData,
+      plugins: [this.hypoShadingPlugin],
       options: {
         responsive: true,
         maintainAspectRatio: true,
@@ -172,8 +290,17 @@ export class CgmChartComponent implements OnDestroy {
                 return date.toLocaleString();
               },
               label: (context) => {
-                if (context.dataset.label === this.glucoseLabel) {
-                  return `${context.dataset.label}: ${context.parsed.y} mg/dL`;
+                if (context.datasetIndex === 0 && typeof context.parsed.y === 'number') {
+                  const unit = this.unit();
+                  const value = roundGlucose(context.parsed.y, unit).toFixed(glucoseDecimals(unit));
+                  const arrow = trendArrow(this.glucosePointsState[context.dataIndex]?.trend);
+                  return `${context.dataset.label}: ${value} ${unit}${arrow ? ` ${arrow}` : ''}`;
+                }
+                const axis = (context.dataset as { yAxisID?: string }).yAxisID;
+                if ((axis === 'iob' || axis === 'cob') && typeof context.parsed.y === 'number') {
+                  return axis === 'iob'
+                    ? `${context.dataset.label}: ${context.parsed.y.toFixed(1)} U`
+                    : `${context.dataset.label}: ${Math.round(context.parsed.y)} g`;
                 }
                 return context.dataset.label || '';
               }
@@ -192,19 +319,39 @@ export class CgmChartComponent implements OnDestroy {
             title: {
               display: true,
               text: 'Time'
-            }
+            },
+            min: this.viewport?.min,
+            max: this.viewport?.max
           },
           y: {
             type: 'linear',
-            suggestedMin: 50,
-            suggestedMax: 350,
+            suggestedMin: this.toDisplay(50),
+            suggestedMax: this.toDisplay(350),
             title: {
               display: true,
-              text: this.glucoseLabel
+              text: this.glucoseLabel()
             },
             ticks: {
               callback: (value) => `${value}`
             }
+          },
+          iob: {
+            type: 'linear',
+            position: 'right',
+            display: this.onBoard().length > 0,
+            beginAtZero: true,
+            suggestedMax: 4,
+            title: { display: true, text: 'IOB (U)' },
+            grid: { drawOnChartArea: false }
+          },
+          cob: {
+            type: 'linear',
+            position: 'right',
+            display: this.onBoard().length > 0,
+            beginAtZero: true,
+            suggestedMax: 60,
+            title: { display: true, text: 'COB (g)' },
+            grid: { drawOnChartArea: false }
           }
         },
         onClick: (event, elements) => {
@@ -218,6 +365,7 @@ export class CgmChartComponent implements OnDestroy {
 
     this.chart = new Chart(ctx, config);
     this.setupKeyboardNavigation(canvas);
+    this.setupZoomAndPan(canvas);
   }
 
   /**
@@ -225,14 +373,17 @@ export class CgmChartComponent implements OnDestroy {
    */
   private prepareChartData(data: ChartDataResponseDto): ChartData {
     const glucosePoints = this.buildGlucosePoints(data).sort((a, b) => a.epochMs - b.epochMs);
-    const overlayPoints = this.buildOverlayPoints(data).sort((a, b) => a.epochMs - b.epochMs);
-    // Keep overlay points in sync with dataset order
+    const overlayPoints = this.buildOverlayPoints(data.eventOverlays ?? []).sort(
+      (a, b) => a.epochMs - b.epochMs
+    );
+    // Keep overlay and glucose points in sync with dataset order
     this.overlayPointsState = overlayPoints;
+    this.glucosePointsState = glucosePoints;
 
     // Glucose line dataset
     const glucoseData = glucosePoints.map((point) => ({
       x: point.epochMs,
-      y: point.value
+      y: point.value === null ? null : this.toDisplay(point.value)
     }));
 
     // Event overlay scatter datasets grouped by event type to get distinct legend entries/colors
@@ -267,7 +418,7 @@ export class CgmChartComponent implements OnDestroy {
       const pointsForType = overlayByType.get(type)!;
       this.overlayDatasetMeta.push(pointsForType);
       const datasetData = pointsForType.map((overlay) => {
-        const yValue = this.getGlucoseValueAt(overlay.epochMs, glucosePoints) ?? 200;
+        const yValue = this.toDisplay(this.getGlucoseValueAt(overlay.epochMs, glucosePoints) ?? 200);
         return { x: overlay.epochMs, y: yValue };
       });
       const color = eventTypeColors[type] ?? '#ff6384';
@@ -282,13 +433,35 @@ export class CgmChartComponent implements OnDestroy {
       } as never);
     }
 
+    // Ghost markers for queued events, hollow in their type's color
+    const pendingPoints = this.buildOverlayPoints(this.pendingOverlays());
+    if (pendingPoints.length > 0) {
+      this.overlayDatasetMeta.push(pendingPoints);
+      overlayDatasets.push({
+        type: 'scatter',
+        label: this.pendingSyncLabel,
+        data: pendingPoints.map((overlay) => ({
+          x: overlay.epochMs,
+          y: this.toDisplay(this.getGlucoseValueAt(overlay.epochMs, glucosePoints) ?? 200)
+        })),
+        backgroundColor: 'rgba(148, 163, 184, 0.15)',
+        borderColor: pendingPoints.map(
+          (overlay) => eventTypeColors[overlay.eventType ?? ''] ?? '#94a3b8'
+        ),
+        borderWidth: 2,
+        pointRadius: 8,
+        pointHoverRadius: 10,
+        pointStyle: 'circle'
+      } as never);
+    }
+
     const thresholdDatasets = this.buildThresholdDatasets(glucosePoints, data);
 
     return {
       datasets: [
         {
           type: 'line',
-          label: this.glucoseLabel,
+          label: this.glucoseLabel(),
           data: glucoseData,
           borderColor: 'rgb(75, 192, 192)',
           backgroundColor: 'rgba(75, 192, 192, 0.1)',
@@ -300,11 +473,39 @@ export class CgmChartComponent implements OnDestroy {
           fill: true
         },
         ...overlayDatasets,
-        ...thresholdDatasets
+        ...thresholdDatasets,
+        ...this.buildOnBoardDatasets()
       ]
     };
   }
 
+  /**
+   * Dashed IOB and COB lines on their own axes (none when no curve is provided)
+   */
+  private buildOnBoardDatasets(): ChartData['datasets'] {
+    const points = this.onBoard()
+      .map((point) => ({ ...point, epochMs: Date.parse(point.timestamp) }))
+      .filter((point) => Number.isFinite(point.epochMs));
+    if (points.length === 0) return [];
+
+    const curve = (label: string, key: 'iob' | 'cob', color: string) =>
+      ({
+        type: 'line',
+        label,
+        yAxisID: key,
+        data: points.map((point) => ({ x: point.epochMs, y: point[key] })),
+        borderColor: color,
+        borderWidth: 1.5,
+        borderDash: [4, 4],
+        pointRadius: 0,
+        pointHoverRadius: 3,
+        fill: false,
+        tension: 0.2
+      }) as never;
+
+    return [curve(this.iobLabel, 'iob', '#5B8DEF'), curve(this.cobLabel, 'cob', '#fb923c')];
+  }
+
   /**
    * Gets glucose value at a specific time (or nearest)
    */
@@ -335,7 +536,8 @@ export class CgmChartComponent implements OnDestroy {
       .map((point) => ({
         iso: point.timestamp,
         epochMs: Date.parse(point.timestamp),
-        value: point.value ?? null
+        value: point.value ?? null,
+        trend: point.trend ?? null
       }))
       .filter((point) => Number.isFinite(point.epochMs));
   }
@@ -343,8 +545,8 @@ export class CgmChartComponent implements OnDestroy {
   /**
    * Normalizes overlay markers with millisecond timestamps
    */
-  private buildOverlayPoints(data: ChartDataResponseDto): NormalizedOverlayPoint[] {
-    return (data.eventOverlays ?? [])
+  private buildOverlayPoints(overlays: OverlayEventMarkerDto[]): NormalizedOverlayPoint[] {
+    return overlays
       .map((overlay) => ({
         eventId: overlay.eventId,
         eventType: overlay.eventType?.toString(),
@@ -363,6 +565,8 @@ export class CgmChartComponent implements OnDestroy {
   ): ChartData['datasets'] {
     const upper = this.upperBoundary();
     const lower = this.lowerBoundary();
+    const veryHigh = this.veryHighBoundary();
+    const veryLow = this.veryLowBoundary();
 
     const startEpoch = this.resolveStartEpoch(glucosePoints, data);
     const endEpoch = this.resolveEndEpoch(glucosePoints, data);
@@ -376,12 +580,36 @@ export class CgmChartComponent implements OnDestroy {
 
     const datasets: ChartData['datasets'] = [];
 
+    if (Number.isFinite(veryHigh)) {
+      datasets.push(
+        this.createThresholdDataset(
+          minEpoch,
+          maxEpoch,
+          this.toDisplay(veryHigh),
+          'Very High',
+          'rgba(234, 88, 12, 0.75)'
+        )
+      );
+    }
+
     if (Number.isFinite(upper)) {
-      datasets.push(this.createThresholdDataset(minEpoch, maxEpoch, upper, 'Upper Range'));
+      datasets.push(this.createThresholdDataset(minEpoch, maxEpoch, this.toDisplay(upper), 'Upper Range'));
     }
 
     if (Number.isFinite(lower)) {
-      datasets.push(this.createThresholdDataset(minEpoch, maxEpoch, lower, 'Lower Range'));
+      datasets.push(this.createThresholdDataset(minEpoch, maxEpoch, this.toDisplay(lower), 'Lower Range'));
+    }
+
+    if (Number.isFinite(veryLow)) {
+      datasets.push(
+        this.createThresholdDataset(
+          minEpoch,
+          maxEpoch,
+          this.toDisplay(veryLow),
+          'Very Low',
+          'rgba(153, 27, 27, 0.9)'
+        )
+      );
     }
 
     return datasets;
@@ -415,7 +643,8 @@ export class CgmChartComponent implements OnDestroy {
     minEpoch: number,
     maxEpoch: number,
     value: number,
-    label: string
+    label: string,
+    color = 'rgba(220, 53, 69, 0.85)'
   ): ChartData['datasets'][number] {
     return {
       type: 'line',
@@ -424,7 +653,7 @@ export class CgmChartComponent implements OnDestroy {
         { x: minEpoch, y: value },
         { x: maxEpoch, y: value }
       ],
-      borderColor: 'rgba(220, 53, 69, 0.85)',
+      borderColor: color,
       borderWidth: 1,
       borderDash: [6, 6],
       pointRadius: 0,
@@ -442,9 +671,43 @@ export class CgmChartComponent implements OnDestroy {
 
     const newData = this.prepareChartData(data);
     this.chart.data = newData;
+    this.applyUnitToAxis();
+    this.applyOnBoardAxes();
     this.chart.update('none'); // Update without animation for performance
   }
 
+  /**
+   * Converts an mg/dL value to the display unit for plotting
+   */
+  private toDisplay(mgdl: number): number {
+    return toDisplayGlucoseExact(mgdl, this.unit());
+  }
+
+  /**
+   * Keeps the y axis title and suggested bounds in the current display unit
+   */
+  private applyUnitToAxis(): void {
+    const yScale = this.chart?.options.scales?.['y'] as
+      | { suggestedMin?: number; suggestedMax?: number; title?: { text?: string } }
+      | undefined;
+    if (!yScale) return;
+
+    yScale.suggestedMin = this.toDisplay(50);
+    yScale.suggestedMax = this.toDisplay(350);
+    if (yScale.title) yScale.title.text = this.glucoseLabel();
+  }
+
+  /**
+   * Shows the IOB and COB axes only while their curves are drawn
+   */
+  private applyOnBoardAxes(): void {
+    const visible = this.onBoard().length > 0;
+    for (const id of ['iob', 'cob']) {
+      const scale = this.chart?.options.scales?.[id] as { display?: boolean } | undefined;
+      if (scale) scale.display = visible;
+    }
+  }
+
   /**
    * Updates highlight for selected event
    */
@@ -469,6 +732,12 @@ export class CgmChartComponent implements OnDestroy {
    * Handles chart click events (for overlay markers)
    */
   private handleChartClick(event: unknown, elements: { datasetIndex: number; index: number }[]): void {
+    // A click ending a drag is not a selection
+    if (this.suppressNextClick) {
+      this.suppressNextClick = false;
+      return;
+    }
+
     if (elements.length === 0) return;
 
     const element = elements[0];
@@ -481,7 +750,8 @@ export class CgmChartComponent implements OnDestroy {
       const overlayGroupIndex = datasetIndex - firstOverlayDatasetIndex;
       const dataIndex = element.index;
       const meta = this.overlayDatasetMeta[overlayGroupIndex]?.[dataIndex];
-      if (meta?.eventId) this.eventSelect.emit(meta.eventId);
+      // Queued events have no server details to show yet
+      if (meta?.eventId && !isLocalEventId(meta.eventId)) this.eventSelect.emit(meta.eventId);
     }
   }
 
@@ -548,7 +818,10 @@ export class CgmChartComponent implements OnDestroy {
   private setupKeyboardNavigation(canvas: HTMLCanvasElement): void {
     canvas.tabIndex = 0; // Make canvas focusable
     canvas.setAttribute('role', 'img');
-    canvas.setAttribute('aria-label', 'Glucose chart with keyboard navigation');
+    canvas.setAttribute(
+      'aria-label',
+      'Glucose chart with keyboard navigation, zoom (+/-) and pan (Page Up/Page Down)'
+    );
 
     canvas.addEventListener('keydown', (event) => {
       if (!this.chart) return;
@@ -577,6 +850,34 @@ export class CgmChartComponent implements OnDestroy {
           event.preventDefault();
           this.handleEnterOnCrosshair();
           return;
+
+        case '+':
+        case '=':
+          event.preventDefault();
+          this.zoomAt(1 / this.ZOOM_STEP, this.getCrosshairEpoch());
+          return;
+
+        case '-':
+        case '_':
+          event.preventDefault();
+          this.zoomAt(this.ZOOM_STEP, this.getCrosshairEpoch());
+          return;
+
+        case 'PageUp':
+        case 'PageDown': {
+          // Pan by half the visible span (Up = earlier)
+          event.preventDefault();
+          const view = this.getCurrentViewport();
+          if (!view) return;
+          const step = (view.max - view.min) / 2;
+          this.panTo(view, event.key === 'PageUp' ? -step : step);
+          return;
+        }
+
+        case '0':
+          event.preventDefault();
+          this.resetZoom();
+          return;
       }
 
       if (newIndex !== currentIndex && newIndex >= 0 && newIndex < dataLength) {
@@ -616,6 +917,314 @@ export class CgmChartComponent implements OnDestroy {
     }
   }
 
+  /**
+   * Returns the crosshair timestamp, or undefined when no point is focused
+   */
+  private getCrosshairEpoch(): number | undefined {
+    if (!this.chart) return undefined;
+
+    const index = this.currentCrosshairIndex();
+    if (index < 0) return undefined;
+
+    const point = this.chart.data.datasets[0].data[index] as { x?: number } | undefined;
+    return point?.x;
+  }
+
+  /**
+   * Sets up wheel/pinch zoom, drag-to-pan and Shift+drag range selection
+   */
+  private setupZoomAndPan(canvas: HTMLCanvasElement): void {
+    canvas.addEventListener(
+      'wheel',
+      (event) => {
+        const anchor = this.getEpochAtPixel(event.offsetX);
+        if (anchor === null) return;
+
+        event.preventDefault();
+        this.zoomAt(event.deltaY < 0 ? 1 / this.ZOOM_STEP : this.ZOOM_STEP, anchor);
+      },
+      { passive: false }
+    );
+
+    canvas.addEventListener('pointerdown', (event) => {
+      if (event.pointerType === 'mouse' && event.button !== 0) return;
+
+      this.activePointers.set(event.pointerId, event.offsetX);
+
+      if (this.activePointers.size === 2) {
+        // Second finger down: switch from panning to pinch zoom
+        this.dragState = null;
+        this.selectionBox.set(null);
+        this.startPinch();
+        return;
+      }
+
+      const view = this.getCurrentViewport();
+      if (!view || this.getEpochAtPixel(event.offsetX) === null) return;
+
+      canvas.setPointerCapture(event.pointerId);
+      this.dragState = {
+        mode: event.shiftKey ? 'select' : 'pan',
+        pointerId: event.pointerId,
+        startX: event.offsetX,
+        startViewport: view,
+        moved: false
+      };
+    });
+
+    canvas.addEventListener('pointermove', (event) => {
+      if (!this.activePointers.has(event.pointerId)) return;
+      this.activePointers.set(event.pointerId, event.offsetX);
+
+      if (this.pinchState) {
+        this.updatePinch();
+        return;
+      }
+
+      const drag = this.dragState;
+      if (!drag || drag.pointerId !== event.pointerId || !this.chart) return;
+
+      const dx = event.offsetX - drag.startX;
+      if (!drag.moved && Math.abs(dx) < this.DRAG_THRESHOLD_PX) return;
+      drag.moved = true;
+
+      const area = this.chart.chartArea;
+      if (drag.mode === 'pan') {
+        const span = drag.startViewport.max - drag.startViewport.min;
+        this.panTo(drag.startViewport, (-dx / (area.right - area.left)) * span);
+      } else {
+        const x = Math.min(Math.max(event.offsetX, area.left), area.right);
+        this.selectionBox.set({
+          left: Math.min(drag.startX, x),
+          top: area.top,
+          width: Math.abs(x - drag.startX),
+          height: area.bottom - area.top
+        });
+      }
+    });
+
+    const endPointer = (event: PointerEvent): void => {
+      this.activePointers.delete(event.pointerId);
+
+      if (this.pinchState) {
+        if (this.activePointers.size < 2) this.pinchState = null;
+        this.suppressNextClick = true;
+        return;
+      }
+
+      const drag = this.dragState;
+      if (!drag || drag.pointerId !== event.pointerId) return;
+      this.dragState = null;
+
+      if (!drag.moved) return;
+      this.suppressNextClick = true;
+
+      if (drag.mode === 'select') {
+        this.selectionBox.set(null);
+        const from = this.getEpochAtPixel(drag.startX, true);
+        const to = this.getEpochAtPixel(event.offsetX, true);
+        if (from !== null && to !== null) {
+          this.setViewport({ min: Math.min(from, to), max: Math.max(from, to) });
+        }
+      }
+    };
+
+    canvas.addEventListener('pointerup', endPointer);
+    canvas.addEventListener('pointercancel', endPointer);
+  }
+
+  /**
+   * Records the pinch baseline from the two active pointers
+   */
+  private startPinch(): void {
+    const view = this.getCurrentViewport();
+    const [a, b] = Array.from(this.activePointers.values());
+    const anchor = this.getEpochAtPixel((a + b) / 2, true);
+    if (!view || anchor === null) return;
+
+    this.pinchState = {
+      startDistance: Math.max(Math.abs(a - b), 1),
+      startViewport: view,
+      anchorMs: anchor
+    };
+  }
+
+  /**
+   * Zooms relative to the pinch baseline as the fingers move apart or together
+   */
+  private updatePinch(): void {
+    const pinch = this.pinchState;
+    if (!pinch || this.activePointers.size < 2) return;
+
+    const [a, b] = Array.from(this.activePointers.values());
+    const distance = Math.max(Math.abs(a - b), 1);
+    this.setViewport(this.scaleViewport(pinch.startViewport, pinch.startDistance / distance, pinch.anchorMs));
+  }
+
+  /**
+   * Converts a canvas x offset to a timestamp; null outside the plot area unless clamped
+   */
+  private getEpochAtPixel(x: number, clamp = false): number | null {
+    if (!this.chart) return null;
+
+    const area = this.chart.chartArea;
+    if (!clamp && (x < area.left || x > area.right)) return null;
+
+    const value = this.chart.scales['x'].getValueForPixel(Math.min(Math.max(x, area.left), area.right));
+    return typeof value === 'number' && Number.isFinite(value) ? value : null;
+  }
+
+  /**
+   * Returns the visible x-axis span
+   */
+  private getCurrentViewport(): ChartViewport | null {
+    if (this.viewport) return this.viewport;
+    if (!this.chart) return this.loadedWindow;
+
+    const scale = this.chart.scales['x'];
+    return Number.isFinite(scale?.min) && Number.isFinite(scale?.max) && scale.max > scale.min
+      ? { min: scale.min, max: scale.max }
+      : this.loadedWindow;
+  }
+
+  /**
+   * Zooms the visible span by a factor (<1 zooms in) around an anchor timestamp
+   */
+  private zoomAt(factor: number, anchorMs?: number): void {
+    const view = this.getCurrentViewport();
+    if (!view) return;
+
+    this.setViewport(this.scaleViewport(view, factor, anchorMs ?? (view.min + view.max) / 2));
+  }
+
+  /**
+   * Scales a viewport around an anchor, keeping the anchor at the same relative position
+   */
+  private scaleViewport(view: ChartViewport, factor: number, anchorMs: number): ChartViewport {
+    const span = view.max - view.min;
+    const nextSpan = Math.min(Math.max(span * factor, this.MIN_VIEW_SPAN_MS), this.MAX_VIEW_SPAN_MS);
+    const ratio = span > 0 ? (anchorMs - view.min) / span : 0.5;
+    const min = anchorMs - ratio * nextSpan;
+
+    return { min, max: min + nextSpan };
+  }
+
+  /**
+   * Shifts a viewport by a time offset (negative = earlier)
+   */
+  private panTo(view: ChartViewport, offsetMs: number): void {
+    this.setViewport({ min: view.min + offsetMs, max: view.max + offsetMs });
+  }
+
+  /**
+   * Applies a viewport to the x axis. The right edge never moves past the
+   * newest loaded data (or now), and data beyond the loaded window is requested.
+   */
+  private setViewport(view: ChartViewport): void {
+    if (!this.chart) return;
+
+    const span = view.max - view.min;
+    if (!(span > 0)) return;
+
+    const latest = Math.max(Date.now(), this.loadedWindow?.max ?? 0);
+    const shift = Math.max(0, view.max - latest);
+    this.viewport = { min: view.min - shift, max: view.max - shift };
+
+    this.applyViewportToScale();
+    this.isZoomed.set(true);
+    this.scheduleViewportFetch();
+  }
+
+  /**
+   * Restores the x axis to the whole loaded window
+   */
+  resetZoom(): void {
+    if (this.viewportFetchTimer) {
+      clearTimeout(this.viewportFetchTimer);
+      this.viewportFetchTimer = null;
+    }
+
+    this.viewport = null;
+    this.isZoomed.set(false);
+    this.selectionBox.set(null);
+
+    if (this.chart) this.applyViewportToScale();
+  }
+
+  /**
+   * Writes the current viewport into the x scale options and redraws
+   */
+  private applyViewportToScale(): void {
+    if (!this.chart) return;
+
+    const xScale = this.chart.options.scales?.['x'] as { min?: number; max?: number } | undefined;
+    if (xScale) {
+      xScale.min = this.viewport?.min;
+      xScale.max = this.viewport?.max;
+    }
+
+    this.chart.update('none');
+  }
+
+  /**
+   * Requests more data (debounced) when the viewport reaches past the loaded window.
+   * The requested window spans both, so already loaded data stays visible.
+   */
+  private scheduleViewportFetch(): void {
+    if (this.viewportFetchTimer) {
+      clearTimeout(this.viewportFetchTimer);
+    }
+
+    this.viewportFetchTimer = setTimeout(() => {
+      this.viewportFetchTimer = null;
+
+      const view = this.viewport;
+      const loaded = this.loadedWindow;
+      if (!view || !loaded) return;
+
+      const now = Date.now();
+      const needsEarlier = view.min < loaded.min - this.FETCH_TOLERANCE_MS;
+      const needsLater = view.max > loaded.max + this.FETCH_TOLERANCE_MS && loaded.max < now;
+      if (!needsEarlier && !needsLater) return;
+
+      this.awaitingViewportData = true;
+      this.viewportChange.emit({
+        startTime: new Date(Math.min(view.min, loaded.min)).toISOString(),
+        endTime: new Date(Math.min(Math.max(view.max, loaded.max), now)).toISOString()
+      });
+    }, this.FETCH_DEBOUNCE_MS);
+  }
+
+  /**
+   * Remembers the window covered by incoming data. A zoom is kept across
+   * polling updates and requested data, but dropped when the parent switches
+   * to a different range or to a window that no longer contains the viewport.
+   */
+  private trackLoadedWindow(data: ChartDataResponseDto): void {
+    const glucosePoints = this.buildGlucosePoints(data);
+    const start = this.resolveStartEpoch(glucosePoints, data);
+    const end = this.resolveEndEpoch(glucosePoints, data);
+    const previous = this.loadedWindow;
+
+    this.loadedWindow = start !== null && end !== null && end > start ? { min: start, max: end } : null;
+
+    if (this.awaitingViewportData) {
+      this.awaitingViewportData = false;
+      return;
+    }
+
+    const view = this.viewport;
+    const next = this.loadedWindow;
+    if (!view || !previous || !next) return;
+
+    const durationChanged =
+      Math.abs(next.max - next.min - (previous.max - previous.min)) > this.FETCH_TOLERANCE_MS;
+    const overlaps = view.min < next.max && view.max > next.min;
+    if (durationChanged || !overlaps) {
+      this.resetZoom();
+    }
+  }
+
   /**
    * Destroys the chart instance
    */
@@ -1,32 +1,101 @@
-import { Component, ChangeDetectionStrategy, input, output } from '@angular/core';
+import {
+  Component,
+  ChangeDetectionStrategy,
+  computed,
+  input,
+  output,
+  effect
+} from '@angular/core';
 import { CommonModule } from '@angular/common';
-import { ChartRange, PollState } from '../../../core/models/dashboard.types';
+import { FormBuilder, ReactiveFormsModule } from '@angular/forms';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatInputModule } from '@angular/material/input';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { MatTooltipModule } from '@angular/material/tooltip';
+import { MatDatepickerModule } from '@angular/material/datepicker';
+import { MatNativeDateModule } from '@angular/material/core';
+import { ChartRange, ChartWindow, PollState } from '../../../core/models/dashboard.types';
+import { shiftWindow, windowFromRange } from '../../../core/utils/chart-window';
 
 /**
- * Chart toolbar with range selection buttons, polling status chip, and timezone note.
+ * Chart toolbar with range selection buttons, custom window navigation
+ * (previous/next period and date picker), polling status chip, and timezone note.
+ * While data saved on an earlier visit is shown, a "stale since" note sits next to the chip.
  */
 @Component({
   selector: 'app-chart-toolbar',
   standalone: true,
-  imports: [CommonModule],
+  imports: [
+    CommonModule,
+    ReactiveFormsModule,
+    MatFormFieldModule,
+    MatInputModule,
+    MatButtonModule,
+    MatIconModule,
+    MatTooltipModule,
+    MatDatepickerModule,
+    MatNativeDateModule
+  ],
   templateUrl: './chart-toolbar.component.html',
   styleUrl: './chart-toolbar.component.scss',
   changeDetection: ChangeDetectionStrategy.OnPush
 })
 export class ChartToolbarComponent {
+  private readonly fb = new FormBuilder();
+
   // Inputs
   readonly activeRange = input.required<ChartRange>();
   readonly pollState = input.required<PollState>();
+  readonly window = input<ChartWindow | null>(null); // null = live range ending now
+  readonly staleSince = input<Date | null>(null); // save time of snapshot data on screen
+  readonly backWindow = input<ChartWindow | null>(null); // back control target; null = live
 
   // Outputs
   readonly rangeChange = output<ChartRange>();
+  readonly windowChange = output<ChartWindow>();
+  readonly backToLive = output<void>();
   readonly manualRefresh = output<void>();
 
   // Available ranges
   readonly ranges: ChartRange[] = [1, 3, 5, 8, 12, 24];
 
+  // Latest selectable day for the date picker
+  readonly today = new Date();
+
+  // Date picker form (whole local days)
+  readonly windowForm = this.fb.group({
+    start: [null as Date | null],
+    end: [null as Date | null]
+  });
+
   // Localized strings
   readonly timezoneNote = $localize`:@@dashboard.toolbar.timezoneNote:All times local; range computed in UTC`;
+  readonly previousPeriodLabel = $localize`:@@dashboard.toolbar.previousPeriod:Previous period`;
+  readonly nextPeriodLabel = $localize`:@@dashboard.toolbar.nextPeriod:Next period`;
+  readonly backToLiveLabel = $localize`:@@dashboard.toolbar.backToLive:Back to live`;
+  readonly backToWindowLabel = $localize`:@@dashboard.toolbar.backToWindow:Back to previous window`;
+  readonly pickDatesLabel = $localize`:@@dashboard.toolbar.pickDates:Pick dates`;
+  readonly startDateLabel = $localize`:@@dashboard.toolbar.startDate:Start date`;
+  readonly endDateLabel = $localize`:@@dashboard.toolbar.endDate:End date`;
+
+  readonly backLabel = computed(() =>
+    this.backWindow() ? this.backToWindowLabel : this.backToLiveLabel
+  );
+
+  constructor() {
+    // Keep the date picker in sync with the displayed window
+    effect(() => {
+      const current = this.window();
+      this.windowForm.patchValue(
+        {
+          start: current ? new Date(current.startTime) : null,
+          end: current ? new Date(current.endTime) : null
+        },
+        { emitEvent: false }
+      );
+    });
+  }
 
   /**
    * Gets the display status text based on poll state
@@ -49,11 +118,27 @@ export class ChartToolbarComponent {
       }
       case 'error':
         return $localize`:@@dashboard.toolbar.pollStatus.error:Error`;
+      case 'offline':
+        return $localize`:@@dashboard.toolbar.pollStatus.offline:Offline`;
       default:
         return '';
     }
   }
 
+  /**
+   * Gets the "stale since" note for snapshot data
+   */
+  getStaleLabel(since: Date): string {
+    const sameDay = since.toDateString() === new Date().toDateString();
+    const time = since.toLocaleString(
+      undefined,
+      sameDay
+        ? { hour: '2-digit', minute: '2-digit' }
+        : { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' }
+    );
+    return $localize`:@@dashboard.toolbar.staleSince:Stale since ${time}:time:`;
+  }
+
   /**
    * Gets the CSS class for the poll status chip
    */
@@ -77,6 +162,8 @@ export class ChartToolbarComponent {
         return 'schedule';
       case 'error':
         return 'error';
+      case 'offline':
+        return 'cloud_off';
       default:
         return 'info';
     }
@@ -94,11 +181,74 @@ export class ChartToolbarComponent {
    * Handles range selection
    */
   onRangeChange(range: ChartRange): void {
-    if (range !== this.activeRange()) {
+    if (range !== this.activeRange() || this.window()) {
       this.rangeChange.emit(range);
     }
   }
 
+  /**
+   * Steps the displayed window back or forward by one period.
+   * Stepping forward past now returns to the live range.
+   */
+  onStep(direction: -1 | 1): void {
+    const current = this.window() ?? windowFromRange(this.activeRange());
+    const next = shiftWindow(current, direction);
+
+    if (Date.parse(next.endTime) >= Date.now()) {
+      this.backToLive.emit();
+      return;
+    }
+
+    this.windowChange.emit(next);
+  }
+
+  /**
+   * Applies the date picker selection once both ends are chosen
+   */
+  onPickerClosed(): void {
+    const { start, end } = this.windowForm.value;
+    if (!start || !end || start > end) return;
+
+    const startTime = new Date(start.getFullYear(), start.getMonth(), start.getDate());
+    const endOfDay = new Date(end.getFullYear(), end.getMonth(), end.getDate() + 1);
+    const endTime = new Date(Math.min(endOfDay.getTime(), Date.now()));
+
+    this.windowChange.emit({
+      startTime: startTime.toISOString(),
+      endTime: endTime.toISOString()
+    });
+  }
+
+  /**
+   * Returns to the back window when one is set, otherwise to the live range ending now
+   */
+  onBack(): void {
+    const window = this.backWindow();
+    if (window) {
+      this.windowChange.emit(window);
+    } else {
+      this.backToLive.emit();
+    }
+  }
+
+  /**
+   * Formats the displayed window for the toolbar label
+   */
+  getWindowLabel(): string {
+    const current = this.window();
+    if (!current) return '';
+
+    const options: Intl.DateTimeFormatOptions = {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    };
+    const start = new Date(current.startTime).toLocaleString(undefined, options);
+    const end = new Date(current.endTime).toLocaleString(undefined, options);
+    return `${start} – ${end}`;
+  }
+
   /**
    * Handles manual refresh click
    */
@@ -112,7 +262,7 @@ export class ChartToolbarComponent {
    * Gets the CSS class for range buttons
    */
   getRangeButtonClass(range: ChartRange): string {
-    const isActive = range === this.activeRange();
+    const isActive = range === this.activeRange() && !this.window();
     const baseClasses = 'px-4 py-2 rounded-lg text-sm font-medium transition-all';
     const activeClasses = 'bg-gradient-to-r from-primary-from to-primary-to text-white shadow-md';
     const inactiveClasses = 'bg-card-bg text-text-secondary hover:bg-surface-variant border border-card-border';
@@ -0,0 +1,92 @@
+import { Component, ChangeDetectionStrategy, input, computed } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { toSignal } from '@angular/core/rxjs-interop';
+import { map, timer } from 'rxjs';
+import {
+  ChartDataResponseDto,
+  TirBandKey,
+  TirBandThresholds
+} from '../../../core/models/dashboard.types';
+import { GlucoseUnit } from '../../../core/models/settings.types';
+import { formatGlucose, formatGlucoseDelta } from '../../../core/utils/glucose-units';
+import { tirBandFor } from '../../../core/utils/glucose-stats';
+import {
+  TREND_ARROWS,
+  TREND_LABELS,
+  currentGlucoseReading
+} from '../../../core/utils/glucose-trend';
+
+/**
+ * Current reading tile.
+ * Shows the latest glucose value with its trend arrow, the change since the previous
+ * reading and how long ago it was taken; flags readings older than 15 minutes.
+ */
+@Component({
+  selector: 'app-current-reading',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './current-reading.component.html',
+  styleUrl: './current-reading.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class CurrentReadingComponent {
+  // Inputs
+  readonly chartData = input.required<ChartDataResponseDto | null>();
+  readonly unit = input<GlucoseUnit>('mg/dL');
+  readonly thresholds = input.required<TirBandThresholds>();
+
+  // Ticks every 30 seconds so the reading age stays current between polls
+  private readonly now = toSignal(timer(0, 30 * 1000).pipe(map(() => new Date())), {
+    initialValue: new Date()
+  });
+
+  readonly reading = computed(() => {
+    const data = this.chartData();
+    return data ? currentGlucoseReading(data.glucoseData ?? [], this.now()) : null;
+  });
+
+  readonly valueText = computed(() => {
+    const reading = this.reading();
+    return reading ? formatGlucose(reading.value, this.unit(), false) : '';
+  });
+
+  readonly deltaText = computed(() => {
+    const delta = this.reading()?.deltaMgdl;
+    return typeof delta === 'number' ? formatGlucoseDelta(delta, this.unit()) : '';
+  });
+
+  readonly trendArrow = computed(() => {
+    const trend = this.reading()?.trend;
+    return trend ? TREND_ARROWS[trend] : '';
+  });
+
+  readonly trendLabel = computed(() => {
+    const trend = this.reading()?.trend;
+    return trend ? TREND_LABELS[trend] : '';
+  });
+
+  readonly band = computed<TirBandKey | null>(() => {
+    const reading = this.reading();
+    return reading ? tirBandFor(reading.value, this.thresholds()) : null;
+  });
+
+  // Localized strings
+  readonly title = $localize`:@@dashboard.currentReading.title:Current Reading`;
+  readonly noDataMessage = $localize`:@@dashboard.currentReading.noData:No recent readings`;
+  readonly staleLabel = $localize`:@@dashboard.currentReading.stale:Stale`;
+  readonly staleHint = $localize`:@@dashboard.currentReading.staleHint:No new reading for over 15 minutes. Check your sensor and Dexcom connection.`;
+
+  /**
+   * Describes the reading age, e.g. "Just now" or "12 min ago"
+   */
+  getAgeLabel(minutesAgo: number): string {
+    if (minutesAgo < 1) {
+      return $localize`:@@dashboard.currentReading.justNow:Just now`;
+    }
+    if (minutesAgo < 60) {
+      return $localize`:@@dashboard.currentReading.minutesAgo:${minutesAgo}:minutes: min ago`;
+    }
+    const hours = Math.floor(minutesAgo / 60);
+    return $localize`:@@dashboard.currentReading.hoursAgo:${hours}:hours: h ago`;
+  }
+}
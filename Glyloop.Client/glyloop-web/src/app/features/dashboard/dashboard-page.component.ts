@@ -1,20 +1,49 @@
-import { Component, ChangeDetectionStrategy, signal, inject, OnInit, OnDestroy } from '@angular/core';
+import { Component, ChangeDetectionStrategy, signal, computed, inject, OnInit, OnDestroy } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { MatSnackBar, MatSnackBarModule } from '@angular/material/snack-bar';
 import { ChartToolbarComponent } from './chart-toolbar/chart-toolbar.component';
 import { CgmChartComponent } from './cgm-chart/cgm-chart.component';
 import { TirSummaryComponent } from './tir-summary/tir-summary.component';
+import { VariabilityStatsComponent } from './variability-stats/variability-stats.component';
+import { PatternInsightsComponent } from './pattern-insights/pattern-insights.component';
+import { HypoEpisodesPanelComponent } from './hypo-episodes/hypo-episodes-panel.component';
+import { CurrentReadingComponent } from './current-reading/current-reading.component';
+import { OnBoardSummaryComponent } from './on-board-summary/on-board-summary.component';
 import { HistoryPanelComponent } from './history-panel/history-panel.component';
 import { AddEventModalComponent } from './add-event-modal/add-event-modal.component';
+import { ExportDialogComponent } from './export-dialog/export-dialog.component';
 import { DashboardStateService } from '../../core/services/dashboard-state.service';
 import { ChartDataService } from '../../core/services/chart-data.service';
 import { EventsService } from '../../core/services/events.service';
+import { EventSyncService } from '../../core/services/event-sync.service';
+import { NetworkStatusService } from '../../core/services/network-status.service';
+import { OnBoardService } from '../../core/services/on-board.service';
+import { AccountPreferencesStore } from '../../core/stores/account-preferences.store';
+import { OnBoardSettingsStore } from '../../core/stores/on-board-settings.store';
+import { HypoSettingsStore } from '../../core/stores/hypo-settings.store';
+import { HypoTreatmentsStore } from '../../core/stores/hypo-treatments.store';
+import { OutboxStore } from '../../core/stores/outbox.store';
+import { OutboxSyncReport } from '../../core/models/outbox.types';
+import { HypoEpisode, HypoSettings } from '../../core/models/hypo.types';
 import {
   ChartRange,
+  ChartWindow,
+  CreateFoodEventRequestDto,
+  EventListItemDto,
+  EventResponseDto,
   HistoryFilters
 } from '../../core/models/dashboard.types';
-import { catchError, of } from 'rxjs';
-import { toSignal } from '@angular/core/rxjs-interop';
+import { catchError, map, merge, of, switchMap } from 'rxjs';
+import { takeUntilDestroyed, toObservable, toSignal } from '@angular/core/rxjs-interop';
+import {
+  isHistoricalWindow,
+  isSameWindow,
+  windowAroundTime,
+  windowFromRange
+} from '../../core/utils/chart-window';
+import { outboxEntryToOverlay } from '../../core/utils/outbox';
+import { onBoardLookbackMinutes, onBoardSeries } from '../../core/utils/on-board';
+import { detectHypoEpisodes } from '../../core/utils/hypo-episodes';
 
 /**
  * Dashboard page component - main orchestrator for the dashboard view.
@@ -29,8 +58,14 @@ import { toSignal } from '@angular/core/rxjs-interop';
     ChartToolbarComponent,
     CgmChartComponent,
     TirSummaryComponent,
+    VariabilityStatsComponent,
+    PatternInsightsComponent,
+    HypoEpisodesPanelComponent,
+    CurrentReadingComponent,
+    OnBoardSummaryComponent,
     HistoryPanelComponent,
-    AddEventModalComponent
+    AddEventModalComponent,
+    ExportDialogComponent
   ],
   templateUrl: './dashboard-page.component.html',
   styleUrl: './dashboard-page.component.scss',
@@ -40,19 +75,112 @@ export class DashboardPageComponent implements OnInit, OnDestroy {
   private readonly dashboardState = inject(DashboardStateService);
   private readonly chartDataService = inject(ChartDataService);
   private readonly eventsService = inject(EventsService);
+  private readonly eventSync = inject(EventSyncService);
+  private readonly network = inject(NetworkStatusService);
+  private readonly onBoardService = inject(OnBoardService);
+  private readonly preferencesStore = inject(AccountPreferencesStore);
+  private readonly onBoardSettingsStore = inject(OnBoardSettingsStore);
+  private readonly hypoSettingsStore = inject(HypoSettingsStore);
+  private readonly hypoTreatmentsStore = inject(HypoTreatmentsStore);
+  private readonly outboxStore = inject(OutboxStore);
   private readonly snackBar = inject(MatSnackBar);
 
+  // Padding on each side of an event when recentering the chart on it
+  private readonly RECENTER_PADDING_MINUTES = 30;
+
+  // Longest span drawn with IOB/COB curves (the end of wider windows)
+  private readonly ON_BOARD_CURVE_HOURS = 24;
+
+  // Fast-acting carbs suggested when logging a hypo treatment (the "rule of 15")
+  private readonly HYPO_TREATMENT_CARBS_GRAMS = 15;
+
   // State from services as signals
   readonly activeRange = this.dashboardState.activeRange;
+  readonly customWindow = this.dashboardState.customWindow;
   readonly pollState = this.dashboardState.pollState;
   readonly selectedEventId = this.dashboardState.selectedEventId;
 
+  // Display unit and target range from account preferences
+  readonly glucoseUnit = this.preferencesStore.glucoseUnit;
+  readonly tirThresholds = this.preferencesStore.tirThresholds;
+
   // Convert observables to signals
   readonly chartData = toSignal(this.chartDataService.chartData$, { initialValue: null });
   readonly tir = toSignal(this.chartDataService.tir$, { initialValue: null });
+  readonly staleSince = toSignal(this.chartDataService.staleSince$, { initialValue: null });
+
+  // The current reading tile is hidden while a past window is displayed
+  // (re-checked when polling pauses at the end of the window)
+  readonly viewingHistory = computed(() => {
+    const window = this.customWindow();
+    this.pollState();
+    return !!window && isHistoricalWindow(window);
+  });
+
+  // Insulin and Food events for the IOB/COB estimate, reloaded when the window,
+  // the action curves or the event history change
+  readonly onBoardSettings = this.onBoardSettingsStore.settings;
+  readonly onBoardEvents = signal<EventResponseDto[]>([]);
+  private readonly onBoardRequest = computed(
+    () => ({
+      window: this.customWindow(),
+      range: this.activeRange(),
+      lookbackMinutes: onBoardLookbackMinutes(this.onBoardSettings())
+    }),
+    {
+      equal: (a, b) =>
+        isSameWindow(a.window, b.window) &&
+        a.range === b.range &&
+        a.lookbackMinutes === b.lookbackMinutes
+    }
+  );
+
+  // Estimate time for the tile: end of a past window, otherwise now
+  readonly onBoardAt = computed(() => {
+    const window = this.customWindow();
+    return window && this.viewingHistory() ? new Date(window.endTime) : null;
+  });
+
+  // IOB/COB curves for the chart, covering at most the last 24 hours of the window
+  readonly onBoardCurves = computed(() => {
+    const data = this.chartData();
+    const settings = this.onBoardSettings();
+    if (!data || !settings.showOnChart) return [];
+
+    const end = Date.parse(data.endTime);
+    const start = Math.max(Date.parse(data.startTime), end - this.ON_BOARD_CURVE_HOURS * 3600000);
+    if (!Number.isFinite(start) || !Number.isFinite(end)) return [];
+
+    return onBoardSeries(this.onBoardEvents(), new Date(start), new Date(end), settings);
+  });
+
+  // Hypo episodes of the loaded readings; shaded on the chart unless turned off
+  readonly hypoSettings = this.hypoSettingsStore.settings;
+  readonly hypoEpisodes = computed<HypoEpisode[]>(() => {
+    const data = this.chartData();
+    if (!data) return [];
+    return detectHypoEpisodes(
+      data.glucoseData ?? [],
+      this.tirThresholds().low,
+      this.hypoSettings().minDurationMinutes,
+      this.hypoTreatmentsStore.treatments()
+    );
+  });
+  readonly chartHypoEpisodes = computed(() =>
+    this.hypoSettings().showOnChart ? this.hypoEpisodes() : []
+  );
+
+  // Ghost chart markers for events waiting in the offline outbox
+  readonly pendingOverlays = computed(() => this.outboxStore.entries().map(outboxEntryToOverlay));
 
   // Local state
   readonly addEventModalOpen = signal<boolean>(false);
+  readonly exportDialogOpen = signal<boolean>(false);
+  readonly foodDraft = signal<Partial<CreateFoodEventRequestDto> | undefined>(undefined);
+  private readonly treatedEpisode = signal<HypoEpisode | null>(null); // linked to the created Food
+  // Window shown before an event was focused from history (null = live range), restored by
+  // the toolbar's back control; undefined while no event is focused
+  readonly windowBeforeFocus = signal<ChartWindow | null | undefined>(undefined);
   readonly historyFilters = signal<HistoryFilters>({
     page: 1,
     pageSize: 50
@@ -61,16 +189,72 @@ export class DashboardPageComponent implements OnInit, OnDestroy {
   // Localized strings
   readonly pageTitle = $localize`:@@dashboard.title:Dashboard`;
   readonly addEventButton = $localize`:@@dashboard.addEvent:Add Event`;
+  readonly exportButton = $localize`:@@dashboard.export:Export`;
+  readonly exportDoneMessage = $localize`:@@dashboard.exportDone:Export ready`;
   readonly eventCreatedMessage = $localize`:@@dashboard.eventCreated:Event created successfully`;
+  readonly eventUpdatedMessage = $localize`:@@dashboard.eventUpdated:Event updated`;
+  readonly eventDeletedMessage = $localize`:@@dashboard.eventDeleted:Event deleted`;
+  readonly eventRestoredMessage = $localize`:@@dashboard.eventRestored:Event restored`;
+  readonly eventRestoreErrorMessage = $localize`:@@dashboard.eventRestoreError:Failed to restore event`;
+  readonly eventQueuedMessage = $localize`:@@dashboard.eventQueued:Saved on this device. It will sync when you are back online.`;
+  readonly undoLabel = $localize`:@@common.undo:Undo`;
   readonly chartErrorMessage = $localize`:@@dashboard.chartError:Failed to load chart data`;
   readonly historyTitle = $localize`:@@dashboard.historyTitle:Event History`;
+  readonly hypoTreatmentNote = $localize`:@@dashboard.hypoTreatmentNote:Hypo treatment`;
+
+  constructor() {
+    this.eventSync.reports$
+      .pipe(takeUntilDestroyed())
+      .subscribe((report) => this.onSyncReport(report));
+
+    this.chartDataService.windowEnded$
+      .pipe(takeUntilDestroyed())
+      .subscribe(() => this.dashboardState.setPollState({ status: 'paused' }));
+
+    this.network.changes$.pipe(takeUntilDestroyed()).subscribe((online) => {
+      if (online) {
+        this.loadWindow(this.activeRange(), this.customWindow());
+      } else {
+        this.dashboardState.setPollState({ status: 'offline', since: new Date() });
+      }
+    });
+
+    merge(
+      toObservable(this.onBoardRequest),
+      this.eventsService.historyChanged$.pipe(map(() => this.onBoardRequest()))
+    )
+      .pipe(
+        switchMap(({ window, range, lookbackMinutes }) => {
+          const live = !window || !isHistoricalWindow(window);
+          const loaded = window ?? windowFromRange(range);
+          // Only the span drawn with curves (plus the lookback) needs events
+          const end = live ? Date.now() : Date.parse(loaded.endTime);
+          const start = Math.max(
+            Date.parse(loaded.startTime),
+            end - this.ON_BOARD_CURVE_HOURS * 3600000
+          );
+          return this.onBoardService.loadEvents(new Date(start), new Date(end), lookbackMinutes);
+        }),
+        takeUntilDestroyed()
+      )
+      .subscribe((events) => this.onBoardEvents.set(events));
+  }
 
   ngOnInit(): void {
+    this.preferencesStore.load();
+
+    // Show the data saved on the last visit until the first fetch completes
+    this.chartDataService.restoreSnapshot(this.activeRange());
+
     // Start polling for chart data
     this.startPolling();
 
     // Set poll state to ok initially
-    this.dashboardState.setPollState({ status: 'ok', lastFetchedAt: new Date() });
+    this.dashboardState.setPollState(
+      this.network.online()
+        ? { status: 'ok', lastFetchedAt: new Date() }
+        : { status: 'offline', since: new Date() }
+    );
   }
 
   ngOnDestroy(): void {
@@ -91,13 +275,49 @@ export class DashboardPageComponent implements OnInit, OnDestroy {
    * Handles range change from toolbar
    */
   onRangeChange(range: ChartRange): void {
+    this.windowBeforeFocus.set(undefined);
     this.dashboardState.setRange(range);
+    this.loadWindow(range, null);
+  }
 
-    // Fetch new data for the selected range
-    this.dashboardState.setPollState({ status: 'ok', lastFetchedAt: new Date() });
+  /**
+   * Handles a custom window selected from the toolbar (period stepping or date picker)
+   */
+  onWindowChange(window: ChartWindow): void {
+    this.windowBeforeFocus.set(undefined);
+    this.showWindow(window);
+  }
+
+  /**
+   * Returns from a custom window to the live range ending now
+   */
+  onBackToLive(): void {
+    this.windowBeforeFocus.set(undefined);
+    this.dashboardState.setWindow(null);
+    this.loadWindow(this.activeRange(), null);
+  }
+
+  /**
+   * Displays a custom window in the current range
+   */
+  private showWindow(window: ChartWindow): void {
+    this.dashboardState.setWindow(window);
+    this.loadWindow(this.activeRange(), window);
+  }
+
+  /**
+   * Fetches chart data and TIR for a range or window and restarts polling.
+   * Polling stays suspended while a historical window is displayed.
+   */
+  private loadWindow(range: ChartRange, window: ChartWindow | null): void {
+    if (window && isHistoricalWindow(window)) {
+      this.dashboardState.setPollState({ status: 'paused' });
+    } else {
+      this.dashboardState.setPollState({ status: 'ok', lastFetchedAt: new Date() });
+    }
 
     this.chartDataService
-      .fetchChartData(range)
+      .fetchChartData(range, window)
       .pipe(
         catchError((err) => {
           this.handleChartError(err);
@@ -107,7 +327,7 @@ export class DashboardPageComponent implements OnInit, OnDestroy {
       .subscribe();
 
     this.chartDataService
-      .fetchTir(range)
+      .fetchTir(range, window)
       .pipe(
         catchError((err) => {
           console.error('Failed to fetch TIR:', err);
@@ -116,8 +336,8 @@ export class DashboardPageComponent implements OnInit, OnDestroy {
       )
       .subscribe();
 
-    // Restart polling with new range
-    this.chartDataService.start(range, { skipInitialFetch: true });
+    // Restart polling with new range/window
+    this.chartDataService.start(range, { skipInitialFetch: true, window });
   }
 
   /**
@@ -125,10 +345,11 @@ export class DashboardPageComponent implements OnInit, OnDestroy {
    */
   onManualRefresh(): void {
     const range = this.activeRange();
+    const window = this.customWindow();
     this.dashboardState.setPollState({ status: 'ok', lastFetchedAt: new Date() });
 
     this.chartDataService
-      .fetchChartData(range)
+      .fetchChartData(range, window)
       .pipe(
         catchError((err) => {
           this.handleChartError(err);
@@ -140,7 +361,7 @@ export class DashboardPageComponent implements OnInit, OnDestroy {
       });
 
     this.chartDataService
-      .fetchTir(range)
+      .fetchTir(range, window)
       .pipe(
         catchError((err) => {
           console.error('Failed to fetch TIR:', err);
@@ -166,6 +387,13 @@ export class DashboardPageComponent implements OnInit, OnDestroy {
     console.debug('Crosshair at:', timestampUtc);
   }
 
+  /**
+   * Loads more data when the chart is zoomed or panned past the loaded window
+   */
+  onChartViewportChange(window: ChartWindow): void {
+    this.onWindowChange(window);
+  }
+
   /**
    * Handles history filter changes
    */
@@ -174,28 +402,73 @@ export class DashboardPageComponent implements OnInit, OnDestroy {
   }
 
   /**
-   * Handles event selection from history panel
-   * Recenters chart to ±30 minutes around the event and highlights it
+   * Handles event selection from history panel (highlights the chart marker)
    */
   onHistorySelect(eventId: string): void {
     this.dashboardState.selectEvent(eventId);
+  }
 
-    // Find the event in chart data to get its timestamp
-    const data = this.chartData();
-    if (data) {
-      const eventMarker = data.eventOverlays.find((overlay) => overlay.eventId === eventId);
-      if (eventMarker) {
-        // TODO: Implement chart recentering logic
-        // For MVP, we just highlight the event marker
-        console.log('Selected event at:', eventMarker.timestamp);
-      }
+  /**
+   * Recenters the chart to ±30 minutes around an event selected in history,
+   * loading that window even when it lies outside the current range.
+   * The toolbar's back control restores the window or live range shown before the first
+   * of consecutive focuses.
+   */
+  onHistoryFocus(event: EventListItemDto): void {
+    if (Number.isNaN(Date.parse(event.eventTime))) return;
+
+    if (this.windowBeforeFocus() === undefined) {
+      this.windowBeforeFocus.set(this.customWindow());
     }
+    this.showWindow(windowAroundTime(event.eventTime, this.RECENTER_PADDING_MINUTES));
+  }
+
+  /**
+   * Shows or hides the IOB/COB curves on the chart
+   */
+  onShowOnBoardCurves(showOnChart: boolean): void {
+    this.onBoardSettingsStore.update({ showOnChart });
+  }
+
+  /**
+   * Focuses the chart on a hypo episode, with the same padding as recentered events
+   */
+  onHypoFocus(episode: HypoEpisode): void {
+    const padding = this.RECENTER_PADDING_MINUTES * 60 * 1000;
+    this.onWindowChange({
+      startTime: new Date(Date.parse(episode.startTime) - padding).toISOString(),
+      endTime: new Date(Date.parse(episode.endTime) + padding).toISOString()
+    });
+  }
+
+  /**
+   * Opens the Add Event modal with fast-acting carbs prefilled as the episode's treatment;
+   * the created Food event is linked to the episode
+   */
+  onHypoTreat(episode: HypoEpisode): void {
+    this.foodDraft.set({
+      eventTime: episode.startTime,
+      carbohydratesGrams: this.HYPO_TREATMENT_CARBS_GRAMS,
+      absorptionHint: 'Rapid',
+      note: this.hypoTreatmentNote
+    });
+    this.treatedEpisode.set(episode);
+    this.addEventModalOpen.set(true);
+  }
+
+  /**
+   * Saves hypo episode preferences
+   */
+  onHypoSettingsChange(changes: Partial<HypoSettings>): void {
+    this.hypoSettingsStore.update(changes);
   }
 
   /**
    * Opens the Add Event modal
    */
   openAddEventModal(): void {
+    this.foodDraft.set(undefined);
+    this.treatedEpisode.set(null);
     this.addEventModalOpen.set(true);
   }
 
@@ -206,20 +479,126 @@ export class DashboardPageComponent implements OnInit, OnDestroy {
     this.addEventModalOpen.set(false);
   }
 
+  /**
+   * Opens the export dialog
+   */
+  openExportDialog(): void {
+    this.exportDialogOpen.set(true);
+  }
+
+  /**
+   * Closes the export dialog
+   */
+  closeExportDialog(): void {
+    this.exportDialogOpen.set(false);
+  }
+
+  /**
+   * Handles a finished export
+   */
+  onExported(): void {
+    this.exportDialogOpen.set(false);
+    this.showSnackbar(this.exportDoneMessage);
+  }
+
   /**
    * Handles successful event creation
    */
-  onEventCreated(): void {
+  onEventCreated(event: EventResponseDto): void {
+    const episode = this.treatedEpisode();
+    if (episode && event.eventType === 'Food') {
+      this.hypoTreatmentsStore.link(episode, event.eventId);
+    }
+    this.treatedEpisode.set(null);
+
     this.showSnackbar(this.eventCreatedMessage);
+    this.eventsService.insertIntoHistory(event);
+    this.refreshEventViews();
+  }
 
-    // Refresh chart data to include the new event
-    const range = this.activeRange();
-    this.chartDataService.fetchChartData(range).subscribe();
-    this.chartDataService.fetchTir(range).subscribe();
+  /**
+   * Handles an event saved to the offline outbox
+   */
+  onEventQueued(): void {
+    this.showSnackbar(this.eventQueuedMessage);
+  }
+
+  /**
+   * Reports the outcome of replaying queued events
+   */
+  private onSyncReport(report: OutboxSyncReport): void {
+    if (report.synced > 0) {
+      this.refreshEventViews();
+    }
+
+    const attention = report.failed + report.conflicts;
+    if (attention > 0) {
+      this.showSnackbar(
+        $localize`:@@dashboard.syncAttention:${attention}:count: queued event(s) could not be synced. Review them in Event History.`,
+        'error'
+      );
+    } else if (report.synced > 0) {
+      this.showSnackbar($localize`:@@dashboard.syncDone:${report.synced}:count: queued event(s) synced`);
+    }
+  }
 
-    // Refresh history by nudging filters signal reference
-    const current = this.historyFilters();
-    this.historyFilters.set({ ...current });
+  /**
+   * Handles an event edited from the details drawer
+   */
+  onEventUpdated(event: EventResponseDto): void {
+    this.showSnackbar(this.eventUpdatedMessage);
+    this.eventsService.updateInHistory(event);
+    this.refreshEventViews();
+  }
+
+  /**
+   * Handles an event deleted from the details drawer.
+   * Offers an undo action that restores the same event on the server.
+   */
+  onEventDeleted(event: EventResponseDto): void {
+    this.eventsService.removeFromHistory(event.eventId);
+    const treatedEpisodes = this.hypoTreatmentsStore.unlinkEvent(event.eventId);
+    this.refreshEventViews();
+
+    const snackBarRef = this.snackBar.open(this.eventDeletedMessage, this.undoLabel, {
+      duration: 6000,
+      horizontalPosition: 'end',
+      verticalPosition: 'bottom',
+      panelClass: 'snackbar-success'
+    });
+
+    snackBarRef.onAction().subscribe(() => {
+      this.eventsService
+        .restore(event.eventId)
+        .pipe(
+          catchError((err) => {
+            console.error('Failed to restore event:', err);
+            this.showSnackbar(this.eventRestoreErrorMessage, 'error');
+            return of(null);
+          })
+        )
+        .subscribe((restored) => {
+          if (restored) {
+            this.showSnackbar(this.eventRestoredMessage);
+            this.eventsService.insertIntoHistory(restored);
+            treatedEpisodes.forEach((episode) =>
+              this.hypoTreatmentsStore.link(episode, restored.eventId)
+            );
+            this.refreshEventViews();
+          }
+        });
+    });
+  }
+
+  /**
+   * Refreshes chart overlays after events change.
+   * The history list is updated in place through the events service cache.
+   */
+  private refreshEventViews(): void {
+    const range = this.activeRange();
+    const window = this.customWindow();
+    this.chartDataService.fetchChartData(range, window).subscribe();
+    this.chartDataService.fetchTir(range, window).subscribe();
   }
 
   /**
@@ -229,6 +608,12 @@ export class DashboardPageComponent implements OnInit, OnDestroy {
     console.error('Chart data error:', err);
 
     const status = err?.status;
+    if (status === 0 || !this.network.online()) {
+      // No connection; the saved or last loaded data stays on screen
+      this.dashboardState.setPollState({ status: 'offline', since: new Date() });
+      return;
+    }
+
     if (status === 429 || (typeof status === 'number' && status >= 500)) {
       // Rate limit or server error - trigger backoff
       const nextRetryAt = new Date(Date.now() + 60000); // Retry in 1 minute
@@ -0,0 +1,175 @@
+import { Component, ChangeDetectionStrategy, input, output, signal, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormBuilder, ReactiveFormsModule } from '@angular/forms';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatInputModule } from '@angular/material/input';
+import { MatCheckboxModule } from '@angular/material/checkbox';
+import { MatDatepickerModule } from '@angular/material/datepicker';
+import { MatNativeDateModule } from '@angular/material/core';
+import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
+import { ExportService } from '../../../core/services/export.service';
+import { AccountPreferencesStore } from '../../../core/stores/account-preferences.store';
+import { ExportFormat } from '../../../core/models/export.types';
+import { catchError, of } from 'rxjs';
+
+/**
+ * Export dialog for the dashboard.
+ * Exports glucose readings and events for a chosen date range as CSV files
+ * and/or a printable report (saved as PDF from the print dialog).
+ */
+@Component({
+  selector: 'app-export-dialog',
+  standalone: true,
+  imports: [
+    CommonModule,
+    ReactiveFormsModule,
+    MatButtonModule,
+    MatIconModule,
+    MatFormFieldModule,
+    MatInputModule,
+    MatCheckboxModule,
+    MatDatepickerModule,
+    MatNativeDateModule,
+    MatProgressSpinnerModule
+  ],
+  templateUrl: './export-dialog.component.html',
+  styleUrl: './export-dialog.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class ExportDialogComponent {
+  private readonly exportService = inject(ExportService);
+  private readonly preferencesStore = inject(AccountPreferencesStore);
+  private readonly fb = new FormBuilder();
+
+  // Inputs
+  readonly open = input.required<boolean>();
+
+  // Outputs
+  readonly closeModal = output<void>();
+  readonly exported = output<ExportFormat[]>();
+
+  // Longest window loaded in one export
+  private readonly MAX_EXPORT_DAYS = 90;
+  private readonly DEFAULT_EXPORT_DAYS = 14;
+
+  readonly today = new Date();
+
+  // State
+  readonly isExporting = signal<boolean>(false);
+  readonly error = signal<string | null>(null);
+
+  readonly form = this.fb.group({
+    start: [this.daysAgo(this.DEFAULT_EXPORT_DAYS - 1) as Date | null],
+    end: [new Date() as Date | null],
+    csv: [true],
+    pdf: [true]
+  });
+
+  // Localized strings
+  readonly title = $localize`:@@dashboard.export.title:Export Data`;
+  readonly description = $localize`:@@dashboard.export.description:Glucose readings and events for the selected days. CSV gives one file per dataset; the report opens the print dialog where it can be saved as PDF.`;
+  readonly dateRangeLabel = $localize`:@@dashboard.export.dateRange:Date range`;
+  readonly startDateLabel = $localize`:@@dashboard.export.startDate:Start date`;
+  readonly endDateLabel = $localize`:@@dashboard.export.endDate:End date`;
+  readonly csvLabel = $localize`:@@dashboard.export.csv:CSV files (glucose, events)`;
+  readonly pdfLabel = $localize`:@@dashboard.export.pdf:Printable report (PDF)`;
+  readonly exportLabel = $localize`:@@dashboard.export.submit:Export`;
+  readonly cancelLabel = $localize`:@@common.cancel:Cancel`;
+  readonly invalidRangeMessage = $localize`:@@dashboard.export.invalidRange:Choose a start and end date, at most 90 days apart`;
+  readonly noFormatMessage = $localize`:@@dashboard.export.noFormat:Choose at least one format`;
+  readonly popupBlockedMessage = $localize`:@@dashboard.export.popupBlocked:The report window was blocked. Allow pop-ups for this site and try again.`;
+  readonly loadErrorMessage = $localize`:@@dashboard.export.loadError:Failed to load data for export`;
+
+  /**
+   * Loads the selected range and generates the chosen exports
+   */
+  onExport(): void {
+    if (this.isExporting()) return;
+    this.error.set(null);
+
+    const { start, end, csv, pdf } = this.form.getRawValue();
+    const formats: ExportFormat[] = [...(csv ? ['csv' as const] : []), ...(pdf ? ['pdf' as const] : [])];
+
+    if (formats.length === 0) {
+      this.error.set(this.noFormatMessage);
+      return;
+    }
+
+    const exportWindow = start && end ? this.buildWindow(start, end) : null;
+    if (!exportWindow) {
+      this.error.set(this.invalidRangeMessage);
+      return;
+    }
+
+    // Open the report window while still inside the click handler
+    const reportWindow = pdf ? this.exportService.openReportWindow() : null;
+    if (pdf && !reportWindow) {
+      this.error.set(this.popupBlockedMessage);
+      return;
+    }
+
+    this.isExporting.set(true);
+
+    this.exportService
+      .load(exportWindow.startTime, exportWindow.endTime)
+      .pipe(
+        catchError((err) => {
+          console.error('Failed to load export data:', err);
+          return of(null);
+        })
+      )
+      .subscribe((data) => {
+        this.isExporting.set(false);
+
+        if (!data) {
+          reportWindow?.close();
+          this.error.set(this.loadErrorMessage);
+          return;
+        }
+
+        if (csv) {
+          this.exportService.downloadCsv(data);
+        }
+
+        if (reportWindow) {
+          this.exportService.writeReport(reportWindow, data, {
+            unit: this.preferencesStore.glucoseUnit(),
+            thresholds: this.preferencesStore.tirThresholds()
+          });
+        }
+
+        this.exported.emit(formats);
+      });
+  }
+
+  /**
+   * Closes the dialog
+   */
+  onClose(): void {
+    if (this.isExporting()) return;
+    this.error.set(null);
+    this.closeModal.emit();
+  }
+
+  /**
+   * Converts whole local days into an export window, clamped to now
+   */
+  private buildWindow(start: Date, end: Date): { startTime: Date; endTime: Date } | null {
+    const startTime = new Date(start.getFullYear(), start.getMonth(), start.getDate());
+    const endOfDay = new Date(end.getFullYear(), end.getMonth(), end.getDate() + 1);
+    const endTime = new Date(Math.min(endOfDay.getTime(), Date.now()));
+
+    const days = (endOfDay.getTime() - startTime.getTime()) / (24 * 60 * 60 * 1000);
+    if (endTime <= startTime || days > this.MAX_EXPORT_DAYS) return null;
+
+    return { startTime, endTime };
+  }
+
+  private daysAgo(days: number): Date {
+    const date = new Date();
+    date.setDate(date.getDate() - days);
+    return date;
+  }
+}
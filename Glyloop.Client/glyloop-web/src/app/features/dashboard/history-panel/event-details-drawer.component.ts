@@ -1,4 +1,13 @@
-import { Component, ChangeDetectionStrategy, input, output, signal, effect, inject } from '@angular/core';
+import {
+  Component,
+  ChangeDetectionStrategy,
+  input,
+  output,
+  signal,
+  computed,
+  effect,
+  inject
+} from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { MatButtonModule } from '@angular/material/button';
 import { MatIconModule } from '@angular/material/icon';
@@ -7,12 +16,33 @@ import { MatTooltipModule } from '@angular/material/tooltip';
 import { MatChipsModule } from '@angular/material/chips';
 import { MatDividerModule } from '@angular/material/divider';
 import { EventResponseDto, EventOutcomeResponseDto } from '../../../core/models/dashboard.types';
+import { MealResponse } from '../../../core/models/meal-analytics.types';
+import { ExerciseImpact } from '../../../core/models/exercise-analytics.types';
+import { GlucoseUnit } from '../../../core/models/settings.types';
+import {
+  formatGlucose,
+  formatGlucoseDelta,
+  toDisplayGlucoseExact
+} from '../../../core/utils/glucose-units';
 import { EventsService } from '../../../core/services/events.service';
-import { catchError, of } from 'rxjs';
+import { MealAnalyticsService } from '../../../core/services/meal-analytics.service';
+import { ExerciseAnalyticsService } from '../../../core/services/exercise-analytics.service';
+import { AccountPreferencesStore } from '../../../core/stores/account-preferences.store';
+import { MEAL_BASELINE_MINUTES, MEAL_RESPONSE_MINUTES } from '../../../core/utils/meal-response';
+import {
+  EXERCISE_BASELINE_MINUTES,
+  exerciseWindowMinutes
+} from '../../../core/utils/exercise-impact';
+import { AddEventModalComponent } from '../add-event-modal/add-event-modal.component';
+import { GlucoseResponseChartComponent } from './glucose-response-chart.component';
+import { catchError, finalize, of } from 'rxjs';
 
 /**
  * Event details drawer component.
- * Shows full event details; for Food events, fetches and displays 2-hour outcome.
+ * Shows full event details; for Food events, fetches and displays 2-hour outcome
+ * and the glucose response computed from the readings around the meal; for Exercise
+ * events, the drop, nadir and delayed hypos during and after the session.
+ * Supports editing (via the Add Event modal forms) and confirmed deletion.
  */
 @Component({
   selector: 'app-event-details-drawer',
@@ -24,7 +54,9 @@ import { catchError, of } from 'rxjs';
     MatProgressSpinnerModule,
     MatTooltipModule,
     MatChipsModule,
-    MatDividerModule
+    MatDividerModule,
+    AddEventModalComponent,
+    GlucoseResponseChartComponent
   ],
   templateUrl: './event-details-drawer.component.html',
   styleUrl: './event-details-drawer.component.scss',
@@ -32,12 +64,24 @@ import { catchError, of } from 'rxjs';
 })
 export class EventDetailsDrawerComponent {
   private readonly eventsService = inject(EventsService);
+  private readonly mealAnalytics = inject(MealAnalyticsService);
+  private readonly exerciseAnalytics = inject(ExerciseAnalyticsService);
+  private readonly preferencesStore = inject(AccountPreferencesStore);
 
   // Input
   readonly event = input<EventResponseDto | undefined>(undefined);
+  readonly unit = input<GlucoseUnit>('mg/dL');
 
-  // Output
+  // Outputs
   readonly closeDrawer = output<void>();
+  readonly eventUpdated = output<EventResponseDto>();
+  readonly eventDeleted = output<EventResponseDto>();
+
+  // Edit/delete state
+  readonly editing = signal<boolean>(false);
+  readonly confirmingDelete = signal<boolean>(false);
+  readonly deleting = signal<boolean>(false);
+  readonly deleteError = signal<string | undefined>(undefined);
 
   // Outcome state
   readonly outcome = signal<EventOutcomeResponseDto | null>(null);
@@ -45,6 +89,27 @@ export class EventDetailsDrawerComponent {
   readonly outcomeError = signal<string | undefined>(undefined);
   readonly outcomeUnavailable = signal<boolean>(false);
 
+  // Meal response state
+  readonly mealResponse = signal<MealResponse | null>(null);
+  readonly mealResponseLoading = signal<boolean>(false);
+  readonly mealResponseError = signal<string | undefined>(undefined);
+
+  // Exercise impact state
+  readonly exerciseImpact = signal<ExerciseImpact | null>(null);
+  readonly exerciseImpactLoading = signal<boolean>(false);
+  readonly exerciseImpactError = signal<string | undefined>(undefined);
+
+  // Response chart curves (minutes since the event)
+  readonly mealResponseCurve = computed(() => this.mealResponse()?.curve ?? []);
+  readonly exerciseImpactCurve = computed(() => this.exerciseImpact()?.curve ?? []);
+  readonly mealWindow = { from: -MEAL_BASELINE_MINUTES, to: MEAL_RESPONSE_MINUTES };
+  readonly exerciseWindowStart = -EXERCISE_BASELINE_MINUTES;
+  readonly hypoThreshold = computed(() => this.preferencesStore.tirThresholds().low);
+  readonly lowDuringMessage = computed(() => {
+    const bound = formatGlucose(this.hypoThreshold(), this.unit());
+    return $localize`:@@dashboard.eventDetails.lowDuring:Glucose went below ${bound}:bound: during the session.`;
+  });
+
   // Localized strings
   readonly closeLabel = $localize`:@@dashboard.eventDetails.close:Close`;
   readonly titleLabel = $localize`:@@dashboard.eventDetails.title:Event Details`;
@@ -53,7 +118,35 @@ export class EventDetailsDrawerComponent {
   readonly outcomeLabel = $localize`:@@dashboard.eventDetails.outcome:2-Hour Outcome`;
   readonly outcomeNotAvailable = $localize`:@@dashboard.eventDetails.outcomeNotAvailable:Not available`;
   readonly outcomeTooltip = $localize`:@@dashboard.eventDetails.outcomeTooltip:Glucose reading approximately 2 hours after the event (±5 minutes)`;
+  readonly mealResponseLabel = $localize`:@@dashboard.eventDetails.mealResponse:Meal Response`;
+  readonly mealResponseTooltip = $localize`:@@dashboard.eventDetails.mealResponseTooltip:Computed from the readings 30 minutes before to 3 hours after the meal`;
+  readonly mealResponseIncomplete = $localize`:@@dashboard.eventDetails.mealResponseIncomplete:Readings are missing for part of this window, so some values may be off.`;
+  readonly mealResponseNoData = $localize`:@@dashboard.eventDetails.mealResponseNoData:No glucose readings around this meal`;
+  readonly mealResponseChartLabel = $localize`:@@dashboard.mealResponse.chartLabel:Glucose response to the meal`;
+  readonly exerciseImpactLabel = $localize`:@@dashboard.eventDetails.exerciseImpact:Exercise Impact`;
+  readonly exerciseImpactTooltip = $localize`:@@dashboard.eventDetails.exerciseImpactTooltip:Computed from the readings 15 minutes before the session to 6 hours after it ends; lows are readings below 70 mg/dL (3.9 mmol/L)`;
+  readonly exerciseImpactIncomplete = $localize`:@@dashboard.eventDetails.exerciseImpactIncomplete:Readings are missing for part of this window, so a later low may not be shown.`;
+  readonly exerciseImpactNoData = $localize`:@@dashboard.eventDetails.exerciseImpactNoData:No glucose readings around this session`;
+  readonly exerciseImpactChartLabel = $localize`:@@dashboard.eventDetails.exerciseImpactChart:Glucose during and after the session`;
+  readonly startValueLabel = $localize`:@@dashboard.eventDetails.startValue:At start`;
+  readonly endValueLabel = $localize`:@@dashboard.eventDetails.endValue:At end`;
+  readonly dropDuringLabel = $localize`:@@dashboard.eventDetails.dropDuring:Change during`;
+  readonly nadirLabel = $localize`:@@dashboard.eventDetails.nadir:Lowest`;
+  readonly maxDropLabel = $localize`:@@dashboard.eventDetails.maxDrop:Largest drop`;
+  readonly delayedHypoLabel = $localize`:@@dashboard.eventDetails.delayedHypo:Delayed low`;
+  readonly noLabel = $localize`:@@dashboard.eventDetails.no:No`;
+  readonly baselineLabel = $localize`:@@dashboard.eventDetails.baseline:Baseline`;
+  readonly peakRiseLabel = $localize`:@@dashboard.eventDetails.peakRise:Peak rise`;
+  readonly timeToPeakLabel = $localize`:@@dashboard.eventDetails.timeToPeak:Time to peak`;
+  readonly value2hLabel = $localize`:@@dashboard.eventDetails.value2h:At 2 h`;
+  readonly value3hLabel = $localize`:@@dashboard.eventDetails.value3h:At 3 h`;
+  readonly aucLabel = $localize`:@@dashboard.eventDetails.auc:Area above baseline`;
   readonly retryLabel = $localize`:@@dashboard.eventDetails.retry:Retry`;
+  readonly editLabel = $localize`:@@dashboard.eventDetails.edit:Edit`;
+  readonly deleteLabel = $localize`:@@dashboard.eventDetails.delete:Delete`;
+  readonly cancelLabel = $localize`:@@dashboard.eventDetails.cancel:Cancel`;
+  readonly deleteConfirmMessage = $localize`:@@dashboard.eventDetails.deleteConfirm:Delete this event? You can undo this for a few seconds afterwards.`;
+  readonly deleteErrorMessage = $localize`:@@dashboard.eventDetails.deleteError:Failed to delete event. Please try again.`;
 
   // Food event labels
   readonly carbsLabel = $localize`:@@dashboard.eventDetails.carbs:Carbohydrates`;
@@ -94,12 +187,26 @@ export class EventDetailsDrawerComponent {
     // Fetch outcome when event changes (if Food)
     effect(() => {
       const currentEvent = this.event();
+      this.editing.set(false);
+      this.confirmingDelete.set(false);
+      this.deleteError.set(undefined);
+
       if (currentEvent && currentEvent.eventType === 'Food') {
         this.fetchOutcome(currentEvent.eventId);
+        this.fetchMealResponse(currentEvent);
       } else {
         this.outcome.set(null);
         this.outcomeError.set(undefined);
         this.outcomeUnavailable.set(false);
+        this.mealResponse.set(null);
+        this.mealResponseError.set(undefined);
+      }
+
+      if (currentEvent && currentEvent.eventType === 'Exercise') {
+        this.fetchExerciseImpact(currentEvent);
+      } else {
+        this.exerciseImpact.set(null);
+        this.exerciseImpactError.set(undefined);
       }
     });
   }
@@ -135,6 +242,60 @@ export class EventDetailsDrawerComponent {
       });
   }
 
+  /**
+   * Loads the readings around a Food event and computes its glucose response
+   */
+  private fetchMealResponse(event: EventResponseDto): void {
+    this.mealResponseLoading.set(true);
+    this.mealResponseError.set(undefined);
+    this.mealResponse.set(null);
+
+    this.mealAnalytics
+      .loadResponse(event)
+      .pipe(
+        finalize(() => this.mealResponseLoading.set(false)),
+        catchError((err) => {
+          console.error('Failed to load meal response:', err);
+          this.mealResponseError.set(
+            $localize`:@@dashboard.eventDetails.mealResponseError:Failed to load glucose readings for this meal`
+          );
+          return of(null);
+        })
+      )
+      .subscribe((result) => {
+        if (result && result.eventId === this.event()?.eventId) {
+          this.mealResponse.set(result);
+        }
+      });
+  }
+
+  /**
+   * Loads the readings around an Exercise event and computes its impact
+   */
+  private fetchExerciseImpact(event: EventResponseDto): void {
+    this.exerciseImpactLoading.set(true);
+    this.exerciseImpactError.set(undefined);
+    this.exerciseImpact.set(null);
+
+    this.exerciseAnalytics
+      .loadImpact(event, this.hypoThreshold())
+      .pipe(
+        finalize(() => this.exerciseImpactLoading.set(false)),
+        catchError((err) => {
+          console.error('Failed to load exercise impact:', err);
+          this.exerciseImpactError.set(
+            $localize`:@@dashboard.eventDetails.exerciseImpactError:Failed to load glucose readings for this session`
+          );
+          return of(null);
+        })
+      )
+      .subscribe((result) => {
+        if (result && result.eventId === this.event()?.eventId) {
+          this.exerciseImpact.set(result);
+        }
+      });
+  }
+
   /**
    * Handles retry button click
    */
@@ -145,6 +306,99 @@ export class EventDetailsDrawerComponent {
     }
   }
 
+  /**
+   * Handles retry of the meal response
+   */
+  onRetryMealResponse(): void {
+    const currentEvent = this.event();
+    if (currentEvent) {
+      this.fetchMealResponse(currentEvent);
+    }
+  }
+
+  /**
+   * Handles retry of the exercise impact
+   */
+  onRetryExerciseImpact(): void {
+    const currentEvent = this.event();
+    if (currentEvent) {
+      this.fetchExerciseImpact(currentEvent);
+    }
+  }
+
+  /**
+   * Last minute of the exercise impact chart (end of the follow-up)
+   */
+  exerciseWindowEnd(impact: ExerciseImpact): number {
+    return exerciseWindowMinutes(impact.durationMinutes);
+  }
+
+  /**
+   * Switches the drawer into edit mode
+   */
+  onEdit(): void {
+    this.confirmingDelete.set(false);
+    this.editing.set(true);
+  }
+
+  /**
+   * Leaves edit mode without saving
+   */
+  onEditClose(): void {
+    this.editing.set(false);
+  }
+
+  /**
+   * Handles a successful update from the edit form
+   */
+  onEventUpdated(updatedEvent: EventResponseDto): void {
+    this.editing.set(false);
+    this.eventUpdated.emit(updatedEvent);
+  }
+
+  /**
+   * Asks for delete confirmation
+   */
+  onDeleteRequest(): void {
+    this.deleteError.set(undefined);
+    this.confirmingDelete.set(true);
+  }
+
+  /**
+   * Cancels a pending delete confirmation
+   */
+  onDeleteCancel(): void {
+    this.confirmingDelete.set(false);
+  }
+
+  /**
+   * Deletes the current event after confirmation
+   */
+  onDeleteConfirm(): void {
+    const currentEvent = this.event();
+    if (!currentEvent || this.deleting()) return;
+
+    this.deleting.set(true);
+    this.deleteError.set(undefined);
+
+    this.eventsService
+      .delete(currentEvent.eventId)
+      .pipe(
+        finalize(() => this.deleting.set(false)),
+        catchError((err) => {
+          console.error('Failed to delete event:', err);
+          this.deleteError.set(this.deleteErrorMessage);
+          return of(false);
+        })
+      )
+      .subscribe((result) => {
+        if (result !== false) {
+          this.confirmingDelete.set(false);
+          this.eventDeleted.emit(currentEvent);
+        }
+      });
+  }
+
   /**
    * Closes the drawer
    */
@@ -209,4 +463,35 @@ export class EventDetailsDrawerComponent {
     const option = this.exerciseTypeOptions.find((type) => type.id === id);
     return option ? option.label : null;
   }
+
+  /**
+   * Formats an outcome glucose value in the display unit
+   */
+  formatOutcomeValue(mgdl: number | null | undefined): string {
+    return formatGlucose(mgdl, this.unit());
+  }
+
+  /**
+   * Formats the peak rise as a signed change in the display unit
+   */
+  formatRise(mgdl: number | null): string {
+    return mgdl === null ? '—' : formatGlucoseDelta(mgdl, this.unit());
+  }
+
+  /**
+   * Formats a glucose drop as a signed (negative) change in the display unit
+   */
+  formatDrop(mgdl: number | null): string {
+    return mgdl === null ? '—' : formatGlucoseDelta(-mgdl, this.unit());
+  }
+
+  /**
+   * Formats the area above baseline in the display unit per hour
+   */
+  formatAuc(mgdlHours: number | null): string {
+    if (mgdlHours === null) return '—';
+    const unit = this.unit();
+    const value = toDisplayGlucoseExact(mgdlHours, unit);
+    return `${value.toFixed(unit === 'mmol/L' ? 1 : 0)} ${unit}·h`;
+  }
 }
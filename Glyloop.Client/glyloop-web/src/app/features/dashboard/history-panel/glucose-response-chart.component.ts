@@ -0,0 +1,229 @@
+import {
+  Component,
+  ChangeDetectionStrategy,
+  input,
+  viewChild,
+  effect,
+  ElementRef,
+  OnDestroy
+} from '@angular/core';
+import { CommonModule } from '@angular/common';
+import {
+  Chart,
+  ChartConfiguration,
+  ChartData,
+  LinearScale,
+  LineController,
+  LineElement,
+  PointElement,
+  Tooltip,
+  Filler
+} from 'chart.js';
+import { EventOutcomePoint } from '../../../core/models/event-outcome.types';
+import { GlucoseUnit } from '../../../core/models/settings.types';
+import {
+  glucoseDecimals,
+  roundGlucose,
+  toDisplayGlucoseExact
+} from '../../../core/utils/glucose-units';
+
+// Register Chart.js components
+Chart.register(LinearScale, LineController, LineElement, PointElement, Tooltip, Filler);
+
+/**
+ * Mini chart of glucose around an event (meal response, exercise impact).
+ * Plots readings against minutes since the event from `from` to `to`, with an
+ * optional dashed baseline and hypo threshold.
+ */
+@Component({
+  selector: 'app-glucose-response-chart',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './glucose-response-chart.component.html',
+  styleUrl: './glucose-response-chart.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class GlucoseResponseChartComponent implements OnDestroy {
+  // Inputs
+  readonly curve = input.required<EventOutcomePoint[]>(); // mg/dL
+  readonly from = input.required<number>(); // minutes since the event
+  readonly to = input.required<number>();
+  readonly baseline = input<number | null>(null); // mg/dL
+  readonly threshold = input<number | null>(null); // mg/dL
+  readonly chartLabel = input.required<string>();
+  readonly unit = input<GlucoseUnit>('mg/dL');
+
+  // Template refs
+  private readonly canvasRef = viewChild<ElementRef<HTMLCanvasElement>>('responseCanvas');
+
+  // Chart instance
+  private chart: Chart | null = null;
+
+  // Localized strings
+  readonly glucoseLabel = $localize`:@@dashboard.mealResponse.glucose:Glucose`;
+  readonly baselineLabel = $localize`:@@dashboard.mealResponse.baseline:Baseline`;
+  readonly thresholdLabel = $localize`:@@dashboard.glucoseResponse.threshold:Low`;
+
+  constructor() {
+    effect(() => {
+      const data = this.prepareChartData(this.curve(), this.baseline(), this.threshold());
+      const from = this.from();
+      const to = this.to();
+      const canvas = this.canvasRef()?.nativeElement;
+      if (!canvas) return;
+
+      if (!this.chart) {
+        this.createChart(canvas, data);
+      } else {
+        this.chart.data = data;
+        this.applyRange(from, to);
+        this.chart.update('none');
+      }
+    });
+  }
+
+  ngOnDestroy(): void {
+    this.chart?.destroy();
+    this.chart = null;
+  }
+
+  private createChart(canvas: HTMLCanvasElement, data: ChartData): void {
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    const config: ChartConfiguration = {
+      type: 'line',
+      data,
+      options: {
+        responsive: true,
+        maintainAspectRatio: false,
+        interaction: { mode: 'index', intersect: false },
+        plugins: {
+          legend: { display: false },
+          tooltip: {
+            filter: (item) => item.datasetIndex === 0,
+            callbacks: {
+              title: (context) => this.formatMinutes(context[0]?.parsed?.x ?? 0),
+              label: (context) => {
+                const unit = this.unit();
+                const value = roundGlucose(context.parsed.y ?? 0, unit);
+                return `${value.toFixed(glucoseDecimals(unit))} ${unit}`;
+              }
+            }
+          }
+        },
+        scales: {
+          x: {
+            type: 'linear',
+            min: this.from(),
+            max: this.to(),
+            ticks: {
+              stepSize: this.tickStep(this.from(), this.to()),
+              callback: (value) => this.formatMinutes(Number(value))
+            }
+          },
+          y: { type: 'linear' }
+        }
+      }
+    };
+
+    this.chart = new Chart(ctx, config);
+  }
+
+  private prepareChartData(
+    curve: { minutes: number; value: number }[],
+    baseline: number | null,
+    threshold: number | null
+  ): ChartData {
+    const unit = this.unit();
+    const from = this.from();
+    const to = this.to();
+    const datasets: ChartData['datasets'] = [
+      {
+        type: 'line',
+        label: this.glucoseLabel,
+        data: curve.map((point) => ({
+          x: point.minutes,
+          y: toDisplayGlucoseExact(point.value, unit)
+        })),
+        borderColor: '#fb923c',
+        backgroundColor: 'rgba(251, 146, 60, 0.15)',
+        borderWidth: 2,
+        pointRadius: 0,
+        pointHoverRadius: 3,
+        tension: 0.2,
+        fill: false
+      } as never
+    ];
+
+    if (baseline !== null) {
+      datasets.push({
+        type: 'line',
+        label: this.baselineLabel,
+        data: [
+          { x: from, y: toDisplayGlucoseExact(baseline, unit) },
+          { x: to, y: toDisplayGlucoseExact(baseline, unit) }
+        ],
+        borderColor: 'rgba(148, 163, 184, 0.8)',
+        borderWidth: 1,
+        borderDash: [4, 4],
+        pointRadius: 0,
+        pointHoverRadius: 0,
+        fill: false
+      } as never);
+    }
+
+    if (threshold !== null) {
+      datasets.push({
+        type: 'line',
+        label: this.thresholdLabel,
+        data: [
+          { x: from, y: toDisplayGlucoseExact(threshold, unit) },
+          { x: to, y: toDisplayGlucoseExact(threshold, unit) }
+        ],
+        borderColor: 'rgba(239, 68, 68, 0.7)',
+        borderWidth: 1,
+        borderDash: [2, 4],
+        pointRadius: 0,
+        pointHoverRadius: 0,
+        fill: false
+      } as never);
+    }
+
+    return { datasets };
+  }
+
+  /**
+   * Updates the x axis when the event (and so the window) changes
+   */
+  private applyRange(from: number, to: number): void {
+    const xScale = this.chart?.options.scales?.['x'] as
+      | { min?: number; max?: number; ticks?: { stepSize?: number } }
+      | undefined;
+    if (!xScale) return;
+    xScale.min = from;
+    xScale.max = to;
+    if (xScale.ticks) xScale.ticks.stepSize = this.tickStep(from, to);
+  }
+
+  /**
+   * Half-hour ticks for short windows, hourly ticks beyond 4 hours
+   */
+  private tickStep(from: number, to: number): number {
+    return to - from > 240 ? 60 : 30;
+  }
+
+  /**
+   * Formats minutes since the event, e.g. "+1h30" or "-30m"
+   */
+  private formatMinutes(minutes: number): string {
+    const rounded = Math.round(minutes);
+    if (rounded === 0) return '0';
+
+    const sign = rounded < 0 ? '-' : '+';
+    const hours = Math.floor(Math.abs(rounded) / 60);
+    const rest = Math.abs(rounded) % 60;
+    if (hours === 0) return `${sign}${rest}m`;
+    return rest === 0 ? `${sign}${hours}h` : `${sign}${hours}h${String(rest).padStart(2, '0')}`;
+  }
+}
@@ -1,18 +1,36 @@
-import { Component, ChangeDetectionStrategy, input, output, effect } from '@angular/core';
+import {
+  Component,
+  ChangeDetectionStrategy,
+  input,
+  output,
+  effect,
+  computed,
+  inject
+} from '@angular/core';
+import { toSignal } from '@angular/core/rxjs-interop';
 import { CommonModule } from '@angular/common';
 import { FormBuilder, ReactiveFormsModule } from '@angular/forms';
 import { MatFormFieldModule } from '@angular/material/form-field';
 import { MatInputModule } from '@angular/material/input';
-import { MatSelectModule } from '@angular/material/select';
+import { MatChipsModule } from '@angular/material/chips';
+import { MatAutocompleteModule, MatAutocompleteSelectedEvent } from '@angular/material/autocomplete';
 import { MatButtonModule } from '@angular/material/button';
 import { MatIconModule } from '@angular/material/icon';
 import { MatDatepickerModule } from '@angular/material/datepicker';
 import { MatNativeDateModule } from '@angular/material/core';
 import { debounceTime } from 'rxjs';
 import { HistoryFilters, EventType } from '../../../core/models/dashboard.types';
+import { normalizeEventTypes } from '../../../core/utils/event-paging';
+import { normalizeSearchQuery } from '../../../core/utils/event-search';
+import { RecentSearchesStore } from '../../../core/stores/recent-searches.store';
+
+// Autocomplete option value that clears the recent searches
+const CLEAR_RECENT_SEARCHES = '__clear_recent_searches__';
 
 /**
- * History filter bar with date range, event type selection, and pagination.
+ * History filter bar with free-text search, date range, multi-select event type chips,
+ * and pagination. Selecting no type (or every type) shows all events.
+ * Searches committed with Enter or Apply are remembered as recent searches.
  */
 @Component({
   selector: 'app-history-filter-bar',
@@ -22,7 +40,8 @@ import { HistoryFilters, EventType } from '../../../core/models/dashboard.types'
     ReactiveFormsModule,
     MatFormFieldModule,
     MatInputModule,
-    MatSelectModule,
+    MatChipsModule,
+    MatAutocompleteModule,
     MatButtonModule,
     MatIconModule,
     MatDatepickerModule,
@@ -34,6 +53,7 @@ import { HistoryFilters, EventType } from '../../../core/models/dashboard.types'
 })
 export class HistoryFilterBarComponent {
   private readonly fb = new FormBuilder();
+  private readonly recentSearchesStore = inject(RecentSearchesStore);
 
   // Input
   readonly filters = input.required<HistoryFilters>();
@@ -47,9 +67,10 @@ export class HistoryFilterBarComponent {
 
   // Form
   readonly filterForm = this.fb.group({
+    search: [''],
     fromDate: [null as Date | null],
     toDate: [null as Date | null],
-    eventType: [null as EventType | null]
+    eventTypes: [[] as EventType[]]
   });
 
   // Localized strings
@@ -59,6 +80,24 @@ export class HistoryFilterBarComponent {
   readonly applyLabel = $localize`:@@dashboard.history.filter.apply:Apply`;
   readonly resetLabel = $localize`:@@dashboard.history.filter.reset:Reset`;
   readonly allTypesLabel = $localize`:@@dashboard.history.filter.allTypes:All Types`;
+  readonly searchLabel = $localize`:@@dashboard.history.filter.search:Search notes`;
+  readonly searchPlaceholder = $localize`:@@dashboard.history.filter.searchPlaceholder:e.g. pizza night, sick day`;
+  readonly clearSearchLabel = $localize`:@@dashboard.history.filter.clearSearch:Clear search`;
+  readonly recentSearchesLabel = $localize`:@@dashboard.history.filter.recentSearches:Recent searches`;
+  readonly clearRecentLabel = $localize`:@@dashboard.history.filter.clearRecent:Clear recent searches`;
+
+  readonly clearRecentValue = CLEAR_RECENT_SEARCHES;
+
+  // Recent searches matching the text typed so far
+  private readonly searchText = toSignal(this.filterForm.controls.search.valueChanges, {
+    initialValue: ''
+  });
+  readonly recentSearches = computed(() => {
+    const typed = (this.searchText() ?? '').trim().toLowerCase();
+    return this.recentSearchesStore
+      .searches()
+      .filter((search) => search.toLowerCase() !== typed && search.toLowerCase().includes(typed));
+  });
 
   constructor() {
     // Initialize form with input filters
@@ -82,9 +121,10 @@ export class HistoryFilterBarComponent {
 
     this.filterForm.patchValue(
       {
+        search: filters.search ?? '',
         fromDate,
         toDate,
-        eventType: filters.types && filters.types.length > 0 ? filters.types[0] : null
+        eventTypes: normalizeEventTypes(filters.types) ?? []
       },
       { emitEvent: false }
     );
@@ -109,21 +149,53 @@ export class HistoryFilterBarComponent {
       ...currentFilters,
       fromDateUtc: formValue.fromDate ? formValue.fromDate.toISOString() : undefined,
       toDateUtc: formValue.toDate ? formValue.toDate.toISOString() : undefined,
-      types: formValue.eventType ? [formValue.eventType] : undefined,
+      types: normalizeEventTypes(formValue.eventTypes),
+      search: normalizeSearchQuery(formValue.search),
       page: 1 // Reset to first page when filters change
     };
 
     this.filtersChange.emit(newFilters);
   }
 
+  /**
+   * Applies the filters immediately and remembers the search (Apply button / Enter)
+   */
+  onApply(): void {
+    const search = normalizeSearchQuery(this.filterForm.value.search);
+    if (search) {
+      this.recentSearchesStore.add(search);
+    }
+    this.applyFilters();
+  }
+
+  /**
+   * Runs a recent search, or clears the list when the clear option is picked
+   */
+  onRecentSearchSelected(event: MatAutocompleteSelectedEvent): void {
+    if (event.option.value === CLEAR_RECENT_SEARCHES) {
+      this.recentSearchesStore.clear();
+      this.filterForm.controls.search.setValue(this.filters().search ?? '', { emitEvent: false });
+      return;
+    }
+    this.onApply();
+  }
+
+  /**
+   * Clears the search text
+   */
+  clearSearch(): void {
+    this.filterForm.controls.search.setValue('');
+  }
+
   /**
    * Resets filters to defaults
    */
   onReset(): void {
     this.filterForm.reset({
+      search: '',
       fromDate: null,
       toDate: null,
-      eventType: null
+      eventTypes: []
     });
 
     this.resetFilters.emit();
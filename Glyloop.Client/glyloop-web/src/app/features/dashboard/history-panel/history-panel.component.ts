@@ -1,19 +1,40 @@
-import { Component, ChangeDetectionStrategy, input, output, signal, effect, inject } from '@angular/core';
+import {
+  Component,
+  ChangeDetectionStrategy,
+  input,
+  output,
+  signal,
+  computed,
+  effect,
+  inject
+} from '@angular/core';
 import { CommonModule } from '@angular/common';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
 import { HistoryFilterBarComponent } from './history-filter-bar.component';
 import { HistoryVirtualListComponent } from './history-virtual-list.component';
 import { EventDetailsDrawerComponent } from './event-details-drawer.component';
+import { OutboxStatusComponent } from './outbox-status.component';
 import {
   HistoryFilters,
   EventListItemDto,
-  EventResponseDto
+  EventResponseDto,
+  HistoryListState
 } from '../../../core/models/dashboard.types';
+import { GlucoseUnit } from '../../../core/models/settings.types';
+import { OutboxStatus } from '../../../core/models/outbox.types';
 import { EventsService } from '../../../core/services/events.service';
-import { catchError, of } from 'rxjs';
+import { EventSyncService } from '../../../core/services/event-sync.service';
+import { OutboxStore } from '../../../core/stores/outbox.store';
+import { compareEventsNewestFirst } from '../../../core/utils/event-paging';
+import { historyFilterKey, matchesHistoryFilters } from '../../../core/utils/history-list';
+import { isLocalEventId, outboxEntryToListItem } from '../../../core/utils/outbox';
+import { Observable, catchError, of } from 'rxjs';
 
 /**
  * History panel container component.
  * Coordinates filter bar, virtual list, and event details drawer.
+ * Loads further pages as the list is scrolled; loaded pages are cached per filter set.
+ * Events waiting in the offline outbox are listed alongside with their sync status.
  */
 @Component({
   selector: 'app-history-panel',
@@ -22,7 +43,8 @@ import { catchError, of } from 'rxjs';
     CommonModule,
     HistoryFilterBarComponent,
     HistoryVirtualListComponent,
-    EventDetailsDrawerComponent
+    EventDetailsDrawerComponent,
+    OutboxStatusComponent
   ],
   templateUrl: './history-panel.component.html',
   styleUrl: './history-panel.component.scss',
@@ -30,30 +52,62 @@ import { catchError, of } from 'rxjs';
 })
 export class HistoryPanelComponent {
   private readonly eventsService = inject(EventsService);
+  private readonly eventSync = inject(EventSyncService);
+  private readonly outboxStore = inject(OutboxStore);
 
   // Inputs
   readonly initialFilters = input.required<HistoryFilters>();
   readonly selectedEventId = input<string | undefined>(undefined);
+  readonly unit = input<GlucoseUnit>('mg/dL');
 
   // Outputs
   readonly selectEvent = output<string>();
+  readonly focusEvent = output<EventListItemDto>();
   readonly filtersChange = output<HistoryFilters>();
+  readonly eventUpdated = output<EventResponseDto>();
+  readonly eventDeleted = output<EventResponseDto>();
 
   // State
   readonly currentFilters = signal<HistoryFilters>({ page: 1, pageSize: 50 });
-  readonly events = signal<EventListItemDto[]>([]);
+  readonly history = signal<HistoryListState | null>(null);
   readonly selectedEvent = signal<EventResponseDto | undefined>(undefined);
   readonly loading = signal<boolean>(false);
+  readonly loadingMore = signal<boolean>(false);
+  readonly loadMoreFailed = signal<boolean>(false);
   readonly error = signal<string | undefined>(undefined);
 
-  // Pagination state
-  readonly totalPages = signal<number>(0);
-  readonly totalItems = signal<number>(0);
+  // Offline outbox state
+  readonly outboxEntries = this.outboxStore.entries;
+  readonly syncing = this.eventSync.syncing;
+  readonly syncStatuses = computed(
+    () =>
+      new Map<string, OutboxStatus>(
+        this.outboxEntries().map((entry) => [entry.id, entry.status])
+      )
+  );
+
+  // Derived list state (queued events matching the filters are merged in)
+  readonly events = computed<EventListItemDto[]>(() => {
+    const items = this.history()?.items ?? [];
+    const filters = this.currentFilters();
+    const pending = this.outboxEntries()
+      .map(outboxEntryToListItem)
+      .filter((item) => matchesHistoryFilters(item, filters));
+    return pending.length > 0 ? [...pending, ...items].sort(compareEventsNewestFirst) : items;
+  });
+  readonly totalItems = computed<number>(() => this.history()?.totalItems ?? 0);
+  readonly hasMore = computed<boolean>(() => {
+    const history = this.history();
+    return !!history && history.loadedPages < history.totalPages;
+  });
 
   // Localized strings
   readonly title = $localize`:@@dashboard.history.title:Event History`;
   readonly loadingMessage = $localize`:@@dashboard.history.loading:Loading events...`;
   readonly errorMessage = $localize`:@@dashboard.history.error:Failed to load events`;
+  readonly loadingMoreMessage = $localize`:@@dashboard.history.loadingMore:Loading more events...`;
+  readonly loadMoreErrorMessage = $localize`:@@dashboard.history.loadMoreError:Failed to load more events`;
+  readonly retryLabel = $localize`:@@dashboard.history.retry:Retry`;
 
   constructor() {
     // Initialize with input filters
@@ -72,30 +126,78 @@ export class HistoryPanelComponent {
         this.selectedEvent.set(undefined);
       }
     });
+
+    // Pick up in-place changes to the cached list (created, edited or deleted events)
+    this.eventsService.historyChanged$.pipe(takeUntilDestroyed()).subscribe(() => {
+      const cached = this.eventsService.getCachedHistory(this.currentFilters());
+      if (cached) this.history.set(cached);
+    });
   }
 
   /**
-   * Fetches events list with filters
+   * Shows the cached list for the filters, loading the first page when nothing is cached
+   * (or when a reload is forced)
    */
-  private fetchEvents(filters: HistoryFilters): void {
-    this.loading.set(true);
+  private fetchEvents(filters: HistoryFilters, force = false): void {
+    const cached = force ? undefined : this.eventsService.getCachedHistory(filters);
     this.error.set(undefined);
+    this.loadingMore.set(false);
+    this.loadMoreFailed.set(false);
 
-    this.eventsService
-      .list(filters)
+    if (cached) {
+      this.loading.set(false);
+      this.history.set(cached);
+      // Saved on an earlier visit: keep it on screen while the live page loads
+      if (cached.restoredFrom) {
+        this.loadPages(filters, this.eventsService.loadHistory(filters), () => undefined);
+      }
+      return;
+    }
+
+    this.loading.set(true);
+    this.history.set(null);
+    this.loadPages(filters, this.eventsService.loadHistory(filters), (history) => {
+      this.loading.set(false);
+      if (!history) this.error.set(this.errorMessage);
+    });
+  }
+
+  /**
+   * Loads the next page of the current list when the user scrolls near its end
+   */
+  loadNextPage(): void {
+    if (this.loading() || this.loadingMore() || !this.hasMore()) return;
+
+    const filters = this.currentFilters();
+    this.loadingMore.set(true);
+    this.loadMoreFailed.set(false);
+    this.loadPages(filters, this.eventsService.loadMoreHistory(filters), (history) => {
+      this.loadingMore.set(false);
+      this.loadMoreFailed.set(!history);
+    });
+  }
+
+  /**
+   * Applies a loaded list unless the filters changed while it was loading
+   */
+  private loadPages(
+    filters: HistoryFilters,
+    request: Observable<HistoryListState>,
+    done: (history: HistoryListState | null) => void
+  ): void {
+    const key = historyFilterKey(filters);
+
+    request
       .pipe(
-        catchError(() => {
-          this.error.set(this.errorMessage);
+        catchError((err) => {
+          console.error('Failed to load event history:', err);
           return of(null);
         })
       )
-      .subscribe((response) => {
-        this.loading.set(false);
-        if (response) {
-          this.events.set(response.items);
-          this.totalPages.set(response.totalPages);
-          this.totalItems.set(response.totalItems);
-        }
+      .subscribe((history) => {
+        if (historyFilterKey(this.currentFilters()) !== key) return;
+        if (history) this.history.set(history);
+        done(history);
       });
   }
 
@@ -142,7 +244,32 @@ export class HistoryPanelComponent {
    * Handles row selection
    */
   onRowSelect(eventId: string): void {
-    this.selectEvent.emit(eventId);
+    // Queued events have no server details yet; only focus them on the chart
+    if (!isLocalEventId(eventId)) this.selectEvent.emit(eventId);
+
+    const item = this.events().find((event) => event.eventId === eventId);
+    if (item) this.focusEvent.emit(item);
+  }
+
+  /**
+   * Replays queued events now
+   */
+  onSyncNow(): void {
+    this.eventSync.sync();
+  }
+
+  /**
+   * Queues a failed or conflicting event again
+   */
+  onRetryQueued(id: string, keepDuplicate = false): void {
+    this.eventSync.retry(id, keepDuplicate);
+  }
+
+  /**
+   * Drops a queued event without sending it
+   */
+  onDiscardQueued(id: string): void {
+    this.eventSync.discard(id);
   }
 
   /**
@@ -153,9 +280,26 @@ export class HistoryPanelComponent {
   }
 
   /**
-   * Refreshes the current view
+   * Handles an event edited from the details drawer
+   */
+  onEventUpdated(event: EventResponseDto): void {
+    this.selectedEvent.set(event);
+    this.eventUpdated.emit(event);
+  }
+
+  /**
+   * Handles an event deleted from the details drawer
+   */
+  onEventDeleted(event: EventResponseDto): void {
+    this.selectedEvent.set(undefined);
+    this.eventDeleted.emit(event);
+    this.selectEvent.emit(undefined!);
+  }
+
+  /**
+   * Reloads the current view from the first page
    */
   refresh(): void {
-    this.fetchEvents(this.currentFilters());
+    this.fetchEvents(this.currentFilters(), true);
   }
 }
@@ -1,13 +1,30 @@
-import { Component, ChangeDetectionStrategy, input, output, signal, effect } from '@angular/core';
+import {
+  Component,
+  ChangeDetectionStrategy,
+  input,
+  output,
+  signal,
+  effect,
+  viewChild
+} from '@angular/core';
 import { CommonModule } from '@angular/common';
-import { ScrollingModule } from '@angular/cdk/scrolling';
+import { CdkVirtualScrollViewport, ScrollingModule } from '@angular/cdk/scrolling';
 import { MatListModule } from '@angular/material/list';
 import { MatIconModule } from '@angular/material/icon';
 import { EventListItemDto } from '../../../core/models/dashboard.types';
+import { OutboxStatus } from '../../../core/models/outbox.types';
+import {
+  HighlightSegment,
+  findSearchSnippet,
+  highlightSearchMatches
+} from '../../../core/utils/event-search';
 
 /**
  * Virtual scrolling list component for event history.
  * Uses Angular CDK Virtual Scroll for performance with large lists.
+ * Highlights matches of the active search in each row.
+ * Requests the next page when the rendered rows approach the end of the loaded items.
+ * Rows of events waiting in the offline outbox carry a sync status badge.
  */
 @Component({
   selector: 'app-history-virtual-list',
@@ -21,19 +38,33 @@ export class HistoryVirtualListComponent {
   // Inputs
   readonly items = input.required<EventListItemDto[]>();
   readonly selectedEventId = input<string | undefined>(undefined);
+  readonly searchQuery = input<string | undefined>(undefined);
+  readonly hasMore = input<boolean>(false);
+  readonly syncStatuses = input<ReadonlyMap<string, OutboxStatus>>(new Map());
 
-  // Output
+  // Outputs
   readonly rowActivate = output<string>();
+  readonly loadMore = output<void>();
 
   // Item height for virtual scroll
   readonly itemHeight = 72; // pixels
 
+  // Rows left below the rendered range that trigger loading the next page
+  private readonly loadMoreThreshold = 10;
+
+  private readonly viewport = viewChild(CdkVirtualScrollViewport);
+
   // Track focused index for keyboard navigation
   private readonly focusedIndex = signal<number>(-1);
 
   // Localized strings
   readonly noItemsMessage = $localize`:@@dashboard.history.list.noItems:No events found`;
   readonly eventTypeAriaPrefix = $localize`:@@dashboard.history.list.eventType:Event type:`;
+  private readonly syncStatusLabels: Record<OutboxStatus, string> = {
+    pending: $localize`:@@dashboard.history.list.pendingSync:Pending sync`,
+    failed: $localize`:@@dashboard.history.list.syncFailed:Sync failed`,
+    conflict: $localize`:@@dashboard.history.list.syncConflict:Possible duplicate`
+  };
 
   constructor() {
     // Reset focused index when items change
@@ -45,6 +76,18 @@ export class HistoryVirtualListComponent {
     });
   }
 
+  /**
+   * Requests more items once the rendered range nears the end of the list
+   */
+  onScrolledIndexChange(): void {
+    const viewport = this.viewport();
+    if (!viewport || !this.hasMore()) return;
+
+    if (viewport.getRenderedRange().end >= this.items().length - this.loadMoreThreshold) {
+      this.loadMore.emit();
+    }
+  }
+
   /**
    * Handles row click
    */
@@ -117,6 +160,20 @@ export class HistoryVirtualListComponent {
     return this.selectedEventId() === eventId;
   }
 
+  /**
+   * Gets the outbox status of a queued event (undefined once synced)
+   */
+  getSyncStatus(eventId: string): OutboxStatus | undefined {
+    return this.syncStatuses().get(eventId);
+  }
+
+  /**
+   * Gets the badge label for an outbox status
+   */
+  getSyncStatusLabel(status: OutboxStatus): string {
+    return this.syncStatusLabels[status];
+  }
+
   /**
    * Gets the icon for an event type
    */
@@ -166,6 +223,20 @@ export class HistoryVirtualListComponent {
     });
   }
 
+  /**
+   * Splits text into highlighted and plain parts for the active search
+   */
+  getHighlightSegments(text: string): HighlightSegment[] {
+    return highlightSearchMatches(text, this.searchQuery());
+  }
+
+  /**
+   * Gets the note excerpt explaining a match outside the summary
+   */
+  getSearchSnippet(item: EventListItemDto): string | null {
+    return findSearchSnippet(item, this.searchQuery());
+  }
+
   /**
    * Tracks items by ID for performance
    */
@@ -0,0 +1,76 @@
+import { Component, ChangeDetectionStrategy, input, output, computed } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { OutboxEntry } from '../../../core/models/outbox.types';
+import { outboxEntryToListItem } from '../../../core/utils/outbox';
+
+/**
+ * Offline outbox summary shown above the event history.
+ * Shows how many events wait to sync and lists failed or conflicting
+ * entries with retry, keep-both and discard actions.
+ */
+@Component({
+  selector: 'app-outbox-status',
+  standalone: true,
+  imports: [CommonModule, MatButtonModule, MatIconModule],
+  templateUrl: './outbox-status.component.html',
+  styleUrl: './outbox-status.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class OutboxStatusComponent {
+  // Inputs
+  readonly entries = input.required<OutboxEntry[]>();
+  readonly syncing = input<boolean>(false);
+
+  // Outputs
+  readonly syncNow = output<void>();
+  readonly retry = output<string>();
+  readonly keepBoth = output<string>();
+  readonly discard = output<string>();
+
+  readonly pendingCount = computed(
+    () => this.entries().filter((entry) => entry.status === 'pending').length
+  );
+  readonly attentionEntries = computed(() =>
+    this.entries().filter((entry) => entry.status !== 'pending')
+  );
+
+  // Localized strings
+  readonly syncNowLabel = $localize`:@@dashboard.outbox.syncNow:Sync now`;
+  readonly syncingLabel = $localize`:@@dashboard.outbox.syncing:Syncing...`;
+  readonly retryLabel = $localize`:@@dashboard.outbox.retry:Retry`;
+  readonly keepBothLabel = $localize`:@@dashboard.outbox.keepBoth:Keep both`;
+  readonly discardLabel = $localize`:@@dashboard.outbox.discard:Discard`;
+
+  /**
+   * Gets the pending count message
+   */
+  getPendingMessage(count: number): string {
+    return $localize`:@@dashboard.outbox.pending:${count}:count: event(s) waiting to sync`;
+  }
+
+  /**
+   * Gets the summary line for an entry
+   */
+  getSummary(entry: OutboxEntry): string {
+    const item = outboxEntryToListItem(entry);
+    const time = new Date(item.eventTime).toLocaleString(undefined, {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+    return `${item.eventType} · ${item.summary} · ${time}`;
+  }
+
+  /**
+   * Explains why an entry needs attention
+   */
+  getReason(entry: OutboxEntry): string {
+    if (entry.status === 'conflict') {
+      return $localize`:@@dashboard.outbox.conflict:A matching event already exists (${entry.conflictWith?.summary ?? ''}:summary:). It may have been saved before the connection dropped.`;
+    }
+    return entry.lastError ?? $localize`:@@dashboard.outbox.failed:The server rejected this event`;
+  }
+}
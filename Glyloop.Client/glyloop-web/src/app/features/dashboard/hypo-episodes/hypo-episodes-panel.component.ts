@@ -0,0 +1,88 @@
+import { Component, ChangeDetectionStrategy, input, output, computed } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { HypoEpisode, HypoSettings } from '../../../core/models/hypo.types';
+import { GlucoseUnit } from '../../../core/models/settings.types';
+import { formatGlucose } from '../../../core/utils/glucose-units';
+import { HYPO_MIN_DURATION_OPTIONS } from '../../../core/utils/hypo-episodes';
+
+/**
+ * Hypoglycemia episode log.
+ * Lists the low episodes of the displayed window with their duration, nadir and
+ * recovery time. Selecting an episode focuses it on the chart; untreated episodes
+ * offer logging a treatment Food event.
+ */
+@Component({
+  selector: 'app-hypo-episodes-panel',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './hypo-episodes-panel.component.html',
+  styleUrl: './hypo-episodes-panel.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class HypoEpisodesPanelComponent {
+  // Inputs
+  readonly episodes = input.required<HypoEpisode[]>(); // newest first
+  readonly settings = input.required<HypoSettings>();
+  readonly lowerBound = input<number>(70); // mg/dL
+  readonly unit = input<GlucoseUnit>('mg/dL');
+
+  // Outputs
+  readonly focusEpisode = output<HypoEpisode>();
+  readonly treatEpisode = output<HypoEpisode>();
+  readonly settingsChange = output<Partial<HypoSettings>>();
+
+  readonly durationOptions = HYPO_MIN_DURATION_OPTIONS;
+
+  readonly totalMinutes = computed(() =>
+    this.episodes().reduce((total, episode) => total + episode.durationMinutes, 0)
+  );
+
+  readonly descriptionText = computed(() => {
+    const bound = formatGlucose(this.lowerBound(), this.unit());
+    const minutes = this.settings().minDurationMinutes;
+    return $localize`:@@dashboard.hypo.description:Readings below ${bound}:bound: for at least ${minutes}:minutes: minutes`;
+  });
+
+  // Localized strings
+  readonly title = $localize`:@@dashboard.hypo.title:Low Episodes`;
+  readonly noEpisodesMessage = $localize`:@@dashboard.hypo.none:No low episodes in this window`;
+  readonly ongoingLabel = $localize`:@@dashboard.hypo.ongoing:Ongoing`;
+  readonly treatedLabel = $localize`:@@dashboard.hypo.treated:Treated`;
+  readonly treatLabel = $localize`:@@dashboard.hypo.treat:Log treatment`;
+
+  /**
+   * Saves a new minimum episode duration
+   */
+  onMinDurationChange(value: string): void {
+    this.settingsChange.emit({ minDurationMinutes: Number(value) });
+  }
+
+  /**
+   * Formats the nadir in the display unit
+   */
+  formatNadir(episode: HypoEpisode): string {
+    return formatGlucose(episode.nadir, this.unit());
+  }
+
+  /**
+   * Formats an episode's start, e.g. "Mon 03:40"
+   */
+  formatStart(episode: HypoEpisode): string {
+    return new Date(episode.startTime).toLocaleString(undefined, {
+      weekday: 'short',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+  }
+
+  /**
+   * Formats minutes as e.g. "45 min" or "1 h 20 min"
+   */
+  formatMinutes(minutes: number | null): string {
+    if (minutes === null) return '—';
+    const hours = Math.floor(minutes / 60);
+    const rest = minutes % 60;
+    if (hours === 0) return `${rest} min`;
+    return rest === 0 ? `${hours} h` : `${hours} h ${rest} min`;
+  }
+}
@@ -0,0 +1,48 @@
+import { Component, ChangeDetectionStrategy, input, output, computed } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { toSignal } from '@angular/core/rxjs-interop';
+import { map, timer } from 'rxjs';
+import { EventResponseDto } from '../../../core/models/dashboard.types';
+import { OnBoardSettings } from '../../../core/models/on-board.types';
+import { onBoardAt } from '../../../core/utils/on-board';
+
+/**
+ * Insulin and carbs on board tile.
+ * Shows the estimated IOB and COB at the end of the displayed window (now when live)
+ * and toggles the matching curves on the glucose chart.
+ */
+@Component({
+  selector: 'app-on-board-summary',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './on-board-summary.component.html',
+  styleUrl: './on-board-summary.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class OnBoardSummaryComponent {
+  // Inputs
+  readonly events = input.required<EventResponseDto[]>(); // Insulin and Food event details
+  readonly settings = input.required<OnBoardSettings>();
+  readonly at = input<Date | null>(null); // null = now
+
+  // Outputs
+  readonly showOnChartChange = output<boolean>();
+
+  // Ticks every 30 seconds so live estimates keep decaying between polls
+  private readonly now = toSignal(timer(0, 30 * 1000).pipe(map(() => new Date())), {
+    initialValue: new Date()
+  });
+
+  readonly point = computed(() =>
+    onBoardAt(this.events(), this.at() ?? this.now(), this.settings())
+  );
+
+  readonly iobText = computed(() => this.point().iob.toFixed(2));
+  readonly cobText = computed(() => Math.round(this.point().cob).toString());
+
+  // Localized strings
+  readonly title = $localize`:@@dashboard.onBoard.title:On Board`;
+  readonly iobLabel = $localize`:@@dashboard.onBoard.iob:Insulin (IOB)`;
+  readonly cobLabel = $localize`:@@dashboard.onBoard.cob:Carbs (COB)`;
+  readonly estimateHint = $localize`:@@dashboard.onBoard.hint:Estimated from logged events and the action curves in Settings. Not a dosing recommendation.`;
+}
@@ -0,0 +1,188 @@
+import {
+  Component,
+  ChangeDetectionStrategy,
+  input,
+  output,
+  signal,
+  computed,
+  inject,
+  OnInit
+} from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { GlucosePatternService } from '../../../core/services/glucose-pattern.service';
+import { DailyOverlayDay } from '../../../core/models/agp.types';
+import { ChartWindow, TirBandThresholds } from '../../../core/models/dashboard.types';
+import {
+  GlucosePattern,
+  GlucosePatternOccurrence,
+  PatternDayScope
+} from '../../../core/models/pattern.types';
+import { GlucoseUnit } from '../../../core/models/settings.types';
+import { formatGlucose } from '../../../core/utils/glucose-units';
+import { detectGlucosePatterns, PATTERN_LOOKBACK_DAYS } from '../../../core/utils/glucose-patterns';
+import { catchError, of } from 'rxjs';
+
+// Patterns ending by 06:00 are described as nights
+const NIGHT_END_MINUTE = 6 * 60;
+
+// Most recent occurrences linked per pattern
+const MAX_OCCURRENCE_LINKS = 7;
+
+interface PatternInsight {
+  id: string;
+  pattern: GlucosePattern;
+  text: string;
+  occurrences: GlucosePatternOccurrence[];
+}
+
+/**
+ * Recurring patterns card.
+ * Loads the last 14 days of readings and lists lows and highs that recur at the same
+ * time of day, e.g. "Lows below 70 mg/dL between 02:00–04:00 on 4 of the last 7 nights".
+ * Each occurrence opens its window on the glucose chart.
+ */
+@Component({
+  selector: 'app-pattern-insights',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './pattern-insights.component.html',
+  styleUrl: './pattern-insights.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class PatternInsightsComponent implements OnInit {
+  private readonly patternService = inject(GlucosePatternService);
+
+  // Inputs
+  readonly thresholds = input.required<TirBandThresholds>(); // lows below low, highs above veryHigh
+  readonly unit = input<GlucoseUnit>('mg/dL');
+
+  // Outputs
+  readonly windowSelect = output<ChartWindow>();
+
+  // State
+  readonly days = signal<DailyOverlayDay[] | null>(null);
+  readonly loading = signal<boolean>(false);
+  readonly error = signal<string | undefined>(undefined);
+
+  readonly insights = computed<PatternInsight[]>(() => {
+    const days = this.days();
+    if (!days) return [];
+
+    return detectGlucosePatterns(days, this.thresholds()).map((pattern) => ({
+      id: `${pattern.kind}-${pattern.scope}-${pattern.startMinute}`,
+      pattern,
+      text: this.describe(pattern),
+      occurrences: pattern.occurrences.slice(0, MAX_OCCURRENCE_LINKS)
+    }));
+  });
+
+  // Localized strings
+  readonly title = $localize`:@@dashboard.patterns.title:Recurring Patterns`;
+  readonly periodText = $localize`:@@dashboard.patterns.period:Last ${PATTERN_LOOKBACK_DAYS}:days: days`;
+  readonly loadingMessage = $localize`:@@dashboard.patterns.loading:Looking for patterns...`;
+  readonly errorMessage = $localize`:@@dashboard.patterns.error:Failed to load glucose history`;
+  readonly retryLabel = $localize`:@@dashboard.patterns.retry:Retry`;
+  readonly noPatternsMessage = $localize`:@@dashboard.patterns.none:No recurring lows or highs found`;
+  readonly occurrencesLabel = $localize`:@@dashboard.patterns.occurrences:Show on chart`;
+
+  ngOnInit(): void {
+    this.load();
+  }
+
+  /**
+   * Loads the readings of the lookback period
+   */
+  load(): void {
+    this.loading.set(true);
+    this.error.set(undefined);
+
+    this.patternService
+      .loadDays()
+      .pipe(
+        catchError((err) => {
+          console.error('Failed to load glucose patterns:', err);
+          this.error.set(this.errorMessage);
+          return of(null);
+        })
+      )
+      .subscribe((days) => {
+        this.loading.set(false);
+        if (days) {
+          this.days.set(days);
+        }
+      });
+  }
+
+  /**
+   * Opens an occurrence's window on the chart
+   */
+  onOccurrenceClick(occurrence: GlucosePatternOccurrence): void {
+    this.windowSelect.emit(occurrence.window);
+  }
+
+  /**
+   * Formats an occurrence's date, e.g. "Mon 3"
+   */
+  formatOccurrence(occurrence: GlucosePatternOccurrence): string {
+    const [year, month, day] = occurrence.dayKey.split('-').map(Number);
+    return new Date(year, month - 1, day).toLocaleDateString(undefined, {
+      weekday: 'short',
+      day: 'numeric'
+    });
+  }
+
+  /**
+   * Accessible label of an occurrence link with its extreme reading
+   */
+  getOccurrenceLabel(insight: PatternInsight, occurrence: GlucosePatternOccurrence): string {
+    const value = formatGlucose(occurrence.extremeValue, this.unit());
+    const date = this.formatOccurrence(occurrence);
+    return insight.pattern.kind === 'low'
+      ? $localize`:@@dashboard.patterns.lowestOn:Lowest ${value}:value: on ${date}:date:`
+      : $localize`:@@dashboard.patterns.highestOn:Highest ${value}:value: on ${date}:date:`;
+  }
+
+  /**
+   * Describes a pattern, e.g. "Highs above 250 mg/dL between 08:00–10:00 on 5 of the
+   * last 10 weekdays"
+   */
+  private describe(pattern: GlucosePattern): string {
+    const threshold = formatGlucose(pattern.threshold, this.unit());
+    const kind =
+      pattern.kind === 'low'
+        ? $localize`:@@dashboard.patterns.lows:Lows below ${threshold}:threshold:`
+        : $localize`:@@dashboard.patterns.highs:Highs above ${threshold}:threshold:`;
+    const from = this.formatMinute(pattern.startMinute);
+    const to = this.formatMinute(pattern.endMinute);
+    const count = pattern.occurrences.length;
+    const observed = pattern.daysObserved;
+    const days = this.dayNoun(pattern.scope, pattern.endMinute <= NIGHT_END_MINUTE);
+
+    return $localize`:@@dashboard.patterns.description:${kind}:kind: between ${from}:from:–${to}:to: on ${count}:count: of the last ${observed}:observed: ${days}:days:`;
+  }
+
+  private dayNoun(scope: PatternDayScope, night: boolean): string {
+    switch (scope) {
+      case 'weekdays':
+        return night
+          ? $localize`:@@dashboard.patterns.weekdayNights:weekday nights`
+          : $localize`:@@dashboard.patterns.weekdays:weekdays`;
+      case 'weekends':
+        return night
+          ? $localize`:@@dashboard.patterns.weekendNights:weekend nights`
+          : $localize`:@@dashboard.patterns.weekendDays:weekend days`;
+      default:
+        return night
+          ? $localize`:@@dashboard.patterns.nights:nights`
+          : $localize`:@@dashboard.patterns.days:days`;
+    }
+  }
+
+  /**
+   * Formats minutes since midnight as HH:mm (1440 as 24:00)
+   */
+  private formatMinute(minute: number): string {
+    const hours = Math.floor(minute / 60);
+    return `${String(hours).padStart(2, '0')}:${String(minute % 60).padStart(2, '0')}`;
+  }
+}
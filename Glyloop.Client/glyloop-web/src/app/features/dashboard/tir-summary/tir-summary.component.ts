@@ -1,10 +1,18 @@
 import { Component, ChangeDetectionStrategy, input, computed } from '@angular/core';
 import { CommonModule } from '@angular/common';
-import { TimeInRangeResponseDto } from '../../../core/models/dashboard.types';
+import {
+  TimeInRangeResponseDto,
+  TirBand,
+  TirBandBreakdown,
+  TirBandKey
+} from '../../../core/models/dashboard.types';
+import { GlucoseUnit } from '../../../core/models/settings.types';
+import { formatGlucose, formatGlucoseRange } from '../../../core/utils/glucose-units';
+import { tirResponseBreakdown } from '../../../core/utils/glucose-stats';
 
 /**
  * Time-in-Range summary component.
- * Displays TIR percentage, breakdown counts, and target range.
+ * Displays TIR percentage, breakdown counts, five-band stacked bar, and target range.
  */
 @Component({
   selector: 'app-tir-summary',
@@ -15,8 +23,9 @@ import { TimeInRangeResponseDto } from '../../../core/models/dashboard.types';
   changeDetection: ChangeDetectionStrategy.OnPush
 })
 export class TirSummaryComponent {
-  // Input
+  // Inputs
   readonly tir = input.required<TimeInRangeResponseDto | null>();
+  readonly unit = input<GlucoseUnit>('mg/dL');
 
   // Computed values
   readonly tirPercentage = computed(() => {
@@ -36,6 +45,14 @@ export class TirSummaryComponent {
     return Math.round((data.readingsAboveRange / data.totalReadings) * 100);
   });
 
+  // Five-band breakdown from the same server counts as the three-band totals
+  readonly bandBreakdown = computed<TirBandBreakdown | null>(() =>
+    tirResponseBreakdown(this.tir())
+  );
+
+  // Legend lists bands top-down (very high first), matching the vertical glucose scale
+  readonly legendBands = computed(() => [...(this.bandBreakdown()?.bands ?? [])].reverse());
+
   readonly targetRangeText = computed(() => {
     const data = this.tir();
     if (!data) return '';
@@ -47,7 +64,7 @@ export class TirSummaryComponent {
       return '';
     }
 
-    return `${lower}-${upper} mg/dL`;
+    return formatGlucoseRange(lower, upper, this.unit());
   });
 
   // Localized strings
@@ -58,6 +75,23 @@ export class TirSummaryComponent {
   readonly targetRangeLabel = $localize`:@@dashboard.tir.targetRange:Target Range`;
   readonly totalReadingsLabel = $localize`:@@dashboard.tir.totalReadings:Total Readings`;
   readonly noDataMessage = $localize`:@@dashboard.tir.noData:No data available`;
+  readonly bandsTitle = $localize`:@@dashboard.tir.bandsTitle:Glucose ranges`;
+  readonly bandLabels: Record<TirBandKey, string> = {
+    veryLow: $localize`:@@dashboard.tir.band.veryLow:Very Low`,
+    low: $localize`:@@dashboard.tir.band.low:Low`,
+    inRange: $localize`:@@dashboard.tir.band.inRange:In Range`,
+    high: $localize`:@@dashboard.tir.band.high:High`,
+    veryHigh: $localize`:@@dashboard.tir.band.veryHigh:Very High`
+  };
+
+  // Consensus report colors per band
+  private readonly bandColors: Record<TirBandKey, string> = {
+    veryLow: '#991b1b',
+    low: '#ef4444',
+    inRange: '#10b981',
+    high: '#f59e0b',
+    veryHigh: '#ea580c'
+  };
 
   /**
    * Gets the CSS class for TIR percentage badge based on value
@@ -84,6 +118,41 @@ export class TirSummaryComponent {
     return $localize`:@@dashboard.tir.tooltip:Time in Range is calculated from ${data.readingsInRange}:inRange: of ${data.totalReadings}:total: readings within ${this.targetRangeText()}:range:.`;
   }
 
+  /**
+   * Gets the color for a five-band segment
+   */
+  getBandColor(key: TirBandKey): string {
+    return this.bandColors[key];
+  }
+
+  /**
+   * Describes the glucose span covered by a band, e.g. "54-69 mg/dL" or "<54 mg/dL"
+   */
+  getBandRangeText(band: TirBand, breakdown: TirBandBreakdown): string {
+    const { veryLow, low, high, veryHigh } = breakdown.thresholds;
+    const unit = this.unit();
+
+    switch (band.key) {
+      case 'veryLow':
+        return `<${formatGlucose(veryLow, unit)}`;
+      case 'low':
+        return formatGlucoseRange(veryLow, low - 1, unit);
+      case 'inRange':
+        return formatGlucoseRange(low, high, unit);
+      case 'high':
+        return formatGlucoseRange(high + 1, veryHigh, unit);
+      case 'veryHigh':
+        return `>${formatGlucose(veryHigh, unit)}`;
+    }
+  }
+
+  /**
+   * Rounds a band percentage for display
+   */
+  formatBandPercentage(percentage: number): string {
+    return percentage > 0 && percentage < 1 ? '<1' : `${Math.round(percentage)}`;
+  }
+
   /**
    * Gets the color for the circular progress indicator
    */
@@ -0,0 +1,156 @@
+import { Component, ChangeDetectionStrategy, input, computed } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { MatTooltipModule } from '@angular/material/tooltip';
+import { ChartDataResponseDto } from '../../../core/models/dashboard.types';
+import { GlucoseUnit } from '../../../core/models/settings.types';
+import { formatGlucose } from '../../../core/utils/glucose-units';
+import { glucoseVariabilityStats } from '../../../core/utils/glucose-stats';
+
+interface StatItem {
+  key: string;
+  label: string;
+  value: string;
+  unit: string;
+  tooltip: string;
+}
+
+/**
+ * Glycemic variability statistics panel.
+ * Computes mean, median, SD, CV, GMI/eA1c, MAGE, LBGI/HBGI and data sufficiency
+ * from the loaded glucose series, so it follows the active range or custom window.
+ */
+@Component({
+  selector: 'app-variability-stats',
+  standalone: true,
+  imports: [CommonModule, MatTooltipModule],
+  templateUrl: './variability-stats.component.html',
+  styleUrl: './variability-stats.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class VariabilityStatsComponent {
+  // Inputs
+  readonly chartData = input.required<ChartDataResponseDto | null>();
+  readonly unit = input<GlucoseUnit>('mg/dL');
+
+  readonly stats = computed(() => {
+    const data = this.chartData();
+    if (!data) return null;
+
+    const points = data.glucoseData ?? [];
+    const times = points.map((point) => Date.parse(point.timestamp)).filter(Number.isFinite);
+    const parsedStart = Date.parse(data.startTime);
+    const parsedEnd = Date.parse(data.endTime);
+    const startMs = Number.isFinite(parsedStart) ? parsedStart : Math.min(...times);
+    const endMs = Number.isFinite(parsedEnd) ? parsedEnd : Math.max(...times);
+
+    const stats = glucoseVariabilityStats(points, startMs, endMs);
+    return stats.totalReadings > 0 ? stats : null;
+  });
+
+  readonly items = computed<StatItem[]>(() => {
+    const stats = this.stats();
+    if (!stats) return [];
+    const unit = this.unit();
+
+    return [
+      {
+        key: 'mean',
+        label: $localize`:@@dashboard.variability.mean:Mean`,
+        value: formatGlucose(stats.mean, unit, false),
+        unit,
+        tooltip: $localize`:@@dashboard.variability.meanTooltip:Average of all readings in the window`
+      },
+      {
+        key: 'median',
+        label: $localize`:@@dashboard.variability.median:Median`,
+        value: formatGlucose(stats.median, unit, false),
+        unit,
+        tooltip: $localize`:@@dashboard.variability.medianTooltip:Middle reading; half of the readings are above it and half below, so single spikes move it less than the mean`
+      },
+      {
+        key: 'sd',
+        label: $localize`:@@dashboard.variability.sd:Standard deviation`,
+        value: formatGlucose(stats.standardDeviation, unit, false),
+        unit,
+        tooltip: $localize`:@@dashboard.variability.sdTooltip:Typical distance of readings from the mean; lower means steadier glucose`
+      },
+      {
+        key: 'cv',
+        label: $localize`:@@dashboard.variability.cv:Coefficient of variation`,
+        value: this.formatValue(stats.coefficientOfVariation, 1),
+        unit: '%',
+        tooltip: $localize`:@@dashboard.variability.cvTooltip:Standard deviation as a share of the mean; 36% or lower is considered stable`
+      },
+      {
+        key: 'gmi',
+        label: $localize`:@@dashboard.variability.gmi:GMI`,
+        value: this.formatValue(stats.gmi, 1),
+        unit: '%',
+        tooltip: $localize`:@@dashboard.variability.gmiTooltip:Glucose Management Indicator: A1c estimated from mean CGM glucose (3.31 + 0.02392 × mean mg/dL); needs about 14 days of data`
+      },
+      {
+        key: 'ea1c',
+        label: $localize`:@@dashboard.variability.ea1c:Estimated A1c`,
+        value: this.formatValue(stats.estimatedA1c, 1),
+        unit: '%',
+        tooltip: $localize`:@@dashboard.variability.ea1cTooltip:A1c estimated from mean glucose with the ADAG formula ((mean mg/dL + 46.7) / 28.7); a lab A1c can differ`
+      },
+      {
+        key: 'mage',
+        label: $localize`:@@dashboard.variability.mage:MAGE`,
+        value: formatGlucose(stats.mage, unit, false),
+        unit,
+        tooltip: $localize`:@@dashboard.variability.mageTooltip:Mean Amplitude of Glycemic Excursions: average size of the swings larger than one standard deviation`
+      },
+      {
+        key: 'lbgi',
+        label: $localize`:@@dashboard.variability.lbgi:LBGI`,
+        value: this.formatValue(stats.lbgi, 1),
+        unit: '',
+        tooltip: $localize`:@@dashboard.variability.lbgiTooltip:Low Blood Glucose Index: risk of hypoglycemia from the readings; below 2.5 is low risk, above 5 is high`
+      },
+      {
+        key: 'hbgi',
+        label: $localize`:@@dashboard.variability.hbgi:HBGI`,
+        value: this.formatValue(stats.hbgi, 1),
+        unit: '',
+        tooltip: $localize`:@@dashboard.variability.hbgiTooltip:High Blood Glucose Index: risk of hyperglycemia from the readings; below 5 is low risk, above 9 is high`
+      },
+      {
+        key: 'capture',
+        label: $localize`:@@dashboard.variability.capture:Data captured`,
+        value: this.formatValue(stats.dataCapturePercentage),
+        unit: '%',
+        tooltip: $localize`:@@dashboard.variability.captureTooltip:Share of expected 5-minute readings received in the window; 70% or more is recommended`
+      }
+    ];
+  });
+
+  // Localized strings
+  readonly title = $localize`:@@dashboard.variability.title:Glucose Statistics`;
+  readonly noDataMessage = $localize`:@@dashboard.variability.noData:No readings in this window`;
+  readonly insufficientDataMessage = $localize`:@@dashboard.variability.insufficient:GMI, estimated A1c and variability are most reliable with at least 14 days and 70% of readings captured.`;
+
+  /**
+   * Describes the window the statistics cover
+   */
+  windowText(): string {
+    const stats = this.stats();
+    if (!stats) return '';
+
+    const readings = stats.totalReadings;
+    if (stats.windowDays >= 2) {
+      const days = Math.round(stats.windowDays);
+      return $localize`:@@dashboard.variability.windowDays:${readings}:readings: readings over ${days}:days: days`;
+    }
+    const hours = Math.round(stats.windowDays * 24);
+    return $localize`:@@dashboard.variability.windowHours:${readings}:readings: readings over ${hours}:hours: hours`;
+  }
+
+  /**
+   * Formats a nullable number with a fixed number of decimals
+   */
+  private formatValue(value: number | null, decimals = 0): string {
+    return value === null ? '—' : value.toFixed(decimals);
+  }
+}
@@ -0,0 +1,211 @@
+import { Component, ChangeDetectionStrategy, signal, inject, OnInit, computed } from '@angular/core';
+import { takeUntilDestroyed, toObservable } from '@angular/core/rxjs-interop';
+import { CommonModule } from '@angular/common';
+import { MatTooltipModule } from '@angular/material/tooltip';
+import { ExerciseAnalyticsService } from '../../core/services/exercise-analytics.service';
+import { AccountPreferencesStore } from '../../core/stores/account-preferences.store';
+import {
+  ExerciseGrouping,
+  ExerciseInsightsPeriodDays,
+  ExerciseInsightsVM
+} from '../../core/models/exercise-analytics.types';
+import { formatGlucose, formatGlucoseDelta } from '../../core/utils/glucose-units';
+import {
+  exerciseTypeLabel,
+  summarizeExerciseImpacts,
+  weeklyExerciseTrend
+} from '../../core/utils/exercise-impact';
+import { Subject, catchError, map, merge, of, switchMap } from 'rxjs';
+
+/**
+ * Exercise insights page.
+ * Compares the glucose impact of exercise (drop during the session, nadir and delayed
+ * lows in the 6 hours after) by exercise type or intensity over 14, 30 or 90 days,
+ * with a weekly breakdown and the most recent sessions.
+ */
+@Component({
+  selector: 'app-exercise-insights-page',
+  standalone: true,
+  imports: [CommonModule, MatTooltipModule],
+  templateUrl: './exercise-insights-page.component.html',
+  styleUrl: './exercise-insights-page.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class ExerciseInsightsPageComponent implements OnInit {
+  private readonly exerciseAnalytics = inject(ExerciseAnalyticsService);
+  private readonly preferencesStore = inject(AccountPreferencesStore);
+
+  // Most recent sessions listed under the summary
+  private readonly RECENT_SESSIONS = 20;
+
+  // Available options
+  readonly periods: ExerciseInsightsPeriodDays[] = [14, 30, 90];
+  readonly groupings: { value: ExerciseGrouping; label: string }[] = [
+    { value: 'exerciseType', label: $localize`:@@exerciseInsights.grouping.type:By type` },
+    { value: 'intensity', label: $localize`:@@exerciseInsights.grouping.intensity:By intensity` }
+  ];
+
+  // State
+  readonly periodDays = signal<ExerciseInsightsPeriodDays>(30);
+  readonly grouping = signal<ExerciseGrouping>('exerciseType');
+  readonly insights = signal<ExerciseInsightsVM | null>(null);
+  readonly loading = signal<boolean>(false);
+  readonly error = signal<string | undefined>(undefined);
+
+  readonly glucoseUnit = this.preferencesStore.glucoseUnit;
+
+  // Readings below the saved low bound count as lows
+  private readonly hypoThreshold = computed(() => this.preferencesStore.tirThresholds().low);
+
+  // Sessions are reloaded when the period or the low bound changes, or on retry
+  private readonly insightsRequest = computed(() => ({
+    periodDays: this.periodDays(),
+    hypoThreshold: this.hypoThreshold()
+  }));
+  private readonly retry$ = new Subject<void>();
+
+  readonly summaries = computed(() => {
+    const insights = this.insights();
+    return insights ? summarizeExerciseImpacts(insights.sessions, this.grouping()) : [];
+  });
+
+  readonly weeks = computed(() => {
+    const insights = this.insights();
+    if (!insights) return [];
+    return weeklyExerciseTrend(
+      insights.sessions,
+      new Date(insights.startTime),
+      new Date(insights.endTime)
+    );
+  });
+
+  readonly recentSessions = computed(() =>
+    (this.insights()?.sessions ?? []).slice(0, this.RECENT_SESSIONS)
+  );
+
+  // Localized strings
+  readonly pageTitle = $localize`:@@exerciseInsights.title:Exercise Insights`;
+  readonly description = $localize`:@@exerciseInsights.description:How your glucose responds to exercise, from 15 minutes before each Exercise event to 6 hours after it ends.`;
+  readonly loadingMessage = $localize`:@@exerciseInsights.loading:Analyzing exercise...`;
+  readonly errorMessage = $localize`:@@exerciseInsights.error:Failed to load exercise and glucose data`;
+  readonly retryLabel = $localize`:@@exerciseInsights.retry:Retry`;
+  readonly noSessionsMessage = $localize`:@@exerciseInsights.noSessions:No Exercise events in this period`;
+  readonly maxDropTooltip = $localize`:@@exerciseInsights.maxDropTooltip:Average of the 15 minutes before the session minus the lowest reading through 6 hours after it ends`;
+  readonly delayedHypoTooltip = computed(() => {
+    const bound = formatGlucose(this.hypoThreshold(), this.glucoseUnit());
+    return $localize`:@@exerciseInsights.delayedHypoTooltip:Sessions with a reading below ${bound}:bound: from 1 to 6 hours after they end`;
+  });
+  readonly yesLabel = $localize`:@@exerciseInsights.yes:Yes`;
+  readonly noLabel = $localize`:@@exerciseInsights.no:No`;
+
+  constructor() {
+    merge(
+      toObservable(this.insightsRequest),
+      this.retry$.pipe(map(() => this.insightsRequest()))
+    )
+      .pipe(
+        switchMap(({ periodDays, hypoThreshold }) => {
+          this.loading.set(true);
+          this.error.set(undefined);
+          return this.exerciseAnalytics.loadInsights(periodDays, hypoThreshold).pipe(
+            catchError((err) => {
+              console.error('Failed to load exercise insights:', err);
+              this.error.set(this.errorMessage);
+              return of(null);
+            })
+          );
+        }),
+        takeUntilDestroyed()
+      )
+      .subscribe((insights) => {
+        this.loading.set(false);
+        if (insights) {
+          this.insights.set(insights);
+        }
+      });
+  }
+
+  ngOnInit(): void {
+    this.preferencesStore.load();
+  }
+
+  /**
+   * Handles period selection
+   */
+  onPeriodChange(periodDays: ExerciseInsightsPeriodDays): void {
+    this.periodDays.set(periodDays);
+  }
+
+  /**
+   * Handles grouping selection (no reload needed)
+   */
+  onGroupingChange(grouping: ExerciseGrouping): void {
+    this.grouping.set(grouping);
+  }
+
+  /**
+   * Reloads the exercise sessions of the selected period
+   */
+  loadInsights(): void {
+    this.retry$.next();
+  }
+
+  /**
+   * Formats an mg/dL value in the display unit (number only)
+   */
+  formatGlucoseValue(mgdl: number | null): string {
+    return formatGlucose(mgdl, this.glucoseUnit(), false);
+  }
+
+  /**
+   * Formats a glucose drop as a signed (negative) change in the display unit
+   */
+  formatDrop(mgdl: number | null): string {
+    return mgdl === null ? '—' : formatGlucoseDelta(-mgdl, this.glucoseUnit());
+  }
+
+  /**
+   * Formats a nullable number with a fixed number of decimals
+   */
+  formatValue(value: number | null, decimals = 0): string {
+    return value === null ? '—' : value.toFixed(decimals);
+  }
+
+  /**
+   * Label of a session's exercise type, or an empty string when unknown
+   */
+  getExerciseTypeLabel(id: number | null): string {
+    return exerciseTypeLabel(id) ?? '';
+  }
+
+  /**
+   * Formats a session time for the recent sessions table
+   */
+  formatSessionTime(iso: string): string {
+    return new Date(iso).toLocaleString(undefined, {
+      weekday: 'short',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+  }
+
+  /**
+   * Formats the first day of a week for the weekly table
+   */
+  formatWeek(iso: string): string {
+    return new Date(iso).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+  }
+
+  /**
+   * Gets the CSS class for period and grouping buttons
+   */
+  getToggleButtonClass(active: boolean): string {
+    const baseClasses = 'px-4 py-2 rounded-lg text-sm font-medium transition-all';
+    const activeClasses = 'bg-gradient-to-r from-primary-from to-primary-to text-white shadow-md';
+    const inactiveClasses = 'bg-card-bg text-text-secondary hover:bg-surface-variant border border-card-border';
+
+    return `${baseClasses} ${active ? activeClasses : inactiveClasses}`;
+  }
+}
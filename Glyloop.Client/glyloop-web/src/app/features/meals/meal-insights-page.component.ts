@@ -0,0 +1,194 @@
+import { Component, ChangeDetectionStrategy, signal, inject, OnInit, computed } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { MatTooltipModule } from '@angular/material/tooltip';
+import { MealTrendChartComponent } from './meal-trend-chart/meal-trend-chart.component';
+import { MealAnalyticsService } from '../../core/services/meal-analytics.service';
+import { AccountPreferencesStore } from '../../core/stores/account-preferences.store';
+import {
+  MealGrouping,
+  MealInsightsPeriodDays,
+  MealInsightsVM
+} from '../../core/models/meal-analytics.types';
+import {
+  formatGlucose,
+  formatGlucoseDelta,
+  toDisplayGlucoseExact
+} from '../../core/utils/glucose-units';
+import {
+  mealTagLabel,
+  summarizeMealResponses,
+  weeklyPeakRiseTrend
+} from '../../core/utils/meal-response';
+import { catchError, of } from 'rxjs';
+
+/**
+ * Meal insights page.
+ * Compares glucose responses to meals (peak rise, time to peak, 2-hour value and area
+ * above baseline) by meal tag or absorption hint over 14, 30 or 90 days, with the
+ * weekly trend of the average peak rise and the most recent meals.
+ */
+@Component({
+  selector: 'app-meal-insights-page',
+  standalone: true,
+  imports: [CommonModule, MatTooltipModule, MealTrendChartComponent],
+  templateUrl: './meal-insights-page.component.html',
+  styleUrl: './meal-insights-page.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class MealInsightsPageComponent implements OnInit {
+  private readonly mealAnalytics = inject(MealAnalyticsService);
+  private readonly preferencesStore = inject(AccountPreferencesStore);
+
+  // Most recent meals listed under the summary
+  private readonly RECENT_MEALS = 20;
+
+  // Available options
+  readonly periods: MealInsightsPeriodDays[] = [14, 30, 90];
+  readonly groupings: { value: MealGrouping; label: string }[] = [
+    { value: 'mealTag', label: $localize`:@@mealInsights.grouping.mealTag:By meal tag` },
+    { value: 'absorption', label: $localize`:@@mealInsights.grouping.absorption:By absorption` }
+  ];
+
+  // State
+  readonly periodDays = signal<MealInsightsPeriodDays>(30);
+  readonly grouping = signal<MealGrouping>('mealTag');
+  readonly insights = signal<MealInsightsVM | null>(null);
+  readonly loading = signal<boolean>(false);
+  readonly error = signal<string | undefined>(undefined);
+
+  readonly glucoseUnit = this.preferencesStore.glucoseUnit;
+
+  readonly summaries = computed(() => {
+    const insights = this.insights();
+    return insights ? summarizeMealResponses(insights.meals, this.grouping()) : [];
+  });
+
+  readonly trend = computed(() => {
+    const insights = this.insights();
+    if (!insights) return [];
+    return weeklyPeakRiseTrend(
+      insights.meals,
+      this.grouping(),
+      new Date(insights.startTime),
+      new Date(insights.endTime)
+    );
+  });
+
+  readonly recentMeals = computed(() => (this.insights()?.meals ?? []).slice(0, this.RECENT_MEALS));
+
+  // Localized strings
+  readonly pageTitle = $localize`:@@mealInsights.title:Meal Insights`;
+  readonly description = $localize`:@@mealInsights.description:How your glucose responds to meals, from the readings 30 minutes before to 3 hours after each Food event.`;
+  readonly loadingMessage = $localize`:@@mealInsights.loading:Analyzing meals...`;
+  readonly errorMessage = $localize`:@@mealInsights.error:Failed to load meals and glucose data`;
+  readonly retryLabel = $localize`:@@mealInsights.retry:Retry`;
+  readonly noMealsMessage = $localize`:@@mealInsights.noMeals:No Food events in this period`;
+  readonly peakRiseTooltip = $localize`:@@mealInsights.peakRiseTooltip:Highest reading within 3 hours minus the average of the 30 minutes before the meal`;
+  readonly aucTooltip = $localize`:@@mealInsights.aucTooltip:Area between the glucose curve and the pre-meal baseline over 3 hours`;
+
+  ngOnInit(): void {
+    this.preferencesStore.load();
+    this.loadInsights();
+  }
+
+  /**
+   * Handles period selection
+   */
+  onPeriodChange(periodDays: MealInsightsPeriodDays): void {
+    if (periodDays === this.periodDays()) return;
+    this.periodDays.set(periodDays);
+    this.loadInsights();
+  }
+
+  /**
+   * Handles grouping selection (no reload needed)
+   */
+  onGroupingChange(grouping: MealGrouping): void {
+    this.grouping.set(grouping);
+  }
+
+  /**
+   * Loads and analyzes the meals of the selected period
+   */
+  loadInsights(): void {
+    this.loading.set(true);
+    this.error.set(undefined);
+
+    this.mealAnalytics
+      .loadInsights(this.periodDays())
+      .pipe(
+        catchError((err) => {
+          console.error('Failed to load meal insights:', err);
+          this.error.set(this.errorMessage);
+          return of(null);
+        })
+      )
+      .subscribe((insights) => {
+        this.loading.set(false);
+        if (insights) {
+          this.insights.set(insights);
+        }
+      });
+  }
+
+  /**
+   * Formats an mg/dL value in the display unit (number only)
+   */
+  formatGlucoseValue(mgdl: number | null): string {
+    return formatGlucose(mgdl, this.glucoseUnit(), false);
+  }
+
+  /**
+   * Formats a glucose rise as a signed change in the display unit
+   */
+  formatRise(mgdl: number | null): string {
+    return mgdl === null ? '—' : formatGlucoseDelta(mgdl, this.glucoseUnit());
+  }
+
+  /**
+   * Formats the area above baseline (mg/dL·h) in the display unit
+   */
+  formatAuc(mgdlHours: number | null): string {
+    if (mgdlHours === null) return '—';
+    const unit = this.glucoseUnit();
+    return toDisplayGlucoseExact(mgdlHours, unit).toFixed(unit === 'mmol/L' ? 1 : 0);
+  }
+
+  /**
+   * Formats a nullable number with a fixed number of decimals
+   */
+  formatValue(value: number | null, decimals = 0): string {
+    return value === null ? '—' : value.toFixed(decimals);
+  }
+
+  /**
+   * Label of a meal's tag, or an empty string when untagged
+   */
+  getMealTagLabel(id: number | null): string {
+    return mealTagLabel(id) ?? '';
+  }
+
+  /**
+   * Formats a meal time for the recent meals table
+   */
+  formatMealTime(iso: string): string {
+    return new Date(iso).toLocaleString(undefined, {
+      weekday: 'short',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+  }
+
+  /**
+   * Gets the CSS class for period and grouping buttons
+   */
+  getToggleButtonClass(active: boolean): string {
+    const baseClasses = 'px-4 py-2 rounded-lg text-sm font-medium transition-all';
+    const activeClasses = 'bg-gradient-to-r from-primary-from to-primary-to text-white shadow-md';
+    const inactiveClasses = 'bg-card-bg text-text-secondary hover:bg-surface-variant border border-card-border';
+
+    return `${baseClasses} ${active ? activeClasses : inactiveClasses}`;
+  }
+}
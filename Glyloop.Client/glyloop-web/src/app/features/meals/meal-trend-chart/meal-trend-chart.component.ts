@@ -0,0 +1,178 @@
+import {
+  Component,
+  ChangeDetectionStrategy,
+  input,
+  viewChild,
+  effect,
+  ElementRef,
+  OnDestroy,
+  computed
+} from '@angular/core';
+import { CommonModule } from '@angular/common';
+import {
+  Chart,
+  ChartConfiguration,
+  ChartData,
+  CategoryScale,
+  LinearScale,
+  LineController,
+  LineElement,
+  PointElement,
+  Tooltip,
+  Legend
+} from 'chart.js';
+import { MealTrendSeries } from '../../../core/models/meal-analytics.types';
+import { GlucoseUnit } from '../../../core/models/settings.types';
+import { formatGlucoseDelta, toDisplayGlucoseExact } from '../../../core/utils/glucose-units';
+
+// Register Chart.js components
+Chart.register(
+  CategoryScale,
+  LinearScale,
+  LineController,
+  LineElement,
+  PointElement,
+  Tooltip,
+  Legend
+);
+
+const SERIES_COLORS = ['#5B8DEF', '#10b981', '#fb923c', '#a855f7', '#94a3b8'];
+
+/**
+ * Weekly meal response trend using Chart.js v4.
+ * One line per meal group with the average peak rise of each week;
+ * weeks without meals leave a gap.
+ */
+@Component({
+  selector: 'app-meal-trend-chart',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './meal-trend-chart.component.html',
+  styleUrl: './meal-trend-chart.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class MealTrendChartComponent implements OnDestroy {
+  // Inputs
+  readonly series = input.required<MealTrendSeries[]>();
+  readonly unit = input<GlucoseUnit>('mg/dL'); // display unit; rises are mg/dL
+
+  // Template refs
+  private readonly canvasRef = viewChild<ElementRef<HTMLCanvasElement>>('trendCanvas');
+
+  // Chart instance
+  private chart: Chart | null = null;
+
+  readonly hasData = computed(() =>
+    this.series().some((group) => group.points.some((point) => point.averagePeakRise !== null))
+  );
+
+  // Localized strings
+  readonly chartLabel = $localize`:@@mealInsights.trend.label:Average peak rise per week`;
+  readonly axisLabel = computed(() =>
+    this.unit() === 'mmol/L'
+      ? $localize`:@@mealInsights.trend.axisMmol:Peak rise (mmol/L)`
+      : $localize`:@@mealInsights.trend.axis:Peak rise (mg/dL)`
+  );
+  readonly noDataMessage = $localize`:@@mealInsights.trend.noData:No meals with glucose readings in this period`;
+
+  constructor() {
+    effect(() => {
+      const series = this.series();
+      this.unit();
+      const canvas = this.hasData() ? this.canvasRef()?.nativeElement : undefined;
+      if (!canvas) {
+        this.destroyChart();
+        return;
+      }
+
+      if (!this.chart || this.chart.canvas !== canvas) {
+        this.destroyChart();
+        this.createChart(canvas, series);
+      } else {
+        this.chart.data = this.prepareChartData(series);
+        const yScale = this.chart.options.scales?.['y'] as { title?: { text?: string } };
+        if (yScale.title) yScale.title.text = this.axisLabel();
+        this.chart.update('none');
+      }
+    });
+  }
+
+  ngOnDestroy(): void {
+    this.destroyChart();
+  }
+
+  private createChart(canvas: HTMLCanvasElement, series: MealTrendSeries[]): void {
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    const config: ChartConfiguration = {
+      type: 'line',
+      data: this.prepareChartData(series),
+      options: {
+        responsive: true,
+        maintainAspectRatio: false,
+        interaction: { mode: 'index', intersect: false },
+        plugins: {
+          legend: { display: true, position: 'top' },
+          tooltip: {
+            callbacks: {
+              label: (context) => {
+                const point = this.series()[context.datasetIndex]?.points[context.dataIndex];
+                if (!point || point.averagePeakRise === null) return '';
+                const rise = formatGlucoseDelta(point.averagePeakRise, this.unit());
+                return $localize`:@@mealInsights.trend.tooltip:${context.dataset.label}:group:: ${rise}:rise: (${point.meals}:meals: meals)`;
+              }
+            }
+          }
+        },
+        scales: {
+          x: { type: 'category' },
+          y: {
+            type: 'linear',
+            beginAtZero: true,
+            title: { display: true, text: this.axisLabel() }
+          }
+        }
+      }
+    };
+
+    this.chart = new Chart(ctx, config);
+  }
+
+  private prepareChartData(series: MealTrendSeries[]): ChartData {
+    const unit = this.unit();
+    return {
+      labels: (series[0]?.points ?? []).map((point) =>
+        new Date(point.weekStart).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })
+      ),
+      datasets: series.map(
+        (group, index) =>
+          ({
+            type: 'line',
+            label: group.label,
+            data: group.points.map((point) =>
+              point.averagePeakRise === null
+                ? null
+                : toDisplayGlucoseExact(point.averagePeakRise, unit)
+            ),
+            borderColor: SERIES_COLORS[index % SERIES_COLORS.length],
+            backgroundColor: SERIES_COLORS[index % SERIES_COLORS.length],
+            borderWidth: 2,
+            pointRadius: 3,
+            tension: 0.2,
+            spanGaps: false
+          }) as never
+      )
+    };
+  }
+
+  /**
+   * Destroys the chart instance
+   */
+  private destroyChart(): void {
+    if (this.chart) {
+      this.chart.destroy();
+      this.chart = null;
+    }
+  }
+}
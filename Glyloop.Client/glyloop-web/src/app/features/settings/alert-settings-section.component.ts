@@ -0,0 +1,206 @@
+import { Component, ChangeDetectionStrategy, inject, computed } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { MatSnackBar, MatSnackBarModule } from '@angular/material/snack-bar';
+import { AlertSettingsStore } from '../../core/stores/alert-settings.store';
+import { AccountPreferencesStore } from '../../core/stores/account-preferences.store';
+import { GlucoseAlertsService } from '../../core/services/glucose-alerts.service';
+import { AlertAcknowledgement, AlertRule, AlertRuleKind } from '../../core/models/alerts.types';
+import { ALERT_RULE_LABELS } from '../../core/utils/glucose-alerts';
+import {
+  formatGlucose,
+  fromDisplayGlucose,
+  glucoseDecimals,
+  toDisplayGlucose
+} from '../../core/utils/glucose-units';
+
+/**
+ * Glucose alerts section component
+ * Per-rule enable, threshold, snooze length and quiet hours; browser notification
+ * permission; recent acknowledgements. Changes are saved on this device immediately.
+ */
+@Component({
+  selector: 'app-alert-settings-section',
+  standalone: true,
+  imports: [CommonModule, MatSnackBarModule],
+  templateUrl: './alert-settings-section.component.html',
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class AlertSettingsSectionComponent {
+  private readonly store = inject(AlertSettingsStore);
+  private readonly preferencesStore = inject(AccountPreferencesStore);
+  private readonly alertsService = inject(GlucoseAlertsService);
+  private readonly snackBar = inject(MatSnackBar);
+
+  // Expose store signals to template
+  readonly rules = this.store.rules;
+  readonly notificationsEnabled = this.store.notificationsEnabled;
+  readonly notificationPermission = this.alertsService.notificationPermission;
+  readonly glucoseUnit = this.preferencesStore.glucoseUnit;
+  readonly recentAcknowledgements = computed(() => this.store.acknowledgements().slice(0, 10));
+
+  readonly labels = ALERT_RULE_LABELS;
+  readonly snoozeOptions = [15, 30, 60, 120];
+
+  readonly inputStep = computed(() => (glucoseDecimals(this.glucoseUnit()) > 0 ? 0.1 : 1));
+
+  private readonly MIN_GLUCOSE_MGDL = 40;
+  private readonly MAX_GLUCOSE_MGDL = 400;
+  private readonly MIN_NO_DATA_MINUTES = 10;
+  private readonly MAX_NO_DATA_MINUTES = 180;
+
+  readonly descriptions: Record<AlertRuleKind, string> = {
+    urgentLow: $localize`:@@settings.alerts.rule.urgentLow.description:Reading at or below the threshold`,
+    low: $localize`:@@settings.alerts.rule.low.description:Reading at or below the threshold`,
+    high: $localize`:@@settings.alerts.rule.high.description:Reading at or above the threshold`,
+    risingFast: $localize`:@@settings.alerts.rule.risingFast.description:CGM trend arrow is single or double up`,
+    fallingFast: $localize`:@@settings.alerts.rule.fallingFast.description:CGM trend arrow is single or double down`,
+    noData: $localize`:@@settings.alerts.rule.noData.description:No reading received for the set number of minutes`
+  };
+
+  // Localized strings
+  readonly permissionDeniedMessage = $localize`:@@settings.alerts.notifications.deniedMessage:Notifications are blocked for this site in your browser settings`;
+  readonly resetMessage = $localize`:@@settings.alerts.resetDone:Alert rules restored to defaults`;
+
+  /**
+   * Threshold shown in the input: display unit for glucose rules, minutes for no data
+   */
+  getThresholdValue(rule: AlertRule): number | null {
+    if (rule.threshold === null) return null;
+    return rule.kind === 'noData'
+      ? rule.threshold
+      : toDisplayGlucose(rule.threshold, this.glucoseUnit());
+  }
+
+  getThresholdMin(rule: AlertRule): number {
+    return rule.kind === 'noData'
+      ? this.MIN_NO_DATA_MINUTES
+      : toDisplayGlucose(this.MIN_GLUCOSE_MGDL, this.glucoseUnit());
+  }
+
+  getThresholdMax(rule: AlertRule): number {
+    return rule.kind === 'noData'
+      ? this.MAX_NO_DATA_MINUTES
+      : toDisplayGlucose(this.MAX_GLUCOSE_MGDL, this.glucoseUnit());
+  }
+
+  onEnabledChange(rule: AlertRule, enabled: boolean): void {
+    this.store.updateRule(rule.kind, { enabled });
+  }
+
+  /**
+   * Saves a valid threshold; an invalid one is reported and the input reverted
+   */
+  onThresholdChange(rule: AlertRule, input: HTMLInputElement): void {
+    const value = Number(input.value);
+    const threshold =
+      rule.kind === 'noData' ? Math.round(value) : fromDisplayGlucose(value, this.glucoseUnit());
+    const error =
+      input.value === '' || !Number.isFinite(value)
+        ? $localize`:@@settings.alerts.threshold.required:Enter a threshold`
+        : this.validateThreshold(rule.kind, threshold);
+
+    if (error) {
+      input.value = String(this.getThresholdValue(rule) ?? '');
+      this.showSnackbar(error, 'error');
+      return;
+    }
+    this.store.updateRule(rule.kind, { threshold });
+  }
+
+  onSnoozeMinutesChange(rule: AlertRule, minutes: string): void {
+    this.store.updateRule(rule.kind, { snoozeMinutes: Number(minutes) });
+  }
+
+  onQuietHoursChange(rule: AlertRule, changes: Partial<AlertRule['quietHours']>): void {
+    const quietHours = { ...rule.quietHours, ...changes };
+    if (!quietHours.start || !quietHours.end) return;
+    this.store.updateRule(rule.kind, { quietHours });
+  }
+
+  isSnoozed(rule: AlertRule): boolean {
+    return !!rule.snoozedUntil && Date.parse(rule.snoozedUntil) > Date.now();
+  }
+
+  onCancelSnooze(rule: AlertRule): void {
+    this.store.updateRule(rule.kind, { snoozedUntil: null });
+  }
+
+  /**
+   * Asks for permission the first time; afterwards toggles the preference
+   */
+  async onNotificationsToggle(enabled: boolean): Promise<void> {
+    if (!enabled) {
+      this.store.setNotificationsEnabled(false);
+      return;
+    }
+    if (this.notificationPermission() === 'granted') {
+      this.store.setNotificationsEnabled(true);
+      return;
+    }
+
+    const permission = await this.alertsService.requestNotificationPermission();
+    if (permission === 'denied') {
+      this.showSnackbar(this.permissionDeniedMessage, 'error');
+    }
+  }
+
+  onResetRules(): void {
+    this.store.resetRules();
+    this.showSnackbar(this.resetMessage, 'success');
+  }
+
+  onClearAcknowledgements(): void {
+    this.store.clearAcknowledgements();
+  }
+
+  /**
+   * Summary of a logged acknowledgement, e.g. "Low · 3.6 mmol/L"
+   */
+  getAcknowledgementLabel(acknowledgement: AlertAcknowledgement): string {
+    const label = this.labels[acknowledgement.kind];
+    return acknowledgement.value === null
+      ? label
+      : `${label} · ${formatGlucose(acknowledgement.value, this.glucoseUnit())}`;
+  }
+
+  private validateThreshold(kind: AlertRuleKind, threshold: number): string | null {
+    if (kind === 'noData') {
+      return threshold < this.MIN_NO_DATA_MINUTES || threshold > this.MAX_NO_DATA_MINUTES
+        ? $localize`:@@settings.alerts.threshold.minutesRange:Enter between ${this.MIN_NO_DATA_MINUTES}:min: and ${this.MAX_NO_DATA_MINUTES}:max: minutes`
+        : null;
+    }
+
+    const unit = this.glucoseUnit();
+    if (threshold < this.MIN_GLUCOSE_MGDL || threshold > this.MAX_GLUCOSE_MGDL) {
+      const min = formatGlucose(this.MIN_GLUCOSE_MGDL, unit, false);
+      const max = formatGlucose(this.MAX_GLUCOSE_MGDL, unit);
+      return $localize`:@@settings.alerts.threshold.glucoseRange:Enter between ${min}:min: and ${max}:max:`;
+    }
+
+    const thresholdOf = (other: AlertRuleKind) =>
+      this.rules().find((rule) => rule.kind === other)?.threshold ?? null;
+    const urgentLow = kind === 'urgentLow' ? threshold : thresholdOf('urgentLow');
+    const low = kind === 'low' ? threshold : thresholdOf('low');
+    const high = kind === 'high' ? threshold : thresholdOf('high');
+
+    if (urgentLow !== null && low !== null && urgentLow >= low) {
+      return $localize`:@@settings.alerts.threshold.urgentBelowLow:Urgent low must be below low`;
+    }
+    if (low !== null && high !== null && low >= high) {
+      return $localize`:@@settings.alerts.threshold.lowBelowHigh:Low must be below high`;
+    }
+    return null;
+  }
+
+  /**
+   * Shows a snackbar notification
+   */
+  private showSnackbar(message: string, type: 'success' | 'error'): void {
+    this.snackBar.open(message, $localize`:@@common.close:Close`, {
+      duration: type === 'success' ? 3000 : 5000,
+      horizontalPosition: 'end',
+      verticalPosition: 'bottom',
+      panelClass: type === 'success' ? 'snackbar-success' : 'snackbar-error'
+    });
+  }
+}
@@ -5,11 +5,13 @@ import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
 import { MatSnackBar, MatSnackBarModule } from '@angular/material/snack-bar';
 import { DexcomStatusCardComponent } from './dexcom-status-card.component';
 import { UnlinkDialogComponent } from './unlink-dialog.component';
+import { EventImportWizardComponent } from './event-import-wizard.component';
 import { DexcomStore } from '../../core/stores/dexcom.store';
+import { ImportProgress } from '../../core/models/event-import.types';
 
 /**
  * Data Sources section component
- * Shows Dexcom link status and provides Link/Unlink actions
+ * Shows Dexcom link status and provides Link/Unlink actions, plus CSV event import
  */
 @Component({
   selector: 'app-data-sources-section',
@@ -20,7 +22,8 @@ import { DexcomStore } from '../../core/stores/dexcom.store';
     MatProgressSpinnerModule,
     MatSnackBarModule,
     DexcomStatusCardComponent,
-    UnlinkDialogComponent
+    UnlinkDialogComponent,
+    EventImportWizardComponent
   ],
   templateUrl: './data-sources-section.component.html',
   changeDetection: ChangeDetectionStrategy.OnPush
@@ -93,6 +96,23 @@ export class DataSourcesSectionComponent implements OnInit {
     this.showSnackbar(this.refreshSuccessMessage, 'success');
   }
 
+  /**
+   * Reports the outcome of a finished CSV import
+   */
+  onImported(progress: ImportProgress): void {
+    if (progress.failures.length === 0) {
+      this.showSnackbar(
+        $localize`:@@settings.import.success:${progress.succeeded}:count: events imported`,
+        'success'
+      );
+    } else {
+      this.showSnackbar(
+        $localize`:@@settings.import.partial:${progress.succeeded}:count: events imported, ${progress.failures.length}:failed: failed`,
+        'error'
+      );
+    }
+  }
+
   /**
    * Shows a snackbar notification
    */
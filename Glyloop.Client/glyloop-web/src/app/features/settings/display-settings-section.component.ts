@@ -1,17 +1,88 @@
-import { Component, ChangeDetectionStrategy } from '@angular/core';
+import { Component, ChangeDetectionStrategy, inject, OnInit, signal } from '@angular/core';
 import { CommonModule } from '@angular/common';
+import { MatSnackBar, MatSnackBarModule } from '@angular/material/snack-bar';
+import { AccountPreferencesStore } from '../../core/stores/account-preferences.store';
+import { OnBoardSettingsCardComponent } from './on-board-settings-card.component';
+import { GlucoseUnit } from '../../core/models/settings.types';
+import { formatGlucoseRange } from '../../core/utils/glucose-units';
 
 /**
  * Display settings section component
- * Read-only note (theme fixed to dark); link to Account for TIR
+ * Glucose unit preference (saved with account preferences); theme fixed to dark;
+ * link to Account for TIR; insulin and carbs on board curves (saved on this device)
  */
 @Component({
   selector: 'app-display-settings-section',
   standalone: true,
-  imports: [CommonModule],
+  imports: [CommonModule, MatSnackBarModule, OnBoardSettingsCardComponent],
   templateUrl: './display-settings-section.component.html',
   changeDetection: ChangeDetectionStrategy.OnPush
 })
-export class DisplaySettingsSectionComponent {
-  // Theme is fixed to dark mode for now
+export class DisplaySettingsSectionComponent implements OnInit {
+  private readonly store = inject(AccountPreferencesStore);
+  private readonly snackBar = inject(MatSnackBar);
+
+  // Expose store signals to template
+  readonly loading = this.store.loading;
+  readonly error = this.store.error;
+  readonly glucoseUnit = this.store.glucoseUnit;
+
+  readonly units: GlucoseUnit[] = ['mg/dL', 'mmol/L'];
+  readonly savingUnit = signal<boolean>(false);
+
+  // Localized strings
+  readonly unitSavedMessage = $localize`:@@settings.display.unitSaved:Glucose unit updated`;
+  readonly unitSaveErrorMessage = $localize`:@@settings.display.unitSaveError:Failed to update glucose unit`;
+
+  ngOnInit(): void {
+    this.store.load();
+  }
+
+  /**
+   * Saves the selected glucose unit
+   */
+  async onUnitChange(unit: GlucoseUnit): Promise<void> {
+    if (unit === this.glucoseUnit() || this.savingUnit()) return;
+
+    this.savingUnit.set(true);
+    const result = await this.store.saveUnit(unit);
+    this.savingUnit.set(false);
+
+    if (result.success) {
+      this.showSnackbar(this.unitSavedMessage, 'success');
+    } else {
+      this.showSnackbar(result.error || this.unitSaveErrorMessage, 'error');
+    }
+  }
+
+  /**
+   * Example target range in the given unit, shown under each option
+   */
+  getUnitExample(unit: GlucoseUnit): string {
+    return formatGlucoseRange(70, 180, unit);
+  }
+
+  /**
+   * Gets the CSS class for unit option buttons
+   */
+  getUnitButtonClass(unit: GlucoseUnit): string {
+    const isActive = unit === this.glucoseUnit();
+    const baseClasses = 'flex-1 px-4 py-3 rounded-lg text-left transition-all border';
+    const activeClasses = 'bg-blue-900/30 border-blue-500 text-white';
+    const inactiveClasses = 'bg-gray-800 border-gray-700 text-gray-300 hover:border-gray-500';
+
+    return `${baseClasses} ${isActive ? activeClasses : inactiveClasses}`;
+  }
+
+  /**
+   * Shows a snackbar notification
+   */
+  private showSnackbar(message: string, type: 'success' | 'error'): void {
+    this.snackBar.open(message, $localize`:@@common.close:Close`, {
+      duration: type === 'success' ? 3000 : 5000,
+      horizontalPosition: 'end',
+      verticalPosition: 'bottom',
+      panelClass: type === 'success' ? 'snackbar-success' : 'snackbar-error'
+    });
+  }
 }
@@ -0,0 +1,291 @@
+import {
+  Component,
+  ChangeDetectionStrategy,
+  output,
+  signal,
+  computed,
+  inject,
+  OnDestroy
+} from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { MatButtonModule } from '@angular/material/button';
+import { MatCheckboxModule } from '@angular/material/checkbox';
+import { MatProgressBarModule } from '@angular/material/progress-bar';
+import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
+import { Subscription, catchError, of } from 'rxjs';
+import { EventImportService } from '../../core/services/event-import.service';
+import {
+  ImportColumnMapping,
+  ImportDateFormat,
+  ImportPreviewItem,
+  ImportProgress,
+  ImportTargetField
+} from '../../core/models/event-import.types';
+import { downloadTextFile, parseCsv, toCsv } from '../../core/utils/csv';
+import {
+  IMPORT_TARGET_FIELDS,
+  buildImportPreview,
+  importFieldLabels,
+  markImportDuplicates,
+  suggestColumnMapping
+} from '../../core/utils/event-import';
+
+type ImportStep = 'upload' | 'map' | 'preview' | 'importing' | 'done';
+
+/**
+ * Event import wizard component
+ * Upload a CSV, map its columns to event fields, review validation errors and
+ * duplicates, then submit the valid rows in throttled batches.
+ */
+@Component({
+  selector: 'app-event-import-wizard',
+  standalone: true,
+  imports: [
+    CommonModule,
+    MatButtonModule,
+    MatCheckboxModule,
+    MatProgressBarModule,
+    MatProgressSpinnerModule
+  ],
+  templateUrl: './event-import-wizard.component.html',
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class EventImportWizardComponent implements OnDestroy {
+  private readonly importService = inject(EventImportService);
+
+  readonly imported = output<ImportProgress>();
+
+  // Wizard state
+  readonly step = signal<ImportStep>('upload');
+  readonly fileName = signal<string>('');
+  readonly headers = signal<string[]>([]);
+  readonly rows = signal<string[][]>([]);
+  readonly mapping = signal<ImportColumnMapping>([]);
+  readonly dateFormat = signal<ImportDateFormat>('iso');
+  readonly preview = signal<ImportPreviewItem[]>([]);
+  readonly includeDuplicates = signal<boolean>(false);
+  readonly checkingDuplicates = signal<boolean>(false);
+  readonly duplicateCheckFailed = signal<boolean>(false);
+  readonly progress = signal<ImportProgress | null>(null);
+  readonly error = signal<string | undefined>(undefined);
+
+  readonly targetFields = IMPORT_TARGET_FIELDS;
+  readonly fieldLabels = importFieldLabels();
+  readonly dateFormats: { value: ImportDateFormat; label: string }[] = [
+    { value: 'iso', label: $localize`:@@settings.import.dateFormat.iso:YYYY-MM-DD HH:mm` },
+    { value: 'dmy', label: $localize`:@@settings.import.dateFormat.dmy:DD/MM/YYYY HH:mm` },
+    { value: 'mdy', label: $localize`:@@settings.import.dateFormat.mdy:MM/DD/YYYY HH:mm` }
+  ];
+
+  // Sample rows shown under the mapping selects
+  readonly sampleRows = computed(() => this.rows().slice(0, 3));
+
+  readonly mappingError = computed(() => {
+    const mapping = this.mapping();
+    if (!mapping.includes('eventTime')) {
+      return $localize`:@@settings.import.mapping.timeRequired:Map a column to the event date.`;
+    }
+    const triggers: ImportTargetField[] = [
+      'carbohydratesGrams',
+      'insulinUnits',
+      'exerciseType',
+      'durationMinutes',
+      'noteText'
+    ];
+    if (!triggers.some((field) => mapping.includes(field))) {
+      return $localize`:@@settings.import.mapping.dataRequired:Map at least one column to carbohydrates, insulin units, exercise or note text.`;
+    }
+    return undefined;
+  });
+
+  readonly invalidItems = computed(() => this.preview().filter((item) => !item.draft));
+  readonly duplicateItems = computed(() =>
+    this.preview().filter((item) => item.draft && item.duplicateOf)
+  );
+  readonly itemsToImport = computed(() =>
+    this.preview().filter((item) => item.draft && (this.includeDuplicates() || !item.duplicateOf))
+  );
+
+  readonly progressPercent = computed(() => {
+    const progress = this.progress();
+    return progress && progress.total > 0 ? (progress.completed / progress.total) * 100 : 0;
+  });
+
+  // Import limits
+  private readonly MAX_FILE_BYTES = 2 * 1024 * 1024;
+  private readonly MAX_ROWS = 5000;
+
+  private subscription: Subscription | null = null;
+
+  ngOnDestroy(): void {
+    this.subscription?.unsubscribe();
+  }
+
+  /**
+   * Reads and parses the selected CSV file, then suggests a column mapping
+   */
+  async onFileSelected(event: Event): Promise<void> {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    input.value = ''; // Allow re-selecting the same file
+    if (!file) return;
+
+    this.error.set(undefined);
+
+    if (file.size > this.MAX_FILE_BYTES) {
+      this.error.set($localize`:@@settings.import.error.fileTooLarge:The file is larger than 2 MB.`);
+      return;
+    }
+
+    let parsed: string[][];
+    try {
+      parsed = parseCsv(await file.text());
+    } catch (err) {
+      console.error('Failed to read import file:', err);
+      this.error.set($localize`:@@settings.import.error.readFailed:The file could not be read.`);
+      return;
+    }
+
+    const [headers, ...rows] = parsed;
+    if (!headers || rows.length === 0) {
+      this.error.set(
+        $localize`:@@settings.import.error.empty:The file needs a header row and at least one data row.`
+      );
+      return;
+    }
+    if (rows.length > this.MAX_ROWS) {
+      this.error.set(
+        $localize`:@@settings.import.error.tooManyRows:The file has more than ${this.MAX_ROWS}:max: rows. Split it into smaller files.`
+      );
+      return;
+    }
+
+    this.fileName.set(file.name);
+    this.headers.set(headers.map((header) => header.trim()));
+    this.rows.set(rows);
+    this.mapping.set(suggestColumnMapping(headers));
+    this.step.set('map');
+  }
+
+  /**
+   * Assigns a field to a column; a field can only be mapped once
+   */
+  onMappingChange(column: number, value: string): void {
+    const field = (value || null) as ImportTargetField | null;
+    this.mapping.update((mapping) =>
+      mapping.map((current, index) => {
+        if (index === column) return field;
+        return field && current === field ? null : current;
+      })
+    );
+  }
+
+  onDateFormatChange(value: string): void {
+    this.dateFormat.set(value as ImportDateFormat);
+  }
+
+  /**
+   * Validates every row and checks for events that already exist
+   */
+  onPreview(): void {
+    if (this.mappingError()) return;
+
+    const items = buildImportPreview(this.rows(), this.mapping(), this.dateFormat());
+    this.preview.set(markImportDuplicates(items, []));
+    this.includeDuplicates.set(false);
+    this.duplicateCheckFailed.set(false);
+    this.step.set('preview');
+
+    this.checkingDuplicates.set(true);
+    this.subscription?.unsubscribe();
+    this.subscription = this.importService
+      .loadExistingEvents(items)
+      .pipe(
+        catchError((err) => {
+          console.error('Failed to check for duplicate events:', err);
+          this.duplicateCheckFailed.set(true);
+          return of([]);
+        })
+      )
+      .subscribe((existing) => {
+        this.preview.set(markImportDuplicates(items, existing));
+        this.checkingDuplicates.set(false);
+      });
+  }
+
+  /**
+   * Submits the valid rows and tracks progress
+   */
+  onImport(): void {
+    const items = this.itemsToImport();
+    if (items.length === 0) return;
+
+    this.step.set('importing');
+    this.subscription?.unsubscribe();
+    this.subscription = this.importService.submit(items).subscribe({
+      next: (progress) => this.progress.set(progress),
+      complete: () => {
+        this.step.set('done');
+        const progress = this.progress();
+        if (progress) {
+          this.imported.emit(progress);
+        }
+      }
+    });
+  }
+
+  onBack(): void {
+    this.step.set(this.step() === 'preview' ? 'map' : 'upload');
+  }
+
+  /**
+   * Returns to the upload step and clears the current file
+   */
+  onReset(): void {
+    this.subscription?.unsubscribe();
+    this.step.set('upload');
+    this.fileName.set('');
+    this.headers.set([]);
+    this.rows.set([]);
+    this.mapping.set([]);
+    this.preview.set([]);
+    this.progress.set(null);
+    this.error.set(undefined);
+    this.checkingDuplicates.set(false);
+  }
+
+  /**
+   * Downloads skipped and failed rows with their reasons as CSV
+   */
+  downloadReport(): void {
+    const rows: (string | number)[][] = [['row', 'event_type', 'status', 'reason']];
+
+    for (const item of this.invalidItems()) {
+      rows.push([item.rowNumber, item.eventType ?? '', 'invalid', item.errors.join('; ')]);
+    }
+    if (!this.includeDuplicates()) {
+      for (const item of this.duplicateItems()) {
+        rows.push([item.rowNumber, item.eventType ?? '', 'duplicate', this.getDuplicateText(item)]);
+      }
+    }
+    for (const failure of this.progress()?.failures ?? []) {
+      rows.push([failure.rowNumber, failure.eventType, 'failed', failure.message]);
+    }
+
+    const baseName = this.fileName().replace(/\.csv$/i, '') || 'import';
+    downloadTextFile(`${baseName}-import-report.csv`, toCsv(rows), 'text/csv;charset=utf-8');
+  }
+
+  getDuplicateText(item: ImportPreviewItem): string {
+    return item.duplicateOf === 'existing'
+      ? $localize`:@@settings.import.duplicate.existing:Same type already logged at this time`
+      : $localize`:@@settings.import.duplicate.file:Repeats an earlier row`;
+  }
+
+  getSample(column: number): string {
+    return this.sampleRows()
+      .map((row) => row[column] ?? '')
+      .filter(Boolean)
+      .join(', ');
+  }
+}
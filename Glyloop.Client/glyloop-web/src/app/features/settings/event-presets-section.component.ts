@@ -0,0 +1,99 @@
+import { Component, ChangeDetectionStrategy, inject, computed } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { MatSnackBar, MatSnackBarModule } from '@angular/material/snack-bar';
+import { EventPresetsStore } from '../../core/stores/event-presets.store';
+import { EventType } from '../../core/models/dashboard.types';
+import { EventPreset, EventPresetFields } from '../../core/models/event-presets.types';
+import {
+  EVENT_PRESET_NAME_MAX_LENGTH,
+  EVENT_PRESET_TYPES,
+  presetSummary
+} from '../../core/utils/event-presets';
+
+/**
+ * Quick-log presets section component
+ * Lists the Add Event presets of each type by usage; rename, delete, reset usage
+ * and forget the "repeat last" events. Presets are created from the Add Event dialog.
+ */
+@Component({
+  selector: 'app-event-presets-section',
+  standalone: true,
+  imports: [CommonModule, MatSnackBarModule],
+  templateUrl: './event-presets-section.component.html',
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class EventPresetsSectionComponent {
+  private readonly store = inject(EventPresetsStore);
+  private readonly snackBar = inject(MatSnackBar);
+
+  readonly nameMaxLength = EVENT_PRESET_NAME_MAX_LENGTH;
+
+  // Presets grouped by event type, most used first
+  readonly groups = computed(() =>
+    EVENT_PRESET_TYPES.map((eventType) => ({
+      eventType,
+      presets: this.store.presetsFor(eventType)
+    }))
+  );
+  readonly hasPresets = computed(() => this.store.presets().length > 0);
+  readonly hasLastEvents = computed(() => Object.keys(this.store.lastEvents()).length > 0);
+
+  readonly typeLabels: Record<EventType, string> = {
+    Food: $localize`:@@settings.presets.type.food:Food`,
+    Insulin: $localize`:@@settings.presets.type.insulin:Insulin`,
+    Exercise: $localize`:@@settings.presets.type.exercise:Exercise`,
+    Note: $localize`:@@settings.presets.type.note:Note`
+  };
+
+  // Localized strings
+  readonly deletedMessage = $localize`:@@settings.presets.deleted:Preset deleted`;
+  readonly usageResetMessage = $localize`:@@settings.presets.usageReset:Preset usage counts reset`;
+  readonly lastEventsClearedMessage = $localize`:@@settings.presets.lastCleared:Last events cleared`;
+  readonly deleteLabel = $localize`:@@settings.presets.delete:Delete`;
+
+  getSummary(fields: EventPresetFields): string {
+    return presetSummary(fields);
+  }
+
+  getUsesLabel(preset: EventPreset): string {
+    return $localize`:@@settings.presets.uses:${preset.useCount}:count: uses`;
+  }
+
+  /**
+   * Saves the edited name; an empty name restores the current one
+   */
+  onRename(preset: EventPreset, input: HTMLInputElement): void {
+    if (input.value.trim()) {
+      this.store.rename(preset.id, input.value);
+    } else {
+      input.value = preset.name;
+    }
+  }
+
+  onDelete(preset: EventPreset): void {
+    this.store.remove(preset.id);
+    this.showSnackbar(this.deletedMessage);
+  }
+
+  onResetUsage(): void {
+    this.store.resetUsage();
+    this.showSnackbar(this.usageResetMessage);
+  }
+
+  onClearLastEvents(): void {
+    this.store.clearLastEvents();
+    this.showSnackbar(this.lastEventsClearedMessage);
+  }
+
+  /**
+   * Shows a snackbar notification
+   */
+  private showSnackbar(message: string): void {
+    this.snackBar.open(message, $localize`:@@common.close:Close`, {
+      duration: 3000,
+      horizontalPosition: 'end',
+      verticalPosition: 'bottom',
+      panelClass: 'snackbar-success'
+    });
+  }
+}
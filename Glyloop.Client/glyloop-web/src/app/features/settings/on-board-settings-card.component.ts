@@ -0,0 +1,130 @@
+import { Component, ChangeDetectionStrategy, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { MatSnackBar, MatSnackBarModule } from '@angular/material/snack-bar';
+import { OnBoardSettingsStore } from '../../core/stores/on-board-settings.store';
+import {
+  AbsorptionSpeed,
+  InsulinActionCurve,
+  InsulinPreparation
+} from '../../core/models/on-board.types';
+import { ABSORPTION_SPEED_KEYS, INSULIN_PREPARATION_KEYS } from '../../core/utils/on-board';
+
+/**
+ * Insulin and carbs on board card component
+ * Action curve per insulin preparation, absorption time per carb speed and whether
+ * long-acting insulin counts towards IOB. Saved on this device immediately.
+ */
+@Component({
+  selector: 'app-on-board-settings-card',
+  standalone: true,
+  imports: [CommonModule, MatSnackBarModule],
+  templateUrl: './on-board-settings-card.component.html',
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class OnBoardSettingsCardComponent {
+  private readonly store = inject(OnBoardSettingsStore);
+  private readonly snackBar = inject(MatSnackBar);
+
+  readonly settings = this.store.settings;
+
+  readonly preparations = INSULIN_PREPARATION_KEYS;
+  readonly absorptionSpeeds = ABSORPTION_SPEED_KEYS;
+
+  private readonly MIN_DURATION_MINUTES = 60;
+  private readonly MAX_DURATION_MINUTES = 2160;
+  private readonly MIN_ABSORPTION_MINUTES = 30;
+  private readonly MAX_ABSORPTION_MINUTES = 480;
+
+  readonly preparationLabels: Record<InsulinPreparation, string> = {
+    Rapid: $localize`:@@settings.onBoard.preparation.rapid:Rapid-acting`,
+    Short: $localize`:@@settings.onBoard.preparation.short:Short-acting`,
+    Intermediate: $localize`:@@settings.onBoard.preparation.intermediate:Intermediate-acting`,
+    Long: $localize`:@@settings.onBoard.preparation.long:Long-acting`
+  };
+
+  readonly absorptionLabels: Record<AbsorptionSpeed, string> = {
+    Fast: $localize`:@@settings.onBoard.absorption.rapid:Rapid`,
+    Medium: $localize`:@@settings.onBoard.absorption.normal:Normal`,
+    Slow: $localize`:@@settings.onBoard.absorption.slow:Slow`
+  };
+
+  // Localized strings
+  readonly resetMessage = $localize`:@@settings.onBoard.reset.done:Default curves restored`;
+
+  /**
+   * Saves the duration or peak of one insulin curve after validating it
+   */
+  onCurveChange(
+    preparation: InsulinPreparation,
+    field: keyof InsulinActionCurve,
+    input: HTMLInputElement
+  ): void {
+    const current = this.settings().insulinCurves[preparation];
+    const curve = { ...current, [field]: Math.round(Number(input.value)) };
+    const error = this.validateCurve(curve);
+
+    if (error) {
+      input.value = String(current[field]);
+      this.showSnackbar(error, 'error');
+      return;
+    }
+    this.store.updateCurve(preparation, curve);
+  }
+
+  /**
+   * Saves the absorption time of one carb speed after validating it
+   */
+  onAbsorptionChange(speed: AbsorptionSpeed, input: HTMLInputElement): void {
+    const minutes = Math.round(Number(input.value));
+    if (
+      input.value === '' ||
+      !Number.isFinite(minutes) ||
+      minutes < this.MIN_ABSORPTION_MINUTES ||
+      minutes > this.MAX_ABSORPTION_MINUTES
+    ) {
+      input.value = String(this.settings().absorptionMinutes[speed]);
+      this.showSnackbar(
+        $localize`:@@settings.onBoard.absorption.invalid:Absorption time must be between ${this.MIN_ABSORPTION_MINUTES}:min: and ${this.MAX_ABSORPTION_MINUTES}:max: minutes`,
+        'error'
+      );
+      return;
+    }
+    this.store.updateAbsorption(speed, minutes);
+  }
+
+  onIncludeLongActingChange(includeLongActing: boolean): void {
+    this.store.update({ includeLongActing });
+  }
+
+  onReset(): void {
+    this.store.reset();
+    this.showSnackbar(this.resetMessage, 'success');
+  }
+
+  private validateCurve(curve: InsulinActionCurve): string | null {
+    const { durationMinutes, peakMinutes } = curve;
+    if (
+      !Number.isFinite(durationMinutes) ||
+      durationMinutes < this.MIN_DURATION_MINUTES ||
+      durationMinutes > this.MAX_DURATION_MINUTES
+    ) {
+      return $localize`:@@settings.onBoard.duration.invalid:Duration must be between ${this.MIN_DURATION_MINUTES}:min: and ${this.MAX_DURATION_MINUTES}:max: minutes`;
+    }
+    if (!Number.isFinite(peakMinutes) || peakMinutes < 10 || peakMinutes >= durationMinutes / 2) {
+      return $localize`:@@settings.onBoard.peak.invalid:Peak must be at least 10 minutes and less than half the duration`;
+    }
+    return null;
+  }
+
+  /**
+   * Shows a snackbar notification
+   */
+  private showSnackbar(message: string, type: 'success' | 'error'): void {
+    this.snackBar.open(message, $localize`:@@common.close:Close`, {
+      duration: type === 'success' ? 3000 : 5000,
+      horizontalPosition: 'end',
+      verticalPosition: 'bottom',
+      panelClass: type === 'success' ? 'snackbar-success' : 'snackbar-error'
+    });
+  }
+}
@@ -5,6 +5,8 @@ import { SettingsSectionNavComponent } from './settings-section-nav.component';
 import { AccountPreferencesSectionComponent } from './account-preferences-section.component';
 import { DataSourcesSectionComponent } from './data-sources-section.component';
 import { DisplaySettingsSectionComponent } from './display-settings-section.component';
+import { AlertSettingsSectionComponent } from './alert-settings-section.component';
+import { EventPresetsSectionComponent } from './event-presets-section.component';
 import { SystemInfoSectionComponent } from './system-info-section.component';
 import { SettingsRouteKey } from '../../core/models/settings.types';
 
@@ -21,6 +23,8 @@ import { SettingsRouteKey } from '../../core/models/settings.types';
     AccountPreferencesSectionComponent,
     DataSourcesSectionComponent,
     DisplaySettingsSectionComponent,
+    AlertSettingsSectionComponent,
+    EventPresetsSectionComponent,
     SystemInfoSectionComponent
   ],
   templateUrl: './settings-page.component.html',
@@ -71,6 +75,6 @@ export class SettingsPageComponent implements OnInit {
    * Validates if a path is a valid settings section
    */
   private isValidSection(path: string): path is SettingsRouteKey {
-    return ['account', 'data-sources', 'display', 'system'].includes(path);
+    return ['account', 'data-sources', 'display', 'alerts', 'presets', 'system'].includes(path);
   }
 }
@@ -39,6 +39,16 @@ export class SettingsSectionNavComponent {
       label: $localize`:@@settings.nav.display:Display`,
       icon: '🎨'
     },
+    {
+      key: 'alerts',
+      label: $localize`:@@settings.nav.alerts:Alerts`,
+      icon: '🔔'
+    },
+    {
+      key: 'presets',
+      label: $localize`:@@settings.nav.presets:Quick-log Presets`,
+      icon: '⚡'
+    },
     {
       key: 'system',
       label: $localize`:@@settings.nav.system:System`,
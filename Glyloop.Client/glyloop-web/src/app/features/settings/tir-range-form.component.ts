@@ -5,10 +5,18 @@ import { MatButtonModule } from '@angular/material/button';
 import { MatFormFieldModule } from '@angular/material/form-field';
 import { MatInputModule } from '@angular/material/input';
 import { AccountPreferencesVM, UpdatePreferencesRequestDto, ValidationErrors } from '../../core/models/settings.types';
+import {
+  formatGlucose,
+  formatGlucoseRange,
+  fromDisplayGlucose,
+  glucoseDecimals,
+  toDisplayGlucose
+} from '../../core/utils/glucose-units';
 
 /**
  * TIR Range Form component
- * Numeric inputs and optional dual-range slider with inline errors and helper text
+ * Numeric inputs and optional dual-range slider with inline errors and helper text.
+ * Inputs are edited in the user's display unit and saved in mg/dL.
  */
 @Component({
   selector: 'app-tir-range-form',
@@ -22,24 +30,50 @@ export class TirRangeFormComponent implements OnInit {
   readonly save = output<UpdatePreferencesRequestDto>();
   readonly cancelAction = output<void>();
 
+  // Thresholds in the display unit
+  readonly localVeryLow = signal<number>(54);
   readonly localLower = signal<number>(70);
   readonly localUpper = signal<number>(180);
+  readonly localVeryHigh = signal<number>(250);
   readonly errors = signal<ValidationErrors>({});
 
+  readonly unit = computed(() => this.value().unit);
+  readonly inputStep = computed(() => (glucoseDecimals(this.unit()) > 0 ? 0.1 : 1));
+  readonly inputMax = computed(() => toDisplayGlucose(this.MAX_BOUND_MGDL, this.unit()));
+
+  readonly helperText = computed(() => {
+    const unit = this.unit();
+    const recommended = formatGlucoseRange(70, 180, unit);
+    const veryLow = formatGlucose(54, unit);
+    const veryHigh = formatGlucose(250, unit);
+    const max = formatGlucose(this.MAX_BOUND_MGDL, unit);
+    return $localize`:@@settings.tir.helperText:Recommended range: ${recommended}:recommended:, very low below ${veryLow}:veryLow:, very high above ${veryHigh}:veryHigh:. Values must be between 0 and ${max}:max: and increase from very low to very high.`;
+  });
+
   readonly isDirty = computed(() => {
     const v = this.value();
-    return this.localLower() !== v.initialLower || this.localUpper() !== v.initialUpper;
+    return (
+      fromDisplayGlucose(this.localVeryLow(), v.unit) !== v.initialVeryLow ||
+      fromDisplayGlucose(this.localLower(), v.unit) !== v.initialLower ||
+      fromDisplayGlucose(this.localUpper(), v.unit) !== v.initialUpper ||
+      fromDisplayGlucose(this.localVeryHigh(), v.unit) !== v.initialVeryHigh
+    );
   });
 
   readonly isValid = computed(() => {
     const errs = this.errors();
-    return !errs.lower && !errs.upper && !errs.cross;
+    return !errs.veryLow && !errs.lower && !errs.upper && !errs.veryHigh && !errs.cross;
   });
 
+  // API limit for every threshold
+  private readonly MAX_BOUND_MGDL = 1000;
+
   ngOnInit(): void {
     const v = this.value();
-    this.localLower.set(v.lower);
-    this.localUpper.set(v.upper);
+    this.localVeryLow.set(toDisplayGlucose(v.veryLow, v.unit));
+    this.localLower.set(toDisplayGlucose(v.lower, v.unit));
+    this.localUpper.set(toDisplayGlucose(v.upper, v.unit));
+    this.localVeryHigh.set(toDisplayGlucose(v.veryHigh, v.unit));
   }
 
   onValueChange(): void {
@@ -51,23 +85,41 @@ export class TirRangeFormComponent implements OnInit {
   }
 
   validate(): void {
-    const lower = this.localLower();
-    const upper = this.localUpper();
+    const unit = this.unit();
+    const veryLow = fromDisplayGlucose(this.localVeryLow(), unit);
+    const lower = fromDisplayGlucose(this.localLower(), unit);
+    const upper = fromDisplayGlucose(this.localUpper(), unit);
+    const veryHigh = fromDisplayGlucose(this.localVeryHigh(), unit);
+    const max = formatGlucose(this.MAX_BOUND_MGDL, unit);
     const newErrors: ValidationErrors = {};
 
+    // Validate very low threshold
+    if (veryLow < 0 || veryLow > this.MAX_BOUND_MGDL) {
+      newErrors.veryLow = $localize`:@@settings.tir.error.veryLowOutOfRange:Very low threshold must be between 0 and ${max}:max:`;
+    }
+
     // Validate lower bound
-    if (lower < 0 || lower > 1000) {
-      newErrors.lower = $localize`:@@settings.tir.error.lowerOutOfRange:Lower bound must be between 0 and 1000 mg/dL`;
+    if (lower < 0 || lower > this.MAX_BOUND_MGDL) {
+      newErrors.lower = $localize`:@@settings.tir.error.lowerOutOfRange:Lower bound must be between 0 and ${max}:max:`;
     }
 
     // Validate upper bound
-    if (upper < 0 || upper > 1000) {
-      newErrors.upper = $localize`:@@settings.tir.error.upperOutOfRange:Upper bound must be between 0 and 1000 mg/dL`;
+    if (upper < 0 || upper > this.MAX_BOUND_MGDL) {
+      newErrors.upper = $localize`:@@settings.tir.error.upperOutOfRange:Upper bound must be between 0 and ${max}:max:`;
+    }
+
+    // Validate very high threshold
+    if (veryHigh < 0 || veryHigh > this.MAX_BOUND_MGDL) {
+      newErrors.veryHigh = $localize`:@@settings.tir.error.veryHighOutOfRange:Very high threshold must be between 0 and ${max}:max:`;
     }
 
     // Cross-field validation
     if (lower >= upper) {
       newErrors.cross = $localize`:@@settings.tir.error.lowerGreaterThanUpper:Lower bound must be less than upper bound`;
+    } else if (veryLow >= lower) {
+      newErrors.cross = $localize`:@@settings.tir.error.veryLowNotBelowLower:Very low threshold must be less than lower bound`;
+    } else if (upper >= veryHigh) {
+      newErrors.cross = $localize`:@@settings.tir.error.veryHighNotAboveUpper:Very high threshold must be greater than upper bound`;
     }
 
     this.errors.set(newErrors);
@@ -77,16 +129,20 @@ export class TirRangeFormComponent implements OnInit {
     this.validate();
     if (this.isValid() && this.isDirty()) {
       this.save.emit({
-        tirLowerBound: this.localLower(),
-        tirUpperBound: this.localUpper()
+        tirLowerBound: fromDisplayGlucose(this.localLower(), this.unit()),
+        tirUpperBound: fromDisplayGlucose(this.localUpper(), this.unit()),
+        tirVeryLowBound: fromDisplayGlucose(this.localVeryLow(), this.unit()),
+        tirVeryHighBound: fromDisplayGlucose(this.localVeryHigh(), this.unit())
       });
     }
   }
 
   onCancel(): void {
     const v = this.value();
-    this.localLower.set(v.initialLower);
-    this.localUpper.set(v.initialUpper);
+    this.localVeryLow.set(toDisplayGlucose(v.initialVeryLow, v.unit));
+    this.localLower.set(toDisplayGlucose(v.initialLower, v.unit));
+    this.localUpper.set(toDisplayGlucose(v.initialUpper, v.unit));
+    this.localVeryHigh.set(toDisplayGlucose(v.initialVeryHigh, v.unit));
     this.errors.set({});
     this.cancelAction.emit();
   }